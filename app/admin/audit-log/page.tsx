@@ -0,0 +1,270 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import { formatINR } from '@/lib/utils/money'
+import { fetchAuditLog } from '@/lib/audit/client'
+import {
+  AUDIT_ENTITY_LABELS,
+  AUDIT_ENTITY_TYPES,
+  type AuditAction,
+  type AuditEntityType,
+  type AuditEntry,
+} from '@/lib/audit/types'
+
+const actionColors: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  refund: 'bg-orange-100 text-orange-800',
+}
+
+/**
+ * A before/after value as text; amounts in paise are shown in rupees
+ */
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (field.endsWith('_cents') && typeof value === 'number') return formatINR(value / 100)
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function AuditDiff({ entry }: { entry: AuditEntry }) {
+  const fields = Array.from(new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})]))
+
+  if (fields.length === 0) return null
+
+  return (
+    <div className="mt-3 overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead className="text-left text-gray-500">
+          <tr>
+            <th className="py-1 pr-4 font-semibold">Field</th>
+            <th className="py-1 pr-4 font-semibold">Before</th>
+            <th className="py-1 font-semibold">After</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {fields.map((field) => (
+            <tr key={field} className="align-top">
+              <td className="py-1 pr-4 font-mono text-gray-700">{field}</td>
+              <td className="py-1 pr-4 text-red-700 break-all">{formatValue(field, entry.before?.[field])}</td>
+              <td className="py-1 text-green-700 break-all">{formatValue(field, entry.after?.[field])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default function AdminAuditLogPage() {
+  const router = useRouter()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canViewAuditLog = can('view_audit_log')
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('')
+  const [entityIdInput, setEntityIdInput] = useState('')
+  const [actorInput, setActorInput] = useState('')
+  const [filters, setFilters] = useState({ entity_id: '', actor: '' })
+  const [loading, setLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const result = await fetchAuditLog({ entity_type: entityType || undefined, ...filters })
+      setEntries(result.entries)
+      setHasMore(result.hasMore)
+    } catch (err) {
+      console.error('[Admin Audit Log] Error fetching entries:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load audit log')
+    } finally {
+      setLoading(false)
+    }
+  }, [entityType, filters])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!canViewAuditLog) {
+      router.push('/admin')
+      return
+    }
+
+    fetchEntries()
+  }, [canViewAuditLog, isAdminLoading, router, fetchEntries])
+
+  // Filter as the admin types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const next = { entity_id: entityIdInput.trim(), actor: actorInput.trim() }
+      setFilters((prev) => (prev.entity_id === next.entity_id && prev.actor === next.actor ? prev : next))
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [entityIdInput, actorInput])
+
+  const loadMore = async () => {
+    const last = entries[entries.length - 1]
+    if (!last) return
+
+    try {
+      setIsLoadingMore(true)
+      const result = await fetchAuditLog({ entity_type: entityType || undefined, ...filters, before: last.created_at })
+      setEntries((prev) => [...prev, ...result.entries])
+      setHasMore(result.hasMore)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log')
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  const showEntity = (entry: AuditEntry) => {
+    setEntityType(entry.entity_type)
+    setEntityIdInput(entry.entity_id)
+  }
+
+  const hasActiveFilters = !!(entityType || entityIdInput || actorInput)
+
+  if (isAdminLoading) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading audit log...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canViewAuditLog) {
+    return null
+  }
+
+  const filterInputClass =
+    'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600 mt-2">
+            Changes staff make to the catalogue, orders, refunds, shipments, returns, coupons and staff roles, with
+            who made them and what they were before. Store settings changes are not recorded. Entries can&apos;t be
+            edited or deleted.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-gray-200 p-4 mb-4 flex flex-wrap items-center gap-3">
+          <select
+            value={entityType}
+            onChange={(e) => setEntityType(e.target.value as AuditEntityType | '')}
+            aria-label="Entity"
+            className={filterInputClass}
+          >
+            <option value="">Everything</option>
+            {AUDIT_ENTITY_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {AUDIT_ENTITY_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="search"
+            value={entityIdInput}
+            onChange={(e) => setEntityIdInput(e.target.value)}
+            placeholder="Entity ID"
+            aria-label="Entity ID"
+            className={`${filterInputClass} w-full md:w-80 font-mono`}
+          />
+          <input
+            type="search"
+            value={actorInput}
+            onChange={(e) => setActorInput(e.target.value)}
+            placeholder="Changed by (email)"
+            aria-label="Changed by"
+            className={`${filterInputClass} w-full md:w-64`}
+          />
+          {hasActiveFilters && (
+            <button
+              onClick={() => {
+                setEntityType('')
+                setEntityIdInput('')
+                setActorInput('')
+              }}
+              className="text-sm text-gray-600 hover:text-gray-900 underline"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button onClick={fetchEntries} className="mt-2 text-sm text-red-700 hover:text-red-900 underline">
+              Try again
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-600 text-center py-12">Loading entries...</p>
+        ) : entries.length === 0 && !error ? (
+          <div className="bg-white rounded-2xl border border-gray-200 p-8 text-center text-gray-600">
+            {hasActiveFilters ? 'No matching changes' : 'No changes recorded yet'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <div
+                key={entry.id}
+                className="bg-white rounded-2xl border border-gray-200 p-4 md:p-5 shadow-[0_4px_12px_rgba(0,0,0,0.08)]"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                      actionColors[entry.action] || 'bg-gray-100 text-gray-800'
+                    }`}
+                  >
+                    {entry.action}
+                  </span>
+                  <span className="text-sm text-gray-500">{AUDIT_ENTITY_LABELS[entry.entity_type] || entry.entity_type}</span>
+                  <button
+                    onClick={() => showEntity(entry)}
+                    title="Show every change to this"
+                    className="font-semibold text-gray-900 hover:underline text-left"
+                  >
+                    {entry.entity_label || entry.entity_id}
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-1 break-all">
+                  {new Date(entry.created_at).toLocaleString('en-IN')} · {entry.actor_email || 'System'} ·{' '}
+                  <span className="font-mono">{entry.entity_id}</span>
+                </p>
+                <AuditDiff entry={entry} />
+              </div>
+            ))}
+            {hasMore && (
+              <div className="flex justify-center pt-2">
+                <button
+                  onClick={loadMore}
+                  disabled={isLoadingMore}
+                  className="px-6 py-2 bg-gray-900 text-white rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
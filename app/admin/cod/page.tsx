@@ -0,0 +1,256 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import { adminFetch } from '@/lib/auth/adminFetch'
+import type { CodSettings } from '@/lib/cod/types'
+import Toast from '@/components/ui/Toast'
+
+interface CodForm {
+  is_enabled: boolean
+  fee: string // rupees
+  max_order: string // rupees, blank = no limit
+  blocked_pincodes: string // comma separated
+  block_rto_customers: boolean
+  max_rto_count: string
+}
+
+const toForm = (settings: CodSettings): CodForm => ({
+  is_enabled: settings.is_enabled,
+  fee: String(settings.fee_cents / 100),
+  max_order: settings.max_order_cents !== null ? String(settings.max_order_cents / 100) : '',
+  blocked_pincodes: settings.blocked_pincodes.join(', '),
+  block_rto_customers: settings.block_rto_customers,
+  max_rto_count: String(settings.max_rto_count),
+})
+
+export default function AdminCodPage() {
+  const router = useRouter()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canManageSettings = can('manage_settings')
+  const [form, setForm] = useState<CodForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await adminFetch('/api/admin/cod-settings')
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to fetch COD settings')
+      }
+
+      setForm(toForm(data.settings))
+    } catch (err) {
+      console.error('[Admin COD] Error fetching settings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load COD settings')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!canManageSettings) {
+      router.push('/admin')
+      return
+    }
+
+    fetchSettings()
+  }, [canManageSettings, isAdminLoading, router, fetchSettings])
+
+  const updateForm = <K extends keyof CodForm>(field: K, value: CodForm[K]) => {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev))
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!form) return
+
+    const payload = {
+      is_enabled: form.is_enabled,
+      fee_cents: Math.round((Number(form.fee) || 0) * 100),
+      max_order_cents: form.max_order.trim() === '' ? null : Math.round(Number(form.max_order) * 100),
+      blocked_pincodes: form.blocked_pincodes
+        .split(',')
+        .map((pincode) => pincode.trim())
+        .filter(Boolean),
+      block_rto_customers: form.block_rto_customers,
+      max_rto_count: Math.round(Number(form.max_rto_count) || 1),
+    }
+
+    try {
+      setIsSaving(true)
+      const response = await adminFetch('/api/admin/cod-settings', {
+        method: 'PUT',
+        body: JSON.stringify(payload),
+      })
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to save COD settings')
+      }
+
+      setForm(toForm(data.settings))
+      setToast({ message: 'COD settings saved', type: 'success' })
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to save COD settings', type: 'error' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isAdminLoading || (loading && !form && !error)) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading COD settings...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canManageSettings) {
+    return null
+  }
+
+  const inputClass =
+    'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+  const labelClass = 'text-sm font-semibold text-gray-700'
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          isVisible={!!toast}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Cash on Delivery</h1>
+          <p className="text-gray-600 mt-2">
+            Customers confirm their mobile number with an OTP before placing a COD order. Orders are marked paid
+            when you set them to Delivered; use Mark RTO on the orders page when a parcel is refused.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchSettings}
+              className="mt-2 text-sm text-red-700 hover:text-red-900 underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {form && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-2xl border border-gray-200 p-6 shadow-[0_4px_12px_rgba(0,0,0,0.08)] space-y-4"
+          >
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_enabled}
+                onChange={(e) => updateForm('is_enabled', e.target.checked)}
+              />
+              Offer Cash on Delivery at checkout
+            </label>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="fee" className={labelClass}>COD fee (₹)</label>
+                <input
+                  id="fee"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.fee}
+                  onChange={(e) => updateForm('fee', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="max_order" className={labelClass}>Maximum order value (₹)</label>
+                <input
+                  id="max_order"
+                  type="number"
+                  min={1}
+                  step="0.01"
+                  value={form.max_order}
+                  onChange={(e) => updateForm('max_order', e.target.value)}
+                  placeholder="No limit"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="blocked_pincodes" className={labelClass}>Blocked PIN codes</label>
+              <input
+                id="blocked_pincodes"
+                value={form.blocked_pincodes}
+                onChange={(e) => updateForm('blocked_pincodes', e.target.value)}
+                placeholder="e.g. 110001, 7911"
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Comma separated. Full PIN codes or prefixes where couriers don&apos;t collect cash.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:items-end">
+              <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.block_rto_customers}
+                  onChange={(e) => updateForm('block_rto_customers', e.target.checked)}
+                />
+                Block customers with refused COD parcels
+              </label>
+              <div>
+                <label htmlFor="max_rto_count" className={labelClass}>Refusals before blocking</label>
+                <input
+                  id="max_rto_count"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={form.max_rto_count}
+                  onChange={(e) => updateForm('max_rto_count', e.target.value)}
+                  disabled={!form.block_rto_customers}
+                  className={`${inputClass} disabled:bg-gray-50`}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-6 py-2 bg-gray-900 text-white rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Save Settings'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,605 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { motion } from 'framer-motion'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import { adminFetch } from '@/lib/auth/adminFetch'
+import { formatINR } from '@/lib/utils/money'
+import { fetchCategories, type Category } from '@/lib/supabase/categories'
+import { COUPON_TYPE_LABELS, type Coupon, type CouponDiscountType } from '@/lib/coupons/types'
+import Toast from '@/components/ui/Toast'
+
+type AdminCoupon = Coupon & { times_used: number }
+
+interface CouponForm {
+  code: string
+  description: string
+  discount_type: CouponDiscountType
+  discount_value: string // percent, or rupees for flat
+  max_discount: string // rupees
+  buy_quantity: string
+  get_quantity: string
+  category_ids: string[]
+  min_cart: string // rupees
+  usage_limit: string
+  per_customer_limit: string
+  starts_at: string // datetime-local
+  ends_at: string // datetime-local
+  is_active: boolean
+}
+
+const emptyForm: CouponForm = {
+  code: '',
+  description: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  max_discount: '',
+  buy_quantity: '',
+  get_quantity: '',
+  category_ids: [],
+  min_cart: '',
+  usage_limit: '',
+  per_customer_limit: '',
+  starts_at: '',
+  ends_at: '',
+  is_active: true,
+}
+
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return ''
+  const date = new Date(iso)
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+const optionalInt = (value: string) => (value.trim() === '' ? null : Math.round(Number(value)))
+const optionalPaise = (value: string) => (value.trim() === '' ? null : Math.round(Number(value) * 100))
+
+function describeCoupon(coupon: Coupon) {
+  switch (coupon.discount_type) {
+    case 'percentage':
+      return `${coupon.discount_value}% off${
+        coupon.max_discount_cents !== null ? ` (up to ${formatINR(coupon.max_discount_cents / 100)})` : ''
+      }`
+    case 'flat':
+      return `${formatINR(coupon.discount_value / 100)} off`
+    case 'free_shipping':
+      return 'Free shipping'
+    case 'buy_x_get_y':
+      return `Buy ${coupon.buy_quantity} get ${coupon.get_quantity} free`
+    default:
+      return coupon.discount_type
+  }
+}
+
+export default function AdminCouponsPage() {
+  const router = useRouter()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canManageSettings = can('manage_settings')
+  const [coupons, setCoupons] = useState<AdminCoupon[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState<CouponForm>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [busyCouponId, setBusyCouponId] = useState<string | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+
+  const fetchCoupons = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await adminFetch('/api/admin/coupons')
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to fetch coupons')
+      }
+
+      setCoupons(data.coupons || [])
+    } catch (err) {
+      console.error('[Admin Coupons] Error fetching coupons:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load coupons')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!canManageSettings) {
+      router.push('/admin')
+      return
+    }
+
+    fetchCoupons()
+    fetchCategories().then(setCategories)
+  }, [canManageSettings, isAdminLoading, router, fetchCoupons])
+
+  const updateForm = <K extends keyof CouponForm>(field: K, value: CouponForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const toggleCategory = (categoryId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      category_ids: prev.category_ids.includes(categoryId)
+        ? prev.category_ids.filter((id) => id !== categoryId)
+        : [...prev.category_ids, categoryId],
+    }))
+  }
+
+  const handleEdit = (coupon: AdminCoupon) => {
+    setEditingId(coupon.id)
+    setForm({
+      code: coupon.code,
+      description: coupon.description || '',
+      discount_type: coupon.discount_type,
+      discount_value:
+        coupon.discount_type === 'flat'
+          ? String(coupon.discount_value / 100)
+          : coupon.discount_type === 'percentage'
+            ? String(coupon.discount_value)
+            : '',
+      max_discount: coupon.max_discount_cents !== null ? String(coupon.max_discount_cents / 100) : '',
+      buy_quantity: coupon.buy_quantity !== null ? String(coupon.buy_quantity) : '',
+      get_quantity: coupon.get_quantity !== null ? String(coupon.get_quantity) : '',
+      category_ids: coupon.category_ids || [],
+      min_cart: coupon.min_cart_cents ? String(coupon.min_cart_cents / 100) : '',
+      usage_limit: coupon.usage_limit !== null ? String(coupon.usage_limit) : '',
+      per_customer_limit: coupon.per_customer_limit !== null ? String(coupon.per_customer_limit) : '',
+      starts_at: toLocalInput(coupon.starts_at),
+      ends_at: toLocalInput(coupon.ends_at),
+      is_active: coupon.is_active,
+    })
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    const payload = {
+      code: form.code,
+      description: form.description.trim() || null,
+      discount_type: form.discount_type,
+      discount_value:
+        form.discount_type === 'flat'
+          ? optionalPaise(form.discount_value) ?? 0
+          : form.discount_type === 'percentage'
+            ? optionalInt(form.discount_value) ?? 0
+            : 0,
+      max_discount_cents: form.discount_type === 'percentage' ? optionalPaise(form.max_discount) : null,
+      buy_quantity: form.discount_type === 'buy_x_get_y' ? optionalInt(form.buy_quantity) : null,
+      get_quantity: form.discount_type === 'buy_x_get_y' ? optionalInt(form.get_quantity) : null,
+      category_ids: form.category_ids,
+      min_cart_cents: optionalPaise(form.min_cart) ?? 0,
+      usage_limit: optionalInt(form.usage_limit),
+      per_customer_limit: optionalInt(form.per_customer_limit),
+      starts_at: form.starts_at ? new Date(form.starts_at).toISOString() : null,
+      ends_at: form.ends_at ? new Date(form.ends_at).toISOString() : null,
+      is_active: form.is_active,
+    }
+
+    try {
+      setIsSaving(true)
+      const response = await adminFetch(editingId ? `/api/admin/coupons/${editingId}` : '/api/admin/coupons', {
+        method: editingId ? 'PUT' : 'POST',
+        body: JSON.stringify(payload),
+      })
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to save coupon')
+      }
+
+      setToast({ message: editingId ? 'Coupon updated' : `Coupon ${data.coupon.code} created`, type: 'success' })
+      resetForm()
+      fetchCoupons()
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to save coupon', type: 'error' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (coupon: AdminCoupon) => {
+    try {
+      setBusyCouponId(coupon.id)
+      const response = await adminFetch(`/api/admin/coupons/${coupon.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ is_active: !coupon.is_active }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to update coupon')
+      }
+
+      setCoupons((prev) => prev.map((c) => (c.id === coupon.id ? { ...c, ...data.coupon } : c)))
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to update coupon', type: 'error' })
+    } finally {
+      setBusyCouponId(null)
+    }
+  }
+
+  const handleDelete = async (coupon: AdminCoupon) => {
+    if (!window.confirm(`Delete coupon ${coupon.code}? Orders that used it keep the code.`)) return
+
+    try {
+      setBusyCouponId(coupon.id)
+      const response = await adminFetch(`/api/admin/coupons/${coupon.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to delete coupon')
+      }
+
+      setCoupons((prev) => prev.filter((c) => c.id !== coupon.id))
+      if (editingId === coupon.id) resetForm()
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to delete coupon', type: 'error' })
+    } finally {
+      setBusyCouponId(null)
+    }
+  }
+
+  if (isAdminLoading || (loading && coupons.length === 0 && !error)) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading coupons...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canManageSettings) {
+    return null
+  }
+
+  const inputClass =
+    'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+  const labelClass = 'text-sm font-semibold text-gray-700'
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          isVisible={!!toast}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Coupons</h1>
+          <p className="text-gray-600 mt-2">Promo codes for campaigns. Discounts are applied at checkout.</p>
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-2xl border border-gray-200 p-6 shadow-[0_4px_12px_rgba(0,0,0,0.08)] mb-8 space-y-4"
+        >
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-900">{editingId ? `Edit ${form.code}` : 'New Coupon'}</h2>
+            {editingId && (
+              <button type="button" onClick={resetForm} className="text-sm text-gray-600 hover:text-gray-900 underline">
+                Cancel editing
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="code" className={labelClass}>Code *</label>
+              <input
+                id="code"
+                value={form.code}
+                onChange={(e) => updateForm('code', e.target.value.toUpperCase())}
+                placeholder="INSTA10"
+                className={`${inputClass} uppercase`}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="discount_type" className={labelClass}>Type *</label>
+              <select
+                id="discount_type"
+                value={form.discount_type}
+                onChange={(e) => updateForm('discount_type', e.target.value as CouponDiscountType)}
+                className={inputClass}
+              >
+                {(Object.keys(COUPON_TYPE_LABELS) as CouponDiscountType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {COUPON_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="description" className={labelClass}>Description</label>
+              <input
+                id="description"
+                value={form.description}
+                onChange={(e) => updateForm('description', e.target.value)}
+                placeholder="Shown to shoppers when applied"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {form.discount_type === 'percentage' && (
+              <>
+                <div>
+                  <label htmlFor="discount_value" className={labelClass}>Percent off *</label>
+                  <input
+                    id="discount_value"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={form.discount_value}
+                    onChange={(e) => updateForm('discount_value', e.target.value)}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="max_discount" className={labelClass}>Max discount (₹)</label>
+                  <input
+                    id="max_discount"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.max_discount}
+                    onChange={(e) => updateForm('max_discount', e.target.value)}
+                    placeholder="No cap"
+                    className={inputClass}
+                  />
+                </div>
+              </>
+            )}
+            {form.discount_type === 'flat' && (
+              <div>
+                <label htmlFor="discount_value" className={labelClass}>Amount off (₹) *</label>
+                <input
+                  id="discount_value"
+                  type="number"
+                  min={1}
+                  step="0.01"
+                  value={form.discount_value}
+                  onChange={(e) => updateForm('discount_value', e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            )}
+            {form.discount_type === 'buy_x_get_y' && (
+              <>
+                <div>
+                  <label htmlFor="buy_quantity" className={labelClass}>Buy quantity *</label>
+                  <input
+                    id="buy_quantity"
+                    type="number"
+                    min={1}
+                    value={form.buy_quantity}
+                    onChange={(e) => updateForm('buy_quantity', e.target.value)}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="get_quantity" className={labelClass}>Get free quantity *</label>
+                  <input
+                    id="get_quantity"
+                    type="number"
+                    min={1}
+                    value={form.get_quantity}
+                    onChange={(e) => updateForm('get_quantity', e.target.value)}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+              </>
+            )}
+            <div>
+              <label htmlFor="min_cart" className={labelClass}>Minimum cart value (₹)</label>
+              <input
+                id="min_cart"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.min_cart}
+                onChange={(e) => updateForm('min_cart', e.target.value)}
+                placeholder="None"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="usage_limit" className={labelClass}>Total uses</label>
+              <input
+                id="usage_limit"
+                type="number"
+                min={1}
+                value={form.usage_limit}
+                onChange={(e) => updateForm('usage_limit', e.target.value)}
+                placeholder="Unlimited"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="per_customer_limit" className={labelClass}>Uses per customer</label>
+              <input
+                id="per_customer_limit"
+                type="number"
+                min={1}
+                value={form.per_customer_limit}
+                onChange={(e) => updateForm('per_customer_limit', e.target.value)}
+                placeholder="Unlimited"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="starts_at" className={labelClass}>Valid from</label>
+              <input
+                id="starts_at"
+                type="datetime-local"
+                value={form.starts_at}
+                onChange={(e) => updateForm('starts_at', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="ends_at" className={labelClass}>Valid until</label>
+              <input
+                id="ends_at"
+                type="datetime-local"
+                value={form.ends_at}
+                onChange={(e) => updateForm('ends_at', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className={labelClass}>Applies to</p>
+            <p className="text-xs text-gray-500 mb-2">Leave everything unticked for the whole catalogue.</p>
+            <div className="flex flex-wrap gap-2">
+              {categories.map((category) => {
+                const isSelected = form.category_ids.includes(category.id)
+                return (
+                  <button
+                    key={category.id}
+                    type="button"
+                    onClick={() => toggleCategory(category.id)}
+                    className={`px-3 py-1 rounded-full border text-xs font-semibold transition-colors ${
+                      isSelected
+                        ? 'bg-primary text-white border-primary'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {category.parent_id ? '↳ ' : ''}
+                    {category.name}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 pt-2">
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_active}
+                onChange={(e) => updateForm('is_active', e.target.checked)}
+              />
+              Active
+            </label>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-6 py-2 bg-gray-900 text-white rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Coupon'}
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchCoupons}
+              className="mt-2 text-sm text-red-700 hover:text-red-900 underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {!error && coupons.length === 0 && (
+          <div className="text-center py-16 bg-white rounded-2xl border border-gray-200">
+            <p className="text-gray-600 text-lg mb-2">No coupons yet</p>
+            <p className="text-gray-500 text-sm">Create your first promo code above</p>
+          </div>
+        )}
+
+        {!error && coupons.length > 0 && (
+          <div className="space-y-3">
+            {coupons.map((coupon, index) => (
+              <motion.div
+                key={coupon.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3, delay: index * 0.05 }}
+                className="bg-white rounded-2xl border border-gray-200 p-5 shadow-[0_4px_12px_rgba(0,0,0,0.08)] flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+              >
+                <div>
+                  <div className="flex items-center gap-3 mb-1">
+                    <h3 className="text-lg font-bold text-gray-900 font-mono">{coupon.code}</h3>
+                    <span
+                      className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                        coupon.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {coupon.is_active ? 'Active' : 'Inactive'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700">{describeCoupon(coupon)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Used {coupon.times_used}
+                    {coupon.usage_limit !== null ? ` / ${coupon.usage_limit}` : ''} times
+                    {coupon.per_customer_limit !== null ? ` · ${coupon.per_customer_limit} per customer` : ''}
+                    {coupon.min_cart_cents > 0 ? ` · min ${formatINR(coupon.min_cart_cents / 100)}` : ''}
+                    {coupon.category_ids.length > 0 ? ` · ${coupon.category_ids.length} categories` : ''}
+                    {coupon.ends_at ? ` · until ${new Date(coupon.ends_at).toLocaleString('en-IN')}` : ''}
+                    {coupon.customer_email ? ` · only for ${coupon.customer_email}` : ''}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleEdit(coupon)}
+                    disabled={busyCouponId === coupon.id}
+                    className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleToggleActive(coupon)}
+                    disabled={busyCouponId === coupon.id}
+                    className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {coupon.is_active ? 'Deactivate' : 'Activate'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(coupon)}
+                    disabled={busyCouponId === coupon.id}
+                    className="px-3 py-1.5 rounded-lg border border-red-200 text-sm font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,35 @@
 'use client'
 
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useRef, useState, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
 import { useIsAdmin } from '@/lib/auth/useIsAdmin'
 import { formatINR } from '@/lib/utils/money'
 import { supabase } from '@/lib/supabase/client'
+import { subscribeToOrdersRealtime } from '@/lib/supabase/orders'
+import { downloadInvoice } from '@/lib/invoices/client'
+import { adminFetch } from '@/lib/auth/adminFetch'
+import { TRACKING_STATUS_LABELS, type TrackingStatus } from '@/lib/couriers/types'
+import { ORDER_STATUSES, ORDER_STATUS_LABELS, getNextStatuses, isOrderStatus } from '@/lib/orders/lifecycle'
+import RefundModal from '@/components/admin/RefundModal'
+import Toast from '@/components/ui/Toast'
+import BulkResultsModal from '@/components/admin/BulkResultsModal'
+import BulkTrackingModal from '@/components/admin/BulkTrackingModal'
+import TrackingImportModal from '@/components/admin/TrackingImportModal'
+import { MAX_PACKING_BATCH, PACKABLE_STATUSES } from '@/lib/packing/types'
+import { bulkUpdateOrders, type BulkOrderResponse } from '@/lib/orders/client'
+import {
+  DEFAULT_ORDER_PAGE_SIZE,
+  MAX_BULK_ORDERS,
+  MAX_ORDER_PAGE_SIZE,
+  ORDER_PAYMENT_METHOD_LABELS,
+  ORDER_PAYMENT_STATUS_LABELS,
+  ORDER_SORT_LABELS,
+  buildOrderFilterQuery,
+  type AdminOrderFilters,
+  type BulkOrderResult,
+  type OrderSort,
+} from '@/lib/orders/types'
 
 interface OrderItem {
   id: string
@@ -37,9 +61,11 @@ interface Order {
   items_json: OrderItem[]
   subtotal_cents: number
   shipping_cents: number
+  cod_fee_cents: number | null
   tax_cents: number
   discount_cents: number
   total_cents: number
+  refunded_cents: number | null
   payment_method: string | null
   payment_status: string
   payment_id: string | null
@@ -52,23 +78,18 @@ interface Order {
   }>
   tracking_number: string | null
   shipping_provider: string | null
+  courier_id: string | null
+  tracking_status: TrackingStatus | null
   shipped_at: string | null
   delivered_at: string | null
   customer_notes: string | null
   admin_notes: string | null
+  invoice_number: string | null
+  rto_at: string | null
   created_at: string
   updated_at: string
 }
 
-const statusOptions = [
-  { value: 'pending', label: 'Pending' },
-  { value: 'confirmed', label: 'Confirmed' },
-  { value: 'processing', label: 'Processing' },
-  { value: 'shipped', label: 'Shipped' },
-  { value: 'delivered', label: 'Delivered' },
-  { value: 'cancelled', label: 'Cancelled' },
-]
-
 const statusColors: Record<string, string> = {
   pending: 'bg-yellow-100 text-yellow-800',
   confirmed: 'bg-blue-100 text-blue-800',
@@ -76,27 +97,60 @@ const statusColors: Record<string, string> = {
   shipped: 'bg-indigo-100 text-indigo-800',
   delivered: 'bg-green-100 text-green-800',
   cancelled: 'bg-red-100 text-red-800',
+  returned: 'bg-orange-100 text-orange-800',
 }
 
 const paymentStatusColors: Record<string, string> = {
   pending: 'bg-yellow-100 text-yellow-800',
   paid: 'bg-green-100 text-green-800',
   failed: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-800',
+  partially_refunded: 'bg-orange-100 text-orange-800',
   refunded: 'bg-gray-100 text-gray-800',
 }
 
+const formatPaymentStatus = (status: string) =>
+  status.charAt(0).toUpperCase() + status.slice(1).replace(/_/g, ' ')
+
 export default function AdminOrdersPage() {
   const router = useRouter()
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const { isAdmin, isLoading: isAdminLoading, can } = useIsAdmin()
+  const canUpdateStatus = can('update_order_status')
+  const canIssueRefunds = can('issue_refunds')
+  const canViewPii = can('view_customer_pii')
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null)
   const [updateError, setUpdateError] = useState<string | null>(null)
+  const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null)
+  const [downloadingLabelId, setDownloadingLabelId] = useState<string | null>(null)
+  const [refundOrder, setRefundOrder] = useState<Order | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [markProcessingOnPrint, setMarkProcessingOnPrint] = useState(true)
+  const [isPrintingSlips, setIsPrintingSlips] = useState(false)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+
+  const [filters, setFilters] = useState<AdminOrderFilters>({ sort: 'newest' })
+  const [searchInput, setSearchInput] = useState('')
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [totalOrders, setTotalOrders] = useState<number | null>(null)
+  const [hasLoaded, setHasLoaded] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [bulkStatus, setBulkStatus] = useState('')
+  const [isBulkUpdating, setIsBulkUpdating] = useState(false)
+  const [trackingOrders, setTrackingOrders] = useState<Order[] | null>(null)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [bulkResults, setBulkResults] = useState<{ title: string; results: BulkOrderResult[]; skipped: number } | null>(null)
+  const loadedCount = useRef(0)
 
-  const fetchOrders = useCallback(async () => {
+  const [cancelNotice, setCancelNotice] = useState<string | null>(null)
+  const knownStatuses = useRef<Map<string, string>>(new Map())
+
+  const fetchOrders = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
     try {
-      setLoading(true)
+      if (!silent) setLoading(true)
       setError(null)
 
       // Get access token from Supabase client to send with request
@@ -112,7 +166,12 @@ export default function AdminOrdersPage() {
         headers['Authorization'] = `Bearer ${accessToken}`
       }
 
-      const response = await fetch('/api/admin/orders', {
+      // Background refreshes reload everything already on screen, not just the first page
+      const limit = silent
+        ? Math.min(Math.max(loadedCount.current, DEFAULT_ORDER_PAGE_SIZE), MAX_ORDER_PAGE_SIZE)
+        : DEFAULT_ORDER_PAGE_SIZE
+
+      const response = await fetch(`/api/admin/orders?${buildOrderFilterQuery(filters, { limit })}`, {
         headers,
       })
 
@@ -127,14 +186,123 @@ export default function AdminOrdersPage() {
         throw new Error(data.error)
       }
       
-      setOrders(data.orders || [])
+      const fetchedOrders: Order[] = data.orders || []
+
+      // Point out orders that were cancelled since the last load (e.g. by the customer)
+      if (knownStatuses.current.size > 0) {
+        const newlyCancelled = fetchedOrders.filter(
+          (order) =>
+            order.status === 'cancelled' &&
+            knownStatuses.current.has(order.id) &&
+            knownStatuses.current.get(order.id) !== 'cancelled'
+        )
+        if (newlyCancelled.length > 0) {
+          setCancelNotice(
+            `${newlyCancelled.map((order) => `#${order.order_number}`).join(', ')} ${
+              newlyCancelled.length === 1 ? 'was' : 'were'
+            } just cancelled`
+          )
+        }
+      }
+      knownStatuses.current = new Map(fetchedOrders.map((order) => [order.id, order.status]))
+
+      setOrders(fetchedOrders)
+      setNextCursor(data.next_cursor || null)
+      setTotalOrders(typeof data.total === 'number' ? data.total : null)
     } catch (err) {
       console.error('[Admin Orders] Error fetching orders:', err)
       setError(err instanceof Error ? err.message : 'Failed to load orders')
     } finally {
       setLoading(false)
+      setHasLoaded(true)
+    }
+  }, [filters])
+
+  const loadMoreOrders = async () => {
+    if (!nextCursor) return
+
+    try {
+      setIsLoadingMore(true)
+      setError(null)
+      const response = await adminFetch(
+        `/api/admin/orders?${buildOrderFilterQuery(filters, { cursor: nextCursor, limit: DEFAULT_ORDER_PAGE_SIZE })}`
+      )
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to load more orders')
+      }
+
+      const moreOrders: Order[] = data.orders || []
+      moreOrders.forEach((order) => knownStatuses.current.set(order.id, order.status))
+      setOrders((prevOrders) => [
+        ...prevOrders,
+        ...moreOrders.filter((order) => !prevOrders.some((existing) => existing.id === order.id)),
+      ])
+      setNextCursor(data.next_cursor || null)
+    } catch (err) {
+      console.error('[Admin Orders] Error loading more orders:', err)
+      setUpdateError(err instanceof Error ? err.message : 'Failed to load more orders')
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  const handleExportCsv = async (exportFilters: AdminOrderFilters = filters) => {
+    try {
+      setIsExporting(true)
+      setUpdateError(null)
+      const response = await adminFetch(`/api/admin/orders/export?${buildOrderFilterQuery(exportFilters)}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to export orders')
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || 'orders.csv'
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileName
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(url)
+
+      if (response.headers.get('X-Export-Truncated') === 'true') {
+        setToast({ message: 'Export was cut short at the row limit. Narrow the dates to export the rest.', type: 'error' })
+      }
+    } catch (err) {
+      console.error('[Admin Orders] Error exporting orders:', err)
+      setUpdateError(err instanceof Error ? err.message : 'Failed to export orders')
+    } finally {
+      setIsExporting(false)
     }
-  }, [])
+  }
+
+  const updateFilter = (update: Partial<AdminOrderFilters>) => {
+    setFilters((prev) => ({ ...prev, ...update }))
+  }
+
+  const hasActiveFilters = !!(
+    filters.q ||
+    filters.status ||
+    filters.payment_status ||
+    filters.payment_method ||
+    filters.date_from ||
+    filters.date_to
+  )
+
+  useEffect(() => {
+    loadedCount.current = orders.length
+  }, [orders])
+
+  // Search as the admin types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((prev) => (prev.q === (searchInput.trim() || undefined) ? prev : { ...prev, q: searchInput.trim() || undefined }))
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
 
   useEffect(() => {
     if (isAdminLoading) return
@@ -148,13 +316,203 @@ export default function AdminOrdersPage() {
 
     // Auto-refresh orders every 30 seconds to get latest updates
     const refreshInterval = setInterval(() => {
-      fetchOrders()
+      fetchOrders({ silent: true })
     }, 30000) // 30 seconds
 
-    return () => clearInterval(refreshInterval)
+    // Customer cancellations, payments and refunds show up as soon as they happen
+    let realtimeTimer: ReturnType<typeof setTimeout> | null = null
+    const unsubscribe = subscribeToOrdersRealtime(() => {
+      if (realtimeTimer) clearTimeout(realtimeTimer)
+      realtimeTimer = setTimeout(() => fetchOrders({ silent: true }), 500)
+    })
+
+    return () => {
+      clearInterval(refreshInterval)
+      if (realtimeTimer) clearTimeout(realtimeTimer)
+      unsubscribe()
+    }
   }, [isAdmin, isAdminLoading, router, fetchOrders])
 
-  const handleStatusUpdate = async (orderId: string, newStatus: string) => {
+  // Drop selected orders that are no longer listed (filtered out or reloaded)
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const listed = new Set(orders.map((order) => order.id))
+      const next = prev.filter((id) => listed.has(id))
+      return next.length === prev.length ? prev : next
+    })
+  }, [orders])
+
+  const confirmedOrderIds = orders.filter((order) => order.status === 'confirmed').map((order) => order.id)
+  const selectedOrders = orders.filter((order) => selectedIds.includes(order.id))
+  const packableSelectedIds = selectedOrders
+    .filter((order) => PACKABLE_STATUSES.includes(order.status))
+    .map((order) => order.id)
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds((prev) => (prev.includes(orderId) ? prev.filter((id) => id !== orderId) : [...prev, orderId]))
+  }
+
+  const handlePrintPackingSlips = async () => {
+    if (packableSelectedIds.length === 0) return
+
+    try {
+      setIsPrintingSlips(true)
+      setUpdateError(null)
+      const response = await adminFetch('/api/admin/orders/packing-slips', {
+        method: 'POST',
+        body: JSON.stringify({
+          order_ids: packableSelectedIds,
+          mark_processing: markProcessingOnPrint && canUpdateStatus,
+        }),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to create packing slips')
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || ''
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || 'Packing-Slips.pdf'
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileName
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(url)
+
+      const processed = (response.headers.get('X-Orders-Processed') || '').split(',').filter(Boolean)
+      const notProcessed = (response.headers.get('X-Orders-Not-Processed') || '').split(',').filter(Boolean)
+      if (notProcessed.length > 0) {
+        setUpdateError(`Packing slips downloaded, but ${notProcessed.map((number) => `#${number}`).join(', ')} could not be moved to processing`)
+      } else {
+        setToast({
+          message: `Packing slips for ${packableSelectedIds.length} order${packableSelectedIds.length === 1 ? '' : 's'} downloaded${
+            processed.length > 0 ? `; ${processed.length} moved to processing` : ''
+          }`,
+          type: 'success',
+        })
+      }
+
+      setSelectedIds([])
+      if (processed.length > 0 || notProcessed.length > 0) {
+        fetchOrders({ silent: true })
+      }
+    } catch (err) {
+      console.error('[Admin Orders] Error printing packing slips:', err)
+      setUpdateError(err instanceof Error ? err.message : 'Failed to create packing slips')
+    } finally {
+      setIsPrintingSlips(false)
+    }
+  }
+
+  /**
+   * Merge the orders a bulk action updated, keep the failures selected so they
+   * can be retried, and show what went wrong
+   */
+  const handleBulkResults = (title: string, response: BulkOrderResponse) => {
+    const updated = new Map<string, Order>()
+    for (const result of response.results) {
+      if (result.ok && result.order) updated.set(result.order.id, result.order)
+    }
+    setOrders((prevOrders) => prevOrders.map((order) => updated.get(order.id) || order))
+    setSelectedIds(
+      response.results.filter((result) => !result.ok && result.order_id).map((result) => result.order_id as string)
+    )
+
+    if (response.failed === 0 && !response.skipped) {
+      setToast({ message: `${response.succeeded} order${response.succeeded === 1 ? '' : 's'} updated`, type: 'success' })
+    } else {
+      setBulkResults({ title, results: response.results, skipped: response.skipped || 0 })
+    }
+  }
+
+  const handleBulkStatus = async () => {
+    if (!bulkStatus || selectedIds.length === 0) return
+
+    const label = isOrderStatus(bulkStatus) ? ORDER_STATUS_LABELS[bulkStatus] : bulkStatus
+    const count = `${selectedIds.length} order${selectedIds.length === 1 ? '' : 's'}`
+    if (bulkStatus === 'cancelled') {
+      if (!window.confirm(`Cancel ${count}? Stock is restored for each one and this cannot be undone.`)) return
+    } else if (!window.confirm(`Mark ${count} as ${label}?`)) {
+      return
+    }
+
+    try {
+      setIsBulkUpdating(true)
+      setUpdateError(null)
+      const response = await bulkUpdateOrders(selectedIds.map((id) => ({ order_id: id, status: bulkStatus })))
+      handleBulkResults(`Mark as ${label}`, response)
+      setBulkStatus('')
+    } catch (err) {
+      console.error('[Admin Orders] Error updating orders in bulk:', err)
+      setUpdateError(err instanceof Error ? err.message : 'Failed to update orders')
+    } finally {
+      setIsBulkUpdating(false)
+    }
+  }
+
+  const handleBulkNote = async () => {
+    if (selectedIds.length === 0) return
+
+    const note = window.prompt(`Note to add to ${selectedIds.length} order${selectedIds.length === 1 ? '' : 's'}:`)
+    if (!note || !note.trim()) return
+
+    try {
+      setIsBulkUpdating(true)
+      setUpdateError(null)
+      const response = await bulkUpdateOrders(
+        selectedIds.map((id) => ({ order_id: id, append_admin_note: note.trim() }))
+      )
+      handleBulkResults('Add note', response)
+    } catch (err) {
+      console.error('[Admin Orders] Error adding notes in bulk:', err)
+      setUpdateError(err instanceof Error ? err.message : 'Failed to add notes')
+    } finally {
+      setIsBulkUpdating(false)
+    }
+  }
+
+  const handleStatusUpdate = (order: Order, newStatus: string) => {
+    if (newStatus === order.status) return
+
+    if (newStatus === 'shipped') {
+      const trackingNumber = window.prompt(`Tracking number for order #${order.order_number}`, order.tracking_number || '')
+      if (!trackingNumber?.trim()) return
+      const shippingProvider = window.prompt('Courier (optional)', order.shipping_provider || '')
+      handleOrderUpdate(order.id, {
+        status: newStatus,
+        tracking_number: trackingNumber.trim(),
+        shipping_provider: shippingProvider?.trim() || undefined,
+      })
+      return
+    }
+
+    if (newStatus === 'cancelled') {
+      const refundable = order.total_cents - (order.refunded_cents || 0)
+      const refundNote =
+        order.payment_method !== 'cod' && order.payment_method !== 'exchange' && (order.payment_status === 'paid' || order.payment_status === 'partially_refunded')
+          ? ` ${formatINR(refundable / 100)} will be refunded to the customer.`
+          : ''
+      if (!window.confirm(`Cancel order #${order.order_number}?${refundNote} This can't be undone.`)) {
+        return
+      }
+    }
+
+    handleOrderUpdate(order.id, { status: newStatus })
+  }
+
+  const handleMarkRto = (order: Order) => {
+    if (!window.confirm(`Mark order #${order.order_number} as refused and returned to origin? The customer may lose Cash on Delivery.`)) {
+      return
+    }
+    handleOrderUpdate(order.id, { rto: true })
+  }
+
+  const handleOrderUpdate = async (
+    orderId: string,
+    update: { status?: string; rto?: boolean; tracking_number?: string; shipping_provider?: string }
+  ) => {
     try {
       setUpdatingOrderId(orderId)
       setUpdateError(null)
@@ -172,12 +530,12 @@ export default function AdminOrdersPage() {
         headers['Authorization'] = `Bearer ${accessToken}`
       }
 
-      console.log('[Admin Orders] Updating order status:', { orderId, newStatus })
+      console.log('[Admin Orders] Updating order:', { orderId, update })
       
       const response = await fetch(`/api/admin/orders/${orderId}`, {
         method: 'PUT',
         headers,
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify(update),
       })
 
       if (!response.ok) {
@@ -221,7 +579,68 @@ export default function AdminOrdersPage() {
     }
   }
 
-  if (isAdminLoading || loading) {
+  const handleBookShipment = async (order: Order) => {
+    if (!window.confirm(`Book a courier pickup for order #${order.order_number}?`)) {
+      return
+    }
+
+    try {
+      setUpdatingOrderId(order.id)
+      setUpdateError(null)
+      const response = await adminFetch(`/api/admin/orders/${order.id}/shipment`, { method: 'POST' })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to book shipment')
+      }
+      setOrders((prevOrders) => prevOrders.map((item) => (item.id === order.id ? data.order : item)))
+    } catch (err) {
+      console.error('[Admin Orders] Error booking shipment:', err)
+      setUpdateError(err instanceof Error ? err.message : 'Failed to book shipment')
+    } finally {
+      setUpdatingOrderId(null)
+    }
+  }
+
+  const handleDownloadLabel = async (order: Order) => {
+    try {
+      setDownloadingLabelId(order.id)
+      setUpdateError(null)
+      const response = await adminFetch(`/api/admin/orders/${order.id}/shipment/label`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to download label')
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `Label-${order.order_number}.pdf`
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('[Admin Orders] Error downloading label:', err)
+      setUpdateError(err instanceof Error ? err.message : 'Failed to download label')
+    } finally {
+      setDownloadingLabelId(null)
+    }
+  }
+
+  const handleDownloadInvoice = async (orderId: string) => {
+    try {
+      setDownloadingInvoiceId(orderId)
+      setUpdateError(null)
+      await downloadInvoice(orderId)
+    } catch (err) {
+      console.error('[Admin Orders] Error downloading invoice:', err)
+      setUpdateError(err instanceof Error ? err.message : 'Failed to download invoice')
+    } finally {
+      setDownloadingInvoiceId(null)
+    }
+  }
+
+  if (isAdminLoading || !hasLoaded) {
     return (
       <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
         <div className="text-center">
@@ -236,16 +655,54 @@ export default function AdminOrdersPage() {
     return null
   }
 
+  const filterInputClass =
+    'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+
   return (
     <div className="min-h-screen bg-[#E0E0E0]">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          isVisible={!!toast}
+          onClose={() => setToast(null)}
+        />
+      )}
+      <RefundModal
+        orderId={refundOrder?.id || null}
+        orderNumber={refundOrder?.order_number}
+        onClose={() => setRefundOrder(null)}
+        onRefunded={(updated: Order) =>
+          setOrders((prevOrders) => prevOrders.map((order) => (order.id === updated.id ? updated : order)))
+        }
+      />
+      <BulkTrackingModal
+        orders={trackingOrders}
+        onClose={() => setTrackingOrders(null)}
+        onDone={(response) => handleBulkResults('Add tracking', response)}
+      />
+      <TrackingImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onDone={(response) => {
+          handleBulkResults('Import tracking', response)
+          fetchOrders({ silent: true })
+        }}
+      />
+      <BulkResultsModal
+        title={bulkResults?.title || ''}
+        results={bulkResults?.results || null}
+        skipped={bulkResults?.skipped}
+        onClose={() => setBulkResults(null)}
+      />
       <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
         <div className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div>
             <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Admin Orders</h1>
-            <p className="text-gray-600 mt-2">Manage all customer orders (Paid or Confirmed only)</p>
+            <p className="text-gray-600 mt-2">Manage all customer orders (Paid, Confirmed or Cash on Delivery)</p>
           </div>
           <button
-            onClick={fetchOrders}
+            onClick={() => fetchOrders()}
             disabled={loading}
             className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
           >
@@ -266,6 +723,18 @@ export default function AdminOrdersPage() {
           </button>
         </div>
 
+        {cancelNotice && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+            <p className="text-amber-800">{cancelNotice}</p>
+            <button
+              onClick={() => setCancelNotice(null)}
+              className="mt-2 text-sm text-amber-800 hover:text-amber-900 underline"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {updateError && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
             <p className="text-red-600">{updateError}</p>
@@ -278,11 +747,132 @@ export default function AdminOrdersPage() {
           </div>
         )}
 
+        <div className="bg-white rounded-2xl border border-gray-200 p-4 mb-4 space-y-3">
+          <div className="flex flex-col md:flex-row gap-3">
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search order number, email, phone, name or payment ID"
+              aria-label="Search orders"
+              className={`${filterInputClass} flex-1`}
+            />
+            <select
+              value={filters.sort || 'newest'}
+              onChange={(e) => updateFilter({ sort: e.target.value as OrderSort })}
+              aria-label="Sort orders"
+              className={filterInputClass}
+            >
+              {Object.entries(ORDER_SORT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={filters.status || ''}
+              onChange={(e) => updateFilter({ status: e.target.value || undefined })}
+              aria-label="Filter by status"
+              className={filterInputClass}
+            >
+              <option value="">All statuses</option>
+              {ORDER_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {ORDER_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.payment_status || ''}
+              onChange={(e) => updateFilter({ payment_status: e.target.value || undefined })}
+              aria-label="Filter by payment status"
+              className={filterInputClass}
+            >
+              <option value="">All payment statuses</option>
+              {Object.entries(ORDER_PAYMENT_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.payment_method || ''}
+              onChange={(e) => updateFilter({ payment_method: e.target.value || undefined })}
+              aria-label="Filter by payment method"
+              className={filterInputClass}
+            >
+              <option value="">All payment methods</option>
+              {Object.entries(ORDER_PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              From
+              <input
+                type="date"
+                value={filters.date_from || ''}
+                max={filters.date_to || undefined}
+                onChange={(e) => updateFilter({ date_from: e.target.value || undefined })}
+                className={filterInputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              To
+              <input
+                type="date"
+                value={filters.date_to || ''}
+                min={filters.date_from || undefined}
+                onChange={(e) => updateFilter({ date_to: e.target.value || undefined })}
+                className={filterInputClass}
+              />
+            </label>
+            {hasActiveFilters && (
+              <button
+                onClick={() => {
+                  setSearchInput('')
+                  setFilters({ sort: filters.sort })
+                }}
+                className="text-sm text-gray-600 hover:text-gray-900 underline"
+              >
+                Reset filters
+              </button>
+            )}
+            <div className="flex items-center gap-3 md:ml-auto">
+              {totalOrders !== null && (
+                <span className="text-sm text-gray-600">
+                  Showing {orders.length} of {totalOrders} order{totalOrders === 1 ? '' : 's'}
+                </span>
+              )}
+              {canUpdateStatus && (
+                <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                >
+                  Import Tracking CSV
+                </button>
+              )}
+              {canViewPii && (
+                <button
+                  onClick={() => handleExportCsv()}
+                  disabled={isExporting}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isExporting ? 'Exporting...' : 'Export CSV'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
             <p className="text-red-600">{error}</p>
             <button
-              onClick={fetchOrders}
+              onClick={() => fetchOrders()}
               className="mt-2 text-sm text-red-700 hover:text-red-900 underline"
             >
               Try again
@@ -305,8 +895,117 @@ export default function AdminOrdersPage() {
                 d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z"
               />
             </svg>
-            <p className="text-gray-600 text-lg mb-2">No orders yet</p>
-            <p className="text-gray-500 text-sm">Orders will appear here once customers start placing them</p>
+            <p className="text-gray-600 text-lg mb-2">{hasActiveFilters ? 'No matching orders' : 'No orders yet'}</p>
+            <p className="text-gray-500 text-sm">
+              {hasActiveFilters
+                ? 'Try a different search or clear the filters'
+                : 'Orders will appear here once customers start placing them'}
+            </p>
+          </div>
+        )}
+
+        {!error && orders.length > 0 && (canUpdateStatus || canViewPii) && (
+          <div className="bg-white rounded-2xl border border-gray-200 p-4 mb-4 flex flex-wrap items-center gap-3">
+            <span className="text-sm font-semibold text-gray-900">
+              {selectedIds.length} selected
+            </span>
+            <button
+              onClick={() => setSelectedIds(orders.slice(0, MAX_BULK_ORDERS).map((order) => order.id))}
+              className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+            >
+              Select all loaded ({Math.min(orders.length, MAX_BULK_ORDERS)})
+            </button>
+            <button
+              onClick={() => setSelectedIds(confirmedOrderIds.slice(0, MAX_PACKING_BATCH))}
+              disabled={confirmedOrderIds.length === 0}
+              className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Select confirmed ({confirmedOrderIds.length})
+            </button>
+            {selectedIds.length > 0 && (
+              <button
+                onClick={() => setSelectedIds([])}
+                className="text-sm text-gray-600 hover:text-gray-900 underline"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
+        {!error && selectedIds.length > 0 && (
+          <div className="bg-white rounded-2xl border border-gray-200 p-4 mb-4 flex flex-wrap items-center gap-3">
+            {canUpdateStatus && (
+              <>
+                <select
+                  value={bulkStatus}
+                  onChange={(e) => setBulkStatus(e.target.value)}
+                  aria-label="New status for selected orders"
+                  className={filterInputClass}
+                >
+                  <option value="">Change status...</option>
+                  {ORDER_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {ORDER_STATUS_LABELS[status]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleBulkStatus}
+                  disabled={!bulkStatus || isBulkUpdating || selectedIds.length > MAX_BULK_ORDERS}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isBulkUpdating ? 'Updating...' : 'Apply'}
+                </button>
+                <button
+                  onClick={() => setTrackingOrders(selectedOrders)}
+                  disabled={isBulkUpdating || selectedIds.length > MAX_BULK_ORDERS}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Add Tracking
+                </button>
+                <button
+                  onClick={handleBulkNote}
+                  disabled={isBulkUpdating || selectedIds.length > MAX_BULK_ORDERS}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Add Note
+                </button>
+              </>
+            )}
+            {canViewPii && (
+              <>
+                <button
+                  onClick={() => handleExportCsv({ ids: selectedIds })}
+                  disabled={isExporting || selectedIds.length > MAX_BULK_ORDERS}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Export Selected
+                </button>
+                {canUpdateStatus && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700 sm:ml-auto">
+                    <input
+                      type="checkbox"
+                      checked={markProcessingOnPrint}
+                      onChange={(e) => setMarkProcessingOnPrint(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    Move confirmed orders to processing
+                  </label>
+                )}
+                <button
+                  onClick={handlePrintPackingSlips}
+                  disabled={packableSelectedIds.length === 0 || packableSelectedIds.length > MAX_PACKING_BATCH || isPrintingSlips}
+                  className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isPrintingSlips
+                    ? 'Preparing...'
+                    : `Print Packing Slips${
+                        packableSelectedIds.length !== selectedIds.length ? ` (${packableSelectedIds.length})` : ''
+                      }`}
+                </button>
+              </>
+            )}
           </div>
         )}
 
@@ -317,12 +1016,21 @@ export default function AdminOrdersPage() {
                 key={order.id}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.3, delay: index * 0.05 }}
+                transition={{ duration: 0.3, delay: Math.min(index, 10) * 0.05 }}
                 className="bg-white rounded-2xl border border-gray-200 p-6 shadow-[0_4px_12px_rgba(0,0,0,0.08)] hover:shadow-lg transition-shadow"
               >
                 <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-4">
                   <div className="flex-1">
                     <div className="flex items-center gap-3 mb-2">
+                      {(canUpdateStatus || canViewPii) && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(order.id)}
+                          onChange={() => toggleSelected(order.id)}
+                          aria-label={`Select order #${order.order_number}`}
+                          className="w-4 h-4 rounded border-gray-300"
+                        />
+                      )}
                       <h2 className="text-xl font-bold text-gray-900">
                         Order #{order.order_number || order.id.slice(-8)}
                       </h2>
@@ -338,8 +1046,18 @@ export default function AdminOrdersPage() {
                           paymentStatusColors[order.payment_status] || 'bg-gray-100 text-gray-800'
                         }`}
                       >
-                        {order.payment_status.charAt(0).toUpperCase() + order.payment_status.slice(1)}
+                        {formatPaymentStatus(order.payment_status)}
                       </span>
+                      {order.payment_method === 'cod' && (
+                        <span className="px-3 py-1 rounded-full text-sm font-semibold bg-amber-100 text-amber-800">
+                          {order.rto_at ? 'COD · RTO' : 'COD'}
+                        </span>
+                      )}
+                      {order.payment_method === 'exchange' && (
+                        <span className="px-3 py-1 rounded-full text-sm font-semibold bg-sky-100 text-sky-800">
+                          Exchange
+                        </span>
+                      )}
                     </div>
                     <p className="text-sm text-gray-600">
                       {new Date(order.created_at).toLocaleDateString('en-IN', {
@@ -358,6 +1076,29 @@ export default function AdminOrdersPage() {
                     <p className="text-sm text-gray-500">
                       {order.items_json.length} item{order.items_json.length !== 1 ? 's' : ''}
                     </p>
+                    {(order.refunded_cents || 0) > 0 && (
+                      <p className="text-sm text-orange-700">
+                        Refunded {formatINR((order.refunded_cents || 0) / 100)}
+                      </p>
+                    )}
+                    {canIssueRefunds && order.payment_method !== 'cod' && order.payment_method !== 'exchange' &&
+                      (order.payment_status === 'paid' || order.payment_status === 'partially_refunded') && (
+                        <button
+                          onClick={() => setRefundOrder(order)}
+                          className="mt-2 mr-2 px-3 py-1.5 rounded-lg border border-red-300 text-sm font-semibold text-red-700 hover:bg-red-50"
+                        >
+                          Refund
+                        </button>
+                      )}
+                    {canViewPii && (order.payment_status === 'paid' || !!order.invoice_number) && (
+                      <button
+                        onClick={() => handleDownloadInvoice(order.id)}
+                        disabled={downloadingInvoiceId === order.id}
+                        className="mt-2 px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {downloadingInvoiceId === order.id ? 'Preparing...' : order.invoice_number || 'GST Invoice'}
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -372,17 +1113,21 @@ export default function AdminOrdersPage() {
                   </div>
                   <div>
                     <p className="text-sm font-semibold text-gray-700 mb-1">Shipping Address</p>
-                    <p className="text-sm text-gray-600">
-                      {order.address_json?.flat}, {order.address_json?.street}
-                      <br />
-                      {order.address_json?.city} - {order.address_json?.pincode}
-                      {order.address_json?.landmark && (
-                        <>
-                          <br />
-                          Near {order.address_json.landmark}
-                        </>
-                      )}
-                    </p>
+                    {canViewPii ? (
+                      <p className="text-sm text-gray-600">
+                        {order.address_json?.flat}, {order.address_json?.street}
+                        <br />
+                        {order.address_json?.city} - {order.address_json?.pincode}
+                        {order.address_json?.landmark && (
+                          <>
+                            <br />
+                            Near {order.address_json.landmark}
+                          </>
+                        )}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-600">{order.address_json?.city || 'N/A'}</p>
+                    )}
                   </div>
                 </div>
 
@@ -412,33 +1157,75 @@ export default function AdminOrdersPage() {
                       </label>
                       <select
                         value={order.status}
-                        onChange={(e) => handleStatusUpdate(order.id, e.target.value)}
-                        disabled={updatingOrderId === order.id}
+                        onChange={(e) => handleStatusUpdate(order, e.target.value)}
+                        disabled={!canUpdateStatus || updatingOrderId === order.id || getNextStatuses(order.status).length === 0}
                         className="w-full sm:w-auto px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        {statusOptions.map((option) => (
-                          <option key={option.value} value={option.value}>
-                            {option.label}
+                        {[order.status, ...getNextStatuses(order.status)].map((status) => (
+                          <option key={status} value={status}>
+                            {isOrderStatus(status) ? ORDER_STATUS_LABELS[status] : status}
                           </option>
                         ))}
                       </select>
+                      {canUpdateStatus && order.payment_method === 'cod' && order.status === 'shipped' && !order.rto_at && order.payment_status !== 'paid' && (
+                        <button
+                          onClick={() => handleMarkRto(order)}
+                          disabled={updatingOrderId === order.id}
+                          className="mt-2 sm:mt-0 sm:ml-2 px-4 py-2 rounded-lg border border-orange-300 text-sm font-semibold text-orange-700 hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Mark RTO
+                        </button>
+                      )}
                       {updatingOrderId === order.id && (
                         <span className="ml-2 text-sm text-gray-500">Saving...</span>
                       )}
                     </div>
-                    {order.tracking_number && (
+                    {order.tracking_number ? (
                       <div className="text-sm">
                         <p className="font-semibold text-gray-700">Tracking</p>
                         <p className="text-gray-600">{order.tracking_number}</p>
                         {order.shipping_provider && (
                           <p className="text-gray-500 text-xs">{order.shipping_provider}</p>
                         )}
+                        {order.tracking_status && (
+                          <p className="text-gray-500 text-xs">{TRACKING_STATUS_LABELS[order.tracking_status] || order.tracking_status}</p>
+                        )}
+                        {canViewPii && order.courier_id && (
+                          <button
+                            onClick={() => handleDownloadLabel(order)}
+                            disabled={downloadingLabelId === order.id}
+                            className="mt-2 px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            {downloadingLabelId === order.id ? 'Preparing...' : 'Shipping Label'}
+                          </button>
+                        )}
                       </div>
+                    ) : (
+                      canUpdateStatus && (order.status === 'confirmed' || order.status === 'processing') && (
+                        <button
+                          onClick={() => handleBookShipment(order)}
+                          disabled={updatingOrderId === order.id}
+                          className="px-4 py-2 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Book Courier Pickup
+                        </button>
+                      )
                     )}
                   </div>
                 </div>
               </motion.div>
             ))}
+            {nextCursor && (
+              <div className="flex justify-center pt-2">
+                <button
+                  onClick={loadMoreOrders}
+                  disabled={isLoadingMore}
+                  className="px-6 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoadingMore ? 'Loading...' : 'Load more orders'}
+                </button>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,388 @@
+'use client'
+
+import { useEffect, useRef, useState, useCallback } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { motion } from 'framer-motion'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import { adminFetch } from '@/lib/auth/adminFetch'
+import { formatINR } from '@/lib/utils/money'
+import { subscribeToOrdersRealtime } from '@/lib/supabase/orders'
+import { ORDER_STATUS_LABELS, isOrderStatus } from '@/lib/orders/lifecycle'
+import { ORDER_PAYMENT_METHOD_LABELS } from '@/lib/orders/types'
+import {
+  DASHBOARD_PERIOD_LABELS,
+  LOW_STOCK_THRESHOLD,
+  type DashboardStats,
+  type DashboardTopProduct,
+} from '@/lib/dashboard/types'
+
+const statusColors: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-blue-100 text-blue-800',
+  processing: 'bg-purple-100 text-purple-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+  returned: 'bg-orange-100 text-orange-800',
+}
+
+const statusBarColors: Record<string, string> = {
+  pending: 'bg-yellow-400',
+  confirmed: 'bg-blue-500',
+  processing: 'bg-purple-500',
+  shipped: 'bg-indigo-500',
+  delivered: 'bg-green-500',
+  cancelled: 'bg-red-500',
+  returned: 'bg-orange-500',
+}
+
+const statusLabel = (status: string) => (isOrderStatus(status) ? ORDER_STATUS_LABELS[status] : status)
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`
+
+export default function AdminDashboardPage() {
+  const router = useRouter()
+  const { isAdmin, isLoading: isAdminLoading, can } = useIsAdmin()
+  const [stats, setStats] = useState<DashboardStats | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [newOrderIds, setNewOrderIds] = useState<string[]>([])
+  const seenOrderIds = useRef<Set<string> | null>(null)
+
+  const fetchStats = useCallback(async (options: { silent?: boolean } = {}) => {
+    try {
+      if (!options.silent) setLoading(true)
+      setError(null)
+
+      const response = await adminFetch('/api/admin/dashboard')
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to fetch dashboard')
+      }
+
+      const next: DashboardStats = data.stats
+      // Orders that arrived since the page was opened are highlighted in the feed
+      if (seenOrderIds.current) {
+        const fresh = next.recent_orders.filter((order) => !seenOrderIds.current!.has(order.id)).map((order) => order.id)
+        if (fresh.length > 0) setNewOrderIds((prev) => [...fresh, ...prev])
+      } else {
+        seenOrderIds.current = new Set()
+      }
+      next.recent_orders.forEach((order) => seenOrderIds.current!.add(order.id))
+
+      setStats(next)
+    } catch (err) {
+      console.error('[Admin Dashboard] Error fetching dashboard:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load dashboard')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!isAdmin) {
+      router.push('/')
+      return
+    }
+
+    fetchStats()
+
+    // New orders, payments and cancellations refresh the figures as they happen
+    let realtimeTimer: ReturnType<typeof setTimeout> | null = null
+    const unsubscribe = subscribeToOrdersRealtime(() => {
+      if (realtimeTimer) clearTimeout(realtimeTimer)
+      realtimeTimer = setTimeout(() => fetchStats({ silent: true }), 1000)
+    })
+
+    return () => {
+      if (realtimeTimer) clearTimeout(realtimeTimer)
+      unsubscribe()
+    }
+  }, [isAdmin, isAdminLoading, router, fetchStats])
+
+  if (isAdminLoading || (loading && !stats)) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading dashboard...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!isAdmin) {
+    return null
+  }
+
+  const totalByStatus = stats?.orders_by_status.reduce((sum, row) => sum + row.orders, 0) || 0
+
+  const renderTopProducts = (title: string, products: DashboardTopProduct[], metric: 'units' | 'revenue') => (
+    <div className="bg-white rounded-2xl border border-gray-200 p-6">
+      <h2 className="text-lg font-bold text-gray-900 mb-4">{title}</h2>
+      {products.length === 0 ? (
+        <p className="text-sm text-gray-500">No sales in the last 30 days</p>
+      ) : (
+        <ol className="space-y-3">
+          {products.map((product, index) => (
+            <li key={product.product_id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="flex items-center gap-3 min-w-0">
+                <span className="w-5 text-gray-400 font-semibold">{index + 1}</span>
+                <span className="text-gray-900 truncate">{product.title}</span>
+              </span>
+              <span className="font-semibold text-gray-900 whitespace-nowrap">
+                {metric === 'units' ? `${product.units} sold` : formatINR(product.revenue_cents / 100)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Dashboard</h1>
+            <p className="text-gray-600 mt-2">
+              Sales count paid and verified Cash on Delivery orders, less cancellations and refunds (India time)
+            </p>
+          </div>
+          <button
+            onClick={() => fetchStats()}
+            disabled={loading}
+            className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={() => fetchStats()}
+              className="mt-2 text-sm text-red-700 hover:text-red-900 underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {stats && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {stats.sales.map((sales) => (
+                <motion.div
+                  key={sales.period}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-white rounded-2xl border border-gray-200 p-6 shadow-[0_4px_12px_rgba(0,0,0,0.08)]"
+                >
+                  <p className="text-sm font-semibold text-gray-500 uppercase tracking-wide">
+                    {DASHBOARD_PERIOD_LABELS[sales.period]}
+                  </p>
+                  <p className="text-3xl font-bold text-gray-900 mt-2">{formatINR(sales.revenue_cents / 100)}</p>
+                  <div className="flex gap-6 mt-3 text-sm text-gray-600">
+                    <span>
+                      <span className="font-semibold text-gray-900">{sales.orders}</span> order{sales.orders === 1 ? '' : 's'}
+                    </span>
+                    <span>
+                      AOV <span className="font-semibold text-gray-900">{formatINR(sales.aov_cents / 100)}</span>
+                    </span>
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <div className="bg-white rounded-2xl border border-gray-200 p-6 lg:col-span-2">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-bold text-gray-900">Orders by status</h2>
+                  <span className="text-sm text-gray-500">Last 30 days</span>
+                </div>
+                {stats.orders_by_status.length === 0 ? (
+                  <p className="text-sm text-gray-500">No orders in the last 30 days</p>
+                ) : (
+                  <div className="space-y-3">
+                    {stats.orders_by_status.map((row) => (
+                      <div key={row.status}>
+                        <div className="flex items-center justify-between text-sm mb-1">
+                          <span className="text-gray-700">{statusLabel(row.status)}</span>
+                          <span className="font-semibold text-gray-900">{row.orders}</span>
+                        </div>
+                        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${statusBarColors[row.status] || 'bg-gray-400'}`}
+                            style={{ width: `${totalByStatus > 0 ? (row.orders / totalByStatus) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white rounded-2xl border border-gray-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-bold text-gray-900">Online payments</h2>
+                  <span className="text-sm text-gray-500">Last 30 days</span>
+                </div>
+                <p
+                  className={`text-3xl font-bold ${
+                    stats.payments.failure_rate > 0.2 ? 'text-red-600' : 'text-gray-900'
+                  }`}
+                >
+                  {formatPercent(stats.payments.failure_rate)}
+                </p>
+                <p className="text-sm text-gray-600 mt-1">failure rate</p>
+                <p className="text-sm text-gray-600 mt-4">
+                  {stats.payments.failed} of {stats.payments.attempts} payment attempt
+                  {stats.payments.attempts === 1 ? '' : 's'} failed
+                </p>
+                {can('manage_settings') && (
+                  <Link
+                    href="/admin/payment-events"
+                    className="inline-block mt-4 text-sm font-semibold text-gray-700 hover:text-gray-900 underline"
+                  >
+                    View webhooks
+                  </Link>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              {renderTopProducts('Top products by units', stats.top_products_by_units, 'units')}
+              {renderTopProducts('Top products by revenue', stats.top_products_by_revenue, 'revenue')}
+              <div className="bg-white rounded-2xl border border-gray-200 p-6">
+                <h2 className="text-lg font-bold text-gray-900 mb-4">Top categories</h2>
+                {stats.top_categories.length === 0 ? (
+                  <p className="text-sm text-gray-500">No sales in the last 30 days</p>
+                ) : (
+                  <ol className="space-y-3">
+                    {stats.top_categories.map((category, index) => (
+                      <li
+                        key={category.category_id || 'uncategorised'}
+                        className="flex items-center justify-between gap-3 text-sm"
+                      >
+                        <span className="flex items-center gap-3 min-w-0">
+                          <span className="w-5 text-gray-400 font-semibold">{index + 1}</span>
+                          <span className="text-gray-900 truncate">{category.name}</span>
+                        </span>
+                        <span className="text-right whitespace-nowrap">
+                          <span className="font-semibold text-gray-900">{formatINR(category.revenue_cents / 100)}</span>
+                          <span className="text-gray-500"> · {category.units} sold</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="bg-white rounded-2xl border border-gray-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-bold text-gray-900">New orders</h2>
+                  <span className="flex items-center gap-2 text-sm text-gray-500">
+                    <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+                    Live
+                  </span>
+                </div>
+                {stats.recent_orders.length === 0 ? (
+                  <p className="text-sm text-gray-500">No orders yet</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {stats.recent_orders.map((order) => (
+                      <li key={order.id} className="py-3 flex items-center justify-between gap-3 text-sm">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold text-gray-900">#{order.order_number}</span>
+                            {newOrderIds.includes(order.id) && (
+                              <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+                                New
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-gray-500 truncate">
+                            {order.customer_name || 'Customer'} ·{' '}
+                            {ORDER_PAYMENT_METHOD_LABELS[order.payment_method || ''] || order.payment_method || 'Unknown'} ·{' '}
+                            {new Date(order.created_at).toLocaleString('en-IN', {
+                              dateStyle: 'medium',
+                              timeStyle: 'short',
+                            })}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0">
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                              statusColors[order.status] || 'bg-gray-100 text-gray-800'
+                            }`}
+                          >
+                            {statusLabel(order.status)}
+                          </span>
+                          <span className="font-semibold text-gray-900">{formatINR(order.total_cents / 100)}</span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {can('update_order_status') && (
+                  <Link
+                    href="/admin/orders"
+                    className="inline-block mt-4 text-sm font-semibold text-gray-700 hover:text-gray-900 underline"
+                  >
+                    All orders
+                  </Link>
+                )}
+              </div>
+
+              <div className="bg-white rounded-2xl border border-gray-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-bold text-gray-900">Low stock</h2>
+                  <span className="text-sm text-gray-500">{LOW_STOCK_THRESHOLD} or fewer left</span>
+                </div>
+                {stats.low_stock.length === 0 ? (
+                  <p className="text-sm text-gray-500">Every tracked size is well stocked</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {stats.low_stock.map((item) => (
+                      <li
+                        key={`${item.product_id}-${item.color}-${item.size}`}
+                        className="py-3 flex items-center justify-between gap-3 text-sm"
+                      >
+                        <div className="min-w-0">
+                          <p className="text-gray-900 truncate">{item.title}</p>
+                          <p className="text-gray-500">
+                            {item.color} · {item.size}
+                          </p>
+                        </div>
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                            item.quantity === 0 ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+                          }`}
+                        >
+                          {item.quantity === 0 ? 'Sold out' : `${item.quantity} left`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500 text-right">
+              Updated {new Date(stats.generated_at).toLocaleTimeString('en-IN', { timeStyle: 'short' })}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
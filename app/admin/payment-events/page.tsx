@@ -0,0 +1,234 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import { adminFetch } from '@/lib/auth/adminFetch'
+import type { PaymentEvent, PaymentEventStatus } from '@/lib/payment-events/types'
+import Toast from '@/components/ui/Toast'
+
+const eventStatusColors: Record<PaymentEventStatus, string> = {
+  processing: 'bg-blue-100 text-blue-800',
+  processed: 'bg-green-100 text-green-800',
+  ignored: 'bg-gray-100 text-gray-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+const statusFilters: Array<[PaymentEventStatus | 'all', string]> = [
+  ['all', 'All'],
+  ['failed', 'Failed'],
+  ['processing', 'Processing'],
+  ['processed', 'Processed'],
+  ['ignored', 'Ignored'],
+]
+
+export default function AdminPaymentEventsPage() {
+  const router = useRouter()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canManageSettings = can('manage_settings')
+  const [events, setEvents] = useState<PaymentEvent[]>([])
+  const [statusFilter, setStatusFilter] = useState<PaymentEventStatus | 'all'>('failed')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [replayingId, setReplayingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`
+      const response = await adminFetch(`/api/admin/payment-events${query}`)
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to fetch payment events')
+      }
+
+      setEvents(data.events || [])
+    } catch (err) {
+      console.error('[Admin Payment Events] Error fetching events:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load payment events')
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!canManageSettings) {
+      router.push('/admin')
+      return
+    }
+
+    fetchEvents()
+  }, [canManageSettings, isAdminLoading, router, fetchEvents])
+
+  const handleReplay = async (event: PaymentEvent) => {
+    try {
+      setReplayingId(event.id)
+      const response = await adminFetch(`/api/admin/payment-events/${event.id}/replay`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Replay failed')
+      }
+
+      const updated: PaymentEvent = data.event
+      setEvents((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
+      setToast({
+        message:
+          updated.status === 'failed'
+            ? `Replay failed again: ${updated.error || 'unknown error'}`
+            : `Event ${updated.status}`,
+        type: updated.status === 'failed' ? 'error' : 'success',
+      })
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Replay failed', type: 'error' })
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  if (isAdminLoading) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading webhooks...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canManageSettings) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          isVisible={!!toast}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Razorpay Webhooks</h1>
+          <p className="text-gray-600 mt-2">
+            Every verified webhook is stored here with its outcome. Razorpay retries failed deliveries on its own;
+            use Replay once the cause is fixed to run an event again straight away.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6" role="radiogroup" aria-label="Filter by status">
+          {statusFilters.map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={statusFilter === value}
+              onClick={() => setStatusFilter(value)}
+              className={`px-4 py-1.5 rounded-full border text-sm font-semibold transition-colors ${
+                statusFilter === value
+                  ? 'bg-gray-900 text-white border-gray-900'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchEvents}
+              className="mt-2 text-sm text-red-700 hover:text-red-900 underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-600 text-center py-12">Loading events...</p>
+        ) : events.length === 0 && !error ? (
+          <div className="bg-white rounded-2xl border border-gray-200 p-8 text-center text-gray-600">
+            No {statusFilter === 'all' ? '' : `${statusFilter} `}events
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {events.map((event) => (
+              <div
+                key={event.id}
+                className="bg-white rounded-2xl border border-gray-200 p-4 md:p-5 shadow-[0_4px_12px_rgba(0,0,0,0.08)]"
+              >
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-gray-900">{event.event_type}</span>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                          eventStatusColors[event.status] || 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {event.status}
+                      </span>
+                      {event.attempts > 1 && (
+                        <span className="text-xs text-gray-500">{event.attempts} attempts</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1 break-all">
+                      {new Date(event.received_at).toLocaleString('en-IN')} · {event.event_id}
+                      {event.razorpay_payment_id ? ` · ${event.razorpay_payment_id}` : ''}
+                    </p>
+                    {event.error && (
+                      <p
+                        className={`text-sm mt-1 ${event.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}
+                      >
+                        {event.error}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                      aria-expanded={expandedId === event.id}
+                      className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      {expandedId === event.id ? 'Hide payload' : 'Payload'}
+                    </button>
+                    {event.status !== 'processed' && (
+                      <button
+                        onClick={() => handleReplay(event)}
+                        disabled={replayingId === event.id}
+                        className="px-3 py-1.5 bg-gray-900 text-white rounded-lg text-sm font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {replayingId === event.id ? 'Replaying...' : 'Replay'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {expandedId === event.id && (
+                  <pre className="mt-4 p-3 bg-gray-50 rounded-lg text-xs text-gray-800 overflow-x-auto max-h-96">
+                    {JSON.stringify(event.payload, null, 2)}
+                  </pre>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,662 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import { formatINR } from '@/lib/utils/money'
+import { fetchCategories, type Category } from '@/lib/supabase/categories'
+import {
+  bulkUpdateProducts,
+  deleteProducts,
+  fetchAdminProducts,
+  updateProduct,
+  updateProductsTags,
+  updateVariantStock,
+  type AdminProduct,
+  type AdminProductFilters,
+  type AdminProductVariant,
+} from '@/lib/supabase/admin'
+import Toast from '@/components/ui/Toast'
+
+const parseTags = (value: string) =>
+  Array.from(new Set(value.split(',').map((tag) => tag.trim()).filter(Boolean)))
+
+/**
+ * Price in rupees, saved when the input loses focus or Enter is pressed
+ */
+function PriceCell({ product, onSave }: { product: AdminProduct; onSave: (priceCents: number) => Promise<void> }) {
+  const [value, setValue] = useState(String(product.price_cents / 100))
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setValue(String(product.price_cents / 100))
+  }, [product.price_cents])
+
+  const save = async () => {
+    const rupees = Number(value)
+    if (!Number.isFinite(rupees) || rupees < 0) {
+      setValue(String(product.price_cents / 100))
+      return
+    }
+    const priceCents = Math.round(rupees * 100)
+    if (priceCents === product.price_cents) return
+
+    setIsSaving(true)
+    try {
+      await onSave(priceCents)
+    } catch {
+      setValue(String(product.price_cents / 100))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <span className="text-gray-500">₹</span>
+      <input
+        type="number"
+        min={0}
+        step="0.01"
+        value={value}
+        disabled={isSaving}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur()
+          if (e.key === 'Escape') setValue(String(product.price_cents / 100))
+        }}
+        aria-label={`Price of ${product.title}`}
+        className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary disabled:opacity-50"
+      />
+    </div>
+  )
+}
+
+/**
+ * Quantity per size for one colour. Blank means untracked (always available).
+ */
+function VariantStockEditor({
+  variant,
+  readOnly,
+  onSave,
+}: {
+  variant: AdminProductVariant
+  readOnly: boolean
+  onSave: (stock: Record<string, number>) => Promise<void>
+}) {
+  const toDrafts = useCallback(
+    () =>
+      Object.fromEntries(
+        variant.sizes.map((size) => [size, variant.stock && size in variant.stock ? String(variant.stock[size]) : ''])
+      ),
+    [variant]
+  )
+  const [drafts, setDrafts] = useState<Record<string, string>>(toDrafts)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setDrafts(toDrafts())
+  }, [toDrafts])
+
+  const save = async () => {
+    const stock: Record<string, number> = {}
+    for (const [size, draft] of Object.entries(drafts)) {
+      if (draft.trim() === '') continue
+      const quantity = Number(draft)
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        setDrafts(toDrafts())
+        return
+      }
+      stock[size] = quantity
+    }
+
+    const current = variant.stock || {}
+    const tracked = variant.sizes.filter((size) => size in current)
+    const unchanged =
+      Object.keys(stock).length === tracked.length && tracked.every((size) => stock[size] === Number(current[size]))
+    if (unchanged) return
+
+    setIsSaving(true)
+    try {
+      await onSave(stock)
+    } catch {
+      setDrafts(toDrafts())
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs font-semibold text-gray-600 w-16 truncate" title={variant.color}>
+        {variant.color}
+      </span>
+      {variant.sizes.map((size) => (
+        <label key={size} className="flex items-center gap-1 text-xs text-gray-600">
+          {size}
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={drafts[size] ?? ''}
+            placeholder="∞"
+            disabled={isSaving || readOnly}
+            onChange={(e) => setDrafts((prev) => ({ ...prev, [size]: e.target.value }))}
+            onBlur={save}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur()
+            }}
+            aria-label={`${variant.color} ${size} stock`}
+            className={`w-12 px-1.5 py-0.5 border rounded text-xs focus:outline-none focus-visible:ring-2 focus-visible:ring-primary disabled:opacity-50 ${
+              drafts[size] === '0' ? 'border-red-300 bg-red-50' : 'border-gray-300'
+            }`}
+          />
+        </label>
+      ))}
+    </div>
+  )
+}
+
+export default function AdminProductsPage() {
+  const router = useRouter()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canEditProducts = can('edit_products')
+  const canChangePrices = can('change_prices')
+  const canViewProducts = canEditProducts || canChangePrices
+  const [products, setProducts] = useState<AdminProduct[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [filters, setFilters] = useState<AdminProductFilters>({})
+  const [searchInput, setSearchInput] = useState('')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [moveCategoryId, setMoveCategoryId] = useState('')
+  const [moveSubcategoryId, setMoveSubcategoryId] = useState('')
+  const [isBulkUpdating, setIsBulkUpdating] = useState(false)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+
+  const fetchProducts = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setProducts(await fetchAdminProducts(filters))
+    } catch (err) {
+      console.error('[Admin Products] Error fetching products:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load products')
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!canViewProducts) {
+      router.push('/admin')
+      return
+    }
+
+    fetchProducts()
+  }, [canViewProducts, isAdminLoading, router, fetchProducts])
+
+  useEffect(() => {
+    if (!canViewProducts) return
+    fetchCategories().then(setCategories)
+  }, [canViewProducts])
+
+  // Search as the admin types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((prev) => (prev.q === (searchInput.trim() || undefined) ? prev : { ...prev, q: searchInput.trim() || undefined }))
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  // Drop selected products that are no longer listed
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const listed = new Set(products.map((product) => product.id))
+      const next = prev.filter((id) => listed.has(id))
+      return next.length === prev.length ? prev : next
+    })
+  }, [products])
+
+  const topCategories = categories.filter((category) => !category.parent_id)
+  const subcategoriesOf = (parentId?: string) =>
+    parentId ? categories.filter((category) => category.parent_id === parentId) : []
+  const categoryName = (id: string | null) => categories.find((category) => category.id === id)?.name || null
+
+  const patchProducts = (ids: string[], patch: Partial<AdminProduct>) => {
+    const targets = new Set(ids)
+    setProducts((prev) => prev.map((product) => (targets.has(product.id) ? { ...product, ...patch } : product)))
+  }
+
+  const handleSavePrice = async (product: AdminProduct, priceCents: number) => {
+    try {
+      await updateProduct(product.id, { price_cents: priceCents })
+      patchProducts([product.id], { price_cents: priceCents })
+      setToast({ message: `${product.title} now costs ${formatINR(priceCents / 100)}`, type: 'success' })
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to update price', type: 'error' })
+      throw err
+    }
+  }
+
+  const handleSaveVariantStock = async (product: AdminProduct, variant: AdminProductVariant, stock: Record<string, number>) => {
+    try {
+      await updateVariantStock(variant.id, stock)
+      // Mirrors the sync_product_in_stock trigger: in stock while any size is untracked or above zero
+      const variants = product.variants.map((row) => (row.id === variant.id ? { ...row, stock } : row))
+      const inStock = variants.some((row) =>
+        row.sizes.some((size) => !row.stock || !(size in row.stock) || Number(row.stock[size]) > 0)
+      )
+      patchProducts([product.id], { variants, in_stock: inStock })
+      setToast({ message: `Stock updated for ${product.title} (${variant.color})`, type: 'success' })
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to update stock', type: 'error' })
+      throw err
+    }
+  }
+
+  const handleToggleStock = async (product: AdminProduct) => {
+    try {
+      await updateProduct(product.id, { in_stock: !product.in_stock })
+      patchProducts([product.id], { in_stock: !product.in_stock })
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to update stock', type: 'error' })
+    }
+  }
+
+  const handleToggleActive = async (product: AdminProduct) => {
+    try {
+      await updateProduct(product.id, { is_active: !product.is_active })
+      patchProducts([product.id], { is_active: !product.is_active })
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to update product', type: 'error' })
+    }
+  }
+
+  const runBulk = async (action: () => Promise<string>) => {
+    try {
+      setIsBulkUpdating(true)
+      const message = await action()
+      setToast({ message, type: 'success' })
+    } catch (err) {
+      console.error('[Admin Products] Bulk action failed:', err)
+      setToast({ message: err instanceof Error ? err.message : 'Bulk action failed', type: 'error' })
+      fetchProducts()
+    } finally {
+      setIsBulkUpdating(false)
+    }
+  }
+
+  const count = `${selectedIds.length} product${selectedIds.length === 1 ? '' : 's'}`
+
+  const handleBulkActive = (isActive: boolean) =>
+    runBulk(async () => {
+      await bulkUpdateProducts(selectedIds, { is_active: isActive })
+      patchProducts(selectedIds, { is_active: isActive })
+      return `${count} ${isActive ? 'activated' : 'deactivated'}`
+    })
+
+  const handleBulkMove = () => {
+    if (!moveCategoryId) return
+    const name = categoryName(moveSubcategoryId || moveCategoryId)
+    if (!window.confirm(`Move ${count} to ${name}?`)) return
+
+    runBulk(async () => {
+      // A subcategory belongs to one parent, so moving clears it unless a new one is picked
+      const update = { category_id: moveCategoryId, subcategory_id: moveSubcategoryId || '' }
+      await bulkUpdateProducts(selectedIds, update)
+      patchProducts(selectedIds, { category_id: moveCategoryId, subcategory_id: moveSubcategoryId || null })
+      setMoveCategoryId('')
+      setMoveSubcategoryId('')
+      return `${count} moved to ${name}`
+    })
+  }
+
+  const handleBulkTags = (mode: 'add' | 'remove') => {
+    const input = window.prompt(`Tags to ${mode} (comma-separated):`)
+    const tags = input ? parseTags(input) : []
+    if (tags.length === 0) return
+
+    runBulk(async () => {
+      await updateProductsTags(selectedIds, mode === 'add' ? { add: tags } : { remove: tags })
+      await fetchProducts()
+      return `${mode === 'add' ? 'Added' : 'Removed'} ${tags.join(', ')} ${mode === 'add' ? 'to' : 'from'} ${count}`
+    })
+  }
+
+  const handleBulkDelete = () => {
+    if (!window.confirm(`Delete ${count} and their images? This cannot be undone.`)) return
+
+    runBulk(async () => {
+      const { deleted, failed } = await deleteProducts(selectedIds)
+      setProducts((prev) => prev.filter((product) => !deleted.includes(product.id)))
+      if (failed.length > 0) {
+        throw new Error(`${deleted.length} deleted, ${failed.length} failed: ${failed[0].error}`)
+      }
+      return `${deleted.length} product${deleted.length === 1 ? '' : 's'} deleted`
+    })
+  }
+
+  const toggleSelected = (productId: string) => {
+    setSelectedIds((prev) => (prev.includes(productId) ? prev.filter((id) => id !== productId) : [...prev, productId]))
+  }
+
+  const updateFilter = (update: Partial<AdminProductFilters>) => {
+    setFilters((prev) => ({ ...prev, ...update }))
+  }
+
+  const hasActiveFilters = !!(filters.q || filters.category_id || filters.subcategory_id || filters.stock || filters.active)
+
+  if (isAdminLoading) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading products...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canViewProducts) {
+    return null
+  }
+
+  const filterInputClass =
+    'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+  const bulkButtonClass =
+    'px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          isVisible={!!toast}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Products</h1>
+          <p className="text-gray-600 mt-2">
+            Edit prices and per-size stock inline. Blank sizes are untracked and always available. Add new products
+            from their category page.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-gray-200 p-4 mb-4 flex flex-wrap items-center gap-3">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search title, SKU or slug"
+            className={`${filterInputClass} w-full md:w-64`}
+          />
+          <select
+            value={filters.category_id || ''}
+            onChange={(e) => updateFilter({ category_id: e.target.value || undefined, subcategory_id: undefined })}
+            aria-label="Category"
+            className={filterInputClass}
+          >
+            <option value="">All categories</option>
+            {topCategories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.subcategory_id || ''}
+            onChange={(e) => updateFilter({ subcategory_id: e.target.value || undefined })}
+            disabled={subcategoriesOf(filters.category_id).length === 0}
+            aria-label="Subcategory"
+            className={`${filterInputClass} disabled:opacity-50`}
+          >
+            <option value="">All subcategories</option>
+            {subcategoriesOf(filters.category_id).map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.stock || ''}
+            onChange={(e) => updateFilter({ stock: (e.target.value || undefined) as AdminProductFilters['stock'] })}
+            aria-label="Stock"
+            className={filterInputClass}
+          >
+            <option value="">Any stock</option>
+            <option value="in_stock">In stock</option>
+            <option value="out_of_stock">Out of stock</option>
+          </select>
+          <select
+            value={filters.active || ''}
+            onChange={(e) => updateFilter({ active: (e.target.value || undefined) as AdminProductFilters['active'] })}
+            aria-label="Visibility"
+            className={filterInputClass}
+          >
+            <option value="">Active and inactive</option>
+            <option value="active">Active</option>
+            <option value="inactive">Inactive</option>
+          </select>
+          {hasActiveFilters && (
+            <button
+              onClick={() => {
+                setSearchInput('')
+                setFilters({})
+              }}
+              className="text-sm text-gray-600 hover:text-gray-900 underline"
+            >
+              Reset
+            </button>
+          )}
+          <span className="text-sm text-gray-600 md:ml-auto">
+            {products.length} product{products.length === 1 ? '' : 's'}
+          </span>
+        </div>
+
+        {canEditProducts && selectedIds.length > 0 && (
+          <div className="bg-white rounded-2xl border border-gray-200 p-4 mb-4 flex flex-wrap items-center gap-3">
+            <span className="text-sm font-semibold text-gray-900">{selectedIds.length} selected</span>
+            <button onClick={() => handleBulkActive(true)} disabled={isBulkUpdating} className={bulkButtonClass}>
+              Activate
+            </button>
+            <button onClick={() => handleBulkActive(false)} disabled={isBulkUpdating} className={bulkButtonClass}>
+              Deactivate
+            </button>
+            <button onClick={() => handleBulkTags('add')} disabled={isBulkUpdating} className={bulkButtonClass}>
+              Add Tags
+            </button>
+            <button onClick={() => handleBulkTags('remove')} disabled={isBulkUpdating} className={bulkButtonClass}>
+              Remove Tags
+            </button>
+            <select
+              value={moveCategoryId}
+              onChange={(e) => {
+                setMoveCategoryId(e.target.value)
+                setMoveSubcategoryId('')
+              }}
+              aria-label="Move to category"
+              className={filterInputClass}
+            >
+              <option value="">Move to category...</option>
+              {topCategories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+            {subcategoriesOf(moveCategoryId).length > 0 && (
+              <select
+                value={moveSubcategoryId}
+                onChange={(e) => setMoveSubcategoryId(e.target.value)}
+                aria-label="Move to subcategory"
+                className={filterInputClass}
+              >
+                <option value="">No subcategory</option>
+                {subcategoriesOf(moveCategoryId).map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button onClick={handleBulkMove} disabled={!moveCategoryId || isBulkUpdating} className={bulkButtonClass}>
+              Move
+            </button>
+            <button
+              onClick={handleBulkDelete}
+              disabled={isBulkUpdating}
+              className="px-3 py-1.5 rounded-lg border border-red-300 text-sm font-semibold text-red-700 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Delete
+            </button>
+            <button
+              onClick={() => setSelectedIds([])}
+              className="text-sm text-gray-600 hover:text-gray-900 underline sm:ml-auto"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button onClick={fetchProducts} className="mt-2 text-sm text-red-700 hover:text-red-900 underline">
+              Try again
+            </button>
+          </div>
+        )}
+
+        {!error && !loading && products.length === 0 && (
+          <div className="text-center py-16 bg-white rounded-2xl border border-gray-200">
+            <p className="text-gray-600 text-lg mb-2">{hasActiveFilters ? 'No matching products' : 'No products yet'}</p>
+            <p className="text-gray-500 text-sm">
+              {hasActiveFilters ? 'Try a different search or clear the filters' : 'Add products from a category page'}
+            </p>
+          </div>
+        )}
+
+        {!error && products.length > 0 && (
+          <div className={`bg-white rounded-2xl border border-gray-200 overflow-x-auto ${loading ? 'opacity-60' : ''}`}>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  {canEditProducts && (
+                    <th className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.length > 0 && selectedIds.length === products.length}
+                        onChange={(e) => setSelectedIds(e.target.checked ? products.map((product) => product.id) : [])}
+                        aria-label="Select all products"
+                        className="w-4 h-4 rounded border-gray-300"
+                      />
+                    </th>
+                  )}
+                  <th className="px-4 py-3 font-semibold">Product</th>
+                  <th className="px-4 py-3 font-semibold">Category</th>
+                  <th className="px-4 py-3 font-semibold">Price</th>
+                  <th className="px-4 py-3 font-semibold">Stock</th>
+                  <th className="px-4 py-3 font-semibold">Variants</th>
+                  <th className="px-4 py-3 font-semibold">Images</th>
+                  <th className="px-4 py-3 font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {products.map((product) => (
+                  <tr key={product.id} className={product.is_active ? '' : 'bg-gray-50'}>
+                    {canEditProducts && (
+                      <td className="px-4 py-3 align-top">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(product.id)}
+                          onChange={() => toggleSelected(product.id)}
+                          aria-label={`Select ${product.title}`}
+                          className="w-4 h-4 rounded border-gray-300"
+                        />
+                      </td>
+                    )}
+                    <td className="px-4 py-3 align-top max-w-xs">
+                      <Link href={`/product/${product.id}`} className="font-semibold text-gray-900 hover:underline">
+                        {product.title}
+                      </Link>
+                      <p className="text-xs text-gray-500">{product.sku || product.slug}</p>
+                      {product.tags && product.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {product.tags.map((tag) => (
+                            <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 align-top text-gray-700">
+                      {categoryName(product.category_id) || '—'}
+                      {product.subcategory_id && (
+                        <p className="text-xs text-gray-500">{categoryName(product.subcategory_id)}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 align-top">
+                      {canChangePrices ? (
+                        <PriceCell product={product} onSave={(priceCents) => handleSavePrice(product, priceCents)} />
+                      ) : (
+                        <span className="text-gray-900">{formatINR(product.price_cents / 100)}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 align-top">
+                      {product.variants.length > 0 ? (
+                        <div className="space-y-1.5">
+                          {product.variants.map((variant) => (
+                            <VariantStockEditor
+                              key={variant.id}
+                              variant={variant}
+                              readOnly={!canEditProducts}
+                              onSave={(stock) => handleSaveVariantStock(product, variant, stock)}
+                            />
+                          ))}
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => handleToggleStock(product)}
+                          disabled={!canEditProducts}
+                          className={`px-3 py-1 rounded-full text-xs font-semibold disabled:cursor-default ${
+                            product.in_stock ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                          }`}
+                        >
+                          {product.in_stock ? 'In stock' : 'Out of stock'}
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 align-top text-gray-700">{product.variants.length}</td>
+                    <td className="px-4 py-3 align-top text-gray-700">{product.image_count}</td>
+                    <td className="px-4 py-3 align-top">
+                      <button
+                        onClick={() => handleToggleActive(product)}
+                        disabled={!canEditProducts}
+                        className={`px-3 py-1 rounded-full text-xs font-semibold disabled:cursor-default ${
+                          product.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                        }`}
+                      >
+                        {product.is_active ? 'Active' : 'Inactive'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
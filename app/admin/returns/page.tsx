@@ -0,0 +1,482 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import { adminFetch } from '@/lib/auth/adminFetch'
+import {
+  RETURN_REASONS,
+  RETURN_RESOLUTION_LABELS,
+  RETURN_STATUS_LABELS,
+  type AdminReturnRequest,
+  type ReturnResolution,
+  type ReturnSettings,
+  type ReturnStatus,
+} from '@/lib/returns/types'
+import Toast from '@/components/ui/Toast'
+
+interface SettingsForm {
+  is_enabled: boolean
+  window_days: string
+  allow_exchanges: boolean
+}
+
+const returnStatusColors: Record<ReturnStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  pickup_scheduled: 'bg-indigo-100 text-indigo-800',
+  received: 'bg-purple-100 text-purple-800',
+  completed: 'bg-green-100 text-green-800',
+}
+
+const statusFilters: Array<[ReturnStatus | 'all', string]> = [
+  ['all', 'All'],
+  ['requested', 'Requested'],
+  ['approved', 'Approved'],
+  ['pickup_scheduled', 'Pickup scheduled'],
+  ['received', 'Received'],
+  ['completed', 'Completed'],
+  ['rejected', 'Rejected'],
+]
+
+const toForm = (settings: ReturnSettings): SettingsForm => ({
+  is_enabled: settings.is_enabled,
+  window_days: String(settings.window_days),
+  allow_exchanges: settings.allow_exchanges,
+})
+
+export default function AdminReturnsPage() {
+  const router = useRouter()
+  const { isAdmin, isLoading: isAdminLoading, can } = useIsAdmin()
+  const canManageSettings = can('manage_settings')
+  const canUpdateStatus = can('update_order_status')
+  const canIssueRefunds = can('issue_refunds')
+  const [requests, setRequests] = useState<AdminReturnRequest[]>([])
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | 'all'>('requested')
+  const [form, setForm] = useState<SettingsForm | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`
+      const response = await adminFetch(`/api/admin/returns${query}`)
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to fetch return requests')
+      }
+
+      setRequests(data.requests || [])
+    } catch (err) {
+      console.error('[Admin Returns] Error fetching requests:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load return requests')
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter])
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const response = await adminFetch('/api/admin/return-settings')
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to fetch return settings')
+      }
+
+      setForm(toForm(data.settings))
+    } catch (err) {
+      console.error('[Admin Returns] Error fetching settings:', err)
+      setToast({ message: err instanceof Error ? err.message : 'Failed to load return settings', type: 'error' })
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!isAdmin) {
+      router.push('/')
+      return
+    }
+
+    fetchRequests()
+  }, [isAdmin, isAdminLoading, router, fetchRequests])
+
+  useEffect(() => {
+    if (!isAdminLoading && canManageSettings) fetchSettings()
+  }, [canManageSettings, isAdminLoading, fetchSettings])
+
+  const handleSaveSettings = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!form) return
+
+    try {
+      setIsSaving(true)
+      const response = await adminFetch('/api/admin/return-settings', {
+        method: 'PUT',
+        body: JSON.stringify({
+          is_enabled: form.is_enabled,
+          window_days: Math.round(Number(form.window_days) || 0),
+          allow_exchanges: form.allow_exchanges,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to save return settings')
+      }
+
+      setForm(toForm(data.settings))
+      setToast({ message: 'Return settings saved', type: 'success' })
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to save return settings', type: 'error' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const runAction = async (request: AdminReturnRequest, body: Record<string, unknown>, successMessage: string) => {
+    try {
+      setUpdatingId(request.id)
+      const response = await adminFetch(`/api/admin/returns/${request.id}`, {
+        method: 'PUT',
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to update request')
+      }
+
+      setRequests((prev) =>
+        prev.map((item) => (item.id === request.id ? { ...item, ...data.request } : item))
+      )
+      setToast({ message: successMessage, type: 'success' })
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to update request', type: 'error' })
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const handleReject = (request: AdminReturnRequest) => {
+    const note = window.prompt('Why is this request rejected? The customer will see this note.')
+    if (!note?.trim()) return
+    runAction(request, { action: 'reject', admin_note: note.trim() }, 'Request rejected')
+  }
+
+  const handleSchedulePickup = (request: AdminReturnRequest) => {
+    const courier = window.prompt('Pickup courier (e.g. Delhivery)')
+    if (!courier?.trim()) return
+    const trackingNumber = window.prompt('Reverse pickup AWB / tracking number')
+    if (!trackingNumber?.trim()) return
+    runAction(
+      request,
+      { action: 'schedule_pickup', pickup_courier: courier.trim(), pickup_tracking_number: trackingNumber.trim() },
+      'Pickup recorded'
+    )
+  }
+
+  const handleComplete = (request: AdminReturnRequest, resolution: ReturnResolution) => {
+    const messages: Record<ReturnResolution, string> = {
+      refund: 'Refund the returned items to the original payment method?',
+      store_credit: 'Issue store credit for the returned items as a single-use coupon?',
+      exchange: 'Create a free exchange order with the new sizes?',
+    }
+    if (!window.confirm(messages[resolution])) return
+    runAction(request, { action: 'complete', resolution }, `${RETURN_RESOLUTION_LABELS[resolution]} done`)
+  }
+
+  if (isAdminLoading) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading returns...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!isAdmin) {
+    return null
+  }
+
+  const inputClass =
+    'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+  const labelClass = 'text-sm font-semibold text-gray-700'
+  const actionClass =
+    'px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+  const primaryActionClass =
+    'px-3 py-1.5 bg-gray-900 text-white rounded-lg text-sm font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          isVisible={!!toast}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Returns &amp; Exchanges</h1>
+          <p className="text-gray-600 mt-2">
+            Customers request returns and size exchanges from their order history. Approve the request, record the
+            reverse pickup, mark the parcel received (the pieces go back into stock), then refund, issue store credit
+            or send the new sizes as an exchange order.
+          </p>
+        </div>
+
+        {form && canManageSettings && (
+          <form
+            onSubmit={handleSaveSettings}
+            className="bg-white rounded-2xl border border-gray-200 p-6 shadow-[0_4px_12px_rgba(0,0,0,0.08)] mb-6 grid grid-cols-1 md:grid-cols-4 gap-4 md:items-end"
+          >
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_enabled}
+                onChange={(e) => setForm({ ...form, is_enabled: e.target.checked })}
+              />
+              Accept return requests
+            </label>
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.allow_exchanges}
+                onChange={(e) => setForm({ ...form, allow_exchanges: e.target.checked })}
+              />
+              Offer size exchanges
+            </label>
+            <div>
+              <label htmlFor="window_days" className={labelClass}>Return window (days after delivery)</label>
+              <input
+                id="window_days"
+                type="number"
+                min={1}
+                max={90}
+                step={1}
+                value={form.window_days}
+                onChange={(e) => setForm({ ...form, window_days: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-6 py-2 bg-gray-900 text-white rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Save Settings'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="flex flex-wrap gap-2 mb-6" role="radiogroup" aria-label="Filter by status">
+          {statusFilters.map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={statusFilter === value}
+              onClick={() => setStatusFilter(value)}
+              className={`px-4 py-1.5 rounded-full border text-sm font-semibold transition-colors ${
+                statusFilter === value
+                  ? 'bg-gray-900 text-white border-gray-900'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchRequests}
+              className="mt-2 text-sm text-red-700 hover:text-red-900 underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-600 text-center py-12">Loading requests...</p>
+        ) : requests.length === 0 && !error ? (
+          <div className="bg-white rounded-2xl border border-gray-200 p-8 text-center text-gray-600">
+            No {statusFilter === 'all' ? '' : `${RETURN_STATUS_LABELS[statusFilter].toLowerCase()} `}requests
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => {
+              const isUpdating = updatingId === request.id
+              const paidOnline = !!request.order && request.order.payment_method !== 'cod' && request.order.payment_method !== 'exchange'
+
+              return (
+                <div
+                  key={request.id}
+                  className="bg-white rounded-2xl border border-gray-200 p-4 md:p-5 shadow-[0_4px_12px_rgba(0,0,0,0.08)]"
+                >
+                  <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold text-gray-900">
+                          {request.type === 'exchange' ? 'Exchange' : 'Return'} · #
+                          {request.order?.order_number || request.order_id.slice(-8)}
+                        </span>
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                            returnStatusColors[request.status] || 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {RETURN_STATUS_LABELS[request.status]}
+                        </span>
+                        {request.order?.payment_method === 'cod' && (
+                          <span className="text-xs text-gray-500">COD</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {new Date(request.created_at).toLocaleString('en-IN')} · {request.email}
+                        {request.order?.phone ? ` · ${request.order.phone}` : ''}
+                      </p>
+                      <ul className="text-sm text-gray-700 mt-2 space-y-0.5">
+                        {request.items.map((item) => (
+                          <li key={item.index}>
+                            {item.quantity}x {item.title}
+                            {item.variant ? ` (${item.variant})` : ''}
+                            {item.exchange_size ? ` → size ${item.exchange_size}` : ''}
+                          </li>
+                        ))}
+                      </ul>
+                      <p className="text-sm text-gray-600 mt-2">
+                        <span className="font-semibold">{RETURN_REASONS[request.reason] || request.reason}</span>
+                        {request.note ? `: ${request.note}` : ''}
+                      </p>
+                      {request.order?.address_json && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Pickup from {request.order.address_json.flat}, {request.order.address_json.street},{' '}
+                          {request.order.address_json.city} - {request.order.address_json.pincode}
+                        </p>
+                      )}
+                      {request.pickup_tracking_number && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Pickup: {request.pickup_courier} ({request.pickup_tracking_number})
+                        </p>
+                      )}
+                      {request.admin_note && (
+                        <p className="text-xs text-gray-500 mt-1">Note: {request.admin_note}</p>
+                      )}
+                      {request.status === 'completed' && request.resolution && (
+                        <p className="text-sm text-green-700 mt-1">
+                          {RETURN_RESOLUTION_LABELS[request.resolution]}
+                          {request.credit_coupon_code ? `: coupon ${request.credit_coupon_code}` : ''}
+                        </p>
+                      )}
+                      {request.photo_urls.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-3">
+                          {request.photo_urls.map((url, photoIndex) => (
+                            <a
+                              key={url}
+                              href={url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-sm text-gray-700 underline hover:text-gray-900"
+                            >
+                              Photo {photoIndex + 1}
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2 shrink-0 md:justify-end">
+                      {canUpdateStatus && request.status === 'requested' && (
+                        <button
+                          onClick={() => runAction(request, { action: 'approve' }, 'Request approved')}
+                          disabled={isUpdating}
+                          className={primaryActionClass}
+                        >
+                          Approve
+                        </button>
+                      )}
+                      {canUpdateStatus && request.status === 'approved' && (
+                        <button
+                          onClick={() => handleSchedulePickup(request)}
+                          disabled={isUpdating}
+                          className={primaryActionClass}
+                        >
+                          Schedule Pickup
+                        </button>
+                      )}
+                      {canUpdateStatus && (request.status === 'approved' || request.status === 'pickup_scheduled') && (
+                        <button
+                          onClick={() => runAction(request, { action: 'mark_received' }, 'Marked received and restocked')}
+                          disabled={isUpdating}
+                          className={request.status === 'pickup_scheduled' ? primaryActionClass : actionClass}
+                        >
+                          Mark Received
+                        </button>
+                      )}
+                      {canUpdateStatus && (request.status === 'requested' || request.status === 'approved') && (
+                        <button onClick={() => handleReject(request)} disabled={isUpdating} className={actionClass}>
+                          Reject
+                        </button>
+                      )}
+                      {canUpdateStatus && request.status === 'received' && (
+                        <>
+                          {request.type === 'exchange' && (
+                            <button
+                              onClick={() => handleComplete(request, 'exchange')}
+                              disabled={isUpdating}
+                              className={primaryActionClass}
+                            >
+                              Send Exchange
+                            </button>
+                          )}
+                          {canIssueRefunds && paidOnline && (
+                            <button
+                              onClick={() => handleComplete(request, 'refund')}
+                              disabled={isUpdating}
+                              className={request.type === 'exchange' ? actionClass : primaryActionClass}
+                            >
+                              Refund
+                            </button>
+                          )}
+                          {canIssueRefunds && (
+                            <button
+                              onClick={() => handleComplete(request, 'store_credit')}
+                              disabled={isUpdating}
+                              className={actionClass}
+                            >
+                              Store Credit
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,241 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import { adminFetch } from '@/lib/auth/adminFetch'
+import { saveStoreSettings } from '@/lib/store-settings/client'
+import { HEX_COLOR_PATTERN, type StoreSettings } from '@/lib/store-settings/types'
+import { useStoreSettings } from '@/components/StoreSettingsProvider'
+import Toast from '@/components/ui/Toast'
+
+type StoreSettingsForm = Omit<StoreSettings, 'updated_at'>
+
+const toForm = ({ updated_at: _updatedAt, ...settings }: StoreSettings): StoreSettingsForm => settings
+
+export default function AdminSettingsPage() {
+  const router = useRouter()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canManageSettings = can('manage_settings')
+  const { setSettings } = useStoreSettings()
+  const [form, setForm] = useState<StoreSettingsForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await adminFetch('/api/admin/store-settings')
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to fetch store settings')
+      }
+
+      setForm(toForm(data.settings))
+    } catch (err) {
+      console.error('[Admin Settings] Error fetching settings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load store settings')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!canManageSettings) {
+      router.push('/admin')
+      return
+    }
+
+    fetchSettings()
+  }, [canManageSettings, isAdminLoading, router, fetchSettings])
+
+  const updateForm = <K extends keyof StoreSettingsForm>(field: K, value: StoreSettingsForm[K]) => {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev))
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!form) return
+
+    try {
+      setIsSaving(true)
+      const saved = await saveStoreSettings(form)
+      setForm(toForm(saved))
+      setSettings(saved)
+      // Re-render the layout so the new primary colour applies everywhere
+      router.refresh()
+      setToast({ message: 'Store settings saved', type: 'success' })
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to save store settings', type: 'error' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isAdminLoading || (loading && !form && !error)) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading settings...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canManageSettings) {
+    return null
+  }
+
+  const inputClass =
+    'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+  const labelClass = 'text-sm font-semibold text-gray-700'
+  const isColorValid = !!form && HEX_COLOR_PATTERN.test(form.primary_color)
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          isVisible={!!toast}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Store Settings</h1>
+          <p className="text-gray-600 mt-2">
+            Shown to every customer: the store name and contact details in the footer and Contact section, the
+            About text on the home page, and the primary colour used for buttons and highlights.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchSettings}
+              className="mt-2 text-sm text-red-700 hover:text-red-900 underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {form && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-2xl border border-gray-200 p-6 shadow-[0_4px_12px_rgba(0,0,0,0.08)] space-y-4"
+          >
+            <div>
+              <label htmlFor="store_name" className={labelClass}>Store name</label>
+              <input
+                id="store_name"
+                value={form.store_name}
+                onChange={(e) => updateForm('store_name', e.target.value)}
+                maxLength={100}
+                required
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="contact_email" className={labelClass}>Contact email</label>
+                <input
+                  id="contact_email"
+                  type="email"
+                  value={form.contact_email}
+                  onChange={(e) => updateForm('contact_email', e.target.value)}
+                  required
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="contact_phone" className={labelClass}>Contact phone</label>
+                <input
+                  id="contact_phone"
+                  type="tel"
+                  value={form.contact_phone}
+                  onChange={(e) => updateForm('contact_phone', e.target.value)}
+                  required
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="primary_color" className={labelClass}>Primary colour</label>
+              <div className="mt-1 flex items-center gap-4">
+                <input
+                  type="color"
+                  value={isColorValid ? form.primary_color : '#000000'}
+                  onChange={(e) => updateForm('primary_color', e.target.value)}
+                  aria-label="Pick primary colour"
+                  className="w-12 h-10 border border-gray-300 rounded-lg cursor-pointer"
+                />
+                <input
+                  id="primary_color"
+                  value={form.primary_color}
+                  onChange={(e) => updateForm('primary_color', e.target.value)}
+                  placeholder="#000000"
+                  className={`${inputClass} mt-0 font-mono`}
+                />
+                <span
+                  className="px-4 py-2 rounded-lg text-sm font-semibold text-white whitespace-nowrap"
+                  style={{ backgroundColor: isColorValid ? form.primary_color : undefined }}
+                >
+                  Preview
+                </span>
+              </div>
+              {!isColorValid && <p className="text-xs text-red-600 mt-1">Use a hex colour like #1a2b3c</p>}
+            </div>
+
+            <div>
+              <label htmlFor="about_text_1" className={labelClass}>About text, first paragraph</label>
+              <textarea
+                id="about_text_1"
+                value={form.about_text_1}
+                onChange={(e) => updateForm('about_text_1', e.target.value)}
+                rows={3}
+                maxLength={2000}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="about_text_2" className={labelClass}>About text, second paragraph</label>
+              <textarea
+                id="about_text_2"
+                value={form.about_text_2}
+                onChange={(e) => updateForm('about_text_2', e.target.value)}
+                rows={3}
+                maxLength={2000}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSaving || !isColorValid}
+                className="px-6 py-2 bg-gray-900 text-white rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Save Settings'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,497 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { motion } from 'framer-motion'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import { adminFetch } from '@/lib/auth/adminFetch'
+import { formatINR } from '@/lib/utils/money'
+import { INDIAN_STATES } from '@/lib/utils/indianStates'
+import type { ShippingZone } from '@/lib/shipping/types'
+import Toast from '@/components/ui/Toast'
+
+interface SlabForm {
+  max_grams: string // blank = anything heavier
+  rate: string // rupees
+}
+
+interface ZoneForm {
+  name: string
+  pincode_prefixes: string // comma separated
+  states: string[]
+  is_default: boolean
+  weight_slabs: SlabForm[]
+  free_shipping_threshold: string // rupees
+  priority: string
+  is_active: boolean
+}
+
+const emptyForm: ZoneForm = {
+  name: '',
+  pincode_prefixes: '',
+  states: [],
+  is_default: false,
+  weight_slabs: [
+    { max_grams: '500', rate: '' },
+    { max_grams: '', rate: '' },
+  ],
+  free_shipping_threshold: '',
+  priority: '0',
+  is_active: true,
+}
+
+const optionalPaise = (value: string) => (value.trim() === '' ? null : Math.round(Number(value) * 100))
+
+function describeSlabs(zone: ShippingZone) {
+  return zone.weight_slabs
+    .map((slab) =>
+      slab.max_grams === null
+        ? `heavier ${formatINR(slab.rate_cents / 100)}`
+        : `≤${slab.max_grams} g ${formatINR(slab.rate_cents / 100)}`
+    )
+    .join(' · ')
+}
+
+export default function AdminShippingPage() {
+  const router = useRouter()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canManageSettings = can('manage_settings')
+  const [zones, setZones] = useState<ShippingZone[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [form, setForm] = useState<ZoneForm>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [busyZoneId, setBusyZoneId] = useState<string | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+
+  const fetchZones = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await adminFetch('/api/admin/shipping-zones')
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to fetch shipping zones')
+      }
+
+      setZones(data.zones || [])
+    } catch (err) {
+      console.error('[Admin Shipping] Error fetching zones:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load shipping zones')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!canManageSettings) {
+      router.push('/admin')
+      return
+    }
+
+    fetchZones()
+  }, [canManageSettings, isAdminLoading, router, fetchZones])
+
+  const updateForm = <K extends keyof ZoneForm>(field: K, value: ZoneForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const toggleState = (state: string) => {
+    setForm((prev) => ({
+      ...prev,
+      states: prev.states.includes(state) ? prev.states.filter((s) => s !== state) : [...prev.states, state],
+    }))
+  }
+
+  const updateSlab = (index: number, field: keyof SlabForm, value: string) => {
+    setForm((prev) => ({
+      ...prev,
+      weight_slabs: prev.weight_slabs.map((slab, i) => (i === index ? { ...slab, [field]: value } : slab)),
+    }))
+  }
+
+  const addSlab = () => {
+    setForm((prev) => ({ ...prev, weight_slabs: [...prev.weight_slabs, { max_grams: '', rate: '' }] }))
+  }
+
+  const removeSlab = (index: number) => {
+    setForm((prev) => ({ ...prev, weight_slabs: prev.weight_slabs.filter((_, i) => i !== index) }))
+  }
+
+  const handleEdit = (zone: ShippingZone) => {
+    setEditingId(zone.id)
+    setForm({
+      name: zone.name,
+      pincode_prefixes: zone.pincode_prefixes.join(', '),
+      states: zone.states,
+      is_default: zone.is_default,
+      weight_slabs: zone.weight_slabs.map((slab) => ({
+        max_grams: slab.max_grams !== null ? String(slab.max_grams) : '',
+        rate: String(slab.rate_cents / 100),
+      })),
+      free_shipping_threshold:
+        zone.free_shipping_threshold_cents !== null ? String(zone.free_shipping_threshold_cents / 100) : '',
+      priority: String(zone.priority),
+      is_active: zone.is_active,
+    })
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    const payload = {
+      name: form.name,
+      pincode_prefixes: form.pincode_prefixes
+        .split(',')
+        .map((prefix) => prefix.trim())
+        .filter(Boolean),
+      states: form.states,
+      is_default: form.is_default,
+      weight_slabs: form.weight_slabs.map((slab) => ({
+        max_grams: slab.max_grams.trim() === '' ? null : Math.round(Number(slab.max_grams)),
+        rate_cents: optionalPaise(slab.rate) ?? 0,
+      })),
+      free_shipping_threshold_cents: optionalPaise(form.free_shipping_threshold),
+      priority: Math.round(Number(form.priority) || 0),
+      is_active: form.is_active,
+    }
+
+    try {
+      setIsSaving(true)
+      const response = await adminFetch(
+        editingId ? `/api/admin/shipping-zones/${editingId}` : '/api/admin/shipping-zones',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          body: JSON.stringify(payload),
+        }
+      )
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to save shipping zone')
+      }
+
+      setToast({ message: editingId ? 'Zone updated' : `Zone ${data.zone.name} created`, type: 'success' })
+      resetForm()
+      fetchZones()
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to save shipping zone', type: 'error' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (zone: ShippingZone) => {
+    if (!window.confirm(`Delete zone ${zone.name}?`)) return
+
+    try {
+      setBusyZoneId(zone.id)
+      const response = await adminFetch(`/api/admin/shipping-zones/${zone.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to delete shipping zone')
+      }
+
+      setZones((prev) => prev.filter((z) => z.id !== zone.id))
+      if (editingId === zone.id) resetForm()
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to delete shipping zone', type: 'error' })
+    } finally {
+      setBusyZoneId(null)
+    }
+  }
+
+  if (isAdminLoading || (loading && zones.length === 0 && !error)) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading shipping zones...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canManageSettings) {
+    return null
+  }
+
+  const inputClass =
+    'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+  const labelClass = 'text-sm font-semibold text-gray-700'
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          isVisible={!!toast}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Shipping</h1>
+          <p className="text-gray-600 mt-2">
+            Delivery charges by PIN code or state and parcel weight. Products without a weight count as 500 g.
+          </p>
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white rounded-2xl border border-gray-200 p-6 shadow-[0_4px_12px_rgba(0,0,0,0.08)] mb-8 space-y-4"
+        >
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-gray-900">{editingId ? `Edit ${form.name}` : 'New Zone'}</h2>
+            {editingId && (
+              <button type="button" onClick={resetForm} className="text-sm text-gray-600 hover:text-gray-900 underline">
+                Cancel editing
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="name" className={labelClass}>Name *</label>
+              <input
+                id="name"
+                value={form.name}
+                onChange={(e) => updateForm('name', e.target.value)}
+                placeholder="Metro cities"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="free_shipping_threshold" className={labelClass}>Free shipping from (₹)</label>
+              <input
+                id="free_shipping_threshold"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.free_shipping_threshold}
+                onChange={(e) => updateForm('free_shipping_threshold', e.target.value)}
+                placeholder="Never free"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="priority" className={labelClass}>Priority</label>
+              <input
+                id="priority"
+                type="number"
+                value={form.priority}
+                onChange={(e) => updateForm('priority', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="pincode_prefixes" className={labelClass}>PIN code prefixes</label>
+            <input
+              id="pincode_prefixes"
+              value={form.pincode_prefixes}
+              onChange={(e) => updateForm('pincode_prefixes', e.target.value)}
+              placeholder="e.g. 110, 400, 560"
+              className={inputClass}
+            />
+            <p className="text-xs text-gray-500 mt-1">Comma separated. A PIN code matches when it starts with any of these.</p>
+          </div>
+
+          <div>
+            <p className={labelClass}>States</p>
+            <p className="text-xs text-gray-500 mb-2">Used when the PIN code doesn&apos;t match any zone&apos;s prefixes.</p>
+            <div className="flex flex-wrap gap-2">
+              {INDIAN_STATES.map((state) => {
+                const isSelected = form.states.includes(state)
+                return (
+                  <button
+                    key={state}
+                    type="button"
+                    onClick={() => toggleState(state)}
+                    className={`px-3 py-1 rounded-full border text-xs font-semibold transition-colors ${
+                      isSelected
+                        ? 'bg-primary text-white border-primary'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {state}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+
+          <div>
+            <p className={labelClass}>Weight slabs *</p>
+            <p className="text-xs text-gray-500 mb-2">Leave the weight blank for &quot;anything heavier&quot;.</p>
+            <div className="space-y-2">
+              {form.weight_slabs.map((slab, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <input
+                      type="number"
+                      min={1}
+                      value={slab.max_grams}
+                      onChange={(e) => updateSlab(index, 'max_grams', e.target.value)}
+                      placeholder="Up to (grams)"
+                      aria-label="Up to (grams)"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={slab.rate}
+                      onChange={(e) => updateSlab(index, 'rate', e.target.value)}
+                      placeholder="Rate (₹)"
+                      aria-label="Rate (₹)"
+                      className={inputClass}
+                      required
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeSlab(index)}
+                    disabled={form.weight_slabs.length === 1}
+                    className="mt-1 px-3 py-2 rounded-lg border border-red-200 text-sm font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={addSlab}
+              className="mt-2 text-sm font-semibold text-gray-700 hover:text-gray-900 underline"
+            >
+              + Add slab
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 pt-2">
+            <div className="flex items-center gap-6">
+              <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => updateForm('is_active', e.target.checked)}
+                />
+                Active
+              </label>
+              <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_default}
+                  onChange={(e) => updateForm('is_default', e.target.checked)}
+                />
+                Default zone
+              </label>
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-6 py-2 bg-gray-900 text-white rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Zone'}
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchZones}
+              className="mt-2 text-sm text-red-700 hover:text-red-900 underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {!error && zones.length === 0 && (
+          <div className="text-center py-16 bg-white rounded-2xl border border-gray-200">
+            <p className="text-gray-600 text-lg mb-2">No shipping zones yet</p>
+            <p className="text-gray-500 text-sm">Shipping is free until you create a zone</p>
+          </div>
+        )}
+
+        {!error && zones.length > 0 && (
+          <div className="space-y-3">
+            {zones.map((zone, index) => (
+              <motion.div
+                key={zone.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3, delay: index * 0.05 }}
+                className="bg-white rounded-2xl border border-gray-200 p-5 shadow-[0_4px_12px_rgba(0,0,0,0.08)] flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+              >
+                <div>
+                  <div className="flex items-center gap-3 mb-1">
+                    <h3 className="text-lg font-bold text-gray-900">{zone.name}</h3>
+                    <span
+                      className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                        zone.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {zone.is_active ? 'Active' : 'Inactive'}
+                    </span>
+                    {zone.is_default && (
+                      <span className="px-3 py-1 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                        Default
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-700">{describeSlabs(zone)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Priority {zone.priority}
+                    {zone.free_shipping_threshold_cents !== null
+                      ? ` · free from ${formatINR(zone.free_shipping_threshold_cents / 100)}`
+                      : ''}
+                    {zone.pincode_prefixes.length > 0 ? ` · PIN ${zone.pincode_prefixes.join(', ')}` : ''}
+                    {zone.states.length > 0 ? ` · ${zone.states.length} states` : ''}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleEdit(zone)}
+                    disabled={busyZoneId === zone.id}
+                    className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(zone)}
+                    disabled={busyZoneId === zone.id}
+                    className="px-3 py-1.5 rounded-lg border border-red-200 text-sm font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
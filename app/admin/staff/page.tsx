@@ -0,0 +1,280 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import {
+  PERMISSIONS,
+  PERMISSION_LABELS,
+  ROLE_LABELS,
+  ROLE_PERMISSIONS,
+  STAFF_ROLES,
+  type StaffRole,
+} from '@/lib/auth/permissions'
+import { fetchStaff, inviteStaffMember, removeStaffMember, updateStaffRole } from '@/lib/staff/client'
+import type { StaffMember } from '@/lib/staff/types'
+import Toast from '@/components/ui/Toast'
+
+const formatDate = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleDateString('en-IN', { year: 'numeric', month: 'short', day: 'numeric' }) : 'Never'
+
+export default function AdminStaffPage() {
+  const router = useRouter()
+  const { can, userId, isLoading: isAdminLoading } = useIsAdmin()
+  const canManageStaff = can('manage_staff')
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<StaffRole>('fulfilment')
+  const [isInviting, setIsInviting] = useState(false)
+  const [busyUserId, setBusyUserId] = useState<string | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+
+  const loadStaff = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setStaff(await fetchStaff())
+    } catch (err) {
+      console.error('[Admin Staff] Error fetching staff:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load staff')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!canManageStaff) {
+      router.push('/admin')
+      return
+    }
+
+    loadStaff()
+  }, [canManageStaff, isAdminLoading, router, loadStaff])
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setIsInviting(true)
+      const { invited } = await inviteStaffMember(email, role)
+      setToast({
+        message: invited ? `Invite sent to ${email}` : `${email} is now ${ROLE_LABELS[role]}`,
+        type: 'success',
+      })
+      setEmail('')
+      loadStaff()
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to invite staff member', type: 'error' })
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const handleRoleChange = async (member: StaffMember, nextRole: StaffRole) => {
+    try {
+      setBusyUserId(member.user_id)
+      await updateStaffRole(member.user_id, nextRole)
+      setStaff((prev) => prev.map((row) => (row.user_id === member.user_id ? { ...row, role: nextRole } : row)))
+      setToast({ message: `${member.email} is now ${ROLE_LABELS[nextRole]}`, type: 'success' })
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to change role', type: 'error' })
+    } finally {
+      setBusyUserId(null)
+    }
+  }
+
+  const handleRemove = async (member: StaffMember) => {
+    if (!window.confirm(`Remove staff access for ${member.email}? Their customer account stays.`)) return
+
+    try {
+      setBusyUserId(member.user_id)
+      await removeStaffMember(member.user_id)
+      setStaff((prev) => prev.filter((row) => row.user_id !== member.user_id))
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to remove staff member', type: 'error' })
+    } finally {
+      setBusyUserId(null)
+    }
+  }
+
+  if (isAdminLoading || (loading && staff.length === 0 && !error)) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading staff...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canManageStaff) {
+    return null
+  }
+
+  const inputClass =
+    'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+  const labelClass = 'text-sm font-semibold text-gray-700'
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          isVisible={!!toast}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Staff</h1>
+          <p className="text-gray-600 mt-2">
+            Invite people to help run the store and choose what they can do. New staff get an email to set a
+            password, then sign in at the admin login.
+          </p>
+        </div>
+
+        <form
+          onSubmit={handleInvite}
+          className="bg-white rounded-2xl border border-gray-200 p-6 shadow-[0_4px_12px_rgba(0,0,0,0.08)] mb-8 grid grid-cols-1 md:grid-cols-3 gap-4 md:items-end"
+        >
+          <div>
+            <label htmlFor="email" className={labelClass}>Email *</label>
+            <input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="packing@example.com"
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="role" className={labelClass}>Role *</label>
+            <select
+              id="role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as StaffRole)}
+              className={inputClass}
+            >
+              {STAFF_ROLES.map((value) => (
+                <option key={value} value={value}>
+                  {ROLE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isInviting}
+              className="px-6 py-2 bg-gray-900 text-white rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isInviting ? 'Inviting...' : 'Invite'}
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button onClick={loadStaff} className="mt-2 text-sm text-red-700 hover:text-red-900 underline">
+              Try again
+            </button>
+          </div>
+        )}
+
+        {!error && staff.length > 0 && (
+          <div className="bg-white rounded-2xl border border-gray-200 overflow-x-auto mb-8">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 font-semibold">Email</th>
+                  <th className="px-4 py-3 font-semibold">Role</th>
+                  <th className="px-4 py-3 font-semibold">Last sign-in</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {staff.map((member) => {
+                  const isSelf = member.user_id === userId
+                  return (
+                    <tr key={member.user_id}>
+                      <td className="px-4 py-3 text-gray-900">
+                        {member.email}
+                        {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                      </td>
+                      <td className="px-4 py-3">
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as StaffRole)}
+                          disabled={isSelf || busyUserId === member.user_id}
+                          aria-label={`Role for ${member.email}`}
+                          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary disabled:opacity-50"
+                        >
+                          {STAFF_ROLES.map((value) => (
+                            <option key={value} value={value}>
+                              {ROLE_LABELS[value]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {member.last_sign_in_at ? formatDate(member.last_sign_in_at) : `Invited ${formatDate(member.invited_at)}`}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {!isSelf && (
+                          <button
+                            onClick={() => handleRemove(member)}
+                            disabled={busyUserId === member.user_id}
+                            className="px-3 py-1.5 rounded-lg border border-red-200 text-sm font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="bg-white rounded-2xl border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-3 font-semibold">What each role can do</th>
+                {STAFF_ROLES.map((value) => (
+                  <th key={value} className="px-4 py-3 font-semibold text-center">
+                    {ROLE_LABELS[value]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {PERMISSIONS.map((permission) => (
+                <tr key={permission}>
+                  <td className="px-4 py-3 text-gray-700">{PERMISSION_LABELS[permission]}</td>
+                  {STAFF_ROLES.map((value) => (
+                    <td key={value} className="px-4 py-3 text-center text-gray-900">
+                      {ROLE_PERMISSIONS[value].includes(permission) ? '✓' : '—'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { motion } from 'framer-motion'
+import { useIsAdmin } from '@/lib/auth/useIsAdmin'
+import { fetchCategoriesWithGst, updateCategoryGst, type CategoryWithGst } from '@/lib/supabase/categories'
+import Toast from '@/components/ui/Toast'
+
+interface GstForm {
+  hsn_code: string
+  gst_rate: string // percent
+  slab_threshold: string // rupees per piece
+  rate_above_threshold: string // percent
+}
+
+const toForm = (category: CategoryWithGst): GstForm => ({
+  hsn_code: category.hsn_code || '',
+  gst_rate: category.gst_rate !== null ? String(category.gst_rate) : '',
+  slab_threshold: category.gst_slab_threshold_cents !== null ? String(category.gst_slab_threshold_cents / 100) : '',
+  rate_above_threshold: category.gst_rate_above_threshold !== null ? String(category.gst_rate_above_threshold) : '',
+})
+
+const optionalNumber = (value: string) => (value.trim() === '' ? null : Number(value))
+
+export default function AdminTaxPage() {
+  const router = useRouter()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canManageSettings = can('manage_settings')
+  const [categories, setCategories] = useState<CategoryWithGst[]>([])
+  const [forms, setForms] = useState<Record<string, GstForm>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+
+  const loadCategories = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await fetchCategoriesWithGst()
+      setCategories(data)
+      setForms(Object.fromEntries(data.map((category) => [category.id, toForm(category)])))
+    } catch (err) {
+      console.error('[Admin Tax] Error fetching categories:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load categories')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isAdminLoading) return
+
+    if (!canManageSettings) {
+      router.push('/admin')
+      return
+    }
+
+    loadCategories()
+  }, [canManageSettings, isAdminLoading, router, loadCategories])
+
+  const updateForm = (categoryId: string, field: keyof GstForm, value: string) => {
+    setForms((prev) => ({ ...prev, [categoryId]: { ...prev[categoryId], [field]: value } }))
+  }
+
+  const handleSave = async (category: CategoryWithGst) => {
+    const form = forms[category.id]
+    const hsnCode = form.hsn_code.trim() || null
+    const gstRate = optionalNumber(form.gst_rate)
+    const threshold = optionalNumber(form.slab_threshold)
+    const rateAbove = optionalNumber(form.rate_above_threshold)
+
+    if (hsnCode !== null && !/^\d{4,8}$/.test(hsnCode)) {
+      setToast({ message: 'HSN code must be 4 to 8 digits', type: 'error' })
+      return
+    }
+    if ([gstRate, rateAbove].some((rate) => rate !== null && (isNaN(rate) || rate < 0 || rate > 28))) {
+      setToast({ message: 'GST rates must be between 0 and 28', type: 'error' })
+      return
+    }
+    if ((threshold === null) !== (rateAbove === null)) {
+      setToast({ message: 'Set both the slab price and the rate above it, or neither', type: 'error' })
+      return
+    }
+    if (threshold !== null && gstRate === null) {
+      setToast({ message: 'Set a base GST rate before adding a price slab', type: 'error' })
+      return
+    }
+
+    try {
+      setSavingId(category.id)
+      await updateCategoryGst(category.id, {
+        hsn_code: hsnCode,
+        gst_rate: gstRate,
+        gst_slab_threshold_cents: threshold !== null ? Math.round(threshold * 100) : null,
+        gst_rate_above_threshold: rateAbove,
+      })
+      setToast({ message: `GST settings saved for ${category.name}`, type: 'success' })
+      loadCategories()
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to save GST settings', type: 'error' })
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  if (isAdminLoading || (loading && categories.length === 0 && !error)) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading GST settings...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canManageSettings) {
+    return null
+  }
+
+  const inputClass =
+    'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+  const labelClass = 'text-xs font-semibold text-gray-600'
+  const categoryName = (id: string | null) => categories.find((c) => c.id === id)?.name
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      {toast && (
+        <Toast
+          message={toast.message}
+          type={toast.type}
+          isVisible={!!toast}
+          onClose={() => setToast(null)}
+        />
+      )}
+
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">GST</h1>
+          <p className="text-gray-600 mt-2">
+            HSN codes and GST rates per category. Prices include GST. Subcategories inherit their parent&apos;s rate
+            when left blank, and anything unset uses the apparel rule: 5% up to ₹2,500 per piece, 18% above.
+            Products can override the rate from their own page.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={loadCategories}
+              className="mt-2 text-sm text-red-700 hover:text-red-900 underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {!error && (
+          <div className="space-y-3">
+            {categories.map((category, index) => {
+              const form = forms[category.id]
+              if (!form) return null
+
+              return (
+                <motion.div
+                  key={category.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3, delay: index * 0.03 }}
+                  className="bg-white rounded-2xl border border-gray-200 p-5 shadow-[0_4px_12px_rgba(0,0,0,0.08)]"
+                >
+                  <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+                    <div className="lg:w-48">
+                      <h3 className="text-lg font-bold text-gray-900">{category.name}</h3>
+                      {category.parent_id && (
+                        <p className="text-xs text-gray-500">in {categoryName(category.parent_id) || 'parent'}</p>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 flex-1">
+                      <div>
+                        <label className={labelClass}>HSN code</label>
+                        <input
+                          value={form.hsn_code}
+                          onChange={(e) => updateForm(category.id, 'hsn_code', e.target.value)}
+                          inputMode="numeric"
+                          placeholder="e.g. 6109"
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClass}>GST rate %</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={28}
+                          step="0.01"
+                          value={form.gst_rate}
+                          onChange={(e) => updateForm(category.id, 'gst_rate', e.target.value)}
+                          placeholder="Inherit"
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Slab: price per piece up to (₹)</label>
+                        <input
+                          type="number"
+                          min={1}
+                          step="0.01"
+                          value={form.slab_threshold}
+                          onChange={(e) => updateForm(category.id, 'slab_threshold', e.target.value)}
+                          placeholder="No slab"
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Rate above slab %</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={28}
+                          step="0.01"
+                          value={form.rate_above_threshold}
+                          onChange={(e) => updateForm(category.id, 'rate_above_threshold', e.target.value)}
+                          placeholder="No slab"
+                          className={inputClass}
+                        />
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleSave(category)}
+                      disabled={savingId === category.id}
+                      className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {savingId === category.id ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </motion.div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { listAuditLog } from '@/lib/audit/server'
+import { AUDIT_ENTITY_TYPES } from '@/lib/audit/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/audit-log
+ * Admin changes, newest first, 50 at a time
+ * Query params: entity_type, entity_id, actor (part of an email), before (created_at cursor)
+ * Staff with the view_audit_log permission
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'view_audit_log')
+    if (response) return response
+
+    const searchParams = request.nextUrl.searchParams
+    const entityTypeParam = searchParams.get('entity_type')
+    const before = searchParams.get('before')
+
+    if (before && Number.isNaN(Date.parse(before))) {
+      return NextResponse.json({ error: 'Invalid before cursor' }, { status: 400 })
+    }
+
+    const result = await listAuditLog(createServerSupabaseClient(), {
+      entity_type: AUDIT_ENTITY_TYPES.find((value) => value === entityTypeParam),
+      entity_id: searchParams.get('entity_id')?.trim() || undefined,
+      actor: searchParams.get('actor') || undefined,
+      before: before || undefined,
+    })
+
+    return NextResponse.json({ entries: result.entries, has_more: result.hasMore })
+  } catch (error: any) {
+    console.error('[Admin Audit Log] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { codSettingsInputSchema, getCodSettings } from '@/lib/cod/server'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/cod-settings
+ * Returns the Cash on Delivery settings
+ * Staff with the manage_settings permission
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const settings = await getCodSettings(createServerSupabaseClient())
+
+    return NextResponse.json({ settings })
+  } catch (error: any) {
+    console.error('[Admin COD] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/admin/cod-settings
+ * Updates the Cash on Delivery settings (fee, limits and RTO blocking)
+ * Staff with the manage_settings permission
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const body = await request.json()
+    const input = codSettingsInputSchema.parse(body)
+
+    const supabase = createServerSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('cod_settings')
+      .upsert({
+        id: true,
+        ...input,
+        blocked_pincodes: Array.from(new Set(input.blocked_pincodes.filter(Boolean))),
+      })
+      .select('is_enabled, fee_cents, max_order_cents, blocked_pincodes, block_rto_customers, max_rto_count, updated_at')
+      .single()
+
+    if (error) {
+      console.error('[Admin COD] Error updating settings:', error)
+      return NextResponse.json(
+        { error: 'Failed to update COD settings', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ settings: data })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid COD settings', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin COD] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { diffFields, recordAuditEvent } from '@/lib/audit/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { couponInputSchema } from '@/lib/coupons/server'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/admin/coupons/[id]
+ * Replaces a coupon's settings, or toggles it with { is_active } only
+ * Staff with the manage_settings permission
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const couponId = resolvedParams.id
+
+    const { user, response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const body = await request.json()
+    const isToggle = Object.keys(body).length === 1 && typeof body.is_active === 'boolean'
+    const updates = isToggle ? { is_active: body.is_active as boolean } : couponInputSchema.parse(body)
+
+    const supabase = createServerSupabaseClient()
+
+    const { data: current, error: loadError } = await supabase
+      .from('coupons')
+      .select('*')
+      .eq('id', couponId)
+      .maybeSingle()
+
+    if (loadError) {
+      console.error('[Admin Coupons] Error fetching coupon:', loadError)
+      return NextResponse.json(
+        { error: 'Failed to update coupon', message: loadError.message },
+        { status: 500 }
+      )
+    }
+
+    if (!current) {
+      return NextResponse.json({ error: 'Coupon not found' }, { status: 404 })
+    }
+
+    const { data, error } = await supabase
+      .from('coupons')
+      .update(updates)
+      .eq('id', couponId)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'Another coupon already uses this code' },
+          { status: 409 }
+        )
+      }
+      console.error('[Admin Coupons] Error updating coupon:', error)
+      return NextResponse.json(
+        { error: 'Failed to update coupon', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Coupon not found' }, { status: 404 })
+    }
+
+    const diff = diffFields(current, data, Object.keys(updates))
+    if (diff) {
+      await recordAuditEvent(supabase, {
+        actorId: user.id,
+        action: 'update',
+        entityType: 'coupon',
+        entityId: couponId,
+        entityLabel: data.code,
+        ...diff,
+      })
+    }
+
+    return NextResponse.json({ coupon: data })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid coupon', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Coupons] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/coupons/[id]
+ * Deletes a coupon. Orders keep the code they were placed with.
+ * Staff with the manage_settings permission
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const couponId = resolvedParams.id
+
+    const { user, response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const supabase = createServerSupabaseClient()
+
+    const { data: deleted, error } = await supabase
+      .from('coupons')
+      .delete()
+      .eq('id', couponId)
+      .select('*')
+
+    if (error) {
+      console.error('[Admin Coupons] Error deleting coupon:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete coupon', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    for (const coupon of deleted || []) {
+      await recordAuditEvent(supabase, {
+        actorId: user.id,
+        action: 'delete',
+        entityType: 'coupon',
+        entityId: coupon.id,
+        entityLabel: coupon.code,
+        before: coupon,
+      })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[Admin Coupons] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { recordAuditEvent } from '@/lib/audit/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { UNREDEEMED_ORDER_STATUSES, couponInputSchema } from '@/lib/coupons/server'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/coupons
+ * Lists all coupons with how many paid orders have used each one
+ * Staff with the manage_settings permission
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const supabase = createServerSupabaseClient()
+
+    const { data: coupons, error } = await supabase
+      .from('coupons')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[Admin Coupons] Error fetching coupons:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch coupons', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    const codes = (coupons || []).map((coupon) => coupon.code)
+    const usage: Record<string, number> = {}
+
+    if (codes.length > 0) {
+      const { data: orders, error: usageError } = await supabase
+        .from('orders')
+        .select('coupon_code')
+        .in('coupon_code', codes)
+        .not('status', 'in', UNREDEEMED_ORDER_STATUSES)
+
+      if (usageError) {
+        console.error('[Admin Coupons] Error counting coupon usage:', usageError)
+      }
+
+      for (const order of orders || []) {
+        usage[order.coupon_code] = (usage[order.coupon_code] || 0) + 1
+      }
+    }
+
+    return NextResponse.json({
+      coupons: (coupons || []).map((coupon) => ({ ...coupon, times_used: usage[coupon.code] || 0 })),
+    })
+  } catch (error: any) {
+    console.error('[Admin Coupons] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/coupons
+ * Creates a coupon
+ * Staff with the manage_settings permission
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const body = await request.json()
+    const coupon = couponInputSchema.parse(body)
+
+    const supabase = createServerSupabaseClient()
+
+    const { data, error } = await supabase
+      .from('coupons')
+      .insert(coupon)
+      .select('*')
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `A coupon with code ${coupon.code} already exists` },
+          { status: 409 }
+        )
+      }
+      console.error('[Admin Coupons] Error creating coupon:', error)
+      return NextResponse.json(
+        { error: 'Failed to create coupon', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    await recordAuditEvent(supabase, {
+      actorId: user.id,
+      action: 'create',
+      entityType: 'coupon',
+      entityId: data.id,
+      entityLabel: data.code,
+      after: data,
+    })
+
+    return NextResponse.json({ coupon: { ...data, times_used: 0 } }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid coupon', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Coupons] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
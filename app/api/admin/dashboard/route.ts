@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/server'
+import { hasPermission } from '@/lib/auth/permissions'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { getDashboardStats } from '@/lib/dashboard/server'
+import { firstName } from '@/lib/orders/pii'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/dashboard
+ * Sales (today, 7 and 30 days), orders by status, payment failure rate,
+ * top products and categories, low stock and the newest orders
+ * Admin-only access; without view_customer_pii only first names are shown
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { role, response } = await requireAdmin(request)
+    if (response) return response
+
+    const stats = await getDashboardStats(createServerSupabaseClient())
+
+    if (!hasPermission(role, 'view_customer_pii')) {
+      stats.recent_orders = stats.recent_orders.map((order) => ({ ...order, customer_name: firstName(order.customer_name) }))
+    }
+
+    return NextResponse.json({ stats })
+  } catch (error: any) {
+    console.error('[Admin Dashboard] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
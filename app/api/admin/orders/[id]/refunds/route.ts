@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { createOrderRefund, getOrderRefundOverview, refundRequestSchema } from '@/lib/refunds/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/orders/[id]/refunds
+ * Lists an order's refunds and what can still be refunded per line
+ * Admin-only access
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const orderId = resolvedParams.id
+
+    const { response } = await requireAdmin(request)
+    if (response) return response
+
+    const overview = await getOrderRefundOverview(createServerSupabaseClient(), orderId)
+    if (!overview) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(overview)
+  } catch (error: any) {
+    console.error('[Admin Refunds] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/orders/[id]/refunds
+ * Refunds a Razorpay payment: { items: [{ index, quantity }] } for specific
+ * pieces, { amount_cents } for a partial amount, or {} for the full remainder
+ * Staff with the issue_refunds permission
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const orderId = resolvedParams.id
+
+    const { user, response } = await requireAdmin(request, 'issue_refunds')
+    if (response) return response
+
+    const body = await request.json()
+    const refundRequest = refundRequestSchema.parse(body)
+
+    const supabase = createServerSupabaseClient()
+    const result = await createOrderRefund(supabase, orderId, refundRequest, user.id)
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 })
+    }
+
+    const { data: order } = await supabase.from('orders').select('*').eq('id', orderId).maybeSingle()
+
+    return NextResponse.json({ refund: result.refund, order }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid refund', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Refunds] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { getOrderShipmentLabel } from '@/lib/couriers/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/orders/[id]/shipment/label
+ * Downloads the courier's shipping label for a booked order as a PDF
+ * Staff with the view_customer_pii permission
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const orderId = resolvedParams.id
+
+    const { response } = await requireAdmin(request, 'view_customer_pii')
+    if (response) return response
+
+    const result = await getOrderShipmentLabel(createServerSupabaseClient(), orderId)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return new NextResponse(Buffer.from(result.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="Label-${result.order_number}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error: any) {
+    console.error('[Admin Shipment] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
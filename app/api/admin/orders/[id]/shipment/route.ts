@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { createOrderShipment } from '@/lib/couriers/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/admin/orders/[id]/shipment
+ * Books a courier pickup for a confirmed or processing order and stores the
+ * AWB as its tracking number. Optional body: { courier_id } (defaults to
+ * COURIER_PROVIDER). The order moves to shipped once tracking shows the
+ * courier has the parcel.
+ * Staff with the update_order_status permission
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const orderId = resolvedParams.id
+
+    const { user, response } = await requireAdmin(request, 'update_order_status')
+    if (response) return response
+
+    const body = await request.json().catch(() => ({}))
+    const courierId = typeof body?.courier_id === 'string' ? body.courier_id : null
+
+    const result = await createOrderShipment(createServerSupabaseClient(), orderId, courierId, user.id)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ order: result.order }, { status: 201 })
+  } catch (error: any) {
+    console.error('[Admin Shipment] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
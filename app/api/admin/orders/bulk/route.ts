@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { hasPermission } from '@/lib/auth/permissions'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { bulkOrderRequestSchema, runBulkOrderUpdates } from '@/lib/orders/bulk'
+import { redactOrderPii } from '@/lib/orders/pii'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/admin/orders/bulk
+ * Applies an update to many orders: { updates: [{ order_id | order_number,
+ * ...fields of PUT /api/admin/orders/[id] }] }, e.g. a status change, courier
+ * and tracking number, or { append_admin_note }.
+ * Each order is validated and updated on its own; the response lists every
+ * outcome: { results: [{ order_id, order_number, ok, error?, order? }], succeeded, failed }
+ * Staff with the update_order_status permission
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, role, response } = await requireAdmin(request, 'update_order_status')
+    if (response) return response
+
+    const body = await request.json()
+    const { updates } = bulkOrderRequestSchema.parse(body)
+
+    const outcomes = await runBulkOrderUpdates(createServerSupabaseClient(), updates, user.id, {
+      canRefund: hasPermission(role, 'issue_refunds'),
+    })
+    const results = hasPermission(role, 'view_customer_pii')
+      ? outcomes
+      : outcomes.map((result) => (result.order ? { ...result, order: redactOrderPii(result.order) } : result))
+    const failed = results.filter((result) => !result.ok)
+
+    console.log(`[Bulk Orders] ${results.length - failed.length} updated, ${failed.length} failed`)
+
+    return NextResponse.json({ results, succeeded: results.length - failed.length, failed: failed.length })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid bulk update', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Bulk Orders] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
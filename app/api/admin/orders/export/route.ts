@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { adminOrderFiltersSchema, exportAdminOrdersCsv, searchParamsToObject } from '@/lib/orders/list'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/orders/export
+ * Downloads every order matching the admin list filters (same query
+ * parameters as GET /api/admin/orders, without cursor and limit) as CSV.
+ * X-Export-Truncated is "true" when the export hit the row cap.
+ * Staff with the view_customer_pii permission
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'view_customer_pii')
+    if (response) return response
+
+    const filters = adminOrderFiltersSchema.parse(searchParamsToObject(request.nextUrl.searchParams))
+    const { csv, rows, truncated } = await exportAdminOrdersCsv(createServerSupabaseClient(), filters)
+
+    console.log(`[Admin Orders Export] Exported ${rows} orders${truncated ? ' (truncated)' : ''}`)
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="orders-${new Date().toISOString().slice(0, 10)}.csv"`,
+        'Cache-Control': 'private, no-store',
+        'X-Export-Truncated': String(truncated),
+      },
+    })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid filters', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Orders Export] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
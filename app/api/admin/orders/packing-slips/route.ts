@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { hasPermission } from '@/lib/auth/permissions'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { getSellerDetails } from '@/lib/tax/server'
+import { PACKABLE_STATUSES } from '@/lib/packing/types'
+import {
+  loadPackingOrders,
+  markOrdersProcessing,
+  packingSlipRequestSchema,
+  renderPackingSlipsPdf,
+} from '@/lib/packing/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/admin/orders/packing-slips
+ * Renders packing slips with address labels for a batch of orders as one
+ * PDF: { order_ids: string[], mark_processing?: boolean }.
+ * With mark_processing, confirmed orders move to processing once the PDF is
+ * ready; the X-Orders-Processed and X-Orders-Not-Processed headers list
+ * which order numbers moved and which did not; mark_processing also needs
+ * update_order_status.
+ * Staff with the view_customer_pii permission
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, role, response } = await requireAdmin(request, 'view_customer_pii')
+    if (response) return response
+
+    const body = await request.json()
+    const { order_ids: orderIds, mark_processing: markProcessing } = packingSlipRequestSchema.parse(body)
+
+    if (markProcessing && !hasPermission(role, 'update_order_status')) {
+      return NextResponse.json({ error: 'Your role can print slips but not move orders to processing' }, { status: 403 })
+    }
+
+    const supabase = createServerSupabaseClient()
+    const orders = await loadPackingOrders(supabase, orderIds)
+
+    if (orders.length !== orderIds.length) {
+      return NextResponse.json({ error: 'Some of the selected orders no longer exist. Refresh and try again.' }, { status: 404 })
+    }
+
+    const unpackable = orders.filter((order) => !PACKABLE_STATUSES.includes(order.status))
+    if (unpackable.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Only confirmed, processing or shipped orders can be packed: ${unpackable
+            .map((order) => `#${order.order_number} is ${order.status}`)
+            .join(', ')}`,
+        },
+        { status: 409 }
+      )
+    }
+
+    // Render first so a failed PDF never moves orders along
+    const pdf = await renderPackingSlipsPdf(orders, getSellerDetails())
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="Packing-Slips-${new Date().toISOString().slice(0, 10)}.pdf"`,
+      'Cache-Control': 'private, no-store',
+    }
+
+    if (markProcessing) {
+      const { updated, failed } = await markOrdersProcessing(supabase, orders, user.id)
+      if (failed.length > 0) {
+        console.error('[Packing Slips] Orders not moved to processing:', failed)
+      }
+      headers['X-Orders-Processed'] = updated.join(',')
+      headers['X-Orders-Not-Processed'] = failed.map((item) => item.order_number).join(',')
+    }
+
+    return new NextResponse(Buffer.from(pdf), { headers })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid request', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Packing Slips] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,118 +1,55 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerSupabaseClient, createServerSupabaseClientWithAuth } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { hasPermission } from '@/lib/auth/permissions'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { adminOrderListSchema, listAdminOrders, searchParamsToObject } from '@/lib/orders/list'
+import { redactOrderPii } from '@/lib/orders/pii'
 
 // Admin orders API uses searchParams and auth; ensure it is always treated as dynamic
 export const dynamic = 'force-dynamic'
 
 /**
  * GET /api/admin/orders
- * 
- * Fetches all orders for admin with optional filters
- * Admin-only access
- * 
- * Query parameters:
- * - status: string (optional) - filter by order status
- * - payment_status: string (optional) - filter by payment status
+ *
+ * One page of orders for admin (paid, confirmed or Cash on Delivery),
+ * newest first unless sorted otherwise
+ * Admin-only access; customer details are masked without view_customer_pii
+ *
+ * Query parameters (all optional):
+ * - q: order number, email, phone, customer name or payment id
+ * - status, payment_status, payment_method: exact filters
+ * - date_from, date_to: YYYY-MM-DD, inclusive, India time
+ * - sort: newest | oldest | total_desc | total_asc
+ * - limit: page size (default 25, max 100)
+ * - cursor: next_cursor from the previous page
+ *
+ * Returns { orders, next_cursor, total }; total is only counted on the first page.
  */
 export async function GET(request: NextRequest) {
   try {
-    // Create client with anon key to read user session
-    const { client: authClient, accessToken } = createServerSupabaseClientWithAuth(request)
-    
-    // Get authenticated user using access token if available
-    let user = null
-    if (accessToken) {
-      const { data: { user: userData }, error: authError } = await authClient.auth.getUser(accessToken)
-      if (authError) {
-        return NextResponse.json(
-          { error: 'Unauthorized - Invalid session' },
-          { status: 401 }
-        )
-      }
-      user = userData
-    } else {
-      // Try without token (might work if cookies are set properly)
-      const { data: { user: userData }, error: authError } = await authClient.auth.getUser()
-      if (authError || !userData) {
-        return NextResponse.json(
-          { error: 'Unauthorized - Please log in' },
-          { status: 401 }
-        )
-      }
-      user = userData
-    }
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized - Please log in' },
-        { status: 401 }
-      )
-    }
+    const { role, response } = await requireAdmin(request)
+    if (response) return response
 
-    // Check if user is admin using auth client (with anon key, respects RLS)
-    const { data: roleData } = await authClient
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .single()
+    const params = adminOrderListSchema.parse(searchParamsToObject(request.nextUrl.searchParams))
 
-    if (!roleData || roleData.role !== 'admin') {
-      return NextResponse.json(
-        { error: 'Forbidden - Admin access required' },
-        { status: 403 }
-      )
+    const result = await listAdminOrders(createServerSupabaseClient(), params)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
     }
 
-    // Now use service role key client for admin operations (bypasses RLS)
-    const supabase = createServerSupabaseClient()
-
-    const searchParams = request.nextUrl.searchParams
-    const status = searchParams.get('status')
-    const payment_status = searchParams.get('payment_status')
-
-    // Use service role key to bypass RLS for admin operations
-    // Filter to show only orders that are paid OR confirmed (so admin can ship them)
-    // This ensures admins only see orders ready for shipping
-    let query = supabase
-      .from('orders')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .limit(1000) // Limit to prevent huge queries
-
-    // Base filter: only show paid or confirmed orders
-    // Using .or() to match orders where payment_status='paid' OR status='confirmed'
-    query = query.or('payment_status.eq.paid,status.eq.confirmed')
-
-    // Additional filters can be applied on top of the base filter
-    // These will narrow down the results within the paid/confirmed set
-    if (status) {
-      query = query.eq('status', status)
+    if (!hasPermission(role, 'view_customer_pii')) {
+      return NextResponse.json({ ...result.page, orders: result.page.orders.map(redactOrderPii) })
     }
 
-    if (payment_status) {
-      query = query.eq('payment_status', payment_status)
-    }
-
-    const { data: orders, error } = await query
-
-    if (error) {
-      console.error('[Admin Orders API] Error fetching orders:', error)
+    return NextResponse.json(result.page)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
       return NextResponse.json(
-        {
-          error: 'Failed to fetch orders',
-          message: error.message,
-        },
-        { status: 500 }
+        { error: error.issues[0]?.message || 'Invalid filters', issues: error.issues },
+        { status: 400 }
       )
     }
-
-    // Log for debugging
-    console.log(`[Admin Orders API] Fetched ${orders?.length || 0} orders (paid or confirmed)`)
-
-    return NextResponse.json({
-      orders: orders || [],
-    })
-  } catch (error: any) {
     console.error('[Admin Orders API] Unexpected error:', error)
     return NextResponse.json(
       {
@@ -123,5 +60,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
-
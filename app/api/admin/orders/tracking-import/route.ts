@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/server'
+import { hasPermission } from '@/lib/auth/permissions'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import {
+  MAX_TRACKING_IMPORT_BYTES,
+  bulkOrderRequestSchema,
+  parseTrackingCsv,
+  runBulkOrderUpdates,
+} from '@/lib/orders/bulk'
+import { redactOrderPii } from '@/lib/orders/pii'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/admin/orders/tracking-import
+ * Imports tracking numbers from a courier's CSV, matched by order number.
+ * Multipart form: "file" (CSV), optional "courier" (used when the file has
+ * no courier column) and "mark_shipped" ("true" to move orders to shipped).
+ * Responds like POST /api/admin/orders/bulk, plus the number of skipped rows.
+ * Staff with the update_order_status permission
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, role, response } = await requireAdmin(request, 'update_order_status')
+    if (response) return response
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: 'Choose a CSV file to import' }, { status: 400 })
+    }
+    if (file.size > MAX_TRACKING_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'The file is too large (max 1 MB)' }, { status: 400 })
+    }
+
+    const courier = formData.get('courier')
+    const parsed = parseTrackingCsv(await file.text(), {
+      defaultCourier: typeof courier === 'string' ? courier.trim() : null,
+      markShipped: formData.get('mark_shipped') === 'true',
+    })
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    // Same checks as a bulk update from the orders page
+    const validated = bulkOrderRequestSchema.safeParse({ updates: parsed.updates })
+    if (!validated.success) {
+      const issue = validated.error.issues[0]
+      const index = issue?.path[1]
+      const orderNumber = typeof index === 'number' ? parsed.updates[index]?.order_number : null
+      return NextResponse.json(
+        { error: `${issue?.message || 'Invalid tracking file'}${orderNumber ? ` (order ${orderNumber})` : ''}`, issues: validated.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const outcomes = await runBulkOrderUpdates(createServerSupabaseClient(), validated.data.updates, user.id)
+    const results = hasPermission(role, 'view_customer_pii')
+      ? outcomes
+      : outcomes.map((result) => (result.order ? { ...result, order: redactOrderPii(result.order) } : result))
+    const failed = results.filter((result) => !result.ok)
+
+    console.log(`[Tracking Import] ${results.length - failed.length} updated, ${failed.length} failed, ${parsed.skipped} skipped`)
+
+    return NextResponse.json({
+      results,
+      succeeded: results.length - failed.length,
+      failed: failed.length,
+      skipped: parsed.skipped,
+    })
+  } catch (error: any) {
+    console.error('[Tracking Import] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
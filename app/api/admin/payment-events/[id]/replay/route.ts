@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import {
+  claimPaymentEvent,
+  getPaymentEvent,
+  isProcessingActive,
+  processPaymentEvent,
+} from '@/lib/payment-events/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/admin/payment-events/[id]/replay
+ * Runs a stored webhook through its handler again and saves the new outcome.
+ * Handlers are idempotent, so replaying an event that already went through
+ * does no harm.
+ * Staff with the manage_settings permission
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const id = resolvedParams.id
+
+    const { user, response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const supabase = createServerSupabaseClient()
+    const event = await getPaymentEvent(supabase, id)
+
+    if (!event) {
+      return NextResponse.json({ error: 'Payment event not found' }, { status: 404 })
+    }
+
+    if (isProcessingActive(event)) {
+      return NextResponse.json({ error: 'This event is being processed right now' }, { status: 409 })
+    }
+
+    const claimed = await claimPaymentEvent(supabase, event)
+    if (!claimed) {
+      return NextResponse.json({ error: 'This event is being processed right now' }, { status: 409 })
+    }
+
+    console.log('[Admin Payment Events] Replaying event:', {
+      event_id: claimed.event_id,
+      event_type: claimed.event_type,
+      attempt: claimed.attempts,
+      admin_id: user.id,
+    })
+
+    await processPaymentEvent(supabase, claimed)
+
+    return NextResponse.json({ event: await getPaymentEvent(supabase, id) })
+  } catch (error: any) {
+    console.error('[Admin Payment Events] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { listPaymentEvents } from '@/lib/payment-events/server'
+import type { PaymentEventStatus } from '@/lib/payment-events/types'
+
+export const dynamic = 'force-dynamic'
+
+const STATUSES: PaymentEventStatus[] = ['processing', 'processed', 'ignored', 'failed']
+
+/**
+ * GET /api/admin/payment-events
+ * Lists stored Razorpay webhooks, newest first
+ * Query params: status (processing | processed | ignored | failed), limit (max 500)
+ * Staff with the manage_settings permission
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const searchParams = request.nextUrl.searchParams
+    const statusParam = searchParams.get('status')
+    const status = STATUSES.find((value) => value === statusParam)
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 100, 1), 500)
+
+    const events = await listPaymentEvents(createServerSupabaseClient(), { status, limit })
+
+    return NextResponse.json({ events })
+  } catch (error: any) {
+    console.error('[Admin Payment Events] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
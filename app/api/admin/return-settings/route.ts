@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { getReturnSettings, returnSettingsInputSchema } from '@/lib/returns/server'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/return-settings
+ * Returns the return and exchange settings
+ * Admin-only access
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request)
+    if (response) return response
+
+    const settings = await getReturnSettings(createServerSupabaseClient())
+
+    return NextResponse.json({ settings })
+  } catch (error: any) {
+    console.error('[Admin Returns] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/admin/return-settings
+ * Updates the return window and whether size exchanges are offered
+ * Staff with the manage_settings permission
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const body = await request.json()
+    const input = returnSettingsInputSchema.parse(body)
+
+    const { data, error } = await createServerSupabaseClient()
+      .from('return_settings')
+      .upsert({ id: true, ...input })
+      .select('is_enabled, window_days, allow_exchanges, updated_at')
+      .single()
+
+    if (error) {
+      console.error('[Admin Returns] Error updating settings:', error)
+      return NextResponse.json(
+        { error: 'Failed to update return settings', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ settings: data })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid return settings', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Returns] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
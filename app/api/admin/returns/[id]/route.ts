@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { hasPermission } from '@/lib/auth/permissions'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { returnActionSchema, updateReturnRequest } from '@/lib/returns/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/admin/returns/[id]
+ * Moves a return request on. Body: { action } with
+ * - approve / reject (admin_note required, shown to the customer)
+ * - schedule_pickup: { pickup_courier, pickup_tracking_number }
+ * - mark_received: the returned pieces go back into stock
+ * - complete: { resolution: refund | store_credit | exchange }; refund and
+ *   store credit also need issue_refunds
+ * Staff with the update_order_status permission
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const requestId = resolvedParams.id
+
+    const { user, role, response } = await requireAdmin(request, 'update_order_status')
+    if (response) return response
+
+    const body = await request.json()
+    const action = returnActionSchema.parse(body)
+
+    if (action.action === 'complete' && action.resolution !== 'exchange' && !hasPermission(role, 'issue_refunds')) {
+      return NextResponse.json(
+        { error: 'Refunds and store credit need the issue refunds permission' },
+        { status: 403 }
+      )
+    }
+
+    const result = await updateReturnRequest(createServerSupabaseClient(), requestId, action, user.id)
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 })
+    }
+
+    return NextResponse.json({ request: result.request })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid return action', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Returns] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
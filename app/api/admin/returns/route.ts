@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/server'
+import { hasPermission } from '@/lib/auth/permissions'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { redactOrderPii } from '@/lib/orders/pii'
+import { listReturnRequests } from '@/lib/returns/server'
+import { RETURN_STATUS_LABELS, type ReturnStatus } from '@/lib/returns/types'
+
+export const dynamic = 'force-dynamic'
+
+const STATUSES = Object.keys(RETURN_STATUS_LABELS) as ReturnStatus[]
+
+/**
+ * GET /api/admin/returns
+ * Lists return and exchange requests, newest first, with signed photo URLs
+ * Query params: status (requested | approved | ... | completed), limit (max 500)
+ * Admin-only access; customer details are masked without view_customer_pii
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { role, response } = await requireAdmin(request)
+    if (response) return response
+
+    const searchParams = request.nextUrl.searchParams
+    const statusParam = searchParams.get('status')
+    const status = STATUSES.find((value) => value === statusParam)
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 100, 1), 500)
+
+    const requests = await listReturnRequests(createServerSupabaseClient(), { status, limit })
+
+    if (!hasPermission(role, 'view_customer_pii')) {
+      return NextResponse.json({
+        requests: requests.map((item) => (item.order ? { ...item, order: redactOrderPii(item.order) } : item)),
+      })
+    }
+
+    return NextResponse.json({ requests })
+  } catch (error: any) {
+    console.error('[Admin Returns] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { shippingZoneInputSchema } from '@/lib/shipping/server'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/admin/shipping-zones/[id]
+ * Replaces a shipping zone's settings
+ * Staff with the manage_settings permission
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const zoneId = resolvedParams.id
+
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const body = await request.json()
+    const zone = shippingZoneInputSchema.parse(body)
+
+    const supabase = createServerSupabaseClient()
+
+    // Only one zone can be the fallback
+    if (zone.is_default) {
+      await supabase
+        .from('shipping_zones')
+        .update({ is_default: false })
+        .eq('is_default', true)
+        .neq('id', zoneId)
+    }
+
+    const { data, error } = await supabase
+      .from('shipping_zones')
+      .update(zone)
+      .eq('id', zoneId)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `A zone named ${zone.name} already exists` },
+          { status: 409 }
+        )
+      }
+      console.error('[Admin Shipping] Error updating zone:', error)
+      return NextResponse.json(
+        { error: 'Failed to update shipping zone', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Shipping zone not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ zone: data })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid shipping zone', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Shipping] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/shipping-zones/[id]
+ * Deletes a shipping zone
+ * Staff with the manage_settings permission
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const zoneId = resolvedParams.id
+
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const supabase = createServerSupabaseClient()
+
+    const { error } = await supabase
+      .from('shipping_zones')
+      .delete()
+      .eq('id', zoneId)
+
+    if (error) {
+      console.error('[Admin Shipping] Error deleting zone:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete shipping zone', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[Admin Shipping] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
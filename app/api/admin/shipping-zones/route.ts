@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { shippingZoneInputSchema } from '@/lib/shipping/server'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/shipping-zones
+ * Lists shipping zones, highest priority first
+ * Staff with the manage_settings permission
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const supabase = createServerSupabaseClient()
+
+    const { data: zones, error } = await supabase
+      .from('shipping_zones')
+      .select('*')
+      .order('priority', { ascending: false })
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('[Admin Shipping] Error fetching zones:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch shipping zones', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ zones: zones || [] })
+  } catch (error: any) {
+    console.error('[Admin Shipping] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/shipping-zones
+ * Creates a shipping zone
+ * Staff with the manage_settings permission
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const body = await request.json()
+    const zone = shippingZoneInputSchema.parse(body)
+
+    const supabase = createServerSupabaseClient()
+
+    // Only one zone can be the fallback
+    if (zone.is_default) {
+      await supabase.from('shipping_zones').update({ is_default: false }).eq('is_default', true)
+    }
+
+    const { data, error } = await supabase
+      .from('shipping_zones')
+      .insert(zone)
+      .select('*')
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `A zone named ${zone.name} already exists` },
+          { status: 409 }
+        )
+      }
+      console.error('[Admin Shipping] Error creating zone:', error)
+      return NextResponse.json(
+        { error: 'Failed to create shipping zone', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ zone: data }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid shipping zone', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Shipping] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
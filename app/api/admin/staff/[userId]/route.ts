@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { removeStaff, setStaffRole, staffRoleSchema } from '@/lib/staff/server'
+
+export const runtime = 'nodejs'
+
+const SERVICE_ROLE_REQUIRED =
+  'Managing staff requires SUPABASE_SERVICE_ROLE_KEY. Add it in .env.local (Supabase Dashboard → Settings → API → service_role).'
+
+/**
+ * PUT /api/admin/staff/[userId]
+ * Changes a staff member's role: { role }. Owners can't change their own
+ * role, so the store always keeps an owner.
+ * Staff with the manage_staff permission
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> | { userId: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const userId = resolvedParams.userId
+
+    const { user, response } = await requireAdmin(request, 'manage_staff')
+    if (response) return response
+
+    if (userId === user.id) {
+      return NextResponse.json({ error: 'You cannot change your own role' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const { role } = staffRoleSchema.parse(body)
+
+    const supabase = createServiceRoleClient()
+    if (!supabase) {
+      return NextResponse.json({ error: SERVICE_ROLE_REQUIRED }, { status: 503 })
+    }
+
+    await setStaffRole(supabase, userId, role, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid role', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Staff] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/staff/[userId]
+ * Takes away someone's staff access; their account stays as a customer
+ * Staff with the manage_staff permission
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> | { userId: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const userId = resolvedParams.userId
+
+    const { user, response } = await requireAdmin(request, 'manage_staff')
+    if (response) return response
+
+    if (userId === user.id) {
+      return NextResponse.json({ error: 'You cannot remove yourself' }, { status: 400 })
+    }
+
+    const supabase = createServiceRoleClient()
+    if (!supabase) {
+      return NextResponse.json({ error: SERVICE_ROLE_REQUIRED }, { status: 503 })
+    }
+
+    await removeStaff(supabase, userId, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[Admin Staff] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServiceRoleClient } from '@/lib/supabase/server'
+import { inviteStaff, listStaff, staffInviteSchema } from '@/lib/staff/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const SERVICE_ROLE_REQUIRED =
+  'Managing staff requires SUPABASE_SERVICE_ROLE_KEY. Add it in .env.local (Supabase Dashboard → Settings → API → service_role).'
+
+/**
+ * GET /api/admin/staff
+ * Lists everyone with a staff role and when they last signed in
+ * Staff with the manage_staff permission
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'manage_staff')
+    if (response) return response
+
+    const supabase = createServiceRoleClient()
+    if (!supabase) {
+      return NextResponse.json({ error: SERVICE_ROLE_REQUIRED }, { status: 503 })
+    }
+
+    const staff = await listStaff(supabase)
+
+    return NextResponse.json({ staff })
+  } catch (error: any) {
+    console.error('[Admin Staff] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/staff
+ * Gives an email address a staff role: { email, role }. Someone without an
+ * account is sent a Supabase invite that lands on /admin/login.
+ * Staff with the manage_staff permission
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requireAdmin(request, 'manage_staff')
+    if (response) return response
+
+    const body = await request.json()
+    const input = staffInviteSchema.parse(body)
+
+    if (input.email === user.email?.toLowerCase()) {
+      return NextResponse.json({ error: 'You cannot change your own role' }, { status: 400 })
+    }
+
+    const supabase = createServiceRoleClient()
+    if (!supabase) {
+      return NextResponse.json({ error: SERVICE_ROLE_REQUIRED }, { status: 503 })
+    }
+
+    const result = await inviteStaff(supabase, input, new URL('/admin/login', request.url).toString(), user.id)
+
+    console.log('[Admin Staff] Role assigned:', { userId: result.userId, role: input.role, invited: result.invited })
+
+    return NextResponse.json({ user_id: result.userId, invited: result.invited }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid invite', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Staff] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
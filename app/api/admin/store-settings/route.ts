@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidateTag } from 'next/cache'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import {
+  STORE_SETTINGS_CACHE_TAG,
+  getStoreSettings,
+  storeSettingsInputSchema,
+} from '@/lib/store-settings/server'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/store-settings
+ * Returns the store name, contact details, primary colour and About text
+ * Staff with the manage_settings permission
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const settings = await getStoreSettings(createServerSupabaseClient())
+
+    return NextResponse.json({ settings })
+  } catch (error: any) {
+    console.error('[Admin Store Settings] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/admin/store-settings
+ * Updates any of the store settings; fields left out keep their value.
+ * The storefront picks the change up on its next request.
+ * Staff with the manage_settings permission
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { response } = await requireAdmin(request, 'manage_settings')
+    if (response) return response
+
+    const body = await request.json()
+    const input = storeSettingsInputSchema.parse(body)
+
+    const supabase = createServerSupabaseClient()
+    const current = await getStoreSettings(supabase)
+
+    const { data, error } = await supabase
+      .from('store_settings')
+      .upsert({
+        id: true,
+        store_name: current.store_name,
+        contact_email: current.contact_email,
+        contact_phone: current.contact_phone,
+        primary_color: current.primary_color,
+        about_text_1: current.about_text_1,
+        about_text_2: current.about_text_2,
+        ...input,
+      })
+      .select('store_name, contact_email, contact_phone, primary_color, about_text_1, about_text_2, updated_at')
+      .single()
+
+    if (error) {
+      console.error('[Admin Store Settings] Error updating settings:', error)
+      return NextResponse.json(
+        { error: 'Failed to update store settings', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    revalidateTag(STORE_SETTINGS_CACHE_TAG)
+
+    return NextResponse.json({ settings: data })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid store settings', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Admin Store Settings] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
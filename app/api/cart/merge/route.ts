@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { cartMergeSchema, mergeSavedCart } from '@/lib/cart/server'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/cart/merge
+ * Called on sign-in with the cart the customer built as a guest.
+ * Lines already saved keep the larger of the two quantities.
+ * Body: { items: [{ product_id, variant_id?, size?, variant?, quantity }] }
+ *
+ * Response:
+ * - items: the merged cart, which replaces the browser cart
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized - Please log in' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const input = cartMergeSchema.parse(body)
+
+    const items = await mergeSavedCart(createServerSupabaseClient(), user.id, input.items)
+
+    return NextResponse.json({ items })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid cart', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[API Cart Merge] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { cartLineUpdateSchema, clearSavedCart, getSavedCart, setSavedCartLine } from '@/lib/cart/server'
+
+// This route reads the caller's session, so force it to be dynamic
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cart
+ * The signed-in customer's saved cart (Bearer token required).
+ * Guests keep their cart in the browser and never call this.
+ *
+ * Response:
+ * - items: cart lines in the useCartStore shape, priced from the catalogue
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized - Please log in' }, { status: 401 })
+    }
+
+    const items = await getSavedCart(createServerSupabaseClient(), user.id)
+
+    return NextResponse.json({ items })
+  } catch (error: any) {
+    console.error('[API Cart] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/cart
+ * Set one line's quantity; 0 removes the line.
+ * Body: { product_id, variant_id?, size?, variant?, quantity }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized - Please log in' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const line = cartLineUpdateSchema.parse(body)
+
+    const saved = await setSavedCartLine(createServerSupabaseClient(), user.id, line)
+    if (!saved) {
+      return NextResponse.json({ error: 'This item is no longer available' }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid cart item', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[API Cart] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/cart
+ * Empty the signed-in customer's saved cart
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized - Please log in' }, { status: 401 })
+    }
+
+    await clearSavedCart(createServerSupabaseClient(), user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[API Cart] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth/server'
+import { recordAuditEvent } from '@/lib/audit/server'
 import { createServiceRoleClient } from '@/lib/supabase/server'
 
 export const runtime = 'nodejs'
@@ -9,9 +11,13 @@ const BUCKET_NAME = 'product-images'
  * POST /api/categories/upload-image
  * Uploads a category image and updates the category record.
  * Uses service role key so the update persists (RLS would block anon updates).
+ * Staff with the edit_products permission
  */
 export async function POST(request: NextRequest) {
   try {
+    const { user, response } = await requireAdmin(request, 'edit_products')
+    if (response) return response
+
     const formData = await request.formData()
     const imageFile = formData.get('image') as File
     const categoryId = formData.get('categoryId') as string
@@ -95,12 +101,12 @@ export async function POST(request: NextRequest) {
     // Get old image URL before updating
     const { data: categoryData } = await supabaseServer
       .from('categories')
-      .select('image_url')
+      .select('name, image_url')
       .eq('id', categoryId)
       .single()
 
     // Delete old image if it exists and is in our storage
-    const typedCategoryData = categoryData as { image_url: string | null } | null
+    const typedCategoryData = categoryData as { name: string; image_url: string | null } | null
     if (typedCategoryData?.image_url) {
       const oldUrl = typedCategoryData.image_url
       if (oldUrl.includes('/product-images/categories/')) {
@@ -153,6 +159,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await recordAuditEvent(supabaseServer, {
+      actorId: user.id,
+      action: 'update',
+      entityType: 'category',
+      entityId: categoryId,
+      entityLabel: typedCategoryData?.name,
+      before: { image_url: typedCategoryData?.image_url ?? null },
+      after: { image_url: urlData.publicUrl },
+    })
+
     return NextResponse.json({
       success: true,
       imageUrl: urlData.publicUrl,
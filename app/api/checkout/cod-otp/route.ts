@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { getCodSettings } from '@/lib/cod/server'
+import { OTP_TTL_MINUTES, sendPhoneOtp } from '@/lib/otp/server'
+import { maskMobile, normalizeIndianMobile } from '@/lib/utils/phone'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/checkout/cod-otp
+ * Texts a one-time code to the shopper's mobile before a Cash on Delivery order
+ *
+ * Request body:
+ * - phone: 10 digit Indian mobile number (required)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const phone = normalizeIndianMobile(body?.phone)
+
+    if (!phone) {
+      return NextResponse.json(
+        { success: false, error: 'Enter a valid 10 digit mobile number' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServerSupabaseClient()
+
+    const settings = await getCodSettings(supabase)
+    if (!settings.is_enabled) {
+      return NextResponse.json(
+        { success: false, error: 'Cash on Delivery is not available right now' },
+        { status: 400 }
+      )
+    }
+
+    const result = await sendPhoneOtp(supabase, phone)
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 429 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `OTP sent to ${maskMobile(phone)}`,
+      expires_in_minutes: OTP_TTL_MINUTES,
+    })
+  } catch (error: any) {
+    console.error('[COD OTP] Error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { buildOrderQuote } from '@/lib/pricing/server'
+import { checkCodEligibility, getCodSettings } from '@/lib/cod/server'
+import { normalizeIndianMobile } from '@/lib/utils/phone'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/checkout/quote
+ * Prices the cart on the server (used to show totals and apply coupons at checkout)
+ *
+ * Request body:
+ * - items: Array<{ id, quantity, variant }> (required)
+ * - coupon_code: string (optional)
+ * - address: { pincode, state } (optional until the shopper enters it; needed for shipping)
+ * - email: identifies the customer for per-customer coupon limits (with the
+ *   signed-in shopper's account, taken from their session)
+ * - payment_method: 'razorpay' (default) or 'cod'; COD quotes include the COD fee
+ * - phone: used with email to check COD eligibility
+ *
+ * The response includes `cod` ({ available, fee_cents, reason }) so checkout
+ * can show or disable the Cash on Delivery option.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { items, coupon_code, address, email, payment_method, phone } = body
+    const isCod = payment_method === 'cod'
+
+    const supabase = createServerSupabaseClient()
+    const codSettings = await getCodSettings(supabase)
+    const user = await getRequestUser(request)
+
+    const result = await buildOrderQuote(supabase, items, {
+      couponCode: coupon_code,
+      destination: address ? { pincode: address.pincode, state: address.state } : null,
+      email,
+      userId: user?.id,
+      codFeeCents: isCod && codSettings.is_enabled ? codSettings.fee_cents : 0,
+    })
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error, reason: result.reason },
+        { status: 400 }
+      )
+    }
+
+    const cod = await checkCodEligibility(supabase, codSettings, {
+      totalCents: result.quote.total_cents + (isCod ? 0 : codSettings.fee_cents),
+      pincode: address?.pincode,
+      phone: normalizeIndianMobile(phone),
+      email,
+    })
+
+    return NextResponse.json({ success: true, quote: result.quote, cod })
+  } catch (error: any) {
+    console.error('[Checkout Quote] Error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
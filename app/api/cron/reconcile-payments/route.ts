@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasCronSecret, requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { DEFAULT_RECONCILE_AGE_MINUTES, reconcileStuckDrafts } from '@/lib/reconciliation/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET|POST /api/cron/reconcile-payments
+ * Settles Razorpay draft orders stuck in "pending" by asking Razorpay what
+ * happened to their payments (see lib/reconciliation/server.ts).
+ *
+ * Auth: `Authorization: Bearer <CRON_SECRET>` (scheduler or
+ * scripts/reconcile-payments.js), or a signed-in admin.
+ *
+ * Query params:
+ * - older_than_minutes: only drafts older than this (default 60, min 15)
+ * - limit: drafts per run (max 100)
+ * - dry_run=true: report what would change without writing
+ */
+export async function GET(request: NextRequest) {
+  return handleReconcile(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handleReconcile(request)
+}
+
+async function handleReconcile(request: NextRequest) {
+  try {
+    if (!hasCronSecret(request)) {
+      const { response } = await requireAdmin(request, 'manage_settings')
+      if (response) return response
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    // Never touch drafts whose shoppers may still be paying
+    const olderThanMinutes = Math.max(
+      Number(searchParams.get('older_than_minutes')) || DEFAULT_RECONCILE_AGE_MINUTES,
+      15
+    )
+    const limit = Number(searchParams.get('limit')) || undefined
+    const dryRun = searchParams.get('dry_run') === 'true'
+
+    const summary = await reconcileStuckDrafts(createServerSupabaseClient(), {
+      olderThanMinutes,
+      limit,
+      dryRun,
+    })
+
+    console.log('[Reconcile] Run finished:', {
+      dry_run: summary.dry_run,
+      checked: summary.checked,
+      paid: summary.paid,
+      failed: summary.failed,
+      expired: summary.expired,
+      unchanged: summary.unchanged,
+      errors: summary.errors,
+    })
+
+    return NextResponse.json(summary)
+  } catch (error: any) {
+    console.error('[Reconcile] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
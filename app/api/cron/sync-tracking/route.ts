@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasCronSecret, requireAdmin } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { syncShipmentTracking } from '@/lib/couriers/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET|POST /api/cron/sync-tracking
+ * Polls courier tracking for booked orders and moves them to shipped or
+ * delivered as the scans come in (see lib/couriers/server.ts).
+ *
+ * Auth: `Authorization: Bearer <CRON_SECRET>` (scheduler or
+ * scripts/sync-tracking.js), or a signed-in admin.
+ *
+ * Query params:
+ * - limit: orders per run (max 100)
+ */
+export async function GET(request: NextRequest) {
+  return handleSync(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handleSync(request)
+}
+
+async function handleSync(request: NextRequest) {
+  try {
+    if (!hasCronSecret(request)) {
+      const { response } = await requireAdmin(request, 'update_order_status')
+      if (response) return response
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || undefined
+    const summary = await syncShipmentTracking(createServerSupabaseClient(), { limit })
+
+    console.log('[Tracking Sync] Run finished:', {
+      checked: summary.checked,
+      shipped: summary.shipped,
+      delivered: summary.delivered,
+      returned: summary.returned,
+      unchanged: summary.unchanged,
+      errors: summary.errors,
+    })
+
+    return NextResponse.json(summary)
+  } catch (error: any) {
+    console.error('[Tracking Sync] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { isCustomerOrder } from '@/lib/orders/customer'
+import { canCustomerCancel } from '@/lib/orders/lifecycle'
+import { customerCancelSchema, describeCustomerCancellation, transitionOrder } from '@/lib/orders/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/orders/[id]/cancel
+ * Cancels the signed-in customer's order before it is dispatched
+ * (pending, confirmed or processing, and not yet booked with a courier).
+ * Body: { reason, details? }
+ *
+ * Goes through the order lifecycle: a paid Razorpay order is refunded in
+ * full first, and reserved or deducted stock is given back.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const orderId = resolvedParams.id
+
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized - Please log in' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const input = customerCancelSchema.parse(body)
+
+    const supabase = createServerSupabaseClient()
+
+    const { data: order, error } = await supabase
+      .from('orders')
+      .select('id, user_id, email, status, courier_id, tracking_number')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Cancel Order] Error fetching order:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch order', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    const isOwner = !!order && isCustomerOrder(order, user)
+
+    if (!order || !isOwner) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    if (!canCustomerCancel(order)) {
+      return NextResponse.json(
+        {
+          error:
+            order.status === 'cancelled'
+              ? 'This order is already cancelled'
+              : canCustomerCancel({ status: order.status })
+                ? 'This order has already been booked with a courier and can no longer be cancelled. Please contact us.'
+                : 'This order has already been dispatched and can no longer be cancelled',
+        },
+        { status: 409 }
+      )
+    }
+
+    const transition = await transitionOrder(supabase, order.id, {
+      to: 'cancelled',
+      note: describeCustomerCancellation(input),
+    })
+
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: transition.status })
+    }
+
+    return NextResponse.json({ order: transition.order })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid cancellation', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Cancel Order] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
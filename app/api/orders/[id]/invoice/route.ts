@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, getUserRole } from '@/lib/auth/server'
+import { hasPermission } from '@/lib/auth/permissions'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { isCustomerOrder } from '@/lib/orders/customer'
+import { getSellerDetails } from '@/lib/tax/server'
+import {
+  assignInvoiceNumber,
+  rebuildTaxBreakdown,
+  renderInvoicePdf,
+  type InvoiceOrder,
+} from '@/lib/invoices/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/orders/[id]/invoice
+ *
+ * Downloads the GST tax invoice for a paid order as a PDF.
+ * Available to the customer who placed the order and to staff who can see
+ * customer details.
+ * The invoice number is assigned on first download if the payment
+ * handlers haven't done it already.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const orderId = resolvedParams.id
+
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized - Please log in' }, { status: 401 })
+    }
+
+    const supabase = createServerSupabaseClient()
+
+    const { data: order, error } = await supabase
+      .from('orders')
+      .select(
+        'id, order_number, user_id, email, phone, address_json, items_json, shipping_cents, cod_fee_cents, discount_cents, total_cents, payment_status, payment_method, payment_date, created_at, invoice_number, invoiced_at, tax_breakdown'
+      )
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Invoice] Error fetching order:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch order', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    const isOwner = !!order && isCustomerOrder(order, user)
+
+    if (!order || (!isOwner && !hasPermission(await getUserRole(request, user.id), 'view_customer_pii'))) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    if (order.payment_method === 'exchange') {
+      return NextResponse.json(
+        { error: 'Exchange orders are covered by the invoice of the original order' },
+        { status: 409 }
+      )
+    }
+
+    // A refunded order keeps the invoice it was issued when it was paid
+    const wasPaid = order.payment_status === 'paid' || (!!order.invoice_number && order.payment_status.endsWith('refunded'))
+    if (!wasPaid) {
+      return NextResponse.json(
+        { error: 'An invoice is available once the order has been paid' },
+        { status: 409 }
+      )
+    }
+
+    const invoiceOrder = order as InvoiceOrder
+    if (!invoiceOrder.invoice_number) {
+      invoiceOrder.invoice_number = await assignInvoiceNumber(supabase, order.id)
+      invoiceOrder.invoiced_at = new Date().toISOString()
+    }
+
+    const tax = invoiceOrder.tax_breakdown || (await rebuildTaxBreakdown(supabase, invoiceOrder))
+    const pdf = await renderInvoicePdf(invoiceOrder, tax, getSellerDetails())
+
+    const fileName = `invoice-${(invoiceOrder.invoice_number || order.order_number).replace(/[^A-Za-z0-9-]/g, '-')}.pdf`
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error: any) {
+    console.error('[Invoice] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
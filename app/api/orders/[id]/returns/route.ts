@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { isCustomerOrder } from '@/lib/orders/customer'
+import {
+  createReturnRequest,
+  getReturnEligibility,
+  getReturnOrder,
+  getReturnSettings,
+  listOrderReturnRequests,
+  returnRequestInputSchema,
+  type ReturnOrderRow,
+} from '@/lib/returns/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * Load the order if it belongs to the signed-in customer
+ */
+async function loadOwnOrder(request: NextRequest, orderId: string) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Unauthorized - Please log in' }, { status: 401 }) }
+  }
+
+  const supabase = createServerSupabaseClient()
+  const order = await getReturnOrder(supabase, orderId)
+
+  const isOwner = !!order && isCustomerOrder(order, user)
+
+  if (!order || !isOwner) {
+    return { response: NextResponse.json({ error: 'Order not found' }, { status: 404 }) }
+  }
+
+  return { supabase, user, order: order as ReturnOrderRow }
+}
+
+/**
+ * GET /api/orders/[id]/returns
+ * The customer's return requests for an order and what can still be
+ * returned or exchanged
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+
+    const { supabase, order, response } = await loadOwnOrder(request, resolvedParams.id)
+    if (response) return response
+
+    const requests = await listOrderReturnRequests(supabase, order.id)
+    const eligibility = await getReturnEligibility(supabase, order, await getReturnSettings(supabase), requests)
+
+    return NextResponse.json({ eligibility, requests })
+  } catch (error: any) {
+    console.error('[Returns] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/orders/[id]/returns
+ * Opens a return or size exchange request. Multipart form with a "payload"
+ * JSON field ({ type, reason, note, items: [{ index, quantity, exchange_size }] })
+ * and up to 5 "photos"
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> | { id: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+
+    const { supabase, user, order, response } = await loadOwnOrder(request, resolvedParams.id)
+    if (response) return response
+
+    const formData = await request.formData()
+    const payload = formData.get('payload')
+    if (typeof payload !== 'string') {
+      return NextResponse.json({ error: 'Missing request details' }, { status: 400 })
+    }
+
+    const input = returnRequestInputSchema.parse(JSON.parse(payload))
+    const photos = formData.getAll('photos').filter((entry): entry is File => entry instanceof File && entry.size > 0)
+
+    const result = await createReturnRequest(supabase, order, input, photos, user.id)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 })
+    }
+
+    return NextResponse.json({ request: result.request }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid return request', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request details' }, { status: 400 })
+    }
+    console.error('[Returns] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
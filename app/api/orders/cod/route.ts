@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { checkCodEligibility, getCodSettings } from '@/lib/cod/server'
+import { deductOrderStock, releaseOrderStock, reserveOrderStock } from '@/lib/inventory/server'
+import { verifyPhoneOtp } from '@/lib/otp/server'
+import { buildOrderQuote } from '@/lib/pricing/server'
+import { normalizeEmail } from '@/lib/utils/email'
+import { normalizeIndianMobile } from '@/lib/utils/phone'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/orders/cod
+ * Places a Cash on Delivery order. No Razorpay order is involved: the phone
+ * is confirmed with an OTP (see /api/checkout/cod-otp), the order is created
+ * as confirmed with payment pending, and its items are taken from stock.
+ * Payment is marked paid when an admin marks the order delivered.
+ *
+ * Request body:
+ * - email, phone, address_json, items_json (required)
+ * - otp: code texted to the phone (required)
+ * - coupon_code (optional)
+ * A signed-in shopper's order is linked to their account from the session.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { address_json, items_json, coupon_code, otp } = body
+    const email = normalizeEmail(body.email)
+    const phone = normalizeIndianMobile(body.phone)
+
+    if (!email || !address_json || !items_json || !otp) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required fields: email, phone, address_json, items_json and otp are required',
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!phone) {
+      return NextResponse.json(
+        { success: false, error: 'Enter a valid 10 digit mobile number' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createServerSupabaseClient()
+    const settings = await getCodSettings(supabase)
+    const user = await getRequestUser(request)
+
+    if (!settings.is_enabled) {
+      return NextResponse.json(
+        { success: false, error: 'Cash on Delivery is not available right now' },
+        { status: 400 }
+      )
+    }
+
+    // Price the items on the server; client totals are ignored
+    const quoteResult = await buildOrderQuote(supabase, items_json, {
+      couponCode: coupon_code,
+      destination: { pincode: address_json.pincode, state: address_json.state },
+      email,
+      userId: user?.id,
+      codFeeCents: settings.fee_cents,
+    })
+    if (!quoteResult.ok) {
+      return NextResponse.json({ success: false, error: quoteResult.error }, { status: 400 })
+    }
+
+    const { quote } = quoteResult
+
+    const eligibility = await checkCodEligibility(supabase, settings, {
+      totalCents: quote.total_cents,
+      pincode: address_json.pincode,
+      phone,
+      email,
+    })
+    if (!eligibility.available) {
+      return NextResponse.json(
+        { success: false, error: eligibility.reason, reason: 'cod_unavailable' },
+        { status: 400 }
+      )
+    }
+
+    // Check the OTP last so a rejected cart doesn't burn the code
+    const otpResult = await verifyPhoneOtp(supabase, phone, String(otp))
+    if (!otpResult.ok) {
+      return NextResponse.json(
+        { success: false, error: otpResult.error, reason: 'otp' },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date().toISOString()
+    let orderData: { id: string; order_number: string } | null = null
+    let orderError: any = null
+    const maxRetries = 5
+
+    for (let retryCount = 0; !orderData && retryCount < maxRetries; retryCount++) {
+      const { data: generatedOrderNumber, error: orderNumberError } = await supabase.rpc('generate_order_number')
+
+      let orderNumber: string
+      if (orderNumberError || !generatedOrderNumber) {
+        // Fallback: generate order number manually with timestamp to ensure uniqueness
+        const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, '')
+        const randomSuffix = Math.floor(Math.random() * 10000).toString().padStart(4, '0')
+        orderNumber = `ORD-${dateStr}-${String(Date.now()).slice(-6)}-${randomSuffix}`
+      } else {
+        orderNumber = generatedOrderNumber
+      }
+
+      const { data: insertedOrderData, error: insertedOrderError } = await supabase
+        .from('orders')
+        .insert({
+          order_number: orderNumber,
+          user_id: user?.id || null,
+          email,
+          phone,
+          address_json,
+          items_json: quote.items,
+          subtotal_cents: quote.subtotal_cents,
+          shipping_cents: quote.shipping_cents,
+          cod_fee_cents: quote.cod_fee_cents,
+          tax_cents: quote.tax_cents,
+          tax_breakdown: quote.tax,
+          discount_cents: quote.discount_cents,
+          total_cents: quote.total_cents,
+          coupon_code: quote.coupon?.code || null,
+          payment_method: 'cod',
+          payment_status: 'pending',
+          status: 'confirmed',
+          phone_verified_at: now,
+          status_history: [
+            {
+              status: 'confirmed',
+              timestamp: now,
+              note: 'Cash on Delivery order placed (phone verified by OTP)',
+            },
+          ],
+        })
+        .select('id, order_number')
+        .single()
+
+      // Duplicate order number: try again with a new one
+      if (insertedOrderError?.code === '23505') {
+        if (process.env.NODE_ENV !== 'production') {
+          console.warn('[COD Order] Duplicate order number detected, retrying:', orderNumber)
+        }
+        orderError = insertedOrderError
+        await new Promise((resolve) => setTimeout(resolve, 100 * (retryCount + 1)))
+        continue
+      }
+
+      orderData = insertedOrderData
+      orderError = insertedOrderError
+      break
+    }
+
+    if (orderError && !orderData) {
+      console.error('[COD Order] Failed to create order:', orderError)
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to create order',
+          message: orderError?.message || 'Unknown error',
+        },
+        { status: 500 }
+      )
+    }
+
+    if (!orderData) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to create order' },
+        { status: 500 }
+      )
+    }
+
+    // COD orders take their items straight away: hold them, then deduct
+    const reservation = await reserveOrderStock(supabase, orderData.id, quote.items)
+
+    if (!reservation.reserved) {
+      await supabase
+        .from('orders')
+        .update({
+          payment_status: 'cancelled',
+          status: 'cancelled',
+          status_history: [
+            {
+              status: 'confirmed',
+              timestamp: now,
+              note: 'Cash on Delivery order placed (phone verified by OTP)',
+            },
+            {
+              status: 'cancelled',
+              timestamp: new Date().toISOString(),
+              note: 'Order cancelled: items no longer in stock',
+            },
+          ],
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', orderData.id)
+
+      const soldOut = reservation.unavailable
+        .map((line) => `${line.title || 'Item'} (${line.color}, ${line.size})`)
+        .join(', ')
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Sorry, ${soldOut} ${reservation.unavailable.length === 1 ? 'is' : 'are'} no longer in stock`,
+          unavailable: reservation.unavailable,
+        },
+        { status: 409 }
+      )
+    }
+
+    try {
+      await deductOrderStock(supabase, orderData.id)
+    } catch (stockError) {
+      console.error('[COD Order] Failed to deduct stock for order:', orderData.id, stockError)
+      try {
+        await releaseOrderStock(supabase, orderData.id)
+      } catch (releaseError) {
+        console.error('[COD Order] Failed to release stock reservations:', releaseError)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      order_id: orderData.id,
+      order_number: orderData.order_number,
+      total_cents: quote.total_cents,
+    })
+  } catch (error: any) {
+    console.error('[COD Order] Error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
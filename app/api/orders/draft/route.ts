@@ -1,44 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth/server'
 import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { releaseOrderStock, reserveOrderStock } from '@/lib/inventory/server'
+import { transitionOrder } from '@/lib/orders/server'
+import { buildOrderQuote } from '@/lib/pricing/server'
+import { getDraftRazorpayOrderId, getRazorpayClient } from '@/lib/razorpay/server'
+import { normalizeEmail } from '@/lib/utils/email'
 
 export const runtime = 'nodejs'
 
 /**
  * POST /api/orders/draft
- * Creates a draft order (before payment)
+ * Creates a draft order (before payment) and reserves its items.
+ * Items and totals are re-priced on the server and must match the
+ * amount of the Razorpay order. A signed-in shopper's draft is linked to
+ * their account from the session.
  * 
  * PUT /api/orders/draft
- * Updates a draft order (on payment failure/cancellation)
+ * Updates a draft order (on payment failure/cancellation) and releases its reservation.
+ * Called without a session, so it only accepts payment_status failed or
+ * cancelled, and razorpay_order_id must be the one the draft was created for.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const {
       razorpay_order_id,
-      email,
-      user_id,
       phone,
       address_json,
       items_json,
-      subtotal_cents,
-      shipping_cents = 0,
-      tax_cents = 0,
-      discount_cents = 0,
-      total_cents,
+      coupon_code,
     } = body
+    const email = normalizeEmail(body.email)
 
     // Validate required fields
-    if (!razorpay_order_id || !email || !address_json || !items_json || total_cents === undefined) {
+    if (!razorpay_order_id || !email || !address_json || !items_json) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Missing required fields: razorpay_order_id, email, address_json, items_json, and total_cents are required',
+          error: 'Missing required fields: razorpay_order_id, email, address_json, and items_json are required',
         },
         { status: 400 }
       )
     }
 
     const supabase = createServerSupabaseClient()
+    const user = await getRequestUser(request)
+
+    // Price the items on the server; client totals are ignored
+    const quoteResult = await buildOrderQuote(supabase, items_json, {
+      couponCode: coupon_code,
+      destination: { pincode: address_json.pincode, state: address_json.state },
+      email,
+      userId: user?.id,
+    })
+    if (!quoteResult.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: quoteResult.error,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { quote } = quoteResult
+
+    // The Razorpay order must have been created for exactly these items
+    const razorpayOrder = await getRazorpayClient().orders.fetch(razorpay_order_id)
+    if (Number(razorpayOrder.amount) !== quote.total_cents) {
+      console.error('[Draft Order] Razorpay amount does not match quote:', {
+        razorpay_order_id,
+        razorpay_amount: razorpayOrder.amount,
+        quote_total_cents: quote.total_cents,
+      })
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Your cart changed after payment was started. Please try again.',
+        },
+        { status: 409 }
+      )
+    }
 
     // Generate order number with retry logic to handle duplicates
     let orderNumber: string
@@ -90,16 +133,18 @@ export async function POST(request: NextRequest) {
           .from('orders')
           .insert({
             order_number: orderNumber,
-            user_id: user_id || null,
+            user_id: user?.id || null,
             email,
             phone: phone || null,
             address_json,
-            items_json,
-            subtotal_cents: subtotal_cents || total_cents,
-            shipping_cents,
-            tax_cents,
-            discount_cents,
-            total_cents,
+            items_json: quote.items,
+            subtotal_cents: quote.subtotal_cents,
+            shipping_cents: quote.shipping_cents,
+            tax_cents: quote.tax_cents,
+            tax_breakdown: quote.tax,
+            discount_cents: quote.discount_cents,
+            total_cents: quote.total_cents,
+            coupon_code: quote.coupon?.code || null,
             payment_method: 'razorpay',
             payment_status: 'pending',
             status: 'pending',
@@ -176,10 +221,52 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Hold the items while the shopper pays so the last piece can't be sold twice
+    const reservation = await reserveOrderStock(supabase, orderData.id, quote.items)
+
+    if (!reservation.reserved) {
+      const { data: draftOrder } = await supabase
+        .from('orders')
+        .select('status_history')
+        .eq('id', orderData.id)
+        .single()
+
+      await supabase
+        .from('orders')
+        .update({
+          payment_status: 'failed',
+          status: 'cancelled',
+          status_history: [
+            ...(draftOrder?.status_history || []),
+            {
+              status: 'cancelled',
+              timestamp: new Date().toISOString(),
+              note: 'Draft order cancelled: items no longer in stock',
+            },
+          ],
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', orderData.id)
+
+      const soldOut = reservation.unavailable
+        .map((line) => `${line.title || 'Item'} (${line.color}, ${line.size})`)
+        .join(', ')
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Sorry, ${soldOut} ${reservation.unavailable.length === 1 ? 'is' : 'are'} no longer in stock`,
+          unavailable: reservation.unavailable,
+        },
+        { status: 409 }
+      )
+    }
+
     return NextResponse.json({
       success: true,
       order_id: orderData.id,
       order_number: orderData.order_number,
+      reserved_until: reservation.expiresAt,
     })
   } catch (error: any) {
     console.error('[Draft Order] Error:', error)
@@ -197,13 +284,24 @@ export async function POST(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json()
-    const { order_id, payment_status, status, note } = body
+    const { order_id, razorpay_order_id, payment_status, status, note } = body
+
+    if (!order_id || !razorpay_order_id || !payment_status) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'order_id, razorpay_order_id and payment_status are required',
+        },
+        { status: 400 }
+      )
+    }
 
-    if (!order_id || !payment_status) {
+    // Only payments confirmed by Razorpay (webhook, verify) can mark an order paid
+    if (payment_status !== 'failed' && payment_status !== 'cancelled') {
       return NextResponse.json(
         {
           success: false,
-          error: 'order_id and payment_status are required',
+          error: 'payment_status must be failed or cancelled',
         },
         { status: 400 }
       )
@@ -211,16 +309,84 @@ export async function PUT(request: NextRequest) {
 
     const supabase = createServerSupabaseClient()
 
+    if (status && status !== 'pending' && status !== 'cancelled') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'status must be pending or cancelled',
+        },
+        { status: 400 }
+      )
+    }
+
     // Get current order to append to status_history
     const { data: currentOrder } = await supabase
       .from('orders')
-      .select('status_history')
+      .select('status, status_history, payment_status, payment_method, admin_notes')
       .eq('id', order_id)
-      .single()
+      .maybeSingle()
+
+    // The caller has to know which Razorpay order the draft belongs to
+    if (!currentOrder || getDraftRazorpayOrderId(currentOrder.admin_notes) !== razorpay_order_id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Order not found',
+        },
+        { status: 404 }
+      )
+    }
 
-    const statusHistory = currentOrder?.status_history || []
+    // Never reopen an order the webhook or verify route already marked paid
+    if (currentOrder.payment_status === 'paid') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Order is already paid',
+        },
+        { status: 409 }
+      )
+    }
+
+    // Checkout may only touch its own unpaid Razorpay draft
+    if (currentOrder.status !== 'pending' || currentOrder.payment_method !== 'razorpay') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Only draft orders awaiting payment can be updated',
+        },
+        { status: 409 }
+      )
+    }
+
+    // Cancelling goes through the order lifecycle, which also releases the reservation
+    if (status === 'cancelled') {
+      const transition = await transitionOrder(supabase, order_id, {
+        to: 'cancelled',
+        note: note || `Payment ${payment_status}`,
+        changes: { payment_status },
+      })
+
+      if (!transition.ok) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: transition.error,
+          },
+          { status: transition.status }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        order_id: transition.order.id,
+        order_number: transition.order.order_number,
+      })
+    }
+
+    const statusHistory = currentOrder.status_history || []
     statusHistory.push({
-      status: status || 'pending',
+      status: 'pending',
       timestamp: new Date().toISOString(),
       note: note || `Payment ${payment_status}`,
     })
@@ -230,7 +396,7 @@ export async function PUT(request: NextRequest) {
       .from('orders')
       .update({
         payment_status,
-        status: status || 'pending',
+        status: 'pending',
         status_history: statusHistory,
         updated_at: new Date().toISOString(),
       })
@@ -250,6 +416,13 @@ export async function PUT(request: NextRequest) {
       )
     }
 
+    // Failed or cancelled payments give their held items back
+    try {
+      await releaseOrderStock(supabase, orderData.id)
+    } catch (releaseError) {
+      console.error('[Draft Order] Failed to release stock reservations:', releaseError)
+    }
+
     return NextResponse.json({
       success: true,
       order_id: orderData.id,
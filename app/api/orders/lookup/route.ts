@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { guestLookupSchema, sendGuestLookupCode } from '@/lib/orders/customer'
+import { OTP_TTL_MINUTES } from '@/lib/otp/server'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/orders/lookup
+ * Guest order lookup, step 1: texts a one-time code to the mobile number on
+ * the order. The reply is the same whether or not the details match.
+ *
+ * Request body:
+ * - order_number: string (required)
+ * - email: the email the order was placed with (required)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const input = guestLookupSchema.parse(body)
+
+    const result = await sendGuestLookupCode(createServerSupabaseClient(), input)
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 429 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'If the order number and email match, we have texted a code to the mobile number on the order.',
+      expires_in_minutes: OTP_TTL_MINUTES,
+    })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.issues[0]?.message || 'Invalid order lookup', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Order Lookup] Error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
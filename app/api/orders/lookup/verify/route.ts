@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { guestLookupVerifySchema, verifyGuestLookup } from '@/lib/orders/customer'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/orders/lookup/verify
+ * Guest order lookup, step 2: checks the texted code and returns the order
+ *
+ * Request body:
+ * - order_number, email: as sent to POST /api/orders/lookup (required)
+ * - code: the 6 digit code (required)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { code, ...input } = guestLookupVerifySchema.parse(body)
+
+    const result = await verifyGuestLookup(createServerSupabaseClient(), input, code)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ order: result.order })
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || 'Invalid order lookup', issues: error.issues },
+        { status: 400 }
+      )
+    }
+    console.error('[Order Lookup] Error verifying code:', error)
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth/server'
 import { getRazorpayClient } from '@/lib/razorpay/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { buildOrderQuote } from '@/lib/pricing/server'
 
 export const runtime = 'nodejs'
 
@@ -7,10 +10,15 @@ export const runtime = 'nodejs'
  * POST /api/razorpay/create-order
  * 
  * Creates a Razorpay order using the official Node SDK.
+ * The amount is priced on the server from the cart lines; any amount sent
+ * by the client is ignored.
  * 
  * Request body:
- * - amountCents or amountPaise: number (amount in paise, required)
- * - currency: string (defaults to 'INR')
+ * - items: Array<{ id, quantity, variant }> (cart lines, required)
+ * - coupon_code: string (optional)
+ * - address: { pincode, state } (required; delivery destination, used for shipping)
+ * - email: string (optional, for per-customer coupon limits; a signed-in
+ *   shopper is identified from their session)
  * - receipt: string (optional)
  * - notes: object (optional)
  * 
@@ -18,43 +26,53 @@ export const runtime = 'nodejs'
  * - orderId: string
  * - amount: number (in paise)
  * - currency: string
+ * - quote: OrderQuote (server-priced items and totals)
  * 
  * This route uses RAZORPAY_KEY_SECRET which should NEVER be exposed to the client.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { amountCents, amountPaise, currency = 'INR', receipt, notes } = body
+    const { items, coupon_code, address, email, receipt, notes } = body
 
-    // Extract amount from either amountCents or amountPaise (both should be in paise)
-    const amount = amountCents ?? amountPaise
-
-    // Validate amount
-    if (amount === undefined || amount === null) {
+    if (!Array.isArray(items) || items.length === 0) {
       return NextResponse.json(
-        { error: 'Amount is required. Provide either amountCents or amountPaise (in paise)' },
+        { error: 'items is required and must be a non-empty array of cart lines' },
         { status: 400 }
       )
     }
 
-    if (typeof amount !== 'number' || isNaN(amount)) {
+    // Without a destination the quote has no shipping, and the payment would
+    // fall short of the order total
+    if (!address?.pincode || typeof address.pincode !== 'string') {
       return NextResponse.json(
-        { error: 'Amount must be a valid number' },
+        { error: 'address with a pincode is required to price shipping' },
         { status: 400 }
       )
     }
 
-    if (amount <= 0) {
+    // Price the cart from the database; never trust client totals
+    const supabase = createServerSupabaseClient()
+    const user = await getRequestUser(request)
+    const quoteResult = await buildOrderQuote(supabase, items, {
+      couponCode: coupon_code,
+      destination: { pincode: address.pincode, state: address.state },
+      email,
+      userId: user?.id,
+    })
+
+    if (!quoteResult.ok) {
       return NextResponse.json(
-        { error: 'Amount must be greater than 0' },
+        { error: quoteResult.error, message: quoteResult.error, reason: quoteResult.reason },
         { status: 400 }
       )
     }
 
-    // Validate currency
-    if (typeof currency !== 'string' || currency.trim() === '') {
+    const { quote } = quoteResult
+
+    if (quote.total_cents <= 0) {
       return NextResponse.json(
-        { error: 'Currency must be a non-empty string' },
+        { error: 'Amount must be greater than 0' },
         { status: 400 }
       )
     }
@@ -63,10 +81,10 @@ export async function POST(request: NextRequest) {
     const razorpay = getRazorpayClient()
 
     // Create order using official Razorpay Node SDK
-    // Amount is already in paise, so we round it to ensure it's an integer
+    // Quote totals are integer paise
     const order = await razorpay.orders.create({
-      amount: Math.round(amount),
-      currency: currency.toUpperCase(),
+      amount: quote.total_cents,
+      currency: quote.currency,
       receipt: receipt || `receipt_${Date.now()}`,
       notes: notes || {},
     })
@@ -75,6 +93,7 @@ export async function POST(request: NextRequest) {
       orderId: order.id,
       amount: order.amount,
       currency: order.currency,
+      quote,
     })
   } catch (error: any) {
     console.error('Error creating Razorpay order:', error)
@@ -1,10 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/auth/server'
 import crypto from 'crypto'
 import { getRazorpayKeySecret } from '@/lib/razorpay/env-validation'
 import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { deductOrderStock } from '@/lib/inventory/server'
+import { buildOrderQuote } from '@/lib/pricing/server'
+import { getDraftRazorpayOrderId, getRazorpayClient } from '@/lib/razorpay/server'
+import { assignInvoiceNumber } from '@/lib/invoices/server'
+import { transitionOrder } from '@/lib/orders/server'
+import { normalizeEmail } from '@/lib/utils/email'
 
 export const runtime = 'nodejs'
 
+/**
+ * The order that already holds this Razorpay payment, if any
+ */
+async function findOrderByPaymentId(
+  supabase: ReturnType<typeof createServerSupabaseClient>,
+  paymentId: string
+): Promise<{ id: string; order_number: string; status: string } | null> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('id, order_number, status')
+    .eq('payment_id', paymentId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in findOrderByPaymentId:', error)
+    throw new Error(`Failed to look up payment: ${error.message}`)
+  }
+
+  return data
+}
+
+function bookedOrderResponse(order: { id: string; order_number: string; status: string }) {
+  return NextResponse.json({
+    success: true,
+    order_id: order.id,
+    order_number: order.order_number,
+    needs_review: order.status === 'pending' || undefined,
+  })
+}
+
 /**
  * POST /api/razorpay/verify
  * 
@@ -181,48 +218,31 @@ export async function POST(request: NextRequest) {
 
           // Extract data from checkoutData
           const {
-            email,
             phone,
-            user_id,
             address_json,
             items_json,
-            subtotal_cents,
-            shipping_cents = 0,
-            tax_cents = 0,
-            discount_cents = 0,
-            total_cents,
+            coupon_code,
             draft_order_id,
           } = checkoutData
+          const email = typeof checkoutData.email === 'string' ? normalizeEmail(checkoutData.email) : ''
 
           // Validate required fields
-          if (!email || !address_json || !items_json || total_cents === undefined) {
+          if (!email || !address_json || !items_json) {
             console.error('[Razorpay Verify] Missing required checkout data fields:', {
               has_email: !!email,
               has_address: !!address_json,
               has_items: !!items_json,
-              has_total: total_cents !== undefined,
             })
             return NextResponse.json(
               {
                 success: false,
-                error: 'Missing required checkout data: email, address_json, items_json, and total_cents are required',
+                error: 'Missing required checkout data: email, address_json, and items_json are required',
               },
               { status: 400 }
             )
           }
 
           // Validate data types
-          if (typeof email !== 'string' || email.trim() === '') {
-            console.error('[Razorpay Verify] Invalid email format')
-            return NextResponse.json(
-              {
-                success: false,
-                error: 'Invalid email: must be a non-empty string',
-              },
-              { status: 400 }
-            )
-          }
-
           if (!Array.isArray(items_json) || items_json.length === 0) {
             console.error('[Razorpay Verify] Invalid items_json: must be a non-empty array')
             return NextResponse.json(
@@ -234,26 +254,28 @@ export async function POST(request: NextRequest) {
             )
           }
 
-          if (typeof total_cents !== 'number' || total_cents <= 0) {
-            console.error('[Razorpay Verify] Invalid total_cents:', total_cents)
-            return NextResponse.json(
-              {
-                success: false,
-                error: 'Invalid total: must be a positive number',
-              },
-              { status: 400 }
-            )
+          // The order belongs to the signed-in shopper, if any; never to a
+          // user_id sent in the body
+          const user = await getRequestUser(request)
+
+          // A payment is booked once: a replayed or repeated verify call gets
+          // the order already holding this payment back (the webhook may
+          // have confirmed it first)
+          const existingOrder = await findOrderByPaymentId(supabase, razorpay_payment_id)
+          if (existingOrder) {
+            return bookedOrderResponse(existingOrder)
           }
 
           // Check if draft order exists and update it, otherwise create new
           let orderData: { id: string; order_number: string } | null = null
           let orderError: any = null
+          let needsReview = false
 
           if (draft_order_id) {
             // Update existing draft order
             const { data: currentOrder, error: fetchError } = await supabase
               .from('orders')
-              .select('status_history, order_number')
+              .select('id, order_number, admin_notes, total_cents')
               .eq('id', draft_order_id)
               .single()
 
@@ -266,45 +288,112 @@ export async function POST(request: NextRequest) {
               }
               // Draft order not found, will create new one below
             } else if (currentOrder) {
-              const statusHistory = currentOrder?.status_history || []
-              statusHistory.push({
-                status: 'confirmed',
-                timestamp: new Date().toISOString(),
-                note: 'Payment received via Razorpay',
-              })
+              // The draft id comes from the browser: only confirm it for the
+              // Razorpay order it was created for, paid in full. Anything else
+              // is left for the admin to review or refund.
+              const draftRazorpayOrderId = getDraftRazorpayOrderId(currentOrder.admin_notes)
+              const paidCents =
+                draftRazorpayOrderId === razorpay_order_id
+                  ? Number((await getRazorpayClient().orders.fetch(razorpay_order_id)).amount)
+                  : null
+
+              if (draftRazorpayOrderId !== razorpay_order_id || paidCents !== currentOrder.total_cents) {
+                console.error('[Razorpay Verify] Payment does not match draft order:', {
+                  draft_order_id,
+                  razorpay_order_id,
+                  draft_razorpay_order_id: draftRazorpayOrderId,
+                  paid_cents: paidCents,
+                  draft_total_cents: currentOrder.total_cents,
+                })
+                return NextResponse.json(
+                  {
+                    success: false,
+                    error: 'This payment does not match your order',
+                    message: `Payment ${razorpay_payment_id} was received but could not be matched to your order. Please contact support.`,
+                  },
+                  { status: 409 }
+                )
+              }
 
-              const { data: updatedOrder, error: updateError } = await supabase
-                .from('orders')
-                .update({
+              const transition = await transitionOrder(supabase, draft_order_id, {
+                to: 'confirmed',
+                note: 'Payment received via Razorpay',
+                changes: {
                   payment_status: 'paid',
                   payment_id: razorpay_payment_id,
                   payment_date: new Date().toISOString(),
-                  status: 'confirmed',
-                  status_history: statusHistory,
-                  updated_at: new Date().toISOString(),
-                })
-                .eq('id', draft_order_id)
-                .select('id, order_number')
-                .single()
+                },
+              })
 
-              if (updateError) {
-                if (process.env.NODE_ENV !== 'production') {
-                  console.warn('[Razorpay Verify] Failed to update draft order, will create new order:', {
-                    draft_order_id,
-                    error: updateError.message,
-                    code: updateError.code,
-                  })
-                }
+              if (!transition.ok) {
+                // e.g. the draft was cancelled or expired before the payment went through
+                console.warn('[Razorpay Verify] Could not confirm draft order, will create new order:', {
+                  draft_order_id,
+                  error: transition.error,
+                })
                 // Update failed, will create new one below
                 orderError = null // Reset error to allow creating new order
               } else {
-                orderData = updatedOrder
+                orderData = { id: transition.order.id, order_number: transition.order.order_number }
               }
             }
           }
 
           // If no draft order or update failed, create new order
           if (!orderData || orderError) {
+            // Price the items on the server; the payment is already captured,
+            // so a mismatch is recorded for the admin instead of rejected
+            const destination = { pincode: address_json.pincode, state: address_json.state }
+            let quoteResult = await buildOrderQuote(supabase, items_json, {
+              couponCode: coupon_code,
+              destination,
+              email,
+              userId: user?.id,
+            })
+
+            // A coupon that ran out mid-payment shouldn't lose a paid order;
+            // price without it and let the mismatch note flag it
+            if (!quoteResult.ok && quoteResult.reason === 'coupon') {
+              quoteResult = await buildOrderQuote(supabase, items_json, { destination })
+            }
+
+            if (!quoteResult.ok) {
+              console.error('[Razorpay Verify] Failed to price paid order:', {
+                razorpay_order_id,
+                error: quoteResult.error,
+              })
+              return NextResponse.json(
+                {
+                  success: false,
+                  error: quoteResult.error,
+                  message: `Payment ${razorpay_payment_id} was received but the order could not be created. Please contact support.`,
+                },
+                { status: 400 }
+              )
+            }
+
+            const { quote } = quoteResult
+            const razorpayOrder = await getRazorpayClient().orders.fetch(razorpay_order_id)
+            const paidCents = Number(razorpayOrder.amount)
+            // An underpaid order stays pending (paid) until an admin reviews it;
+            // confirming it would ship goods that weren't paid for
+            const isUnderpaid = paidCents < quote.total_cents
+            const orderStatus = isUnderpaid ? 'pending' : 'confirmed'
+            const amountMismatchNote =
+              paidCents !== quote.total_cents
+                ? `Amount mismatch: paid ${paidCents} paise, expected ${quote.total_cents} paise${
+                    isUnderpaid ? '. Needs review: confirm the order or refund the payment' : ''
+                  }`
+                : null
+
+            if (amountMismatchNote) {
+              console.error('[Razorpay Verify] Paid amount does not match quote:', {
+                razorpay_order_id,
+                paid_cents: paidCents,
+                quote_total_cents: quote.total_cents,
+              })
+            }
+
             // Generate order number with retry logic to handle duplicates
             let orderNumber: string
             let newOrderData: { id: string; order_number: string } | null = null
@@ -354,32 +443,49 @@ export async function POST(request: NextRequest) {
                   .from('orders')
                   .insert({
                     order_number: orderNumber,
-                    user_id: user_id || null,
+                    user_id: user?.id || null,
                     email,
                     phone: phone || null,
                     address_json,
-                    items_json,
-                    subtotal_cents: subtotal_cents || total_cents,
-                    shipping_cents,
-                    tax_cents,
-                    discount_cents,
-                    total_cents,
+                    items_json: quote.items,
+                    subtotal_cents: quote.subtotal_cents,
+                    shipping_cents: quote.shipping_cents,
+                    tax_cents: quote.tax_cents,
+                    tax_breakdown: quote.tax,
+                    discount_cents: quote.discount_cents,
+                    total_cents: quote.total_cents,
+                    coupon_code: quote.coupon?.code || null,
                     payment_method: 'razorpay',
                     payment_status: 'paid',
                     payment_id: razorpay_payment_id,
                     payment_date: new Date().toISOString(),
-                    status: 'confirmed',
+                    status: orderStatus,
+                    admin_notes: [`Razorpay Order ID: ${razorpay_order_id}`, amountMismatchNote]
+                      .filter(Boolean)
+                      .join('\n'),
                     status_history: [
                       {
-                        status: 'confirmed',
+                        status: orderStatus,
                         timestamp: new Date().toISOString(),
-                        note: 'Payment received via Razorpay',
+                        note: amountMismatchNote
+                          ? `Payment received via Razorpay (${amountMismatchNote})`
+                          : 'Payment received via Razorpay',
                       },
                     ],
                   })
                   .select('id, order_number')
                   .single()
 
+                // Booked by a concurrent verify call or the webhook in the meantime
+                if (insertedOrderError?.code === '23505' && insertedOrderError.message?.includes('payment_id')) {
+                  const bookedOrder = await findOrderByPaymentId(supabase, razorpay_payment_id)
+                  if (bookedOrder) {
+                    return bookedOrderResponse(bookedOrder)
+                  }
+                  newOrderError = insertedOrderError
+                  break
+                }
+
                 // Check if error is due to duplicate order number
                 if (insertedOrderError?.code === '23505' || insertedOrderError?.message?.includes('duplicate') || insertedOrderError?.message?.includes('unique')) {
                   if (process.env.NODE_ENV !== 'production') {
@@ -420,6 +526,7 @@ export async function POST(request: NextRequest) {
 
             orderData = newOrderData
             orderError = newOrderError
+            needsReview = isUnderpaid
           }
 
           if (orderError || !orderData) {
@@ -461,6 +568,24 @@ export async function POST(request: NextRequest) {
             )
           }
 
+          // An order under review deducts stock and gets its invoice number
+          // when an admin confirms it (lib/orders/server.ts)
+          if (!needsReview) {
+            // Deduct purchased sizes from stock (no-op if the webhook already did)
+            try {
+              await deductOrderStock(supabase, orderData.id)
+            } catch (stockError) {
+              console.error('[Razorpay Verify] Failed to deduct stock for order:', orderData.id, stockError)
+            }
+
+            // Number the GST invoice at payment time (no-op if the webhook already did)
+            try {
+              await assignInvoiceNumber(supabase, orderData.id)
+            } catch (invoiceError) {
+              console.error('[Razorpay Verify] Failed to assign invoice number for order:', orderData.id, invoiceError)
+            }
+          }
+
           if (process.env.NODE_ENV !== 'production') {
             console.log('[Razorpay Verify] Order created successfully:', {
               order_id: orderData.id,
@@ -473,6 +598,7 @@ export async function POST(request: NextRequest) {
             success: true,
             order_id: orderData.id,
             order_number: orderData.order_number,
+            needs_review: needsReview || undefined,
           })
         } catch (orderError: any) {
           console.error('[Razorpay Verify] Error creating order:', orderError)
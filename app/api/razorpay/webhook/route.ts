@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import crypto from 'crypto'
 import { getRazorpayKeySecret } from '@/lib/razorpay/env-validation'
 import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { processPaymentEvent, recordPaymentEvent } from '@/lib/payment-events/server'
 
 // Disable body parsing to get raw body for signature verification
 export const runtime = 'nodejs'
@@ -12,11 +13,11 @@ export const dynamic = 'force-dynamic'
  * 
  * Handles Razorpay webhook events for payment status updates.
  * 
- * Events handled:
- * - payment.captured: Payment successful, update order to paid/confirmed
- * - payment.failed: Payment failed, update order to failed
+ * Every verified event is stored in payment_events (lib/payment-events)
+ * and then handled by lib/razorpay/webhook-handlers.ts, which lists the
+ * events acted on. Failed events can be replayed from /admin/payment-events.
  * 
- * This endpoint is idempotent - duplicate webhook calls are safely handled.
+ * This endpoint is idempotent - duplicate webhook calls are skipped by event id.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -92,10 +93,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Razorpay sends the same event id on every retry of a delivery
+    const eventId =
+      request.headers.get('X-Razorpay-Event-Id') ||
+      `sha256:${crypto.createHash('sha256').update(body).digest('hex')}`
+
     console.log('[Razorpay Webhook] Received event:', {
       event,
-      payment_id: eventPayload.payment?.entity?.id,
+      event_id: eventId,
+      payment_id: eventPayload.payment?.entity?.id || eventPayload.refund?.entity?.payment_id,
       order_id: eventPayload.payment?.entity?.order_id,
+      refund_id: eventPayload.refund?.entity?.id,
       timestamp: new Date().toISOString(),
     })
 
@@ -111,314 +119,26 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Handle different events
-    if (event === 'payment.captured') {
-      return await handlePaymentCaptured(supabase, eventPayload)
-    } else if (event === 'payment.failed') {
-      return await handlePaymentFailed(supabase, eventPayload)
-    } else {
-      // Acknowledge other events but don't process them
-      if (process.env.NODE_ENV !== 'production') {
-        console.log('[Razorpay Webhook] Unhandled event:', event)
-      }
-      return NextResponse.json({ received: true })
-    }
-  } catch (error: any) {
-    console.error('[Razorpay Webhook] Unexpected error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    )
-  }
-}
-
-/**
- * Handle payment.captured event
- * Updates order to paid/confirmed status
- */
-async function handlePaymentCaptured(supabase: any, eventPayload: any) {
-  try {
-    const payment = eventPayload.payment?.entity
-    if (!payment) {
-      console.error('[Razorpay Webhook] Missing payment entity in payload')
-      return NextResponse.json(
-        { error: 'Missing payment entity' },
-        { status: 400 }
-      )
-    }
-
-    const paymentId = payment.id
-    const orderId = payment.order_id
-
-    if (!paymentId) {
-      console.error('[Razorpay Webhook] Missing payment_id')
-      return NextResponse.json(
-        { error: 'Missing payment_id' },
-        { status: 400 }
-      )
-    }
-
-    // Find order by payment_id first (most reliable for captured payments)
-    let orders: any[] | null = null
-    let findError: any = null
-
-    if (paymentId) {
-      const { data, error } = await supabase
-        .from('orders')
-        .select('id, order_number, payment_status, status, status_history')
-        .eq('payment_id', paymentId)
-        .limit(1)
-
-      orders = data
-      findError = error
-    }
-
-    // If not found by payment_id and we have order_id, search by admin_notes
-    // This handles cases where payment_id might not be set yet
-    if ((!orders || orders.length === 0) && orderId) {
-      const { data, error } = await supabase
-        .from('orders')
-        .select('id, order_number, payment_status, status, status_history')
-        .ilike('admin_notes', `%Razorpay Order ID: ${orderId}%`)
-        .limit(1)
-
-      orders = data
-      findError = error
-    }
-
-    if (findError) {
-      console.error('[Razorpay Webhook] Error finding order:', findError)
-      return NextResponse.json(
-        { error: 'Database error' },
-        { status: 500 }
-      )
-    }
-
-    if (!orders || orders.length === 0) {
-      console.warn('[Razorpay Webhook] Order not found for payment:', {
-        payment_id: paymentId,
-        razorpay_order_id: orderId,
-      })
-      // Return success to acknowledge webhook (idempotent - order might not exist yet)
-      return NextResponse.json({ received: true, message: 'Order not found' })
-    }
-
-    const order = orders[0]
-
-    // Idempotency check: If order is already paid/confirmed, acknowledge and return
-    if (order.payment_status === 'paid' && order.status === 'confirmed') {
-      if (process.env.NODE_ENV !== 'production') {
-        console.log('[Razorpay Webhook] Order already confirmed (idempotent):', order.id)
-      }
-      return NextResponse.json({ 
-        received: true, 
-        message: 'Order already confirmed',
-        order_id: order.id 
-      })
-    }
-
-    // Update status history
-    const statusHistory = Array.isArray(order.status_history) ? [...order.status_history] : []
-    statusHistory.push({
-      status: 'confirmed',
-      timestamp: new Date().toISOString(),
-      note: `Payment captured via Razorpay webhook (Payment ID: ${paymentId})`,
+    // Store the event before acting on it; if this fails Razorpay retries
+    const { event: loggedEvent, duplicate } = await recordPaymentEvent(supabase, {
+      eventId,
+      eventType: event,
+      payload,
     })
 
-    // Update order
-    const { data: updatedOrder, error: updateError } = await supabase
-      .from('orders')
-      .update({
-        payment_status: 'paid',
-        payment_id: paymentId,
-        payment_date: new Date().toISOString(),
-        status: 'confirmed',
-        status_history: statusHistory,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', order.id)
-      .select('id, order_number')
-      .single()
-
-    if (updateError) {
-      console.error('[Razorpay Webhook] Error updating order:', updateError)
-      return NextResponse.json(
-        { error: 'Failed to update order', message: updateError.message },
-        { status: 500 }
-      )
-    }
-
-    if (process.env.NODE_ENV !== 'production') {
-      console.log('[Razorpay Webhook] Order confirmed successfully:', {
-        order_id: updatedOrder.id,
-        order_number: updatedOrder.order_number,
-        payment_id: paymentId,
-      })
-    }
-
-    return NextResponse.json({
-      received: true,
-      order_id: updatedOrder.id,
-      order_number: updatedOrder.order_number,
-    })
-  } catch (error: any) {
-    console.error('[Razorpay Webhook] Error handling payment.captured:', error)
-    return NextResponse.json(
-      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    )
-  }
-}
-
-/**
- * Handle payment.failed event
- * Updates order to failed status
- */
-async function handlePaymentFailed(supabase: any, eventPayload: any) {
-  try {
-    const payment = eventPayload.payment?.entity
-    if (!payment) {
-      console.error('[Razorpay Webhook] Missing payment entity in payload')
-      return NextResponse.json(
-        { error: 'Missing payment entity' },
-        { status: 400 }
-      )
-    }
-
-    const paymentId = payment.id
-    const orderId = payment.order_id
-    const errorDescription = payment.error_description || payment.error_reason || 'Payment failed'
-
-    if (!paymentId) {
-      console.error('[Razorpay Webhook] Missing payment_id')
-      return NextResponse.json(
-        { error: 'Missing payment_id' },
-        { status: 400 }
-      )
-    }
-
-    // Find order by payment_id first (most reliable for failed payments)
-    let orders: any[] | null = null
-    let findError: any = null
-
-    if (paymentId) {
-      const { data, error } = await supabase
-        .from('orders')
-        .select('id, order_number, payment_status, status, status_history')
-        .eq('payment_id', paymentId)
-        .limit(1)
-
-      orders = data
-      findError = error
-    }
-
-    // If not found by payment_id and we have order_id, search by admin_notes
-    // This handles cases where payment_id might not be set yet
-    if ((!orders || orders.length === 0) && orderId) {
-      const { data, error } = await supabase
-        .from('orders')
-        .select('id, order_number, payment_status, status, status_history')
-        .ilike('admin_notes', `%Razorpay Order ID: ${orderId}%`)
-        .limit(1)
-
-      orders = data
-      findError = error
-    }
-
-    if (findError) {
-      console.error('[Razorpay Webhook] Error finding order:', findError)
-      return NextResponse.json(
-        { error: 'Database error' },
-        { status: 500 }
-      )
-    }
-
-    if (!orders || orders.length === 0) {
-      if (process.env.NODE_ENV !== 'production') {
-        console.warn('[Razorpay Webhook] Order not found for payment:', {
-          payment_id: paymentId,
-          razorpay_order_id: orderId,
-        })
-      }
-      // Return success to acknowledge webhook (idempotent - order might not exist yet)
-      return NextResponse.json({ received: true, message: 'Order not found' })
-    }
-
-    const order = orders[0]
-
-    // Idempotency check: If order is already marked as failed, acknowledge and return
-    if (order.payment_status === 'failed') {
-      if (process.env.NODE_ENV !== 'production') {
-        console.log('[Razorpay Webhook] Order already marked as failed (idempotent):', order.id)
-      }
-      return NextResponse.json({ 
-        received: true, 
-        message: 'Order already marked as failed',
-        order_id: order.id 
-      })
-    }
-
-    // Don't update if order is already confirmed/paid (payment might have succeeded after failure)
-    if (order.payment_status === 'paid' && order.status === 'confirmed') {
+    if (duplicate) {
       if (process.env.NODE_ENV !== 'production') {
-        console.warn('[Razorpay Webhook] Order already confirmed, ignoring failure event:', order.id)
+        console.log('[Razorpay Webhook] Duplicate event skipped:', eventId, loggedEvent.status)
       }
-      return NextResponse.json({ 
-        received: true, 
-        message: 'Order already confirmed, ignoring failure',
-        order_id: order.id 
-      })
+      return NextResponse.json({ received: true, duplicate: true })
     }
 
-    // Update status history
-    const statusHistory = Array.isArray(order.status_history) ? [...order.status_history] : []
-    statusHistory.push({
-      status: 'pending',
-      timestamp: new Date().toISOString(),
-      note: `Payment failed via Razorpay webhook: ${errorDescription} (Payment ID: ${paymentId})`,
-    })
-
-    // Update order
-    const { data: updatedOrder, error: updateError } = await supabase
-      .from('orders')
-      .update({
-        payment_status: 'failed',
-        status: 'pending',
-        status_history: statusHistory,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', order.id)
-      .select('id, order_number')
-      .single()
-
-    if (updateError) {
-      console.error('[Razorpay Webhook] Error updating order:', updateError)
-      return NextResponse.json(
-        { error: 'Failed to update order', message: updateError.message },
-        { status: 500 }
-      )
-    }
-
-    if (process.env.NODE_ENV !== 'production') {
-      console.log('[Razorpay Webhook] Order marked as failed:', {
-        order_id: updatedOrder.id,
-        order_number: updatedOrder.order_number,
-        payment_id: paymentId,
-        error: errorDescription,
-      })
-    }
-
-    return NextResponse.json({
-      received: true,
-      order_id: updatedOrder.id,
-      order_number: updatedOrder.order_number,
-    })
+    return await processPaymentEvent(supabase, loggedEvent)
   } catch (error: any) {
-    console.error('[Razorpay Webhook] Error handling payment.failed:', error)
+    console.error('[Razorpay Webhook] Unexpected error:', error)
     return NextResponse.json(
       { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     )
   }
 }
-
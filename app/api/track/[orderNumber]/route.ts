@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { getPublicTracking } from '@/lib/couriers/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/track/[orderNumber]
+ * Public shipment tracking for an order: status timeline, carrier and
+ * courier scans. No sign-in, so nothing personal is returned.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderNumber: string }> | { orderNumber: string } }
+) {
+  try {
+    // Handle async params in Next.js 14+
+    const resolvedParams = await Promise.resolve(params)
+    const orderNumber = decodeURIComponent(resolvedParams.orderNumber).trim().toUpperCase()
+
+    if (!orderNumber || orderNumber.length > 64) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const tracking = await getPublicTracking(createServerSupabaseClient(), orderNumber)
+    if (!tracking) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ tracking })
+  } catch (error: any) {
+    console.error('[Track] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
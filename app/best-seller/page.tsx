@@ -24,7 +24,8 @@ function BestSellerContent() {
   const [showToast, setShowToast] = useState(false)
   const [toastMessage, setToastMessage] = useState('')
   const [toastType, setToastType] = useState<'success' | 'error'>('success')
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canEditProducts = can('edit_products')
 
   // Selected category from URL so it persists on refresh and when navigating back
   const selectedCategory = searchParams.get('category')
@@ -159,12 +160,12 @@ function BestSellerContent() {
             <div className="text-center py-16">
               <p className="text-gray-600 text-lg mb-2">No products yet</p>
               <p className="text-gray-500 text-sm">
-                {!isAdminLoading && isAdmin
+                {!isAdminLoading && canEditProducts
                   ? 'Add your first product using the "Add Product" card below.'
                   : 'Check back soon for new products!'}
               </p>
             </div>
-            {!isAdminLoading && isAdmin && (
+            {!isAdminLoading && canEditProducts && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -217,7 +218,7 @@ function BestSellerContent() {
                         </span>
                       </div>
                     )}
-                    {!isAdminLoading && isAdmin && (
+                    {!isAdminLoading && canEditProducts && (
                       <div
                         className="absolute top-3 right-3 z-10"
                         onClick={(event) => event.stopPropagation()}
@@ -262,7 +263,7 @@ function BestSellerContent() {
                 </motion.div>
               </Link>
             ))}
-            {!isAdminLoading && isAdmin && (
+            {!isAdminLoading && canEditProducts && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
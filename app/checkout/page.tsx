@@ -2,7 +2,7 @@
 
 import { motion, useReducedMotion } from 'framer-motion'
 import Link from 'next/link'
-import { useRef, useState, useEffect } from 'react'
+import { useRef, useState, useEffect, useCallback } from 'react'
 import { useCartStore } from '@/lib/store/cart'
 import { useAuthStore } from '@/lib/store/auth'
 
@@ -10,6 +10,11 @@ import { useAuthStore } from '@/lib/store/auth'
 import { useRouter } from 'next/navigation'
 import { formatINR } from '@/lib/utils/money'
 import Toast from '@/components/ui/Toast'
+import type { AppliedCoupon } from '@/lib/coupons/types'
+import type { OrderQuote } from '@/lib/pricing/server'
+import type { CodAvailability } from '@/lib/cod/types'
+import { INDIAN_STATES } from '@/lib/utils/indianStates'
+import { useStoreSettings } from '@/components/StoreSettingsProvider'
 
 declare global {
   interface Window {
@@ -26,6 +31,7 @@ interface AddressForm {
   street: string
   landmark: string
   city: string
+  state: string
   saveAddress: boolean
   upiId: string
 }
@@ -34,7 +40,9 @@ export default function CheckoutPage() {
   const items = useCartStore((state) => state.items)
   const subtotal = useCartStore((state) => state.getTotalPrice())
   const clearCart = useCartStore((state) => state.clearCart)
+  const syncPrices = useCartStore((state) => state.syncPrices)
   const { user, isAuthenticated } = useAuthStore()
+  const { settings: storeSettings } = useStoreSettings()
   const prefersReducedMotion = useReducedMotion()
   const router = useRouter()
   const [isProcessing, setIsProcessing] = useState(false)
@@ -47,6 +55,7 @@ export default function CheckoutPage() {
     street: '',
     landmark: '',
     city: '',
+    state: '',
     saveAddress: false,
     upiId: '',
   })
@@ -55,7 +64,18 @@ export default function CheckoutPage() {
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
   const [draftOrderId, setDraftOrderId] = useState<string | null>(null)
   const [lastRazorpayOrderId, setLastRazorpayOrderId] = useState<string | null>(null)
-  const fieldRefs = useRef<Record<string, HTMLInputElement | HTMLTextAreaElement | null>>({})
+  const [couponInput, setCouponInput] = useState('')
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null)
+  const [couponError, setCouponError] = useState<string | null>(null)
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false)
+  const [quote, setQuote] = useState<OrderQuote | null>(null)
+  const [isQuoting, setIsQuoting] = useState(false)
+  const [paymentMethod, setPaymentMethod] = useState<'razorpay' | 'cod'>('razorpay')
+  const [codAvailability, setCodAvailability] = useState<CodAvailability | null>(null)
+  const [otpSentTo, setOtpSentTo] = useState<string | null>(null)
+  const [otpCode, setOtpCode] = useState('')
+  const [isSendingOtp, setIsSendingOtp] = useState(false)
+  const fieldRefs = useRef<Record<string, HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement | null>>({})
 
   // Load Razorpay script safely (only once)
   useEffect(() => {
@@ -95,12 +115,18 @@ export default function CheckoutPage() {
     // Don't remove script on unmount - keep it for future use
   }, [])
 
-  const assignRef = (field: string) => (el: HTMLInputElement | HTMLTextAreaElement | null) => {
+  const assignRef = (field: string) => (el: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement | null) => {
     fieldRefs.current[field] = el
   }
 
   const handleAddressChange = (field: keyof AddressForm, value: string | boolean) => {
     setAddress((prev) => ({ ...prev, [field]: value }))
+
+    // A new number needs its own OTP
+    if (field === 'phone') {
+      setOtpSentTo(null)
+      setOtpCode('')
+    }
   }
 
   const validate = (data: AddressForm) => {
@@ -112,9 +138,216 @@ export default function CheckoutPage() {
     if (!data.flat.trim()) nextErrors.flat = 'House / Flat number is required'
     if (!data.street.trim()) nextErrors.street = 'Street / Locality is required'
     if (!data.city.trim()) nextErrors.city = 'City is required'
+    if (!data.state) nextErrors.state = 'State is required'
     return nextErrors
   }
 
+  // Totals, shipping and coupons are priced on the server; the page only shows the result
+  const hasValidPincode = /^\d{6}$/.test(address.pincode.trim())
+  const requestQuote = useCallback(
+    async (couponCode: string | null) => {
+      const response = await fetch('/api/checkout/quote', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          items: items.map((item) => ({ id: item.id, quantity: item.qty, variant: item.variant || null })),
+          coupon_code: couponCode,
+          address: hasValidPincode ? { pincode: address.pincode.trim(), state: address.state || null } : null,
+          email: (isAuthenticated && user?.email) || address.email?.trim() || null,
+          payment_method: paymentMethod,
+          phone: address.phone.trim() || null,
+        }),
+      })
+      const data = await response.json()
+      return { ok: response.ok && !!data?.success, data }
+    },
+    [items, hasValidPincode, address.pincode, address.state, address.email, address.phone, isAuthenticated, user, paymentMethod]
+  )
+
+  const applyCouponCode = async (code: string) => {
+    const trimmed = code.trim()
+    if (!trimmed) {
+      setCouponError('Enter a coupon code')
+      return
+    }
+
+    setIsApplyingCoupon(true)
+    setCouponError(null)
+    try {
+      const { ok, data } = await requestQuote(trimmed)
+
+      if (!ok) {
+        setCouponError(data?.error || 'Could not apply coupon')
+        return
+      }
+
+      setQuote(data.quote)
+      setAppliedCoupon(data.quote.coupon)
+      setCouponInput(data.quote.coupon?.code || trimmed.toUpperCase())
+    } catch (error) {
+      setCouponError('Could not apply coupon. Please try again.')
+    } finally {
+      setIsApplyingCoupon(false)
+    }
+  }
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null)
+    setCouponInput('')
+    setCouponError(null)
+  }
+
+  // Re-price whenever the cart, delivery address or applied coupon changes
+  const appliedCouponCode = appliedCoupon?.code || null
+  useEffect(() => {
+    if (items.length === 0) {
+      setQuote(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setIsQuoting(true)
+      try {
+        const { ok, data } = await requestQuote(appliedCouponCode)
+        if (cancelled) return
+
+        if (ok) {
+          setQuote(data.quote)
+          setAppliedCoupon(data.quote.coupon)
+          setCodAvailability(data.cod || null)
+          // COD stopped applying (limit, PIN code...); fall back to paying online
+          if (paymentMethod === 'cod' && !data.cod?.available) {
+            setPaymentMethod('razorpay')
+          }
+        } else if (data?.reason === 'coupon') {
+          // The coupon no longer applies to this cart; drop it and re-price without it
+          setAppliedCoupon(null)
+          setCouponError(data.error)
+        } else {
+          setQuote(null)
+        }
+      } catch (error) {
+        if (!cancelled) setQuote(null)
+      } finally {
+        if (!cancelled) setIsQuoting(false)
+      }
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [items.length, requestQuote, appliedCouponCode, paymentMethod])
+
+  const handleSendOtp = async () => {
+    const nextErrors = validate(address)
+    if (nextErrors.phone) {
+      setErrors((prev) => ({ ...prev, phone: nextErrors.phone }))
+      fieldRefs.current.phone?.focus()
+      return
+    }
+
+    setIsSendingOtp(true)
+    try {
+      const response = await fetch('/api/checkout/cod-otp', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ phone: address.phone.trim() }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || 'Could not send OTP. Please try again.')
+      }
+
+      setOtpSentTo(address.phone.trim())
+      setOtpCode('')
+      setToast({ message: data.message || 'OTP sent', type: 'success' })
+    } catch (error) {
+      setToast({ message: error instanceof Error ? error.message : 'Could not send OTP', type: 'error' })
+    } finally {
+      setIsSendingOtp(false)
+    }
+  }
+
+  const handlePlaceCodOrder = async () => {
+    if (isProcessing) return
+
+    const nextErrors = validate(address)
+    setErrors(nextErrors)
+
+    if (Object.keys(nextErrors).length > 0) {
+      const firstErrorKey = Object.keys(nextErrors).find((key) => key !== 'payment')
+      if (firstErrorKey && fieldRefs.current[firstErrorKey]) {
+        fieldRefs.current[firstErrorKey]?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+        fieldRefs.current[firstErrorKey]?.focus()
+      }
+      return
+    }
+
+    if (items.length === 0) return
+    if (!/^\d{6}$/.test(otpCode.trim())) {
+      setErrors((prev) => ({ ...prev, payment: 'Enter the 6 digit OTP sent to your phone' }))
+      return
+    }
+
+    setIsProcessing(true)
+    try {
+      const response = await fetch('/api/orders/cod', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          email:
+            (isAuthenticated && user?.email) ||
+            address.email?.trim() ||
+            `customer-${address.phone}@temp.com`,
+          phone: address.phone.trim(),
+          address_json: {
+            fullName: address.fullName,
+            phone: address.phone,
+            email: address.email || '',
+            pincode: address.pincode,
+            flat: address.flat,
+            street: address.street,
+            landmark: address.landmark || '',
+            city: address.city,
+            state: address.state,
+          },
+          items_json: items.map((item) => ({ id: item.id, quantity: item.qty, variant: item.variant || null })),
+          coupon_code: appliedCoupon?.code || null,
+          otp: otpCode.trim(),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || 'Could not place your order. Please try again.')
+      }
+
+      setIsProcessing(false)
+      clearCart()
+      setToast({ message: 'Order placed! Pay in cash when it arrives.', type: 'success' })
+
+      const params = new URLSearchParams({ id: data.order_id })
+      if (data.order_number) {
+        params.set('order_number', data.order_number)
+      }
+      router.push(`/order-success?${params.toString()}`)
+    } catch (error) {
+      setIsProcessing(false)
+      const errorMessage = error instanceof Error ? error.message : 'An error occurred. Please try again.'
+      setToast({ message: errorMessage, type: 'error' })
+      setErrors((prev) => ({ ...prev, payment: errorMessage }))
+    }
+  }
+
   const handleProceedToPayment = async () => {
     // Prevent double payment - disable if already processing
     if (isProcessing) {
@@ -146,18 +379,17 @@ export default function CheckoutPage() {
     })
 
     try {
-      // Convert total from rupees to paise (multiply by 100)
-      const amountPaise = Math.round(total * 100)
-
-      // Create order on server
+      // Create order on server (the amount is priced server-side from the cart lines)
       const response = await fetch('/api/razorpay/create-order', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          amountPaise,
-          currency: 'INR',
+          items: items.map((item) => ({ id: item.id, quantity: item.qty, variant: item.variant || null })),
+          coupon_code: appliedCoupon?.code || null,
+          address: { pincode: address.pincode.trim(), state: address.state },
+          email: (isAuthenticated && user?.email) || address.email?.trim() || null,
           receipt: `receipt_${Date.now()}`,
           notes: {
             address: `${address.flat}, ${address.street}, ${address.city} - ${address.pincode}`,
@@ -184,6 +416,18 @@ export default function CheckoutPage() {
       }
 
       const orderData = await response.json()
+
+      // Cart prices are cached in localStorage; if they drifted, show the real prices first
+      if (orderData.quote && orderData.quote.subtotal_cents !== Math.round(subtotal * 100)) {
+        syncPrices(orderData.quote.items)
+        throw new Error('Some prices in your cart have changed. Please review your order and pay again.')
+      }
+
+      if (orderData.quote) {
+        setQuote(orderData.quote)
+        setAppliedCoupon(orderData.quote.coupon)
+      }
+
       setLastRazorpayOrderId(orderData.orderId)
 
       // Get Razorpay Key ID from environment (public, safe for client)
@@ -222,6 +466,9 @@ export default function CheckoutPage() {
       }
 
       // Create draft order before opening payment modal
+      // (kept in a local as well: the Razorpay callbacks below close over this render's state)
+      let currentDraftOrderId: string | null = null
+      let outOfStockMessage: string | null = null
       try {
         const orderEmail = 
           (isAuthenticated && user?.email) || 
@@ -236,7 +483,6 @@ export default function CheckoutPage() {
           body: JSON.stringify({
             razorpay_order_id: orderData.orderId,
             email: orderEmail,
-            user_id: isAuthenticated && user?.id ? user.id : null,
             phone: address.phone,
             address_json: {
               fullName: address.fullName,
@@ -247,6 +493,7 @@ export default function CheckoutPage() {
               street: address.street,
               landmark: address.landmark || '',
               city: address.city,
+              state: address.state,
             },
             items_json: items.map((item) => ({
               id: item.id,
@@ -256,17 +503,18 @@ export default function CheckoutPage() {
               image: item.image,
               variant: item.variant || null,
             })),
-            subtotal_cents: Math.round(subtotal * 100),
-            shipping_cents: 0,
-            tax_cents: 0,
-            discount_cents: 0,
-            total_cents: Math.round(total * 100),
+            coupon_code: appliedCoupon?.code || null,
           }),
         })
 
         if (draftOrderResponse.ok) {
           const draftData = await draftOrderResponse.json()
+          currentDraftOrderId = draftData.order_id
           setDraftOrderId(draftData.order_id)
+        } else if (draftOrderResponse.status === 409) {
+          // Someone else is already paying for (or bought) an item in the cart
+          const draftData = await draftOrderResponse.json().catch(() => null)
+          outOfStockMessage = draftData?.error || 'Some items in your cart are no longer in stock'
         } else {
           if (process.env.NODE_ENV !== 'production') {
             console.warn('Failed to create draft order, continuing with payment flow')
@@ -278,12 +526,16 @@ export default function CheckoutPage() {
         }
       }
 
+      if (outOfStockMessage) {
+        throw new Error(outOfStockMessage)
+      }
+
       // Initialize Razorpay checkout
       const options = {
         key: keyId,
         amount: orderData.amount,
         currency: orderData.currency,
-        name: 'Add2Cart',
+        name: storeSettings.store_name,
         description: `Order for ${items.length} item(s)`,
         order_id: orderData.orderId,
         handler: async function (response: any) {
@@ -298,7 +550,6 @@ export default function CheckoutPage() {
             
             const checkoutData = {
               email: orderEmail,
-              user_id: isAuthenticated && user?.id ? user.id : null,
               phone: address.phone,
               address_json: {
                 fullName: address.fullName,
@@ -309,6 +560,7 @@ export default function CheckoutPage() {
                 street: address.street,
                 landmark: address.landmark || '',
                 city: address.city,
+                state: address.state,
               },
               items_json: items.map((item) => ({
                 id: item.id,
@@ -318,12 +570,8 @@ export default function CheckoutPage() {
                 image: item.image,
                 variant: item.variant || null,
               })),
-              subtotal_cents: Math.round(subtotal * 100),
-              shipping_cents: 0, // Free shipping
-              tax_cents: 0,
-              discount_cents: 0,
-              total_cents: Math.round(total * 100),
-              draft_order_id: draftOrderId, // Include draft order ID if exists
+              coupon_code: appliedCoupon?.code || null,
+              draft_order_id: currentDraftOrderId, // Include draft order ID if exists
             }
 
             const verifyResponse = await fetch('/api/razorpay/verify', {
@@ -344,7 +592,7 @@ export default function CheckoutPage() {
             // Treat non-2xx as failure too (and surface the best message available)
             if (!verifyResponse.ok || !verifyData?.success) {
               // Update draft order to failed if verification fails
-              if (draftOrderId) {
+              if (currentDraftOrderId) {
                 try {
                   await fetch('/api/orders/draft', {
                     method: 'PUT',
@@ -352,7 +600,8 @@ export default function CheckoutPage() {
                       'Content-Type': 'application/json',
                     },
                     body: JSON.stringify({
-                      order_id: draftOrderId,
+                      order_id: currentDraftOrderId,
+                      razorpay_order_id: orderData.orderId,
                       payment_status: 'failed',
                       status: 'pending',
                       note: `Payment verification failed: ${verifyData.error || 'Unknown error'}`,
@@ -427,14 +676,14 @@ export default function CheckoutPage() {
           address: `${address.flat}, ${address.street}, ${address.city} - ${address.pincode}`,
         },
         theme: {
-          color: '#000000',
+          color: storeSettings.primary_color,
         },
         modal: {
           ondismiss: async function () {
             setIsProcessing(false)
             
             // Update draft order to cancelled if it exists
-            if (draftOrderId) {
+            if (currentDraftOrderId) {
               try {
                 await fetch('/api/orders/draft', {
                   method: 'PUT',
@@ -442,7 +691,8 @@ export default function CheckoutPage() {
                     'Content-Type': 'application/json',
                   },
                   body: JSON.stringify({
-                    order_id: draftOrderId,
+                    order_id: currentDraftOrderId,
+                    razorpay_order_id: orderData.orderId,
                     payment_status: 'cancelled',
                     status: 'cancelled',
                     note: 'Payment cancelled by user',
@@ -467,7 +717,7 @@ export default function CheckoutPage() {
         setIsProcessing(false)
         
         // Update draft order to failed if it exists
-        if (draftOrderId) {
+        if (currentDraftOrderId) {
           try {
             await fetch('/api/orders/draft', {
               method: 'PUT',
@@ -475,7 +725,8 @@ export default function CheckoutPage() {
                 'Content-Type': 'application/json',
               },
               body: JSON.stringify({
-                order_id: draftOrderId,
+                order_id: currentDraftOrderId,
+                razorpay_order_id: orderData.orderId,
                 payment_status: 'failed',
                 status: 'pending',
                 note: `Payment failed: ${response.error?.description || response.error?.reason || 'Unknown error'}`,
@@ -512,7 +763,11 @@ export default function CheckoutPage() {
 
   const isAddressValid = Object.keys(validate(address)).length === 0
   const isFormReady = items.length > 0 && isAddressValid
-  const total = subtotal
+  const discount = quote ? quote.discount_cents / 100 : appliedCoupon ? appliedCoupon.discount_cents / 100 : 0
+  const shipping = quote && (quote.shipping.zone_id || quote.shipping.free_shipping_applied) ? quote.shipping : null
+  const total = quote ? quote.total_cents / 100 : Math.max(0, subtotal - discount)
+  const isCod = paymentMethod === 'cod'
+  const hasOtp = !!otpSentTo && otpSentTo === address.phone.trim()
 
   return (
     <div className="min-h-screen bg-[#E0E0E0]">
@@ -582,13 +837,91 @@ export default function CheckoutPage() {
                     <span className="font-semibold text-gray-900">{formatINR(subtotal)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Delivery</span>
-                    <span className="font-semibold text-emerald-600">Free</span>
+                    <span>Delivery{shipping?.zone_name ? ` (${shipping.zone_name})` : ''}</span>
+                    {!shipping ? (
+                      <span className="text-gray-500">{isQuoting ? 'Calculating...' : 'Enter PIN code'}</span>
+                    ) : shipping.shipping_cents === 0 ? (
+                      <span className="font-semibold text-emerald-600">Free</span>
+                    ) : (
+                      <span className="font-semibold text-gray-900">{formatINR(shipping.shipping_cents / 100)}</span>
+                    )}
                   </div>
+                  {quote && quote.cod_fee_cents > 0 && (
+                    <div className="flex justify-between">
+                      <span>Cash on Delivery fee</span>
+                      <span className="font-semibold text-gray-900">{formatINR(quote.cod_fee_cents / 100)}</span>
+                    </div>
+                  )}
+                  {appliedCoupon && (
+                    <div className="flex justify-between">
+                      <span>Discount ({appliedCoupon.code})</span>
+                      <span className="font-semibold text-emerald-600">-{formatINR(discount)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-base font-bold text-gray-900 border-t border-gray-200 pt-3">
                     <span>Total Payable</span>
                     <span>{formatINR(total)}</span>
                   </div>
+                  {quote && quote.tax_cents > 0 && (
+                    <p className="text-xs text-gray-500 text-right">
+                      {!quote.tax.place_of_supply
+                        ? `Inclusive of GST (${formatINR(quote.tax_cents / 100)})`
+                        : quote.tax.supply_type === 'intra_state'
+                          ? `Includes CGST ${formatINR(quote.tax.cgst_cents / 100)} + SGST ${formatINR(quote.tax.sgst_cents / 100)}`
+                          : `Includes IGST ${formatINR(quote.tax.igst_cents / 100)}`}
+                    </p>
+                  )}
+                </div>
+                <div className="mt-6 pt-4 border-t border-gray-200">
+                  <label htmlFor="couponCode" className="text-sm font-semibold text-gray-700">Coupon Code</label>
+                  {appliedCoupon ? (
+                    <div className="mt-1 flex items-center justify-between gap-3 px-4 py-2 rounded-lg bg-emerald-50 border border-emerald-200">
+                      <div>
+                        <p className="text-sm font-semibold text-emerald-700">{appliedCoupon.code} applied</p>
+                        {appliedCoupon.description && (
+                          <p className="text-xs text-emerald-700/80">{appliedCoupon.description}</p>
+                        )}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleRemoveCoupon}
+                        disabled={isProcessing}
+                        className="text-sm font-semibold text-gray-700 hover:text-black underline"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="mt-1 flex gap-2">
+                      <input
+                        id="couponCode"
+                        value={couponInput}
+                        onChange={(e) => {
+                          setCouponInput(e.target.value.toUpperCase())
+                          setCouponError(null)
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault()
+                            applyCouponCode(couponInput)
+                          }
+                        }}
+                        placeholder="e.g. INSTA10"
+                        className={`flex-1 px-4 py-2 border rounded-lg uppercase focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 ${
+                          couponError ? 'border-red-400' : 'border-gray-300'
+                        }`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => applyCouponCode(couponInput)}
+                        disabled={isApplyingCoupon || items.length === 0 || !couponInput.trim()}
+                        className="px-4 py-2 bg-black text-white rounded-lg font-semibold hover:bg-gray-900 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isApplyingCoupon ? 'Applying...' : 'Apply'}
+                      </button>
+                    </div>
+                  )}
+                  {couponError && <p className="text-xs text-red-500 mt-1">{couponError}</p>}
                 </div>
                 <div className="mt-4 text-sm">
                   <Link href="/cart" className="text-black font-semibold hover:underline">
@@ -684,6 +1017,26 @@ export default function CheckoutPage() {
                       {errors.city && <p className="text-xs text-red-500 mt-1">{errors.city}</p>}
                     </div>
                   </div>
+                  <div>
+                    <label htmlFor="state" className="text-sm font-semibold text-gray-700">State *</label>
+                    <select
+                      id="state"
+                      ref={assignRef('state')}
+                      value={address.state}
+                      onChange={(e) => handleAddressChange('state', e.target.value)}
+                      className={`mt-1 w-full px-4 py-2 border rounded-lg bg-white focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 ${
+                        errors.state ? 'border-red-400' : 'border-gray-300'
+                      }`}
+                    >
+                      <option value="">Select state</option>
+                      {INDIAN_STATES.map((state) => (
+                        <option key={state} value={state}>
+                          {state}
+                        </option>
+                      ))}
+                    </select>
+                    {errors.state && <p className="text-xs text-red-500 mt-1">{errors.state}</p>}
+                  </div>
                   <div>
                     <label htmlFor='flat' className="text-sm font-semibold text-gray-700">Flat / House no. / Building *</label>
                     <input
@@ -745,12 +1098,91 @@ export default function CheckoutPage() {
                   <h2 className="text-xl font-bold text-gray-900">Payment</h2>
                   <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Step 2</span>
                 </div>
-                <div className="rounded-xl border border-dashed border-black/30 bg-black/5 p-4 space-y-2">
-                  <p className="font-semibold text-gray-900">Pay with Razorpay</p>
-                  <p className="text-sm text-gray-600">
-                    You will be redirected to Razorpay to pay using UPI, cards, net banking or wallets.
-                  </p>
+                <div role="radiogroup" aria-label="Payment method" className="space-y-3">
+                  <label
+                    className={`flex items-start gap-3 rounded-xl border p-4 cursor-pointer transition-colors ${
+                      !isCod ? 'border-black bg-black/5' : 'border-gray-200 hover:border-gray-400'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="paymentMethod"
+                      checked={!isCod}
+                      onChange={() => setPaymentMethod('razorpay')}
+                      disabled={isProcessing}
+                      className="mt-1 accent-black"
+                    />
+                    <div className="space-y-1">
+                      <p className="font-semibold text-gray-900">Pay with Razorpay</p>
+                      <p className="text-sm text-gray-600">
+                        You will be redirected to Razorpay to pay using UPI, cards, net banking or wallets.
+                      </p>
+                    </div>
+                  </label>
+                  {codAvailability && (codAvailability.available || codAvailability.reason) && (
+                    <label
+                      className={`flex items-start gap-3 rounded-xl border p-4 transition-colors ${
+                        !codAvailability.available
+                          ? 'border-gray-200 opacity-60 cursor-not-allowed'
+                          : isCod
+                            ? 'border-black bg-black/5 cursor-pointer'
+                            : 'border-gray-200 hover:border-gray-400 cursor-pointer'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="paymentMethod"
+                        checked={isCod}
+                        onChange={() => setPaymentMethod('cod')}
+                        disabled={isProcessing || !codAvailability.available}
+                        className="mt-1 accent-black"
+                      />
+                      <div className="space-y-1">
+                        <p className="font-semibold text-gray-900">
+                          Cash on Delivery
+                          {codAvailability.fee_cents > 0 && (
+                            <span className="ml-2 text-sm font-normal text-gray-500">
+                              +{formatINR(codAvailability.fee_cents / 100)} fee
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {codAvailability.available
+                            ? 'Pay in cash when your order arrives. We will confirm your mobile number with an OTP.'
+                            : codAvailability.reason}
+                        </p>
+                      </div>
+                    </label>
+                  )}
                 </div>
+                {isCod && (
+                  <div className="space-y-2">
+                    <label htmlFor="codOtp" className="text-sm font-semibold text-gray-700">
+                      Verify mobile number
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        id="codOtp"
+                        value={otpCode}
+                        onChange={(e) => setOtpCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        placeholder={hasOtp ? '6 digit OTP' : 'Send an OTP first'}
+                        disabled={!hasOtp || isProcessing}
+                        className="flex-1 px-4 py-2 border border-gray-300 rounded-lg tracking-widest focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 disabled:bg-gray-50"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleSendOtp}
+                        disabled={isSendingOtp || isProcessing}
+                        className="px-4 py-2 rounded-lg border border-black text-sm font-semibold text-black hover:bg-black hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSendingOtp ? 'Sending...' : hasOtp ? 'Resend OTP' : 'Send OTP'}
+                      </button>
+                    </div>
+                    {hasOtp && <p className="text-xs text-gray-500">OTP sent to +91 {otpSentTo}</p>}
+                  </div>
+                )}
                 <div className="pt-4 border-t border-gray-200 space-y-3">
                   <div className="flex items-center justify-between text-sm text-gray-500">
                     <span>Amount payable</span>
@@ -759,7 +1191,7 @@ export default function CheckoutPage() {
                   {errors.payment && (
                     <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-2">
                       <p className="text-sm text-red-600">{errors.payment}</p>
-                      {errors.payment.includes('failed') || errors.payment.includes('cancelled') ? (
+                      {!isCod && (errors.payment.includes('failed') || errors.payment.includes('cancelled')) ? (
                         <button
                           onClick={handleProceedToPayment}
                           disabled={!isFormReady || isProcessing || !razorpayLoaded}
@@ -770,8 +1202,23 @@ export default function CheckoutPage() {
                       ) : null}
                     </div>
                   )}
-                <motion.button
-                  onClick={handleProceedToPayment}
+                {isCod ? (
+                  <motion.button
+                    onClick={handlePlaceCodOrder}
+                    disabled={!isFormReady || isProcessing || !hasOtp || otpCode.length !== 6}
+                    whileHover={prefersReducedMotion || !isFormReady ? undefined : { scale: 1.01 }}
+                    whileTap={prefersReducedMotion || !isFormReady ? undefined : { scale: 0.99 }}
+                    className={`w-full px-6 py-3 font-semibold rounded-lg transition-colors focus:outline-none focus:ring-4 focus:ring-black/20 ${
+                      !isFormReady || isProcessing || !hasOtp || otpCode.length !== 6
+                        ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                        : 'bg-black text-white hover:bg-gray-900'
+                    }`}
+                  >
+                    {isProcessing ? 'Placing order...' : `Place COD Order · ${formatINR(total)}`}
+                  </motion.button>
+                ) : (
+                  <motion.button
+                    onClick={handleProceedToPayment}
                     disabled={!isFormReady || isProcessing || !razorpayLoaded}
                     whileHover={prefersReducedMotion || !isFormReady ? undefined : { scale: 1.01 }}
                     whileTap={prefersReducedMotion || !isFormReady ? undefined : { scale: 0.99 }}
@@ -786,7 +1233,8 @@ export default function CheckoutPage() {
                       : isProcessing
                         ? 'Processing...'
                         : `Pay ${formatINR(total)} with Razorpay`}
-                </motion.button>
+                  </motion.button>
+                )}
                 <Link
                   href="/cart"
                     className="block w-full text-center px-6 py-3 rounded-lg border border-black text-black hover:bg-black hover:text-white transition-colors font-semibold"
@@ -4,6 +4,9 @@ import './globals.css'
 import PageTransition from '@/components/PageTransition'
 import NavigationProgress from '@/components/NavigationProgress'
 import AuthProvider from '@/components/AuthProvider'
+import StoreSettingsProvider from '@/components/StoreSettingsProvider'
+import { getCachedStoreSettings } from '@/lib/store-settings/server'
+import { hexToRgbChannels } from '@/lib/store-settings/types'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -12,18 +15,26 @@ export const metadata: Metadata = {
   description: 'Login or create an account to continue shopping',
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
+  const settings = await getCachedStoreSettings()
+
   return (
-    <html lang="en" className="m-0 p-0">
+    <html
+      lang="en"
+      className="m-0 p-0"
+      style={{ '--color-primary': hexToRgbChannels(settings.primary_color) } as React.CSSProperties}
+    >
       <body className={`${inter.className} m-0 p-0`}>
-        <AuthProvider>
-          <NavigationProgress />
-          <PageTransition>{children}</PageTransition>
-        </AuthProvider>
+        <StoreSettingsProvider settings={settings}>
+          <AuthProvider>
+            <NavigationProgress />
+            <PageTransition>{children}</PageTransition>
+          </AuthProvider>
+        </StoreSettingsProvider>
       </body>
     </html>
   )
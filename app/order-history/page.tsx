@@ -7,6 +7,12 @@ import Link from 'next/link'
 import Image from 'next/image'
 import { motion } from 'framer-motion'
 import { useRouter } from 'next/navigation'
+import { downloadInvoice } from '@/lib/invoices/client'
+import Toast from '@/components/ui/Toast'
+import ReturnRequestModal from '@/components/orders/ReturnRequestModal'
+import CancelOrderModal from '@/components/orders/CancelOrderModal'
+import { canCustomerCancel } from '@/lib/orders/lifecycle'
+import { fetchMyOrders } from '@/lib/orders/client'
 
 interface OrderItem {
   id: string
@@ -26,9 +32,11 @@ interface Order {
   items_json: OrderItem[]
   subtotal_cents: number
   shipping_cents: number
+  cod_fee_cents: number | null
   tax_cents: number
   discount_cents: number
   total_cents: number
+  refunded_cents: number | null
   payment_method: string | null
   payment_status: string
   payment_id: string | null
@@ -37,6 +45,8 @@ interface Order {
   status_history: any[]
   tracking_number: string | null
   shipping_provider: string | null
+  courier_id: string | null
+  invoice_number: string | null
   created_at: string
   updated_at: string
 }
@@ -55,6 +65,8 @@ const paymentStatusColors: Record<string, string> = {
   pending: 'bg-yellow-100 text-yellow-800',
   paid: 'bg-green-100 text-green-800',
   failed: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-800',
+  partially_refunded: 'bg-orange-100 text-orange-800',
   refunded: 'bg-gray-100 text-gray-800',
 }
 
@@ -64,6 +76,10 @@ export default function OrderHistoryPage() {
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null)
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
+  const [returnOrder, setReturnOrder] = useState<Order | null>(null)
+  const [cancellingOrder, setCancellingOrder] = useState<Order | null>(null)
 
   const fetchOrders = useCallback(async () => {
     if (!user) return
@@ -72,37 +88,17 @@ export default function OrderHistoryPage() {
       setLoading(true)
       setError(null)
 
-      // Build query params - prefer user_id if available, fallback to email
-      const params = new URLSearchParams()
-      if (user.id) {
-        params.set('user_id', user.id)
-      }
-      if (user.email) {
-        params.set('email', user.email)
-      }
+      const fetchedOrders = await fetchMyOrders()
 
-      const response = await fetch(`/api/orders?${params.toString()}`)
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to fetch orders')
-      }
-
-      const data = await response.json()
-      
-      if (data.error) {
-        throw new Error(data.error)
-      }
-      
       if (process.env.NODE_ENV !== 'production') {
         console.log('[Order History] Fetched orders:', {
-          count: data.orders?.length || 0,
+          count: fetchedOrders.length,
           userEmail: user?.email,
           userId: user?.id,
         })
       }
       
-      setOrders(data.orders || [])
+      setOrders(fetchedOrders)
     } catch (err) {
       console.error('[Order History] Error fetching orders:', {
         error: err,
@@ -115,6 +111,17 @@ export default function OrderHistoryPage() {
     }
   }, [user])
 
+  const handleDownloadInvoice = async (orderId: string) => {
+    try {
+      setDownloadingInvoiceId(orderId)
+      await downloadInvoice(orderId)
+    } catch (err) {
+      setToast({ message: err instanceof Error ? err.message : 'Failed to download invoice', type: 'error' })
+    } finally {
+      setDownloadingInvoiceId(null)
+    }
+  }
+
   useEffect(() => {
     if (authLoading) return
 
@@ -150,6 +157,31 @@ export default function OrderHistoryPage() {
 
   return (
     <div className="min-h-screen bg-[#E0E0E0]">
+        {toast && (
+          <Toast
+            message={toast.message}
+            type={toast.type}
+            isVisible={!!toast}
+            onClose={() => setToast(null)}
+          />
+        )}
+        <CancelOrderModal
+          order={cancellingOrder}
+          onClose={() => setCancellingOrder(null)}
+          onCancelled={(updated) => {
+            setOrders((prev) => prev.map((item) => (item.id === updated.id ? { ...item, ...updated } : item)))
+            setToast({ message: `Order #${updated.order_number} cancelled`, type: 'success' })
+          }}
+        />
+        <ReturnRequestModal
+          orderId={returnOrder?.id || null}
+          orderNumber={returnOrder?.order_number}
+          onClose={() => setReturnOrder(null)}
+          onSubmitted={() => {
+            setToast({ message: 'Request sent. We will update you here and by email.', type: 'success' })
+            fetchOrders()
+          }}
+        />
         <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12">
           <div className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             <div>
@@ -261,7 +293,9 @@ export default function OrderHistoryPage() {
                           paymentStatusColors[order.payment_status] || 'bg-gray-100 text-gray-800'
                         }`}
                       >
-                        {order.payment_status.charAt(0).toUpperCase() + order.payment_status.slice(1)}
+                        {order.payment_method === 'cod' && order.payment_status === 'pending'
+                          ? 'Pay on Delivery'
+                          : order.payment_status.charAt(0).toUpperCase() + order.payment_status.slice(1).replace(/_/g, ' ')}
                       </span>
                       <span className="text-xl font-bold text-gray-900">
                         {formatINR(order.total_cents / 100)}
@@ -348,9 +382,17 @@ export default function OrderHistoryPage() {
                           </span>
                         </div>
                       )}
+                      {(order.cod_fee_cents || 0) > 0 && (
+                        <div className="flex justify-between gap-4">
+                          <span className="text-gray-600">COD Fee:</span>
+                          <span className="font-semibold text-gray-900">
+                            {formatINR((order.cod_fee_cents || 0) / 100)}
+                          </span>
+                        </div>
+                      )}
                       {order.tax_cents > 0 && (
                         <div className="flex justify-between gap-4">
-                          <span className="text-gray-600">Tax:</span>
+                          <span className="text-gray-600">GST (included):</span>
                           <span className="font-semibold text-gray-900">
                             {formatINR(order.tax_cents / 100)}
                           </span>
@@ -365,9 +407,16 @@ export default function OrderHistoryPage() {
                         </div>
                       )}
                     </div>
-                    <div className="flex justify-between gap-4 font-bold text-lg">
-                      <span>Total:</span>
-                      <span>{formatINR(order.total_cents / 100)}</span>
+                    <div className="text-right">
+                      <div className="flex justify-between gap-4 font-bold text-lg">
+                        <span>Total:</span>
+                        <span>{formatINR(order.total_cents / 100)}</span>
+                      </div>
+                      {(order.refunded_cents || 0) > 0 && (
+                        <p className="text-sm font-semibold text-orange-700">
+                          Refunded {formatINR((order.refunded_cents || 0) / 100)}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -446,13 +495,52 @@ export default function OrderHistoryPage() {
                     </div>
                   )}
 
-                  <div className="mt-4 pt-4 border-t border-gray-200">
+                  <div className="mt-4 pt-4 border-t border-gray-200 flex flex-wrap items-center justify-between gap-3">
                     <Link
                       href={`/order-success?id=${order.id}`}
                       className="text-sm text-black font-semibold hover:underline"
                     >
                       View Order Details →
                     </Link>
+                    <div className="flex flex-wrap gap-2">
+                      {order.tracking_number && order.status !== 'cancelled' && (
+                        <Link
+                          href={`/track/${encodeURIComponent(order.order_number)}`}
+                          className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                        >
+                          Track Shipment
+                        </Link>
+                      )}
+                      {canCustomerCancel(order) && (
+                        <button
+                          onClick={() => setCancellingOrder(order)}
+                          className="px-3 py-1.5 rounded-lg border border-red-300 text-sm font-semibold text-red-700 hover:bg-red-50"
+                        >
+                          Cancel Order
+                        </button>
+                      )}
+                      {(order.status === 'delivered' || order.status === 'returned') && (
+                        <button
+                          onClick={() => setReturnOrder(order)}
+                          className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                        >
+                          {order.status === 'delivered' ? 'Return or Exchange' : 'Return Status'}
+                        </button>
+                      )}
+                      {order.payment_method !== 'exchange' && (order.payment_status === 'paid' || !!order.invoice_number) && (
+                        <button
+                          onClick={() => handleDownloadInvoice(order.id)}
+                          disabled={downloadingInvoiceId === order.id}
+                          className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {downloadingInvoiceId === order.id
+                            ? 'Preparing...'
+                            : order.invoice_number
+                              ? `Download Invoice ${order.invoice_number}`
+                              : 'Download GST Invoice'}
+                        </button>
+                      )}
+                    </div>
                   </div>
                 </motion.div>
               ))}
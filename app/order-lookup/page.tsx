@@ -0,0 +1,271 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { motion } from 'framer-motion'
+import { formatINR } from '@/lib/utils/money'
+import { requestOrderLookupCode, verifyOrderLookup } from '@/lib/orders/client'
+import { ORDER_STATUS_LABELS, type OrderStatus } from '@/lib/orders/lifecycle'
+import { ORDER_PAYMENT_STATUS_LABELS } from '@/lib/orders/types'
+
+const statusColors: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-blue-100 text-blue-800',
+  processing: 'bg-purple-100 text-purple-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+  returned: 'bg-gray-100 text-gray-800',
+}
+
+/**
+ * Order lookup for guests: order number + email, confirmed with a code
+ * texted to the mobile number on the order
+ */
+export default function OrderLookupPage() {
+  const [orderNumber, setOrderNumber] = useState('')
+  const [email, setEmail] = useState('')
+  const [code, setCode] = useState('')
+  const [codeMessage, setCodeMessage] = useState<string | null>(null)
+  const [order, setOrder] = useState<any | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSendCode = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      setCodeMessage(await requestOrderLookupCode(orderNumber, email))
+      setCode('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the code')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleVerify = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      setOrder(await verifyOrderLookup(orderNumber, email, code))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify the code')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleStartOver = () => {
+    setOrder(null)
+    setCodeMessage(null)
+    setCode('')
+    setError(null)
+  }
+
+  const inputClass =
+    'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+  const labelClass = 'text-sm font-semibold text-gray-700'
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12 max-w-3xl">
+        <div className="mb-8">
+          <Link
+            href="/"
+            className="text-gray-600 hover:text-gray-900 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded inline-block mb-4"
+          >
+            ← Back to Home
+          </Link>
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Find Your Order</h1>
+          <p className="text-gray-600 mt-2">
+            Checked out as a guest? Enter your order number and email and we&apos;ll text a code to the mobile
+            number on the order. Have an account?{' '}
+            <Link href="/order-history" className="underline hover:text-gray-900">
+              See your orders
+            </Link>
+            .
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {!order && (
+          <div className="bg-white rounded-2xl border border-gray-200 p-6 shadow-[0_4px_12px_rgba(0,0,0,0.08)] space-y-6">
+            <form onSubmit={handleSendCode} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="order_number" className={labelClass}>Order number</label>
+                  <input
+                    id="order_number"
+                    value={orderNumber}
+                    onChange={(e) => setOrderNumber(e.target.value)}
+                    disabled={!!codeMessage}
+                    required
+                    className={`${inputClass} uppercase disabled:bg-gray-50`}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="email" className={labelClass}>Email</label>
+                  <input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    disabled={!!codeMessage}
+                    required
+                    className={`${inputClass} disabled:bg-gray-50`}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3">
+                {codeMessage && (
+                  <button
+                    type="button"
+                    onClick={handleStartOver}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                  >
+                    Change details
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-gray-900 text-white rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting && !code ? 'Sending...' : codeMessage ? 'Resend Code' : 'Send Code'}
+                </button>
+              </div>
+            </form>
+
+            {codeMessage && (
+              <form onSubmit={handleVerify} className="pt-6 border-t border-gray-200 space-y-4">
+                <p className="text-sm text-gray-600">{codeMessage}</p>
+                <div>
+                  <label htmlFor="code" className={labelClass}>6 digit code</label>
+                  <input
+                    id="code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    required
+                    className={`${inputClass} font-mono tracking-widest`}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || code.length !== 6}
+                    className="px-6 py-2 bg-gray-900 text-white rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSubmitting ? 'Checking...' : 'View Order'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+
+        {order && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white rounded-2xl border border-gray-200 p-6 shadow-[0_4px_12px_rgba(0,0,0,0.08)]"
+          >
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 mb-1">Order #{order.order_number}</h2>
+                <p className="text-sm text-gray-600">
+                  Placed on{' '}
+                  {new Date(order.created_at).toLocaleDateString('en-IN', {
+                    year: 'numeric',
+                    month: 'long',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <span
+                  className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                    statusColors[order.status] || 'bg-gray-100 text-gray-800'
+                  }`}
+                >
+                  {ORDER_STATUS_LABELS[order.status as OrderStatus] || order.status}
+                </span>
+                <span className="px-3 py-1 rounded-full text-sm font-semibold bg-gray-100 text-gray-800">
+                  {order.payment_method === 'cod' && order.payment_status === 'pending'
+                    ? 'Pay on Delivery'
+                    : ORDER_PAYMENT_STATUS_LABELS[order.payment_status] || order.payment_status}
+                </span>
+                <span className="text-xl font-bold text-gray-900">{formatINR(order.total_cents / 100)}</span>
+              </div>
+            </div>
+
+            {order.address_json && (
+              <div className="mb-4 p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm font-semibold text-gray-700 mb-1">Delivery Address</p>
+                <p className="text-sm text-gray-600">
+                  {order.address_json.fullName}
+                  <br />
+                  {order.address_json.flat}, {order.address_json.street}
+                  <br />
+                  {order.address_json.city} - {order.address_json.pincode}
+                </p>
+              </div>
+            )}
+
+            <div className="border-t border-gray-200 pt-4">
+              <h3 className="font-semibold text-gray-900 mb-3">Order Items</h3>
+              <div className="space-y-3">
+                {(order.items_json || []).map((item: any, itemIndex: number) => (
+                  <div key={itemIndex} className="flex items-center gap-4">
+                    <div className="relative w-16 h-16 rounded-lg overflow-hidden flex-shrink-0 bg-gray-100">
+                      {item.image && (
+                        <Image src={item.image} alt={item.title} fill className="object-cover" sizes="64px" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{item.title}</p>
+                      {item.variant && <p className="text-sm text-gray-500">Variant: {item.variant}</p>}
+                      <p className="text-sm text-gray-600">
+                        Qty: {item.quantity} × {formatINR(item.price)}
+                      </p>
+                    </div>
+                    <p className="font-semibold text-gray-900">{formatINR(item.price * item.quantity)}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="mt-6 pt-4 border-t border-gray-200 flex flex-wrap justify-end gap-3">
+              <button
+                onClick={handleStartOver}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Look Up Another Order
+              </button>
+              <Link
+                href={`/track/${encodeURIComponent(order.order_number)}`}
+                className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-semibold hover:bg-gray-800 transition-colors"
+              >
+                Track Shipment
+              </Link>
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  )
+}
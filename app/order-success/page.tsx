@@ -84,7 +84,11 @@ function OrderSuccessContent() {
               </p>
               <p className="text-sm text-gray-600">
                 We&apos;ve sent a confirmation email with your order details. You can track your order
-                from your account.
+                from your account, or{' '}
+                <Link href="/order-lookup" className="underline hover:text-gray-900">
+                  look it up
+                </Link>{' '}
+                with your order number and email.
               </p>
             </div>
 
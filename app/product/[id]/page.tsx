@@ -17,11 +17,15 @@ import {
   deleteProductImageByUrl,
   updateProductDescription,
   updateProductStock,
+  updateProductWeight,
+  updateProductGst,
   removeVariantImage,
   deleteProductVariant,
   updateVariantSizes,
+  updateVariantStock,
 } from '@/lib/supabase/admin'
 import { getSizeMeasurement, getProductTypeFromTags } from '@/lib/utils/sizeMeasurements'
+import { formatVariantLabel, getSizeStock, isSizeInStock } from '@/lib/utils/stock'
 
 interface ProductPageProps {
   params: {
@@ -31,6 +35,7 @@ interface ProductPageProps {
 
 const FALLBACK_IMAGE = 'https://via.placeholder.com/800x800?text=Product'
 const SIZE_OPTIONS = ['S', 'M', 'L', 'XL', 'XXL']
+const LOW_STOCK_THRESHOLD = 3
 
 const formatLabel = (label: string) =>
   label
@@ -39,7 +44,8 @@ const formatLabel = (label: string) =>
 
 export default function ProductDetailPage({ params }: ProductPageProps) {
   const router = useRouter()
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const { isAdmin, isLoading: isAdminLoading, can } = useIsAdmin()
+  const canEditProducts = can('edit_products')
   const [product, setProduct] = useState<Product | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [productImages, setProductImages] = useState<string[]>([])
@@ -60,6 +66,11 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
   const [selectionError, setSelectionError] = useState<string | null>(null)
   const [descriptionDraft, setDescriptionDraft] = useState('')
   const [isSavingDescription, setIsSavingDescription] = useState(false)
+  const [weightDraft, setWeightDraft] = useState('')
+  const [isSavingWeight, setIsSavingWeight] = useState(false)
+  const [hsnDraft, setHsnDraft] = useState('')
+  const [gstRateDraft, setGstRateDraft] = useState('')
+  const [isSavingGst, setIsSavingGst] = useState(false)
   const [isTogglingStock, setIsTogglingStock] = useState(false)
   const [variantColor, setVariantColor] = useState('')
   const [variantSizes, setVariantSizes] = useState<string[]>([])
@@ -72,6 +83,8 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
   const [removingVariant, setRemovingVariant] = useState<string>('')
   const [editingVariantSizes, setEditingVariantSizes] = useState<Record<string, string[]>>({})
   const [updatingVariantSizes, setUpdatingVariantSizes] = useState<string>('')
+  const [editingVariantStock, setEditingVariantStock] = useState<Record<string, Record<string, string>>>({})
+  const [updatingVariantStock, setUpdatingVariantStock] = useState<string>('')
 
   const loadProduct = useCallback(async () => {
       try {
@@ -81,6 +94,9 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
           setProduct(result.product)
           setProductImages(result.images)
         setDescriptionDraft(result.product.description || '')
+        setWeightDraft(result.product.weightGrams ? String(result.product.weightGrams) : '')
+        setHsnDraft(result.product.hsnCode || '')
+        setGstRateDraft(result.product.gstRate != null ? String(result.product.gstRate) : '')
         }
       } catch (error) {
         console.error('Error loading product:', error)
@@ -127,7 +143,9 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
     if (product?.variants?.length) {
       const firstVariant = product.variants[0]
       setSelectedColor(firstVariant.color)
-      setSelectedSize(firstVariant.sizes[0] || null)
+      setSelectedSize(
+        firstVariant.sizes.find((size) => isSizeInStock(firstVariant, size)) || firstVariant.sizes[0] || null
+      )
       if (firstVariant.images?.length) {
         setSelectedImage(firstVariant.images[0])
       }
@@ -143,7 +161,7 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
     const variant = product.variants.find((v) => v.color === selectedColor)
     if (!variant) return
     if (!variant.sizes.includes(selectedSize || '')) {
-      setSelectedSize(variant.sizes[0] || null)
+      setSelectedSize(variant.sizes.find((size) => isSizeInStock(variant, size)) || variant.sizes[0] || null)
     }
     // Update selected image to first image of selected variant
     if (variant.images?.length) {
@@ -200,6 +218,14 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
       setShowToast(true)
       return
     }
+
+    const selectedVariant = product.variants?.find((v) => v.color === selectedColor)
+    if (hasVariants && selectedSize && !isSizeInStock(selectedVariant, selectedSize)) {
+      setSelectionError('This size is out of stock')
+      setToastMessage('Selected size is out of stock')
+      setShowToast(true)
+      return
+    }
     
     if (addDisabled || isAddingToCart) return
     setIsAddingToCart(true)
@@ -207,11 +233,13 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
     const imageToUse = selectedImage || product.image || FALLBACK_IMAGE
     const price = product.priceCents / 100
     const variantLabel = hasVariants
-      ? `Color: ${formatLabel(selectedColor || '')} | Size: ${selectedSize}`
+      ? formatVariantLabel(selectedColor || '', selectedSize || '')
       : undefined
 
     addItem({
       id: product.id,
+      variantId: hasVariants ? selectedVariant?.id : undefined,
+      size: hasVariants ? selectedSize || undefined : undefined,
       title: product.title,
       price,
       image: imageToUse,
@@ -242,6 +270,59 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
     }
   }, [product, descriptionDraft, loadProduct])
 
+  const handleSaveWeight = useCallback(async () => {
+    if (!product) return
+    const trimmed = weightDraft.trim()
+    const weightGrams = trimmed ? parseInt(trimmed, 10) : null
+    if (weightGrams !== null && (isNaN(weightGrams) || weightGrams <= 0)) {
+      setToastMessage('Weight must be a positive number of grams')
+      setShowToast(true)
+      return
+    }
+    try {
+      setIsSavingWeight(true)
+      await updateProductWeight(product.id, weightGrams)
+      await loadProduct()
+      setToastMessage('Shipping weight updated')
+      setShowToast(true)
+    } catch (err) {
+      console.error(err)
+      setToastMessage('Failed to update shipping weight')
+      setShowToast(true)
+    } finally {
+      setIsSavingWeight(false)
+    }
+  }, [product, weightDraft, loadProduct])
+
+  const handleSaveGst = useCallback(async () => {
+    if (!product) return
+    const hsnCode = hsnDraft.trim() || null
+    const gstRate = gstRateDraft.trim() ? Number(gstRateDraft) : null
+    if (hsnCode !== null && !/^\d{4,8}$/.test(hsnCode)) {
+      setToastMessage('HSN code must be 4 to 8 digits')
+      setShowToast(true)
+      return
+    }
+    if (gstRate !== null && (isNaN(gstRate) || gstRate < 0 || gstRate > 28)) {
+      setToastMessage('GST rate must be between 0 and 28')
+      setShowToast(true)
+      return
+    }
+    try {
+      setIsSavingGst(true)
+      await updateProductGst(product.id, hsnCode, gstRate)
+      await loadProduct()
+      setToastMessage('GST details updated')
+      setShowToast(true)
+    } catch (err) {
+      console.error(err)
+      setToastMessage('Failed to update GST details')
+      setShowToast(true)
+    } finally {
+      setIsSavingGst(false)
+    }
+  }, [product, hsnDraft, gstRateDraft, loadProduct])
+
   const handleToggleStock = useCallback(async () => {
     if (!product) return
     try {
@@ -472,6 +553,56 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
     [product, editingVariantSizes, loadProduct]
   )
 
+  const handleVariantStockChange = useCallback((variantId: string, size: string, value: string) => {
+    setEditingVariantStock((prev) => ({
+      ...prev,
+      [variantId]: { ...(prev[variantId] || {}), [size]: value },
+    }))
+  }, [])
+
+  const handleSaveVariantStock = useCallback(
+    async (variantId: string) => {
+      if (!product) return
+      const variant = product.variants?.find((v) => v.id === variantId)
+      const draft = editingVariantStock[variantId]
+      if (!variant || !draft) return
+
+      // Blank inputs leave a size untracked; everything else must be a whole number
+      const stock: Record<string, number> = {}
+      for (const size of variant.sizes) {
+        const raw = (draft[size] ?? '').trim()
+        if (raw === '') continue
+        const quantity = Number(raw)
+        if (!Number.isInteger(quantity) || quantity < 0) {
+          setToastMessage(`Enter a whole number for size ${size}`)
+          setShowToast(true)
+          return
+        }
+        stock[size] = quantity
+      }
+
+      try {
+        setUpdatingVariantStock(variantId)
+        await updateVariantStock(variantId, stock)
+        setEditingVariantStock((prev) => {
+          const updated = { ...prev }
+          delete updated[variantId]
+          return updated
+        })
+        await loadProduct()
+        setToastMessage('Stock updated')
+        setShowToast(true)
+      } catch (err) {
+        console.error(err)
+        setToastMessage('Failed to update stock')
+        setShowToast(true)
+      } finally {
+        setUpdatingVariantStock('')
+      }
+    },
+    [product, editingVariantStock, loadProduct]
+  )
+
   const handleBack = useCallback(() => {
     if (isNavigatingBack) return
     setIsNavigatingBack(true)
@@ -733,36 +864,53 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
                   })()}
                 </div>
                 <div className="flex flex-wrap gap-2">
-                  {product.variants
-                    .find((v) => v.color === selectedColor)
-                    ?.sizes.map((size) => {
+                  {(() => {
+                    const activeVariant = product.variants.find((v) => v.color === selectedColor)
+                    return activeVariant?.sizes.map((size) => {
                       const isActive = size === selectedSize
+                      const isSoldOut = !isSizeInStock(activeVariant, size)
                       return (
                         <button
                           key={size}
                           type="button"
+                          disabled={isSoldOut}
+                          title={isSoldOut ? 'Out of stock' : undefined}
                           onClick={() => {
                             setSelectedSize(size)
                             setSelectionError(null)
                           }}
                           className={`w-12 h-12 rounded-full border text-sm font-semibold transition-colors ${
-                            isActive
-                              ? 'bg-primary text-white border-primary'
-                              : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                            isSoldOut
+                              ? 'border-gray-200 text-gray-300 line-through cursor-not-allowed'
+                              : isActive
+                                ? 'bg-primary text-white border-primary'
+                                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
                           }`}
                         >
                           {size}
                         </button>
                       )
-                    })}
+                    })
+                  })()}
                 </div>
+                {selectedSize && (() => {
+                  const remaining = getSizeStock(
+                    product.variants.find((v) => v.color === selectedColor),
+                    selectedSize
+                  )
+                  return remaining !== null && remaining > 0 && remaining <= LOW_STOCK_THRESHOLD ? (
+                    <p className="text-sm font-semibold text-orange-600">
+                      Only {remaining} left in this size
+                    </p>
+                  ) : null
+                })()}
               </div>
 
               {selectionError && (
                 <p className="text-sm text-red-600">{selectionError}</p>
               )}
             </div>
-          ) : isAdmin ? (
+          ) : canEditProducts ? (
             <div className="rounded-lg border-2 border-dashed border-yellow-400 bg-yellow-50 p-4">
               <p className="text-sm font-semibold text-yellow-800">
                 ⚠️ Please add at least one colour variant for this product.
@@ -827,7 +975,7 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
         </div>
       </div>
 
-      {isAdmin && (
+      {canEditProducts && (
         <div className="mt-12 space-y-6 border-t border-gray-200 pt-8">
           <div className="bg-white border border-gray-200 rounded-2xl p-6 shadow-sm space-y-6">
             <div className="flex items-center justify-between">
@@ -854,6 +1002,64 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
                   </button>
                 </div>
 
+                <div className="space-y-2">
+                  <label className="text-sm font-semibold text-gray-800">Shipping Weight (grams)</label>
+                  <p className="text-xs text-gray-500">Leave blank to use the default of 500 g.</p>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="number"
+                      min="1"
+                      value={weightDraft}
+                      onChange={(e) => setWeightDraft(e.target.value)}
+                      placeholder="500"
+                      className="w-32 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleSaveWeight}
+                      disabled={isSavingWeight}
+                      className="px-4 py-2 bg-primary text-white rounded-lg text-sm font-semibold hover:bg-neutral-800 disabled:opacity-60"
+                    >
+                      {isSavingWeight ? 'Saving...' : 'Save Weight'}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-semibold text-gray-800">GST (HSN code and rate %)</label>
+                  <p className="text-xs text-gray-500">Leave blank to use the category&apos;s GST settings.</p>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={hsnDraft}
+                      onChange={(e) => setHsnDraft(e.target.value)}
+                      placeholder="HSN"
+                      aria-label="HSN code"
+                      className="w-28 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      max="28"
+                      step="0.01"
+                      value={gstRateDraft}
+                      onChange={(e) => setGstRateDraft(e.target.value)}
+                      placeholder="Rate %"
+                      aria-label="GST rate %"
+                      className="w-24 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleSaveGst}
+                      disabled={isSavingGst}
+                      className="px-4 py-2 bg-primary text-white rounded-lg text-sm font-semibold hover:bg-neutral-800 disabled:opacity-60"
+                    >
+                      {isSavingGst ? 'Saving...' : 'Save GST'}
+                    </button>
+                  </div>
+                </div>
+
                 <div className="flex items-center gap-3">
                   <label className="text-sm font-semibold text-gray-800">Stock Status</label>
                   <button
@@ -1022,14 +1228,20 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
                           ) : (
                             <div className="flex flex-wrap gap-2">
                               {variant.sizes.length > 0 ? (
-                                variant.sizes.map((size) => (
-                                  <span
-                                    key={size}
-                                    className="px-2 py-1 rounded-full bg-gray-100 text-gray-700 text-xs font-semibold"
-                                  >
-                                    {size}
-                                  </span>
-                                ))
+                                variant.sizes.map((size) => {
+                                  const quantity = getSizeStock(variant, size)
+                                  return (
+                                    <span
+                                      key={size}
+                                      className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                                        quantity === 0 ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-700'
+                                      }`}
+                                    >
+                                      {size}
+                                      {quantity !== null ? ` · ${quantity}` : ''}
+                                    </span>
+                                  )
+                                })
                               ) : (
                                 <span className="text-xs text-gray-500">No sizes available</span>
                               )}
@@ -1037,6 +1249,79 @@ export default function ProductDetailPage({ params }: ProductPageProps) {
                           )}
                         </div>
 
+                        {/* Stock Editing Section */}
+                        {variant.sizes.length > 0 && (
+                          <div className="space-y-2 border-t border-gray-100 pt-3">
+                            <div className="flex items-center justify-between">
+                              <label className="text-sm font-semibold text-gray-800">Stock per Size</label>
+                              {editingVariantStock[variantId] === undefined && (
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    setEditingVariantStock((prev) => ({
+                                      ...prev,
+                                      [variantId]: Object.fromEntries(
+                                        variant.sizes.map((size) => {
+                                          const quantity = getSizeStock(variant, size)
+                                          return [size, quantity === null ? '' : String(quantity)]
+                                        })
+                                      ),
+                                    }))
+                                  }
+                                  className="text-xs text-primary hover:text-neutral-800 font-semibold"
+                                >
+                                  Edit Stock
+                                </button>
+                              )}
+                            </div>
+                            {editingVariantStock[variantId] !== undefined ? (
+                              <div className="space-y-2">
+                                <div className="flex flex-wrap gap-3">
+                                  {variant.sizes.map((size) => (
+                                    <label key={size} className="flex items-center gap-1 text-xs font-semibold text-gray-700">
+                                      {size}
+                                      <input
+                                        type="number"
+                                        min={0}
+                                        step={1}
+                                        value={editingVariantStock[variantId]?.[size] ?? ''}
+                                        onChange={(e) => handleVariantStockChange(variantId, size, e.target.value)}
+                                        placeholder="∞"
+                                        className="w-16 rounded-lg border border-gray-300 px-2 py-1 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                                      />
+                                    </label>
+                                  ))}
+                                </div>
+                                <p className="text-xs text-gray-500">Leave a size blank to stop tracking its stock.</p>
+                                <div className="flex gap-2">
+                                  <button
+                                    type="button"
+                                    onClick={() => handleSaveVariantStock(variantId)}
+                                    disabled={updatingVariantStock === variantId}
+                                    className="px-3 py-1.5 bg-primary text-white rounded-lg text-xs font-semibold hover:bg-neutral-800 disabled:opacity-60 disabled:cursor-not-allowed"
+                                  >
+                                    {updatingVariantStock === variantId ? 'Saving...' : 'Save Stock'}
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => {
+                                      setEditingVariantStock((prev) => {
+                                        const updated = { ...prev }
+                                        delete updated[variantId]
+                                        return updated
+                                      })
+                                    }}
+                                    disabled={updatingVariantStock === variantId}
+                                    className="px-3 py-1.5 bg-gray-200 text-gray-700 rounded-lg text-xs font-semibold hover:bg-gray-300 disabled:opacity-60"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              </div>
+                            ) : null}
+                          </div>
+                        )}
+
                       <div className="flex flex-wrap gap-3">
                         {(variant.images || []).length === 0 && (
                           <span className="text-xs text-gray-500">No images</span>
@@ -29,7 +29,8 @@ export default function ThriftPage() {
   const [showToast, setShowToast] = useState(false)
   const [toastMessage, setToastMessage] = useState('')
   const [toastType, setToastType] = useState<'success' | 'error'>('success')
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canEditProducts = can('edit_products')
 
   // Get category from URL query params
   useEffect(() => {
@@ -156,12 +157,12 @@ export default function ThriftPage() {
             <div className="text-center py-16">
               <p className="text-gray-600 text-lg mb-2">No products yet</p>
               <p className="text-gray-500 text-sm">
-                {!isAdminLoading && isAdmin
+                {!isAdminLoading && canEditProducts
                   ? 'Add your first product using the "Add Product" card below.'
                   : 'Check back soon for new products!'}
               </p>
             </div>
-            {!isAdminLoading && isAdmin && (
+            {!isAdminLoading && canEditProducts && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -218,7 +219,7 @@ export default function ThriftPage() {
                       </span>
                     </div>
                   )}
-                  {!isAdminLoading && isAdmin && (
+                  {!isAdminLoading && canEditProducts && (
                     <div
                       className="absolute top-3 right-3 z-10"
                       onClick={(event) => event.stopPropagation()}
@@ -261,7 +262,7 @@ export default function ThriftPage() {
                 </div>
               </motion.div>
             ))}
-            {!isAdminLoading && isAdmin && (
+            {!isAdminLoading && canEditProducts && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -0,0 +1,279 @@
+'use client'
+
+export const dynamic = 'force-dynamic'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { fetchTracking } from '@/lib/couriers/client'
+import { TRACKING_STATUS_LABELS, type PublicTracking } from '@/lib/couriers/types'
+import { ORDER_STATUS_LABELS, type OrderStatus } from '@/lib/orders/lifecycle'
+
+interface TrackPageProps {
+  params: {
+    orderNumber: string
+  }
+}
+
+const PROGRESS_STEPS = ['Confirmed', 'Shipped', 'Out for delivery', 'Delivered']
+
+const statusColors: Record<string, string> = {
+  confirmed: 'bg-blue-100 text-blue-800',
+  processing: 'bg-purple-100 text-purple-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+  returned: 'bg-gray-100 text-gray-800',
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+/** How far along the progress bar the order is */
+function getProgressStep(tracking: PublicTracking): number {
+  if (tracking.status === 'delivered') return 3
+  if (tracking.status === 'shipped') {
+    return tracking.shipment?.status === 'out_for_delivery' ? 2 : 1
+  }
+  return 0
+}
+
+export default function TrackOrderPage({ params }: TrackPageProps) {
+  const orderNumber = decodeURIComponent(params.orderNumber)
+  const [tracking, setTracking] = useState<PublicTracking | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTracking = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const result = await fetchTracking(orderNumber)
+      setTracking(result)
+      if (!result) {
+        setError(`We couldn't find order ${orderNumber}. Check the order number in your confirmation email.`)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tracking')
+    } finally {
+      setLoading(false)
+    }
+  }, [orderNumber])
+
+  useEffect(() => {
+    loadTracking()
+  }, [loadTracking])
+
+  if (loading && !tracking) {
+    return (
+      <div className="min-h-screen bg-[#E0E0E0] flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-gray-200 border-t-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading tracking...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const isClosed = tracking?.status === 'cancelled' || tracking?.status === 'returned'
+  const progressStep = tracking ? getProgressStep(tracking) : 0
+  const courierEvents = tracking?.shipment?.events.slice().reverse() || []
+  const orderTimeline = tracking?.timeline.slice().reverse() || []
+
+  return (
+    <div className="min-h-screen bg-[#E0E0E0]">
+      <div className="container mx-auto px-4 pt-4 pb-8 md:pt-6 md:pb-12 max-w-3xl">
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <Link
+              href="/"
+              className="text-gray-600 hover:text-gray-900 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded inline-block mb-4"
+            >
+              ← Back to Home
+            </Link>
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Track Order</h1>
+            <p className="text-gray-600 mt-2">#{orderNumber}</p>
+          </div>
+          {tracking && (
+            <button
+              onClick={loadTracking}
+              disabled={loading}
+              className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed self-start sm:self-auto"
+            >
+              {loading ? 'Refreshing...' : 'Refresh'}
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {tracking && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-6"
+          >
+            {/* Summary and progress */}
+            <div className="bg-white rounded-2xl p-6 shadow-sm">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <div>
+                  <p className="text-sm text-gray-500">Placed on {formatDateTime(tracking.placed_at)}</p>
+                  {(tracking.destination.city || tracking.destination.state) && (
+                    <p className="text-sm text-gray-500">
+                      Shipping to {[tracking.destination.city, tracking.destination.state].filter(Boolean).join(', ')}
+                    </p>
+                  )}
+                </div>
+                <span
+                  className={`px-3 py-1 rounded-full text-sm font-semibold ${
+                    statusColors[tracking.status] || 'bg-gray-100 text-gray-800'
+                  }`}
+                >
+                  {ORDER_STATUS_LABELS[tracking.status as OrderStatus] || tracking.status}
+                </span>
+              </div>
+
+              {isClosed ? (
+                <p className="text-sm text-gray-600">
+                  {tracking.status === 'cancelled'
+                    ? 'This order was cancelled.'
+                    : 'This order was returned.'}
+                </p>
+              ) : (
+                <ol className="grid grid-cols-4 gap-2" aria-label="Delivery progress">
+                  {PROGRESS_STEPS.map((step, index) => {
+                    const isDone = index <= progressStep
+                    return (
+                      <li key={step} className="flex flex-col items-center text-center">
+                        <div className="flex items-center w-full">
+                          <div className={`flex-1 h-1 ${index === 0 ? 'invisible' : isDone ? 'bg-gray-900' : 'bg-gray-200'}`}></div>
+                          <div
+                            className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold ${
+                              isDone ? 'bg-gray-900 text-white' : 'bg-gray-200 text-gray-500'
+                            } ${index === progressStep ? 'ring-4 ring-gray-900/20' : ''}`}
+                          >
+                            {isDone ? '✓' : index + 1}
+                          </div>
+                          <div
+                            className={`flex-1 h-1 ${
+                              index === PROGRESS_STEPS.length - 1 ? 'invisible' : index < progressStep ? 'bg-gray-900' : 'bg-gray-200'
+                            }`}
+                          ></div>
+                        </div>
+                        <span className={`mt-2 text-xs ${isDone ? 'text-gray-900 font-semibold' : 'text-gray-500'}`}>
+                          {step}
+                        </span>
+                      </li>
+                    )
+                  })}
+                </ol>
+              )}
+            </div>
+
+            {/* Carrier */}
+            {tracking.shipment && (
+              <div className="bg-white rounded-2xl p-6 shadow-sm">
+                <h2 className="font-semibold text-gray-900 mb-3">Shipment</h2>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="text-sm text-gray-600">
+                    {tracking.shipment.provider && (
+                      <p>
+                        <span className="font-semibold">Courier:</span> {tracking.shipment.provider}
+                      </p>
+                    )}
+                    <p>
+                      <span className="font-semibold">Tracking Number:</span> {tracking.shipment.tracking_number}
+                    </p>
+                    {tracking.shipment.status && (
+                      <p>
+                        <span className="font-semibold">Latest scan:</span> {TRACKING_STATUS_LABELS[tracking.shipment.status]}
+                      </p>
+                    )}
+                  </div>
+                  {tracking.shipment.tracking_url && (
+                    <a
+                      href={tracking.shipment.tracking_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="px-4 py-2 rounded-lg border border-gray-300 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                    >
+                      Track on {tracking.shipment.provider} ↗
+                    </a>
+                  )}
+                </div>
+
+                {courierEvents.length > 0 && (
+                  <ul className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+                    {courierEvents.map((event, index) => (
+                      <li key={`${event.timestamp}-${index}`} className="flex gap-3 text-sm">
+                        <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${index === 0 ? 'bg-gray-900' : 'bg-gray-300'}`}></span>
+                        <div>
+                          <p className={index === 0 ? 'font-semibold text-gray-900' : 'text-gray-700'}>{event.description}</p>
+                          <p className="text-xs text-gray-500">
+                            {formatDateTime(event.timestamp)}
+                            {event.location ? ` · ${event.location}` : ''}
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {tracking.shipment.checked_at && (
+                  <p className="mt-4 text-xs text-gray-400">Courier updates checked {formatDateTime(tracking.shipment.checked_at)}</p>
+                )}
+              </div>
+            )}
+
+            {/* Order status timeline */}
+            {orderTimeline.length > 0 && (
+              <div className="bg-white rounded-2xl p-6 shadow-sm">
+                <h2 className="font-semibold text-gray-900 mb-4">Order Status Updates</h2>
+                <div className="relative">
+                  {/* Timeline line */}
+                  <div className="absolute left-4 top-0 bottom-0 w-0.5 bg-gray-200"></div>
+
+                  <div className="space-y-4">
+                    {orderTimeline.map((entry, index) => {
+                      const isLatest = index === 0
+                      return (
+                        <div key={`${entry.timestamp}-${index}`} className="relative flex items-start gap-4">
+                          <div
+                            className={`relative z-10 flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
+                              isLatest ? 'bg-gray-900 ring-4 ring-gray-900/20' : 'bg-gray-300'
+                            }`}
+                          >
+                            <div className={`w-3 h-3 rounded-full ${isLatest ? 'bg-white' : 'bg-gray-600'}`}></div>
+                          </div>
+                          <div className="flex-1 pb-2">
+                            <span
+                              className={`px-2.5 py-1 rounded-full text-xs font-semibold ${
+                                statusColors[entry.status] || 'bg-gray-100 text-gray-800'
+                              }`}
+                            >
+                              {ORDER_STATUS_LABELS[entry.status as OrderStatus] || entry.status}
+                            </span>
+                            <p className="text-xs text-gray-500 mt-1">{formatDateTime(entry.timestamp)}</p>
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </div>
+    </div>
+  )
+}
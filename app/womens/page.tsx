@@ -31,7 +31,8 @@ export default function WomensPage() {
   const [showToast, setShowToast] = useState(false)
   const [toastMessage, setToastMessage] = useState('')
   const [toastType, setToastType] = useState<'success' | 'error'>('success')
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canEditProducts = can('edit_products')
 
   // Get category from URL query params
   useEffect(() => {
@@ -158,12 +159,12 @@ export default function WomensPage() {
             <div className="text-center py-16">
               <p className="text-gray-600 text-lg mb-2">No products yet</p>
               <p className="text-gray-500 text-sm">
-                {!isAdminLoading && isAdmin
+                {!isAdminLoading && canEditProducts
                   ? 'Add your first product using the "Add Product" card below.'
                   : 'Check back soon for new products!'}
               </p>
             </div>
-            {!isAdminLoading && isAdmin && (
+            {!isAdminLoading && canEditProducts && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -220,7 +221,7 @@ export default function WomensPage() {
                       </span>
                     </div>
                   )}
-                  {!isAdminLoading && isAdmin && (
+                  {!isAdminLoading && canEditProducts && (
                     <div
                       className="absolute top-3 right-3 z-10"
                       onClick={(event) => event.stopPropagation()}
@@ -263,7 +264,7 @@ export default function WomensPage() {
                 </div>
               </motion.div>
             ))}
-            {!isAdminLoading && isAdmin && (
+            {!isAdminLoading && canEditProducts && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
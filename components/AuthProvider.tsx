@@ -1,11 +1,33 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
 import { useAuthStore } from '@/lib/store/auth'
+import { useCartStore } from '@/lib/store/cart'
 import { supabase } from '@/lib/supabase/client'
+import { syncAccessTokenCookie } from '@/lib/auth/sessionCookie'
+import { fetchSavedCart, mergeSavedCart } from '@/lib/cart/client'
+
+/**
+ * Bring the browser cart in line with the customer's saved cart. A guest cart
+ * is merged into it; a cart already synced with an account is replaced, since
+ * it may have changed on another device since.
+ */
+async function syncCart(userId: string) {
+  const { items, ownerId } = useCartStore.getState()
+
+  try {
+    const saved = ownerId === null ? await mergeSavedCart(items) : await fetchSavedCart()
+    useCartStore.getState().setItems(saved, userId)
+  } catch (error) {
+    // Keep the browser cart; it is merged again on the next sign-in
+    console.error('[Cart] Failed to sync cart:', error)
+  }
+}
 
 export default function AuthProvider({ children }: { children: React.ReactNode }) {
   const checkSession = useAuthStore((state) => state.checkSession)
+  // The account the cart has been synced with on this page
+  const cartUserId = useRef<string | null>(null)
 
   useEffect(() => {
     // Check session on mount
@@ -14,8 +36,24 @@ export default function AuthProvider({ children }: { children: React.ReactNode }
     // Listen for auth state changes
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
+    } = supabase.auth.onAuthStateChange((event, session) => {
       useAuthStore.getState().setUser(session?.user ?? null)
+      // Lets middleware see the session (fires on load, sign-in, refresh and sign-out)
+      syncAccessTokenCookie(session)
+
+      if (event === 'SIGNED_OUT') {
+        // The cart stays saved on the account; don't leave it on this device
+        cartUserId.current = null
+        useCartStore.getState().setItems([], null)
+        return
+      }
+
+      const userId = session?.user?.id
+      if ((event === 'INITIAL_SESSION' || event === 'SIGNED_IN') && userId && cartUserId.current !== userId) {
+        cartUserId.current = userId
+        // Supabase calls inside this callback can deadlock, so run after it returns
+        setTimeout(() => syncCart(userId), 0)
+      }
     })
 
     return () => {
@@ -25,4 +63,3 @@ export default function AuthProvider({ children }: { children: React.ReactNode }
 
   return <>{children}</>
 }
-
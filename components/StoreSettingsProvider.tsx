@@ -0,0 +1,41 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState } from 'react'
+import { DEFAULT_STORE_SETTINGS, type StoreSettings } from '@/lib/store-settings/types'
+
+interface StoreSettingsContextValue {
+  settings: StoreSettings
+  /** Show saved values straight away, before the layout re-renders */
+  setSettings: (settings: StoreSettings) => void
+}
+
+const StoreSettingsContext = createContext<StoreSettingsContextValue>({
+  settings: DEFAULT_STORE_SETTINGS,
+  setSettings: () => {},
+})
+
+/**
+ * Hands the store settings the root layout read on the server to client
+ * components (Footer, AboutSection, ContactSection, ...)
+ */
+export default function StoreSettingsProvider({
+  settings: initialSettings,
+  children,
+}: {
+  settings: StoreSettings
+  children: React.ReactNode
+}) {
+  const [settings, setSettings] = useState(initialSettings)
+
+  useEffect(() => {
+    setSettings(initialSettings)
+  }, [initialSettings])
+
+  return (
+    <StoreSettingsContext.Provider value={{ settings, setSettings }}>{children}</StoreSettingsContext.Provider>
+  )
+}
+
+export function useStoreSettings(): StoreSettingsContextValue {
+  return useContext(StoreSettingsContext)
+}
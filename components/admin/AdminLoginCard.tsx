@@ -1,12 +1,14 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import Link from 'next/link'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation'
 import { z } from 'zod'
-import { useAdminAuth } from '@/lib/demo/auth'
+import { supabase } from '@/lib/supabase/client'
+import { isStaffRole } from '@/lib/auth/permissions'
+import { syncAccessTokenCookie } from '@/lib/auth/sessionCookie'
 import { adminLoginSchema } from '@/lib/validation/admin'
 
 interface FieldErrors {
@@ -15,9 +17,21 @@ interface FieldErrors {
   password?: string
 }
 
+/**
+ * Where to go after signing in: the admin page middleware bounced us from
+ */
+function getNextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next')
+  return next && next.startsWith('/admin') && !next.startsWith('/admin/login') ? next : '/admin'
+}
+
+async function hasStaffRole(userId: string): Promise<boolean> {
+  const { data } = await supabase.from('user_roles').select('role').eq('user_id', userId).single()
+  return isStaffRole(data?.role)
+}
+
 export default function AdminLoginCard() {
   const router = useRouter()
-  const { login } = useAdminAuth()
   const [formData, setFormData] = useState({
     email: '',
     phone: '',
@@ -28,6 +42,25 @@ export default function AdminLoginCard() {
   const [errors, setErrors] = useState<FieldErrors>({})
   const [serverError, setServerError] = useState<string | null>(null)
 
+  // An admin whose session cookie lapsed still has a session in the browser:
+  // refresh the cookie and send them straight on
+  useEffect(() => {
+    let active = true
+
+    const resume = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session || !(await hasStaffRole(session.user.id)) || !active) return
+      syncAccessTokenCookie(session)
+      router.replace(getNextPath())
+    }
+
+    resume()
+
+    return () => {
+      active = false
+    }
+  }, [router])
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target
     setFormData((prev) => ({ ...prev, [name]: value }))
@@ -61,19 +94,27 @@ export default function AdminLoginCard() {
         password: formData.password,
       })
 
-      // Use the admin auth store
-      const result = await login(validatedData.email, validatedData.password)
-      
-      if (result.success) {
-        // Simulate API delay
-        await new Promise((resolve) => setTimeout(resolve, 300))
-        // Redirect to home since admin dashboard is not available
-        router.push('/')
-        router.refresh()
-      } else {
-        setServerError(result.error || 'Invalid credentials. Use admin@demo.com / Demo@123')
+      const { data, error: signInError } = await supabase.auth.signInWithPassword({
+        email: validatedData.email,
+        password: validatedData.password,
+      })
+
+      if (signInError || !data.session) {
+        setServerError(signInError?.message || 'Invalid email or password')
         setIsSubmitting(false)
+        return
       }
+
+      if (!(await hasStaffRole(data.user.id))) {
+        setServerError('This account does not have staff access')
+        setIsSubmitting(false)
+        return
+      }
+
+      // Set the cookie before navigating so middleware sees the new session
+      syncAccessTokenCookie(data.session)
+      router.replace(getNextPath())
+      router.refresh()
     } catch (error) {
       if (error instanceof z.ZodError) {
         const fieldErrors: FieldErrors = {}
@@ -282,11 +323,6 @@ export default function AdminLoginCard() {
             />
           </motion.button>
         </form>
-
-        {/* Demo Mode Notice */}
-        <div className="mt-6 p-3 bg-blue-50/70 border border-blue-200 rounded-lg text-blue-700 text-xs text-center">
-          Demo Mode: Use admin@demo.com / Demo@123
-        </div>
       </div>
     </motion.div>
   )
@@ -0,0 +1,67 @@
+'use client'
+
+import { motion, AnimatePresence } from 'framer-motion'
+import type { BulkOrderResult } from '@/lib/orders/types'
+
+interface BulkResultsModalProps {
+  title: string
+  results: BulkOrderResult[] | null
+  /** Rows of an imported file without an order number or tracking number */
+  skipped?: number
+  onClose: () => void
+}
+
+export default function BulkResultsModal({ title, results, skipped = 0, onClose }: BulkResultsModalProps) {
+  const failed = results?.filter((result) => !result.ok) || []
+  const succeeded = (results?.length || 0) - failed.length
+
+  return (
+    <AnimatePresence>
+      {results && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+          className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto"
+          >
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">{title}</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {succeeded} updated · {failed.length} failed
+              {skipped > 0 ? ` · ${skipped} row${skipped === 1 ? '' : 's'} skipped (no order or tracking number)` : ''}
+            </p>
+
+            {failed.length > 0 ? (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {failed.map((result, index) => (
+                  <li key={`${result.order_id || result.order_number}-${index}`} className="px-3 py-2 text-sm">
+                    <span className="font-semibold text-gray-900">#{result.order_number || result.order_id || '?'}</span>
+                    <span className="text-red-700"> · {result.error}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-green-700">Every order was updated.</p>
+            )}
+
+            <div className="flex justify-end mt-6">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                Close
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
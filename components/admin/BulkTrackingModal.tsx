@@ -0,0 +1,138 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { bulkUpdateOrders, type BulkOrderResponse } from '@/lib/orders/client'
+
+interface BulkTrackingModalProps {
+  orders: Array<{ id: string; order_number: string; tracking_number: string | null; shipping_provider: string | null }> | null
+  onClose: () => void
+  onDone: (response: BulkOrderResponse) => void
+}
+
+export default function BulkTrackingModal({ orders, onClose, onDone }: BulkTrackingModalProps) {
+  const [courier, setCourier] = useState('')
+  const [trackingNumbers, setTrackingNumbers] = useState<Record<string, string>>({})
+  const [markShipped, setMarkShipped] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!orders) return
+    setCourier(orders.find((order) => order.shipping_provider)?.shipping_provider || '')
+    setTrackingNumbers(Object.fromEntries(orders.map((order) => [order.id, order.tracking_number || ''])))
+    setMarkShipped(true)
+    setError(null)
+  }, [orders])
+
+  const filled = orders?.filter((order) => trackingNumbers[order.id]?.trim()) || []
+
+  const handleSubmit = async () => {
+    if (!orders) return
+
+    if (filled.length === 0) {
+      setError('Enter at least one tracking number')
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      const response = await bulkUpdateOrders(
+        filled.map((order) => ({
+          order_id: order.id,
+          tracking_number: trackingNumbers[order.id].trim(),
+          shipping_provider: courier.trim() || undefined,
+          status: markShipped ? 'shipped' : undefined,
+        }))
+      )
+      onDone(response)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save tracking numbers')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+
+  return (
+    <AnimatePresence>
+      {orders && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+          className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto"
+          >
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Courier and tracking numbers</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {orders.length} order{orders.length === 1 ? '' : 's'} selected. Orders left blank are not changed.
+            </p>
+
+            <div className="space-y-3">
+              <input
+                value={courier}
+                onChange={(e) => setCourier(e.target.value)}
+                placeholder="Courier (e.g. Delhivery)"
+                maxLength={100}
+                className={inputClass}
+              />
+              <div className="space-y-2">
+                {orders.map((order) => (
+                  <label key={order.id} className="flex items-center gap-3">
+                    <span className="text-sm font-semibold text-gray-700 w-44 shrink-0">#{order.order_number}</span>
+                    <input
+                      value={trackingNumbers[order.id] || ''}
+                      onChange={(e) => setTrackingNumbers((prev) => ({ ...prev, [order.id]: e.target.value }))}
+                      placeholder="Tracking / AWB number"
+                      maxLength={100}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={markShipped}
+                  onChange={(e) => setMarkShipped(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Mark these orders as shipped
+              </label>
+            </div>
+
+            {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting || filled.length === 0}
+                className="px-4 py-2 rounded-lg text-white bg-gray-900 hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Saving...' : `Save ${filled.length} tracking number${filled.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
+import { adminFetch } from '@/lib/auth/adminFetch'
 
 interface CategoryKebabMenuProps {
   categoryId: string
@@ -228,7 +229,7 @@ function CategoryImageUploadModal({
       formData.append('image', selectedFile)
       formData.append('categoryId', categoryId)
 
-      const response = await fetch('/api/categories/upload-image', {
+      const response = await adminFetch('/api/categories/upload-image', {
         method: 'POST',
         body: formData,
       })
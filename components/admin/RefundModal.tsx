@@ -0,0 +1,292 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { adminFetch } from '@/lib/auth/adminFetch'
+import { formatINR } from '@/lib/utils/money'
+import type { OrderRefund, RefundableSummary } from '@/lib/refunds/types'
+
+interface RefundModalProps {
+  orderId: string | null
+  orderNumber?: string
+  onClose: () => void
+  onRefunded: (order: any) => void
+}
+
+type RefundMode = 'full' | 'amount' | 'items'
+
+const refundStatusColors: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+export default function RefundModal({ orderId, orderNumber, onClose, onRefunded }: RefundModalProps) {
+  const [summary, setSummary] = useState<RefundableSummary | null>(null)
+  const [refunds, setRefunds] = useState<OrderRefund[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<RefundMode>('full')
+  const [amount, setAmount] = useState('')
+  const [quantities, setQuantities] = useState<Record<number, number>>({})
+  const [reason, setReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!orderId) return
+
+    let cancelled = false
+    setSummary(null)
+    setRefunds([])
+    setError(null)
+    setMode('full')
+    setAmount('')
+    setQuantities({})
+    setReason('')
+    setLoading(true)
+
+    adminFetch(`/api/admin/orders/${orderId}/refunds`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok || data.error) {
+          throw new Error(data.error || 'Failed to load refunds')
+        }
+        if (!cancelled) {
+          setSummary(data.summary)
+          setRefunds(data.refunds || [])
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load refunds')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [orderId])
+
+  const itemsTotalCents = summary
+    ? summary.lines.reduce((sum, line) => sum + (quantities[line.index] || 0) * line.unit_refund_cents, 0)
+    : 0
+  const amountCents = Math.round((Number(amount) || 0) * 100)
+  const refundCents =
+    mode === 'full' ? summary?.refundable_cents || 0 : mode === 'amount' ? amountCents : itemsTotalCents
+
+  const handleSubmit = async () => {
+    if (!orderId || !summary) return
+
+    if (refundCents <= 0) {
+      setError(mode === 'items' ? 'Choose at least one item to refund' : 'Enter an amount to refund')
+      return
+    }
+    if (refundCents > summary.refundable_cents) {
+      setError(`At most ${formatINR(summary.refundable_cents / 100)} can still be refunded`)
+      return
+    }
+
+    const payload =
+      mode === 'items'
+        ? {
+            items: Object.entries(quantities)
+              .filter(([, quantity]) => quantity > 0)
+              .map(([index, quantity]) => ({ index: Number(index), quantity })),
+          }
+        : mode === 'amount'
+          ? { amount_cents: amountCents }
+          : {}
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      const response = await adminFetch(`/api/admin/orders/${orderId}/refunds`, {
+        method: 'POST',
+        body: JSON.stringify({ ...payload, reason: reason.trim() || undefined }),
+      })
+      const data = await response.json()
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Refund failed')
+      }
+
+      if (data.order) onRefunded(data.order)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Refund failed')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+
+  return (
+    <AnimatePresence>
+      {orderId && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+          className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto"
+          >
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+              Refund {orderNumber ? `#${orderNumber}` : 'order'}
+            </h3>
+
+            {loading && <p className="text-gray-600 py-6 text-center">Loading refunds...</p>}
+
+            {summary && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Paid {formatINR(summary.total_cents / 100)} · Refunded {formatINR(summary.refunded_cents / 100)} ·{' '}
+                  <span className="font-semibold text-gray-900">
+                    {formatINR(summary.refundable_cents / 100)} refundable
+                  </span>
+                </p>
+
+                {refunds.length > 0 && (
+                  <div className="space-y-1">
+                    {refunds.map((refund) => (
+                      <div key={refund.id} className="flex items-center justify-between gap-3 text-sm">
+                        <span className="text-gray-600">
+                          {new Date(refund.created_at).toLocaleDateString('en-IN')} ·{' '}
+                          {refund.items.length > 0
+                            ? refund.items.map((item) => `${item.quantity}x ${item.title}`).join(', ')
+                            : refund.reason || 'Amount refund'}
+                        </span>
+                        <span className="flex items-center gap-2">
+                          <span className="font-semibold text-gray-900">{formatINR(refund.amount_cents / 100)}</span>
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                              refundStatusColors[refund.status] || 'bg-gray-100 text-gray-800'
+                            }`}
+                          >
+                            {refund.status}
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {summary.refundable_cents > 0 && (
+                  <>
+                    <div className="flex gap-2" role="radiogroup" aria-label="Refund type">
+                      {([
+                        ['full', 'Full'],
+                        ['items', 'By item'],
+                        ['amount', 'Amount'],
+                      ] as Array<[RefundMode, string]>).map(([value, label]) => (
+                        <button
+                          key={value}
+                          type="button"
+                          role="radio"
+                          aria-checked={mode === value}
+                          onClick={() => {
+                            setMode(value)
+                            setError(null)
+                          }}
+                          className={`px-3 py-1 rounded-full border text-sm font-semibold transition-colors ${
+                            mode === value
+                              ? 'bg-primary text-white border-primary'
+                              : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+
+                    {mode === 'items' && (
+                      <div className="space-y-2">
+                        {summary.lines.map((line) => {
+                          const remaining = line.quantity - line.refunded_quantity
+                          return (
+                            <div key={line.index} className="flex items-center gap-3 text-sm">
+                              <div className="flex-1 min-w-0">
+                                <p className="text-gray-900 truncate">{line.title}</p>
+                                <p className="text-xs text-gray-500">
+                                  {line.variant ? `${line.variant} · ` : ''}
+                                  {formatINR(line.unit_refund_cents / 100)} each · {remaining} of {line.quantity} refundable
+                                </p>
+                              </div>
+                              <input
+                                type="number"
+                                min={0}
+                                max={remaining}
+                                value={quantities[line.index] || 0}
+                                disabled={remaining === 0}
+                                onChange={(e) =>
+                                  setQuantities((prev) => ({
+                                    ...prev,
+                                    [line.index]: Math.min(Math.max(Math.floor(Number(e.target.value) || 0), 0), remaining),
+                                  }))
+                                }
+                                className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                              />
+                            </div>
+                          )
+                        })}
+                      </div>
+                    )}
+
+                    {mode === 'amount' && (
+                      <input
+                        type="number"
+                        min={1}
+                        step="0.01"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        placeholder="Amount in ₹"
+                        className={inputClass}
+                      />
+                    )}
+
+                    <input
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Reason (optional, saved in the order history)"
+                      maxLength={500}
+                      className={inputClass}
+                    />
+                  </>
+                )}
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                Close
+              </button>
+              {summary && summary.refundable_cents > 0 && (
+                <button
+                  onClick={handleSubmit}
+                  disabled={isSubmitting || refundCents <= 0}
+                  className="px-4 py-2 rounded-lg text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? 'Refunding...' : `Refund ${formatINR(refundCents / 100)}`}
+                </button>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { importTrackingCsv, type BulkOrderResponse } from '@/lib/orders/client'
+
+interface TrackingImportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onDone: (response: BulkOrderResponse) => void
+}
+
+export default function TrackingImportModal({ isOpen, onClose, onDone }: TrackingImportModalProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [courier, setCourier] = useState('')
+  const [markShipped, setMarkShipped] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setFile(null)
+    setError(null)
+  }, [isOpen])
+
+  const handleSubmit = async () => {
+    if (!file) {
+      setError('Choose the courier’s CSV file')
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      const response = await importTrackingCsv(file, { courier: courier.trim() || undefined, markShipped })
+      onDone(response)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import tracking numbers')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+          className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6"
+          >
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Import tracking numbers</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Upload the courier’s CSV export. It needs an order number column (e.g. “Order Number”) and a
+              tracking column (e.g. “AWB” or “Tracking Number”); rows are matched to orders by order number.
+            </p>
+
+            <div className="space-y-3">
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="block w-full text-sm text-gray-700"
+              />
+              <input
+                value={courier}
+                onChange={(e) => setCourier(e.target.value)}
+                placeholder="Courier, if the file has no courier column"
+                maxLength={100}
+                className={inputClass}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={markShipped}
+                  onChange={(e) => setMarkShipped(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Mark matched orders as shipped
+              </label>
+            </div>
+
+            {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting || !file}
+                className="px-4 py-2 rounded-lg text-white bg-gray-900 hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
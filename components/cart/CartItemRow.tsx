@@ -18,11 +18,11 @@ export default function CartItemRow({ item, index, isDrawer = false }: CartItemR
 
   const handleQtyChange = (newQty: number) => {
     if (newQty < 1) {
-      removeItem(item.id, item.variant)
+      removeItem(item)
     } else if (newQty > 10) {
       return // Max 10
     } else {
-      updateQuantity(item.id, newQty, item.variant)
+      updateQuantity(item, newQty)
     }
   }
 
@@ -91,7 +91,7 @@ export default function CartItemRow({ item, index, isDrawer = false }: CartItemR
 
           {/* Remove */}
           <button
-            onClick={() => removeItem(item.id, item.variant)}
+            onClick={() => removeItem(item)}
             className="text-black hover:text-neutral-700 text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary rounded px-2"
             aria-label="Remove item"
           >
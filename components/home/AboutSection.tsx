@@ -1,25 +1,44 @@
 'use client'
 
 import { useState } from 'react'
+import { useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
 import SectionHeader from './SectionHeader'
-import { useSettingsStore } from '@/lib/store/settings'
+import { useStoreSettings } from '@/components/StoreSettingsProvider'
+import { saveStoreSettings } from '@/lib/store-settings/client'
 import { useIsAdmin } from '@/lib/auth/useIsAdmin'
 
 export default function AboutSection() {
-  const aboutText1 = useSettingsStore((state) => state.aboutText1)
-  const aboutText2 = useSettingsStore((state) => state.aboutText2)
-  const setAboutText1 = useSettingsStore((state) => state.setAboutText1)
-  const setAboutText2 = useSettingsStore((state) => state.setAboutText2)
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const router = useRouter()
+  const { settings, setSettings } = useStoreSettings()
+  const { about_text_1: aboutText1, about_text_2: aboutText2 } = settings
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canManageSettings = can('manage_settings')
   const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
   const [editText1, setEditText1] = useState(aboutText1)
   const [editText2, setEditText2] = useState(aboutText2)
 
-  const handleSave = () => {
-    setAboutText1(editText1)
-    setAboutText2(editText2)
-    setIsEditing(false)
+  const handleSave = async () => {
+    try {
+      setIsSaving(true)
+      setSaveError(null)
+      setSettings(await saveStoreSettings({ about_text_1: editText1, about_text_2: editText2 }))
+      setIsEditing(false)
+      router.refresh()
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save About text')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleEdit = () => {
+    setEditText1(aboutText1)
+    setEditText2(aboutText2)
+    setSaveError(null)
+    setIsEditing(true)
   }
 
   const handleCancel = () => {
@@ -31,10 +50,10 @@ export default function AboutSection() {
   return (
     <section id="about" className="container mx-auto px-4 py-16 md:py-24">
       <div className="flex items-center justify-between mb-6">
-        <SectionHeader title="About Us — Add2Cart" href="#" />
-        {!isAdminLoading && isAdmin && !isEditing && (
+        <SectionHeader title={`About Us — ${settings.store_name}`} href="#" />
+        {!isAdminLoading && canManageSettings && !isEditing && (
           <button
-            onClick={() => setIsEditing(true)}
+            onClick={handleEdit}
             className="text-sm font-semibold text-black hover:text-neutral-700 underline-offset-2 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded px-3 py-1"
           >
             Edit
@@ -72,12 +91,14 @@ export default function AboutSection() {
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
               />
             </div>
+            {saveError && <p className="text-sm text-red-600">{saveError}</p>}
             <div className="flex gap-3">
               <button
                 onClick={handleSave}
-                className="px-4 py-2 bg-primary text-white hover:bg-neutral-800 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 font-semibold"
+                disabled={isSaving}
+                className="px-4 py-2 bg-primary text-white hover:bg-neutral-800 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 font-semibold disabled:opacity-50"
               >
-                Save
+                {isSaving ? 'Saving...' : 'Save'}
               </button>
               <button
                 onClick={handleCancel}
@@ -14,7 +14,8 @@ interface CarouselProps {
 
 export default function Carousel({ products, category }: CarouselProps) {
   const scrollRef = useRef<HTMLDivElement>(null)
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canEditProducts = can('edit_products')
 
   const scroll = (direction: 'left' | 'right') => {
     if (scrollRef.current) {
@@ -45,7 +46,7 @@ export default function Carousel({ products, category }: CarouselProps) {
             <ProductCard product={product} />
           </motion.div>
         ))}
-      {!isAdminLoading && isAdmin && (
+      {!isAdminLoading && canEditProducts && (
           <motion.div
             initial={{ opacity: 0, scale: 0.9 }}
             whileInView={{ opacity: 1, scale: 1 }}
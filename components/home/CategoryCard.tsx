@@ -15,7 +15,8 @@ interface CategoryCardProps {
 }
 
 export default function CategoryCard({ category, href, onImageChange }: CategoryCardProps) {
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canEditProducts = can('edit_products')
   const imageUrl = category.image_url || 'https://via.placeholder.com/400x500?text=Category'
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [imageKey, setImageKey] = useState(0)
@@ -49,7 +50,7 @@ export default function CategoryCard({ category, href, onImageChange }: Category
                 target.src = 'https://via.placeholder.com/400x500?text=Category'
               }}
             />
-            {!isAdminLoading && isAdmin && (
+            {!isAdminLoading && canEditProducts && (
               <div
                 className="absolute top-0 right-0 z-10"
                 onClick={(event) => event.stopPropagation()}
@@ -90,7 +91,7 @@ export default function CategoryCard({ category, href, onImageChange }: Category
                   target.src = 'https://via.placeholder.com/400x500?text=Category'
                 }}
               />
-              {!isAdminLoading && isAdmin && (
+              {!isAdminLoading && canEditProducts && (
                 <div
                   className="absolute top-0 right-0 z-10"
                   onClick={(event) => {
@@ -13,7 +13,8 @@ interface CategoryRowProps {
 }
 
 export default function CategoryRow({ products, category, subcategory }: CategoryRowProps) {
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canEditProducts = can('edit_products')
   
   return (
     <div className="overflow-hidden">
@@ -30,7 +31,7 @@ export default function CategoryRow({ products, category, subcategory }: Categor
             <ProductCard product={product} />
           </motion.div>
         ))}
-        {!isAdminLoading && isAdmin && (
+        {!isAdminLoading && canEditProducts && (
           <motion.div
             initial={{ opacity: 0, x: -20 }}
             whileInView={{ opacity: 1, x: 0 }}
@@ -1,25 +1,44 @@
 'use client'
 
 import { useState } from 'react'
+import { useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
 import SectionHeader from './SectionHeader'
-import { useSettingsStore } from '@/lib/store/settings'
+import { useStoreSettings } from '@/components/StoreSettingsProvider'
+import { saveStoreSettings } from '@/lib/store-settings/client'
 import { useIsAdmin } from '@/lib/auth/useIsAdmin'
 
 export default function ContactSection() {
-  const contactEmail = useSettingsStore((state) => state.contactEmail)
-  const contactPhone = useSettingsStore((state) => state.contactPhone)
-  const setContactEmail = useSettingsStore((state) => state.setContactEmail)
-  const setContactPhone = useSettingsStore((state) => state.setContactPhone)
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const router = useRouter()
+  const { settings, setSettings } = useStoreSettings()
+  const { contact_email: contactEmail, contact_phone: contactPhone } = settings
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canManageSettings = can('manage_settings')
   const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
   const [editEmail, setEditEmail] = useState(contactEmail)
   const [editPhone, setEditPhone] = useState(contactPhone)
 
-  const handleSave = () => {
-    setContactEmail(editEmail)
-    setContactPhone(editPhone)
-    setIsEditing(false)
+  const handleSave = async () => {
+    try {
+      setIsSaving(true)
+      setSaveError(null)
+      setSettings(await saveStoreSettings({ contact_email: editEmail, contact_phone: editPhone }))
+      setIsEditing(false)
+      router.refresh()
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save contact details')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleEdit = () => {
+    setEditEmail(contactEmail)
+    setEditPhone(contactPhone)
+    setSaveError(null)
+    setIsEditing(true)
   }
 
   const handleCancel = () => {
@@ -32,9 +51,9 @@ export default function ContactSection() {
     <section id="contact" className="container mx-auto px-4 py-16 md:py-24 bg-gray-50">
       <div className="flex items-center justify-between mb-6">
         <SectionHeader title="Contact" href="#" />
-        {!isAdminLoading && isAdmin && !isEditing && (
+        {!isAdminLoading && canManageSettings && !isEditing && (
           <button
-            onClick={() => setIsEditing(true)}
+            onClick={handleEdit}
             className="text-sm font-semibold text-black hover:text-neutral-700 underline-offset-2 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded px-3 py-1"
           >
             Edit
@@ -72,12 +91,14 @@ export default function ContactSection() {
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
               />
             </div>
+            {saveError && <p className="text-sm text-red-600">{saveError}</p>}
             <div className="flex gap-3">
               <button
                 onClick={handleSave}
-                className="px-4 py-2 bg-primary text-white hover:bg-neutral-800 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 font-semibold"
+                disabled={isSaving}
+                className="px-4 py-2 bg-primary text-white hover:bg-neutral-800 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 font-semibold disabled:opacity-50"
               >
-                Save
+                {isSaving ? 'Saving...' : 'Save'}
               </button>
               <button
                 onClick={handleCancel}
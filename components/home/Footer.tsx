@@ -1,17 +1,35 @@
 'use client'
 
 import Link from 'next/link'
+import { useStoreSettings } from '@/components/StoreSettingsProvider'
 
 export default function Footer() {
+  const { settings } = useStoreSettings()
+
   return (
     <footer className="bg-gray-50 border-t border-gray-200 mt-20">
       <div className="container mx-auto px-4 py-12">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-8 mb-8">
           <div>
-            <h3 className="font-bold text-gray-900 mb-4">Add2Cart</h3>
+            <h3 className="font-bold text-gray-900 mb-4">{settings.store_name}</h3>
             <p className="text-gray-600 text-sm">
               Affordable fashion with curated thrifted and new apparel.
             </p>
+            <ul className="mt-4 space-y-1 text-sm">
+              <li>
+                <a href={`mailto:${settings.contact_email}`} className="text-gray-900 hover:text-neutral-700 transition-colors">
+                  {settings.contact_email}
+                </a>
+              </li>
+              <li>
+                <a
+                  href={`tel:${settings.contact_phone.replace(/\s/g, '')}`}
+                  className="text-gray-900 hover:text-neutral-700 transition-colors"
+                >
+                  {settings.contact_phone}
+                </a>
+              </li>
+            </ul>
           </div>
           <div>
             <h4 className="font-semibold text-gray-900 mb-4">Shop</h4>
@@ -71,7 +89,7 @@ export default function Footer() {
           </div>
         </div>
         <div className="border-t border-gray-200 pt-8 text-center text-sm text-gray-600">
-          <p>&copy; {new Date().getFullYear()} Add2Cart. All rights reserved.</p>
+          <p>&copy; {new Date().getFullYear()} {settings.store_name}. All rights reserved.</p>
         </div>
       </div>
     </footer>
@@ -19,7 +19,7 @@ export default function Navbar() {
   const user = useAuthStore((state) => state.user)
   const logout = useAuthStore((state) => state.logout)
   const cartCount = useCartStore((state) => state.getTotalItems())
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const { isAdmin, isLoading: isAdminLoading, can } = useIsAdmin()
 
   const navLinks = [
     { href: '#home', label: 'Home', id: 'home' },
@@ -251,19 +251,103 @@ export default function Navbar() {
                       {!isAdminLoading && isAdmin && (
                         <>
                           <Link
-                            href="/admin/orders"
+                            href="/admin"
                             className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
                             role="menuitem"
                           >
-                            Orders
-                          </Link>
-                          <Link
-                            href="/settings"
-                            className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
-                            role="menuitem"
-                          >
-                            Settings
+                            Dashboard
                           </Link>
+                          {(can('edit_products') || can('change_prices')) && (
+                            <Link
+                              href="/admin/products"
+                              className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                              role="menuitem"
+                            >
+                              Products
+                            </Link>
+                          )}
+                          {can('update_order_status') && (
+                            <>
+                              <Link
+                                href="/admin/orders"
+                                className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                                role="menuitem"
+                              >
+                                Orders
+                              </Link>
+                              <Link
+                                href="/admin/returns"
+                                className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                                role="menuitem"
+                              >
+                                Returns
+                              </Link>
+                            </>
+                          )}
+                          {can('manage_settings') && (
+                            <>
+                              <Link
+                                href="/admin/coupons"
+                                className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                                role="menuitem"
+                              >
+                                Coupons
+                              </Link>
+                              <Link
+                                href="/admin/shipping"
+                                className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                                role="menuitem"
+                              >
+                                Shipping
+                              </Link>
+                              <Link
+                                href="/admin/tax"
+                                className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                                role="menuitem"
+                              >
+                                GST
+                              </Link>
+                              <Link
+                                href="/admin/cod"
+                                className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                                role="menuitem"
+                              >
+                                COD
+                              </Link>
+                              <Link
+                                href="/admin/payment-events"
+                                className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                                role="menuitem"
+                              >
+                                Webhooks
+                              </Link>
+                              <Link
+                                href="/admin/settings"
+                                className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                                role="menuitem"
+                              >
+                                Settings
+                              </Link>
+                            </>
+                          )}
+                          {can('manage_staff') && (
+                            <Link
+                              href="/admin/staff"
+                              className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                              role="menuitem"
+                            >
+                              Staff
+                            </Link>
+                          )}
+                          {can('view_audit_log') && (
+                            <Link
+                              href="/admin/audit-log"
+                              className="block px-4 py-2 text-gray-900 hover:bg-gray-50 hover:text-neutral-700 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+                              role="menuitem"
+                            >
+                              Audit Log
+                            </Link>
+                          )}
                         </>
                       )}
                       {!isAdminLoading && isAdmin && (
@@ -381,19 +465,103 @@ export default function Navbar() {
                     {!isAdminLoading && isAdmin && (
                       <>
                         <Link
-                          href="/admin/orders"
-                          onClick={() => setIsMobileMenuOpen(false)}
-                          className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
-                        >
-                          Orders
-                        </Link>
-                        <Link
-                          href="/settings"
+                          href="/admin"
                           onClick={() => setIsMobileMenuOpen(false)}
                           className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
                         >
-                          Settings
+                          Dashboard
                         </Link>
+                        {(can('edit_products') || can('change_prices')) && (
+                          <Link
+                            href="/admin/products"
+                            onClick={() => setIsMobileMenuOpen(false)}
+                            className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                          >
+                            Products
+                          </Link>
+                        )}
+                        {can('update_order_status') && (
+                          <>
+                            <Link
+                              href="/admin/orders"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                            >
+                              Orders
+                            </Link>
+                            <Link
+                              href="/admin/returns"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                            >
+                              Returns
+                            </Link>
+                          </>
+                        )}
+                        {can('manage_settings') && (
+                          <>
+                            <Link
+                              href="/admin/coupons"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                            >
+                              Coupons
+                            </Link>
+                            <Link
+                              href="/admin/shipping"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                            >
+                              Shipping
+                            </Link>
+                            <Link
+                              href="/admin/tax"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                            >
+                              GST
+                            </Link>
+                            <Link
+                              href="/admin/cod"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                            >
+                              COD
+                            </Link>
+                            <Link
+                              href="/admin/payment-events"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                            >
+                              Webhooks
+                            </Link>
+                            <Link
+                              href="/admin/settings"
+                              onClick={() => setIsMobileMenuOpen(false)}
+                              className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                            >
+                              Settings
+                            </Link>
+                          </>
+                        )}
+                        {can('manage_staff') && (
+                          <Link
+                            href="/admin/staff"
+                            onClick={() => setIsMobileMenuOpen(false)}
+                            className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                          >
+                            Staff
+                          </Link>
+                        )}
+                        {can('view_audit_log') && (
+                          <Link
+                            href="/admin/audit-log"
+                            onClick={() => setIsMobileMenuOpen(false)}
+                            className="block w-full px-4 py-2 text-center text-gray-900 hover:text-neutral-700 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 rounded"
+                          >
+                            Audit Log
+                          </Link>
+                        )}
                       </>
                     )}
                     {!isAdminLoading && isAdmin && (
@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { cancelOrder } from '@/lib/orders/client'
+import { CANCELLATION_REASONS } from '@/lib/orders/lifecycle'
+import { formatINR } from '@/lib/utils/money'
+
+interface CancelOrderModalProps {
+  order: {
+    id: string
+    order_number: string
+    payment_method: string | null
+    payment_status: string
+    total_cents: number
+    refunded_cents: number | null
+  } | null
+  onClose: () => void
+  onCancelled: (order: any) => void
+}
+
+export default function CancelOrderModal({ order, onClose, onCancelled }: CancelOrderModalProps) {
+  const [reason, setReason] = useState('')
+  const [details, setDetails] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    setReason('')
+    setDetails('')
+    setError(null)
+  }, [order?.id])
+
+  const refundCents =
+    order && order.payment_method !== 'cod' && (order.payment_status === 'paid' || order.payment_status === 'partially_refunded')
+      ? order.total_cents - (order.refunded_cents || 0)
+      : 0
+
+  const handleSubmit = async () => {
+    if (!order) return
+
+    if (!reason) {
+      setError('Choose a reason for cancelling')
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      const updated = await cancelOrder(order.id, reason, details.trim())
+      onCancelled(updated)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel order')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+
+  return (
+    <AnimatePresence>
+      {order && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+          className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-lg shadow-xl max-w-md w-full p-6"
+          >
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Cancel order #{order.order_number}?</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {refundCents > 0
+                ? `${formatINR(refundCents / 100)} will be refunded to your original payment method. Refunds usually reach your account in 5-7 working days.`
+                : 'This can’t be undone.'}
+            </p>
+
+            <div className="space-y-3">
+              <select value={reason} onChange={(e) => setReason(e.target.value)} className={inputClass}>
+                <option value="">Reason for cancelling</option>
+                {Object.entries(CANCELLATION_REASONS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                placeholder="Anything else? (optional)"
+                maxLength={500}
+                rows={2}
+                className={inputClass}
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                Keep Order
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting}
+                className="px-4 py-2 rounded-lg text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Cancelling...' : 'Cancel Order'}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,373 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { fetchOrderReturns, submitReturnRequest } from '@/lib/returns/client'
+import {
+  RETURN_REASONS,
+  RETURN_RESOLUTION_LABELS,
+  RETURN_STATUS_LABELS,
+  type ReturnEligibility,
+  type ReturnRequest,
+  type ReturnType,
+} from '@/lib/returns/types'
+
+interface ReturnRequestModalProps {
+  orderId: string | null
+  orderNumber?: string
+  onClose: () => void
+  onSubmitted: () => void
+}
+
+const MAX_PHOTOS = 5
+
+const returnStatusColors: Record<string, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  pickup_scheduled: 'bg-indigo-100 text-indigo-800',
+  received: 'bg-purple-100 text-purple-800',
+  completed: 'bg-green-100 text-green-800',
+}
+
+export default function ReturnRequestModal({ orderId, orderNumber, onClose, onSubmitted }: ReturnRequestModalProps) {
+  const [eligibility, setEligibility] = useState<ReturnEligibility | null>(null)
+  const [requests, setRequests] = useState<ReturnRequest[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [type, setType] = useState<ReturnType>('return')
+  const [reason, setReason] = useState('')
+  const [note, setNote] = useState('')
+  const [quantities, setQuantities] = useState<Record<number, number>>({})
+  const [sizes, setSizes] = useState<Record<number, string>>({})
+  const [photos, setPhotos] = useState<File[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!orderId) return
+
+    let cancelled = false
+    setEligibility(null)
+    setRequests([])
+    setError(null)
+    setType('return')
+    setReason('')
+    setNote('')
+    setQuantities({})
+    setSizes({})
+    setPhotos([])
+    setLoading(true)
+
+    fetchOrderReturns(orderId)
+      .then((data) => {
+        if (!cancelled) {
+          setEligibility(data.eligibility)
+          setRequests(data.requests || [])
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load returns')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [orderId])
+
+  const selectedItems = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([index, quantity]) => ({
+      index: Number(index),
+      quantity,
+      ...(type === 'exchange' ? { exchange_size: sizes[Number(index)] } : {}),
+    }))
+
+  const handlePhotos = (files: FileList | null) => {
+    if (!files) return
+    setPhotos((prev) => [...prev, ...Array.from(files)].slice(0, MAX_PHOTOS))
+  }
+
+  const handleSubmit = async () => {
+    if (!orderId) return
+
+    if (selectedItems.length === 0) {
+      setError('Choose at least one item')
+      return
+    }
+    if (!reason) {
+      setError('Choose a reason')
+      return
+    }
+    if (type === 'exchange' && selectedItems.some((item) => !item.exchange_size)) {
+      setError('Choose the size you want for each item')
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await submitReturnRequest(
+        orderId,
+        { type, reason, note: note.trim() || undefined, items: selectedItems },
+        photos
+      )
+      onSubmitted()
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit your request')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
+
+  const lines = (eligibility?.lines || []).filter(
+    (line) => line.returnable_quantity > 0 && (type === 'return' || line.exchange_sizes.length > 0)
+  )
+
+  return (
+    <AnimatePresence>
+      {orderId && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+          className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto"
+          >
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+              Return or exchange {orderNumber ? `#${orderNumber}` : 'items'}
+            </h3>
+
+            {loading && <p className="text-gray-600 py-6 text-center">Loading...</p>}
+
+            {requests.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {requests.map((request) => (
+                  <div key={request.id} className="p-3 bg-gray-50 rounded-lg text-sm">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="font-semibold text-gray-900">
+                        {request.type === 'exchange' ? 'Exchange' : 'Return'} ·{' '}
+                        {new Date(request.created_at).toLocaleDateString('en-IN')}
+                      </span>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                          returnStatusColors[request.status] || 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {RETURN_STATUS_LABELS[request.status]}
+                      </span>
+                    </div>
+                    <p className="text-gray-600 mt-1">
+                      {request.items
+                        .map((item) => `${item.quantity}x ${item.title}${item.exchange_size ? ` → size ${item.exchange_size}` : ''}`)
+                        .join(', ')}
+                    </p>
+                    {request.pickup_tracking_number && (
+                      <p className="text-gray-600">
+                        Pickup: {request.pickup_courier} ({request.pickup_tracking_number})
+                      </p>
+                    )}
+                    {request.resolution && request.status === 'completed' && (
+                      <p className="text-gray-600">
+                        {RETURN_RESOLUTION_LABELS[request.resolution]}
+                        {request.credit_coupon_code ? `: use code ${request.credit_coupon_code} at checkout` : ''}
+                      </p>
+                    )}
+                    {request.admin_note && <p className="text-gray-600">Note: {request.admin_note}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {eligibility && !eligibility.eligible && (
+              <p className="text-sm text-gray-600">{eligibility.reason}</p>
+            )}
+
+            {eligibility?.eligible && (
+              <div className="space-y-4">
+                {eligibility.deadline && (
+                  <p className="text-sm text-gray-600">
+                    Request by {new Date(eligibility.deadline).toLocaleDateString('en-IN', { day: 'numeric', month: 'long' })}
+                  </p>
+                )}
+
+                {eligibility.allow_exchanges && (
+                  <div className="flex gap-2" role="radiogroup" aria-label="Request type">
+                    {([
+                      ['return', 'Return'],
+                      ['exchange', 'Exchange size'],
+                    ] as Array<[ReturnType, string]>).map(([value, label]) => (
+                      <button
+                        key={value}
+                        type="button"
+                        role="radio"
+                        aria-checked={type === value}
+                        onClick={() => {
+                          setType(value)
+                          setQuantities({})
+                          setError(null)
+                        }}
+                        className={`px-3 py-1 rounded-full border text-sm font-semibold transition-colors ${
+                          type === value
+                            ? 'bg-primary text-white border-primary'
+                            : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {lines.length === 0 ? (
+                  <p className="text-sm text-gray-600">
+                    {type === 'exchange'
+                      ? 'No other sizes are in stock for these items right now.'
+                      : 'Nothing left to return on this order.'}
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {lines.map((line) => (
+                      <div key={line.index} className="flex items-center gap-3 text-sm">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-gray-900 truncate">{line.title}</p>
+                          <p className="text-xs text-gray-500">
+                            {line.variant ? `${line.variant} · ` : ''}
+                            {line.returnable_quantity} of {line.quantity} available
+                          </p>
+                        </div>
+                        {type === 'exchange' && (
+                          <select
+                            value={sizes[line.index] || ''}
+                            onChange={(e) => setSizes((prev) => ({ ...prev, [line.index]: e.target.value }))}
+                            aria-label={`New size for ${line.title}`}
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                          >
+                            <option value="">Size</option>
+                            {line.exchange_sizes.map((size) => (
+                              <option key={size} value={size}>
+                                {size}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        <input
+                          type="number"
+                          min={0}
+                          max={line.returnable_quantity}
+                          value={quantities[line.index] || 0}
+                          aria-label={`Quantity of ${line.title}`}
+                          onChange={(e) =>
+                            setQuantities((prev) => ({
+                              ...prev,
+                              [line.index]: Math.min(
+                                Math.max(Math.floor(Number(e.target.value) || 0), 0),
+                                line.returnable_quantity
+                              ),
+                            }))
+                          }
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <select value={reason} onChange={(e) => setReason(e.target.value)} className={inputClass}>
+                  <option value="">Reason</option>
+                  {Object.entries(RETURN_REASONS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Anything else we should know? (optional)"
+                  maxLength={1000}
+                  rows={3}
+                  className={inputClass}
+                />
+
+                <div>
+                  <label className="text-sm font-semibold text-gray-700">
+                    Photos ({photos.length}/{MAX_PHOTOS})
+                    <input
+                      type="file"
+                      accept="image/jpeg,image/png,image/webp"
+                      multiple
+                      disabled={photos.length >= MAX_PHOTOS}
+                      onChange={(e) => {
+                        handlePhotos(e.target.files)
+                        e.target.value = ''
+                      }}
+                      className="mt-1 block w-full text-sm text-gray-600"
+                    />
+                  </label>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Required for damaged or wrong items. JPEG, PNG or WebP up to 5 MB each.
+                  </p>
+                  {photos.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {photos.map((photo, photoIndex) => (
+                        <span
+                          key={`${photo.name}-${photoIndex}`}
+                          className="flex items-center gap-1 px-2 py-0.5 bg-gray-100 rounded-full text-xs text-gray-700"
+                        >
+                          {photo.name}
+                          <button
+                            type="button"
+                            onClick={() => setPhotos((prev) => prev.filter((_, i) => i !== photoIndex))}
+                            aria-label={`Remove ${photo.name}`}
+                            className="text-gray-500 hover:text-gray-900"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+            <div className="flex gap-3 justify-end mt-6">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                Close
+              </button>
+              {eligibility?.eligible && lines.length > 0 && (
+                <button
+                  onClick={handleSubmit}
+                  disabled={isSubmitting || selectedItems.length === 0}
+                  className="px-4 py-2 rounded-lg text-white bg-gray-900 hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? 'Submitting...' : type === 'exchange' ? 'Request Exchange' : 'Request Return'}
+                </button>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
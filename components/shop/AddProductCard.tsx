@@ -181,10 +181,16 @@ export default function AddProductCard({ category, subcategory }: AddProductCard
         return
       }
 
+      // Thrift pieces are one-offs: track a single unit per size so a
+      // checkout reservation can hold it and it can't be sold twice
+      const isThrift = validated.category === 'thrift'
       const variantPayload = selectedColors.map((color) => ({
         color,
         sizes: colorSizes[color] || [],
         images: colorImageFiles[color] || [],
+        stock: isThrift
+          ? Object.fromEntries((colorSizes[color] || []).map((size) => [size, 1]))
+          : undefined,
       }))
 
       // Get category and subcategory IDs
@@ -20,7 +20,8 @@ interface ProductCardProps {
 function ProductCard({ product, onRemove: onRemoveProp, onRemoveError: onRemoveErrorProp }: ProductCardProps) {
   const router = useRouter()
   const addItem = useCartStore((state) => state.addItem)
-  const { isAdmin, isLoading: isAdminLoading } = useIsAdmin()
+  const { can, isLoading: isAdminLoading } = useIsAdmin()
+  const canEditProducts = can('edit_products')
 
   const [showToast, setShowToast] = useState(false)
   const [toastMessage, setToastMessage] = useState('Added to cart!')
@@ -111,7 +112,7 @@ function ProductCard({ product, onRemove: onRemoveProp, onRemoveError: onRemoveE
           )}
 
           {/* Admin Kebab Menu */}
-          {!isAdminLoading && isAdmin && (
+          {!isAdminLoading && canEditProducts && (
             <div
               className="absolute top-2 right-2 z-20"
               onClick={(event) => {
@@ -0,0 +1,22 @@
+import { adminFetch } from '@/lib/auth/adminFetch'
+import type { AuditEntry, AuditLogFilters } from './types'
+
+/**
+ * Owner: a page of the audit log, newest first
+ */
+export async function fetchAuditLog(filters: AuditLogFilters = {}): Promise<{ entries: AuditEntry[]; hasMore: boolean }> {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value)
+  }
+
+  const query = params.toString()
+  const response = await adminFetch(`/api/admin/audit-log${query ? `?${query}` : ''}`)
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to load audit log')
+  }
+
+  return { entries: data.entries || [], hasMore: !!data.has_more }
+}
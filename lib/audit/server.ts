@@ -0,0 +1,105 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditAction, AuditEntityType, AuditEntry, AuditLogFilters } from './types'
+
+/**
+ * Audit log of admin changes (audit_log, see supabase_audit_log.sql).
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers, with the service role client.
+ * - Catalogue edits are recorded by database triggers; call recordAuditEvent
+ *   for changes made here on the server (orders, refunds, shipments, returns,
+ *   coupons, staff roles, category uploads).
+ * - Recording never fails the change itself: the change has already happened,
+ *   so an audit write error is logged and swallowed.
+ */
+
+export interface AuditEvent {
+  actorId: string | null
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId: string
+  entityLabel?: string | null
+  before?: Record<string, unknown> | null
+  after?: Record<string, unknown> | null
+}
+
+const PAGE_SIZE = 50
+
+/**
+ * The fields that differ between two versions of a row, as before/after halves
+ */
+export function diffFields(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  fields: readonly string[]
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  const changed = fields.filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+
+  if (changed.length === 0) {
+    return null
+  }
+
+  return {
+    before: Object.fromEntries(changed.map((field) => [field, before[field] ?? null])),
+    after: Object.fromEntries(changed.map((field) => [field, after[field] ?? null])),
+  }
+}
+
+export async function recordAuditEvent(supabase: SupabaseClient<any, any, any>, event: AuditEvent): Promise<void> {
+  const { error } = await supabase.from('audit_log').insert({
+    actor_id: event.actorId,
+    action: event.action,
+    entity_type: event.entityType,
+    entity_id: event.entityId,
+    entity_label: event.entityLabel ?? null,
+    before: event.before ?? null,
+    after: event.after ?? null,
+  })
+
+  if (error) {
+    console.error('[Audit] Failed to record change:', { ...event, error: error.message })
+  }
+}
+
+/**
+ * Newest first, a page at a time
+ */
+export async function listAuditLog(
+  supabase: SupabaseClient<any, any, any>,
+  filters: AuditLogFilters = {}
+): Promise<{ entries: AuditEntry[]; hasMore: boolean }> {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(PAGE_SIZE + 1)
+
+  if (filters.entity_type) {
+    query = query.eq('entity_type', filters.entity_type)
+  }
+
+  if (filters.entity_id) {
+    query = query.eq('entity_id', filters.entity_id)
+  }
+
+  // Wildcards are not searchable
+  const actor = filters.actor?.replace(/[%_\\]/g, ' ').trim()
+  if (actor) {
+    query = query.ilike('actor_email', `%${actor}%`)
+  }
+
+  if (filters.before) {
+    query = query.lt('created_at', filters.before)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error in listAuditLog:', error)
+    throw new Error(`Failed to load audit log: ${error.message}`)
+  }
+
+  const rows = (data || []) as AuditEntry[]
+
+  return { entries: rows.slice(0, PAGE_SIZE), hasMore: rows.length > PAGE_SIZE }
+}
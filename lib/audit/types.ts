@@ -0,0 +1,49 @@
+export const AUDIT_ENTITY_TYPES = [
+  'product',
+  'product_variant',
+  'product_image',
+  'category',
+  'order',
+  'return_request',
+  'coupon',
+  'staff',
+] as const
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number]
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'refund'
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  product: 'Product',
+  product_variant: 'Variant',
+  product_image: 'Product image',
+  category: 'Category',
+  order: 'Order',
+  return_request: 'Return request',
+  coupon: 'Coupon',
+  staff: 'Staff member',
+}
+
+/** One admin change, stored in audit_log */
+export interface AuditEntry {
+  id: string
+  actor_id: string | null
+  actor_email: string | null
+  action: AuditAction
+  entity_type: AuditEntityType
+  entity_id: string
+  entity_label: string | null
+  /** Changed fields only for updates; the whole row for creates and deletes */
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  created_at: string
+}
+
+export interface AuditLogFilters {
+  entity_type?: AuditEntityType
+  entity_id?: string
+  /** Part of the admin's email */
+  actor?: string
+  /** created_at of the last entry already shown */
+  before?: string
+}
@@ -0,0 +1,23 @@
+import { supabase } from '@/lib/supabase/client'
+
+/**
+ * fetch() for /api/admin/* routes from admin pages.
+ * Attaches the current session's access token as a Bearer header.
+ */
+export async function adminFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  // Get access token from Supabase client to send with request
+  const { data: { session } } = await supabase.auth.getSession()
+  const accessToken = session?.access_token
+
+  const headers = new Headers(init.headers)
+  if (!headers.has('Content-Type') && init.body && typeof init.body === 'string') {
+    headers.set('Content-Type', 'application/json')
+  }
+
+  // Add Authorization header if we have a session
+  if (accessToken) {
+    headers.set('Authorization', `Bearer ${accessToken}`)
+  }
+
+  return fetch(input, { ...init, headers })
+}
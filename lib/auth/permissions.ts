@@ -0,0 +1,60 @@
+/**
+ * Staff roles and what each one may do. Safe to import from client components.
+ *
+ * Mirrored in SQL by has_permission() (supabase_staff_roles.sql), which guards
+ * the catalogue writes admin pages make straight to Supabase; keep the two
+ * in step.
+ */
+
+export const STAFF_ROLES = ['owner', 'catalog_manager', 'fulfilment', 'support'] as const
+
+export type StaffRole = (typeof STAFF_ROLES)[number]
+
+/** Stored in user_roles.role for customers */
+export const CUSTOMER_ROLE = 'user'
+
+export const PERMISSIONS = [
+  'edit_products',
+  'change_prices',
+  'update_order_status',
+  'issue_refunds',
+  'view_customer_pii',
+  'manage_settings',
+  'manage_staff',
+  'view_audit_log',
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+export const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  catalog_manager: ['edit_products', 'change_prices'],
+  fulfilment: ['update_order_status', 'view_customer_pii'],
+  support: ['update_order_status', 'issue_refunds', 'view_customer_pii'],
+}
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  catalog_manager: 'Catalog manager',
+  fulfilment: 'Fulfilment',
+  support: 'Support',
+}
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  edit_products: 'Add, edit and delete products',
+  change_prices: 'Change prices',
+  update_order_status: 'Update order status and tracking',
+  issue_refunds: 'Issue refunds',
+  view_customer_pii: 'See customer names, addresses and contact details',
+  manage_settings: 'Store, payment, shipping and tax settings',
+  manage_staff: 'Invite staff and assign roles',
+  view_audit_log: 'See the audit log of admin changes',
+}
+
+export function isStaffRole(role: string | null | undefined): role is StaffRole {
+  return STAFF_ROLES.includes(role as StaffRole)
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isStaffRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+import { createServerSupabaseClientWithAuth } from '@/lib/supabase/server'
+import { PERMISSION_LABELS, hasPermission, isStaffRole, type Permission, type StaffRole } from './permissions'
+
+export type AdminCheckResult =
+  | { user: User; role: StaffRole; response?: undefined }
+  | { user?: undefined; role?: undefined; response: NextResponse }
+
+/**
+ * Resolve the signed-in user from the request's Bearer token or cookies.
+ * Returns null when nobody is signed in.
+ */
+export async function getRequestUser(request: NextRequest): Promise<User | null> {
+  const { client: authClient, accessToken } = createServerSupabaseClientWithAuth(request)
+
+  const { data: { user }, error } = accessToken
+    ? await authClient.auth.getUser(accessToken)
+    : await authClient.auth.getUser()
+
+  return error || !user ? null : user
+}
+
+/**
+ * Resolve the signed-in user from the request and make sure they are staff
+ * (any role in lib/auth/permissions.ts) and, if given, hold the permission.
+ *
+ * Usage in a route handler:
+ *   const { user, role, response } = await requireAdmin(request, 'issue_refunds')
+ *   if (response) return response
+ */
+export async function requireAdmin(request: NextRequest, permission?: Permission): Promise<AdminCheckResult> {
+  // Create client with anon key to read user session
+  const { client: authClient, accessToken } = createServerSupabaseClientWithAuth(request)
+
+  const { data: { user }, error: authError } = accessToken
+    ? await authClient.auth.getUser(accessToken)
+    : await authClient.auth.getUser()
+
+  if (authError || !user) {
+    return {
+      response: NextResponse.json(
+        { error: accessToken ? 'Unauthorized - Invalid session' : 'Unauthorized - Please log in' },
+        { status: 401 }
+      ),
+    }
+  }
+
+  const role = await getUserRole(request, user.id)
+
+  if (!isStaffRole(role)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Forbidden - Admin access required' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  if (permission && !hasPermission(role, permission)) {
+    return {
+      response: NextResponse.json(
+        { error: `Forbidden - Your role can't do this (${PERMISSION_LABELS[permission].toLowerCase()})` },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { user, role }
+}
+
+/**
+ * The signed-in user's user_roles.role ('user' for customers), or null
+ */
+export async function getUserRole(request: NextRequest, userId: string): Promise<string | null> {
+  // Users can read their own role row (with anon key, respects RLS)
+  const { client: authClient } = createServerSupabaseClientWithAuth(request)
+
+  const { data: roleData } = await authClient
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return roleData?.role ?? null
+}
+
+/**
+ * Whether the request carries the scheduler's shared secret
+ * (`Authorization: Bearer <CRON_SECRET>`), for /api/cron/* routes
+ */
+export function hasCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET
+  const authorization = request.headers.get('authorization')
+  if (!cronSecret || !authorization?.startsWith('Bearer ')) return false
+
+  // Constant-time compare without node:crypto, so this module also loads in middleware
+  const received = authorization.slice('Bearer '.length)
+  if (received.length !== cronSecret.length) return false
+  let diff = 0
+  for (let i = 0; i < received.length; i++) {
+    diff |= received.charCodeAt(i) ^ cronSecret.charCodeAt(i)
+  }
+  return diff === 0
+}
@@ -0,0 +1,27 @@
+import type { Session } from '@supabase/supabase-js'
+
+/**
+ * Cookie holding the current Supabase access token.
+ * The browser client keeps its session in localStorage, which middleware
+ * cannot read, so the token is mirrored here for server-side checks.
+ */
+export const ACCESS_TOKEN_COOKIE = 'sb-access-token'
+
+/**
+ * Browser: keep the access token cookie in step with the Supabase session.
+ * Clears the cookie when there is no session.
+ */
+export function syncAccessTokenCookie(session: Session | null): void {
+  if (typeof document === 'undefined') return
+
+  const secure = window.location.protocol === 'https:' ? '; Secure' : ''
+
+  if (!session?.access_token) {
+    document.cookie = `${ACCESS_TOKEN_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax${secure}`
+    return
+  }
+
+  // Expire with the token; a refreshed token rewrites the cookie
+  const expires = session.expires_at ? `; Expires=${new Date(session.expires_at * 1000).toUTCString()}` : ''
+  document.cookie = `${ACCESS_TOKEN_COOKIE}=${session.access_token}; Path=/${expires}; SameSite=Lax${secure}`
+}
@@ -2,9 +2,12 @@
 
 import { useEffect, useState, useRef } from 'react'
 import { supabase } from '@/lib/supabase/client'
+import { hasPermission, isStaffRole, type Permission, type StaffRole } from '@/lib/auth/permissions'
 
 type AdminState = {
+  /** Any staff role; use `can` for individual permissions */
   isAdmin: boolean
+  role: StaffRole | null
   isLoading: boolean
   userId: string | null
   reason?: string
@@ -12,13 +15,13 @@ type AdminState = {
 
 type AdminCache = {
   userId: string | null
-  isAdmin: boolean
+  role: StaffRole | null
   loaded: boolean
 }
 
 const adminCache: AdminCache = {
   userId: null,
-  isAdmin: false,
+  role: null,
   loaded: false,
 }
 
@@ -30,9 +33,10 @@ function logAdmin(message: string, payload?: Record<string, unknown>) {
   }
 }
 
-export function useIsAdmin(): AdminState {
+export function useIsAdmin(): AdminState & { can: (permission: Permission) => boolean } {
   const [state, setState] = useState<AdminState>({
     isAdmin: false,
+    role: null,
     isLoading: true,
     userId: null,
   })
@@ -54,9 +58,9 @@ export function useIsAdmin(): AdminState {
         if (!userId) {
           if (!active) return
           adminCache.userId = null
-          adminCache.isAdmin = false
+          adminCache.role = null
           adminCache.loaded = true
-          setState({ isAdmin: false, isLoading: false, userId: null, reason: 'no-user' })
+          setState({ isAdmin: false, role: null, isLoading: false, userId: null, reason: 'no-user' })
           logAdmin('No user session, hiding admin UI', { userId: null, isAdmin: false })
           return
         }
@@ -64,8 +68,14 @@ export function useIsAdmin(): AdminState {
         // Return cached value for this session
         if (adminCache.loaded && adminCache.userId === userId) {
           if (!active) return
-          setState({ isAdmin: adminCache.isAdmin, isLoading: false, userId, reason: 'cache' })
-          logAdmin('Using cached admin value', { userId, isAdmin: adminCache.isAdmin })
+          setState({
+            isAdmin: adminCache.role !== null,
+            role: adminCache.role,
+            isLoading: false,
+            userId,
+            reason: 'cache',
+          })
+          logAdmin('Using cached admin value', { userId, role: adminCache.role })
           return
         }
 
@@ -75,30 +85,31 @@ export function useIsAdmin(): AdminState {
           .eq('user_id', userId)
           .single()
 
-        const isAdmin = data?.role === 'admin'
+        const role = isStaffRole(data?.role) ? data.role : null
         adminCache.userId = userId
-        adminCache.isAdmin = isAdmin
+        adminCache.role = role
         adminCache.loaded = true
 
         if (!active) return
         setState({
-          isAdmin,
+          isAdmin: role !== null,
+          role,
           isLoading: false,
           userId,
           reason: error ? 'error' : 'db',
         })
 
-        logAdmin('Loaded admin flag from user_roles', {
+        logAdmin('Loaded staff role from user_roles', {
           userId,
-          isAdmin,
+          role,
           error: error?.message,
         })
       } catch (err) {
         if (!active) return
         adminCache.userId = null
-        adminCache.isAdmin = false
+        adminCache.role = null
         adminCache.loaded = false
-        setState({ isAdmin: false, isLoading: false, userId: null, reason: 'exception' })
+        setState({ isAdmin: false, role: null, isLoading: false, userId: null, reason: 'exception' })
         logAdmin('Failed to load admin flag', { error: (err as Error).message })
       } finally {
         loadingRef.current = false
@@ -112,7 +123,7 @@ export function useIsAdmin(): AdminState {
       const cacheMismatch = adminCache.userId && adminCache.userId !== nextUserId
       if (cacheMismatch) {
         adminCache.userId = null
-        adminCache.isAdmin = false
+        adminCache.role = null
         adminCache.loaded = false
       }
       load()
@@ -124,6 +135,6 @@ export function useIsAdmin(): AdminState {
     }
   }, [])
 
-  return state
+  return { ...state, can: (permission: Permission) => hasPermission(state.role, permission) }
 }
 
@@ -0,0 +1,87 @@
+import { supabase } from '@/lib/supabase/client'
+import type { CartItem, CartLineKey } from '@/lib/store/cart'
+
+/**
+ * fetch() for /api/cart with the signed-in customer's access token
+ */
+async function cartFetch(input: string, init: RequestInit = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession()
+  const accessToken = session?.access_token
+
+  const response = await fetch(input, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    cache: 'no-store',
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to save cart')
+  }
+
+  return data
+}
+
+const toCartLine = (line: CartLineKey, quantity: number) => ({
+  product_id: line.id,
+  variant_id: line.variantId || null,
+  size: line.size || null,
+  variant: line.variant || null,
+  quantity,
+})
+
+// Changes are sent one at a time, in order, so quick taps on + can't land
+// out of order and leave the saved quantity behind the cart on screen
+let pendingSave: Promise<void> = Promise.resolve()
+
+function queueSave(save: () => Promise<unknown>): Promise<void> {
+  pendingSave = pendingSave.then(async () => {
+    try {
+      await save()
+    } catch (error) {
+      // The browser cart is still right; the next sign-in merge catches up
+      console.error('[Cart] Failed to save cart change:', error)
+    }
+  })
+  return pendingSave
+}
+
+/**
+ * The signed-in customer's saved cart
+ */
+export async function fetchSavedCart(): Promise<CartItem[]> {
+  await pendingSave
+  const data = await cartFetch('/api/cart')
+  return data.items || []
+}
+
+/**
+ * Merge the guest cart into the customer's saved cart; returns the merged cart
+ */
+export async function mergeSavedCart(items: CartItem[]): Promise<CartItem[]> {
+  await pendingSave
+  const data = await cartFetch('/api/cart/merge', {
+    method: 'POST',
+    body: JSON.stringify({ items: items.map((item) => toCartLine(item, item.qty)) }),
+  })
+  return data.items || []
+}
+
+/**
+ * Save one line's new quantity (0 removes it). Never throws.
+ */
+export function saveCartLine(line: CartLineKey, quantity: number): Promise<void> {
+  return queueSave(() =>
+    cartFetch('/api/cart', { method: 'PUT', body: JSON.stringify(toCartLine(line, quantity)) })
+  )
+}
+
+/**
+ * Empty the saved cart. Never throws.
+ */
+export function clearSavedCart(): Promise<void> {
+  return queueSave(() => cartFetch('/api/cart', { method: 'DELETE' }))
+}
@@ -0,0 +1,322 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import type { CartItem } from '@/lib/store/cart'
+import { formatVariantLabel, isSameColor, parseVariantLabel } from '@/lib/utils/stock'
+
+/**
+ * Signed-in customers' saved carts (carts / cart_items, see supabase_carts.sql).
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers; callers pass the service-role client.
+ * - The cart is always picked by the verified session's user id, never by an
+ *   id from the request.
+ * - Lines are stored by product, variant id and size. Titles, prices and
+ *   images come from the catalogue on every load, so a saved cart never shows
+ *   a stale price.
+ */
+
+// Same cap as checkout (lib/pricing/server.ts); larger quantities are clamped
+const MAX_LINE_QUANTITY = 20
+
+const cartLineSchema = z.object({
+  product_id: z.string().uuid('Invalid product'),
+  variant_id: z.string().uuid('Invalid variant').nullish(),
+  size: z.string().trim().min(1).max(20).nullish(),
+  // Browser carts saved before lines carried a variant id only have the label
+  variant: z.string().max(200).nullish(),
+  quantity: z.number().int().min(0).transform((quantity) => Math.min(quantity, MAX_LINE_QUANTITY)),
+})
+
+/**
+ * PUT /api/cart payload: one line's new quantity (0 removes it)
+ */
+export const cartLineUpdateSchema = cartLineSchema
+
+/**
+ * POST /api/cart/merge payload: the browser cart at sign-in
+ */
+export const cartMergeSchema = z.object({
+  items: z.array(cartLineSchema).max(100),
+})
+
+export type CartLineInput = z.infer<typeof cartLineSchema>
+
+interface ResolvedCartLine {
+  product_id: string
+  variant_id: string | null
+  size: string | null
+  quantity: number
+}
+
+interface SavedCartItemRow {
+  product_id: string
+  variant_id: string | null
+  size: string | null
+  quantity: number
+  products: {
+    title: string
+    price_cents: number
+    is_active: boolean | null
+    product_images: Array<{ image_url: string; is_primary: boolean; display_order: number }> | null
+  } | null
+  product_variants: { color: string; image_urls: string[] | null } | null
+}
+
+const lineKey = (line: ResolvedCartLine) => `${line.product_id}:${line.variant_id || ''}:${line.size || ''}`
+
+async function getCartId(
+  supabase: SupabaseClient<any, any, any>,
+  userId: string,
+  options: { create: boolean }
+): Promise<string | null> {
+  const { data, error } = await supabase.from('carts').select('id').eq('user_id', userId).maybeSingle()
+
+  if (error) {
+    console.error('Error in getCartId:', error)
+    throw new Error(`Failed to load cart: ${error.message}`)
+  }
+
+  if (data || !options.create) {
+    return data?.id ?? null
+  }
+
+  const { data: created, error: createError } = await supabase
+    .from('carts')
+    .upsert({ user_id: userId }, { onConflict: 'user_id' })
+    .select('id')
+    .single()
+
+  if (createError || !created) {
+    console.error('Error in getCartId:', createError)
+    throw new Error(`Failed to create cart: ${createError?.message || 'Unknown error'}`)
+  }
+
+  return created.id
+}
+
+/**
+ * Match lines to catalogue rows. Lines for removed or hidden products, or a
+ * colour / size the product no longer has, are dropped.
+ */
+async function resolveCartLines(
+  supabase: SupabaseClient<any, any, any>,
+  lines: CartLineInput[]
+): Promise<ResolvedCartLine[]> {
+  const productIds = Array.from(new Set(lines.map((line) => line.product_id)))
+  if (productIds.length === 0) return []
+
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id, is_active, product_variants(id, color, sizes)')
+    .in('id', productIds)
+
+  if (error) {
+    console.error('Error in resolveCartLines:', error)
+    throw new Error(`Failed to load cart products: ${error.message}`)
+  }
+
+  const productsById = new Map(
+    ((products || []) as Array<{
+      id: string
+      is_active: boolean | null
+      product_variants: Array<{ id: string; color: string; sizes: string[] }> | null
+    }>).map((product) => [product.id, product])
+  )
+
+  const resolved: ResolvedCartLine[] = []
+
+  for (const line of lines) {
+    const product = productsById.get(line.product_id)
+    if (!product || product.is_active === false) continue
+
+    const variants = product.product_variants || []
+    if (variants.length === 0) {
+      resolved.push({ product_id: product.id, variant_id: null, size: null, quantity: line.quantity })
+      continue
+    }
+
+    const label = parseVariantLabel(line.variant)
+    const variant = line.variant_id
+      ? variants.find((v) => v.id === line.variant_id)
+      : label.color
+        ? variants.find((v) => isSameColor(v.color, label.color!))
+        : undefined
+    const size = line.size || label.size
+
+    if (!variant || !size || !variant.sizes.includes(size)) continue
+
+    resolved.push({ product_id: product.id, variant_id: variant.id, size, quantity: line.quantity })
+  }
+
+  return resolved
+}
+
+/**
+ * The customer's saved cart, oldest line first, priced from the catalogue
+ */
+export async function getSavedCart(supabase: SupabaseClient<any, any, any>, userId: string): Promise<CartItem[]> {
+  const cartId = await getCartId(supabase, userId, { create: false })
+  if (!cartId) return []
+
+  const { data, error } = await supabase
+    .from('cart_items')
+    .select(
+      `
+      product_id,
+      variant_id,
+      size,
+      quantity,
+      products(title, price_cents, is_active, product_images(image_url, is_primary, display_order)),
+      product_variants(color, image_urls)
+    `
+    )
+    .eq('cart_id', cartId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error in getSavedCart:', error)
+    throw new Error(`Failed to load cart: ${error.message}`)
+  }
+
+  return ((data || []) as unknown as SavedCartItemRow[])
+    .filter((row) => row.products && row.products.is_active !== false)
+    .map((row) => {
+      const product = row.products!
+      const primaryImage = [...(product.product_images || [])].sort((a, b) => {
+        if (a.is_primary !== b.is_primary) return a.is_primary ? -1 : 1
+        return a.display_order - b.display_order
+      })[0]?.image_url
+
+      return {
+        id: row.product_id,
+        variantId: row.variant_id || undefined,
+        size: row.size || undefined,
+        title: product.title,
+        price: product.price_cents / 100,
+        image: row.product_variants?.image_urls?.[0] || primaryImage || '',
+        qty: row.quantity,
+        variant:
+          row.product_variants && row.size ? formatVariantLabel(row.product_variants.color, row.size) : undefined,
+      }
+    })
+}
+
+/**
+ * Set one line's quantity; 0 removes it. Returns false when the item can't
+ * be added (the product, colour or size is gone).
+ */
+export async function setSavedCartLine(
+  supabase: SupabaseClient<any, any, any>,
+  userId: string,
+  line: CartLineInput
+): Promise<boolean> {
+  const [resolved] = await resolveCartLines(supabase, [line])
+
+  // Nothing to remove for an item that is no longer in the catalogue
+  if (!resolved) return line.quantity === 0
+
+  const cartId = await getCartId(supabase, userId, { create: resolved.quantity > 0 })
+  if (!cartId) return true
+
+  if (resolved.quantity === 0) {
+    let query = supabase.from('cart_items').delete().eq('cart_id', cartId).eq('product_id', resolved.product_id)
+    query = resolved.variant_id ? query.eq('variant_id', resolved.variant_id) : query.is('variant_id', null)
+    query = resolved.size ? query.eq('size', resolved.size) : query.is('size', null)
+
+    const { error } = await query
+
+    if (error) {
+      console.error('Error in setSavedCartLine:', error)
+      throw new Error(`Failed to update cart: ${error.message}`)
+    }
+
+    return true
+  }
+
+  const { error } = await supabase
+    .from('cart_items')
+    .upsert({ cart_id: cartId, ...resolved }, { onConflict: 'cart_id,product_id,variant_id,size' })
+
+  if (error) {
+    console.error('Error in setSavedCartLine:', error)
+    throw new Error(`Failed to update cart: ${error.message}`)
+  }
+
+  return true
+}
+
+/**
+ * Fold the browser cart into the saved one at sign-in. A line in both keeps
+ * the larger quantity, so merging the same cart twice changes nothing.
+ * Returns the merged cart.
+ */
+export async function mergeSavedCart(
+  supabase: SupabaseClient<any, any, any>,
+  userId: string,
+  lines: CartLineInput[]
+): Promise<CartItem[]> {
+  const resolved = await resolveCartLines(
+    supabase,
+    lines.filter((line) => line.quantity > 0)
+  )
+
+  if (resolved.length > 0) {
+    const cartId = await getCartId(supabase, userId, { create: true })
+
+    const { data: existing, error: existingError } = await supabase
+      .from('cart_items')
+      .select('product_id, variant_id, size, quantity')
+      .eq('cart_id', cartId)
+
+    if (existingError) {
+      console.error('Error in mergeSavedCart:', existingError)
+      throw new Error(`Failed to load cart: ${existingError.message}`)
+    }
+
+    const merged = new Map<string, ResolvedCartLine>(
+      ((existing || []) as ResolvedCartLine[]).map((line) => [lineKey(line), line])
+    )
+    const changed = new Map<string, ResolvedCartLine>()
+
+    for (const line of resolved) {
+      const key = lineKey(line)
+      const current = changed.get(key) || merged.get(key)
+      const quantity = Math.max(current?.quantity || 0, line.quantity)
+
+      if (!current || quantity !== current.quantity) {
+        changed.set(key, { ...line, quantity })
+      }
+    }
+
+    if (changed.size > 0) {
+      const { error } = await supabase
+        .from('cart_items')
+        .upsert(
+          Array.from(changed.values()).map((line) => ({ cart_id: cartId, ...line })),
+          { onConflict: 'cart_id,product_id,variant_id,size' }
+        )
+
+      if (error) {
+        console.error('Error in mergeSavedCart:', error)
+        throw new Error(`Failed to merge cart: ${error.message}`)
+      }
+    }
+  }
+
+  return getSavedCart(supabase, userId)
+}
+
+/**
+ * Empty the customer's saved cart (after checkout, or "Clear cart")
+ */
+export async function clearSavedCart(supabase: SupabaseClient<any, any, any>, userId: string): Promise<void> {
+  const cartId = await getCartId(supabase, userId, { create: false })
+  if (!cartId) return
+
+  const { error } = await supabase.from('cart_items').delete().eq('cart_id', cartId)
+
+  if (error) {
+    console.error('Error in clearSavedCart:', error)
+    throw new Error(`Failed to clear cart: ${error.message}`)
+  }
+}
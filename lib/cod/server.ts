@@ -0,0 +1,128 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { emailMatchPattern, normalizeEmail } from '@/lib/utils/email'
+import type { CodAvailability, CodSettings } from './types'
+
+/**
+ * Server-side Cash on Delivery rules.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - The checkout UI only shows what checkCodEligibility returns;
+ *   /api/orders/cod checks it again before creating the order.
+ */
+
+const DISABLED_SETTINGS: CodSettings = {
+  is_enabled: false,
+  fee_cents: 0,
+  max_order_cents: null,
+  blocked_pincodes: [],
+  block_rto_customers: true,
+  max_rto_count: 1,
+}
+
+/**
+ * Load the single cod_settings row (COD is off if the row is missing)
+ */
+export async function getCodSettings(supabase: SupabaseClient<any, any, any>): Promise<CodSettings> {
+  const { data, error } = await supabase
+    .from('cod_settings')
+    .select('is_enabled, fee_cents, max_order_cents, blocked_pincodes, block_rto_customers, max_rto_count, updated_at')
+    .eq('id', true)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in getCodSettings:', error)
+    throw new Error(`Failed to load COD settings: ${error.message}`)
+  }
+
+  return data ? { ...data, blocked_pincodes: data.blocked_pincodes || [] } : DISABLED_SETTINGS
+}
+
+/**
+ * Ids of orders returned to origin for this phone (exact) or email (case-insensitive pattern)
+ */
+async function findRtoOrderIds(
+  supabase: SupabaseClient<any, any, any>,
+  column: 'phone' | 'email',
+  value: string
+): Promise<string[]> {
+  let query = supabase.from('orders').select('id').not('rto_at', 'is', null)
+  query = column === 'email' ? query.ilike('email', value) : query.eq('phone', value)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error in checkCodEligibility:', error)
+    throw new Error(`Failed to check COD history: ${error.message}`)
+  }
+
+  return (data || []).map((row: { id: string }) => row.id)
+}
+
+/**
+ * Decide whether COD can be offered for an order.
+ * totalCents should already include the COD fee.
+ */
+export async function checkCodEligibility(
+  supabase: SupabaseClient<any, any, any>,
+  settings: CodSettings,
+  order: { totalCents: number; pincode?: string | null; phone?: string | null; email?: string | null }
+): Promise<CodAvailability> {
+  const unavailable = (reason: string): CodAvailability => ({
+    available: false,
+    fee_cents: settings.fee_cents,
+    reason,
+  })
+
+  if (!settings.is_enabled) {
+    return unavailable('Cash on Delivery is not available right now')
+  }
+
+  if (settings.max_order_cents !== null && order.totalCents > settings.max_order_cents) {
+    return unavailable(
+      `Cash on Delivery is available for orders up to ₹${(settings.max_order_cents / 100).toLocaleString('en-IN')}`
+    )
+  }
+
+  const pincode = order.pincode?.trim() || ''
+  if (pincode && settings.blocked_pincodes.some((prefix) => prefix && pincode.startsWith(prefix))) {
+    return unavailable('Cash on Delivery is not available for this PIN code')
+  }
+
+  const email = normalizeEmail(order.email)
+  if (settings.block_rto_customers && (order.phone || email)) {
+    // Separate queries rather than one .or() filter, which would need the
+    // raw email escaped; an order matching both is counted once
+    const rtoOrderIds = new Set<string>()
+
+    if (order.phone) {
+      for (const id of await findRtoOrderIds(supabase, 'phone', order.phone)) rtoOrderIds.add(id)
+    }
+    if (email) {
+      for (const id of await findRtoOrderIds(supabase, 'email', emailMatchPattern(email))) rtoOrderIds.add(id)
+    }
+
+    if (rtoOrderIds.size >= settings.max_rto_count) {
+      return unavailable('Cash on Delivery is not available for this account. Please pay online.')
+    }
+  }
+
+  return { available: true, fee_cents: settings.fee_cents, reason: null }
+}
+
+/**
+ * Admin payload for updating COD settings (amounts in paise)
+ */
+export const codSettingsInputSchema = z.object({
+  is_enabled: z.boolean(),
+  fee_cents: z.number().int().min(0),
+  max_order_cents: z.number().int().positive().nullable().default(null),
+  blocked_pincodes: z
+    .array(z.string().trim().regex(/^\d{1,6}$/, 'Blocked PIN codes must be 1-6 digits'))
+    .default([]),
+  block_rto_customers: z.boolean().default(true),
+  max_rto_count: z.number().int().min(1).default(1),
+})
+
+export type CodSettingsInput = z.infer<typeof codSettingsInputSchema>
@@ -0,0 +1,16 @@
+export interface CodSettings {
+  is_enabled: boolean
+  fee_cents: number
+  max_order_cents: number | null
+  blocked_pincodes: string[]
+  block_rto_customers: boolean
+  max_rto_count: number
+  updated_at?: string
+}
+
+/** Whether COD can be offered for a cart, returned with checkout quotes */
+export interface CodAvailability {
+  available: boolean
+  fee_cents: number
+  reason: string | null // shopper-facing, set when not available
+}
@@ -0,0 +1,277 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { emailMatchPattern } from '@/lib/utils/email'
+import type { AppliedCoupon, Coupon } from './types'
+
+/**
+ * Server-side coupon validation and discount calculation.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers / lib/pricing/server.ts.
+ * - Usage limits count placed orders that carry the code (orders.coupon_code):
+ *   paid online or Cash on Delivery, and not cancelled.
+ */
+
+/**
+ * PostgREST list for `.not('status', 'in', ...)`: orders in these statuses
+ * haven't used up a redemption (an unpaid draft, or cancelled). COD orders
+ * are confirmed while their payment is still pending, so payment_status
+ * can't be used here.
+ */
+export const UNREDEEMED_ORDER_STATUSES = '(pending,cancelled)'
+
+export interface CouponLine {
+  priceCents: number
+  quantity: number
+  categoryIds: string[] // category_id and subcategory_id of the product
+}
+
+export interface CouponContext {
+  lines: CouponLine[]
+  subtotalCents: number
+  shippingCents: number
+  email?: string | null
+  userId?: string | null
+}
+
+export type CouponResult =
+  | { ok: true; coupon: AppliedCoupon; discountCents: number }
+  | { ok: false; error: string }
+
+/**
+ * Normalize a code typed by a shopper or admin
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/**
+ * Work out the discount a coupon gives on a cart, ignoring validity checks.
+ * Only lines inside the coupon's category scope count towards the discount.
+ */
+export function calculateCouponDiscount(coupon: Coupon, context: CouponContext): number {
+  const scope = coupon.category_ids || []
+  const eligibleLines =
+    scope.length === 0
+      ? context.lines
+      : context.lines.filter((line) => line.categoryIds.some((id) => scope.includes(id)))
+
+  const eligibleSubtotal = eligibleLines.reduce((sum, line) => sum + line.priceCents * line.quantity, 0)
+
+  switch (coupon.discount_type) {
+    case 'percentage': {
+      const discount = Math.floor((eligibleSubtotal * coupon.discount_value) / 100)
+      return coupon.max_discount_cents !== null ? Math.min(discount, coupon.max_discount_cents) : discount
+    }
+    case 'flat':
+      return Math.min(coupon.discount_value, eligibleSubtotal)
+    case 'free_shipping':
+      return eligibleLines.length > 0 ? context.shippingCents : 0
+    case 'buy_x_get_y': {
+      const buy = coupon.buy_quantity || 0
+      const get = coupon.get_quantity || 0
+      if (buy <= 0 || get <= 0) return 0
+
+      // Every (buy + get) units, the cheapest `get` of that group are free
+      const unitPrices = eligibleLines
+        .flatMap((line) => Array.from({ length: line.quantity }, () => line.priceCents))
+        .sort((a, b) => b - a)
+
+      let discount = 0
+      const groupSize = buy + get
+      for (let start = 0; start + groupSize <= unitPrices.length; start += groupSize) {
+        for (let i = start + buy; i < start + groupSize; i++) {
+          discount += unitPrices[i]
+        }
+      }
+      return discount
+    }
+    default:
+      return 0
+  }
+}
+
+/**
+ * Validate a code against a cart and return the discount it gives.
+ * Returns ok: false with a shopper-facing message when it can't be used.
+ */
+export async function applyCoupon(
+  supabase: SupabaseClient<any, any, any>,
+  code: string,
+  context: CouponContext
+): Promise<CouponResult> {
+  const normalizedCode = normalizeCouponCode(code)
+  if (!normalizedCode) {
+    return { ok: false, error: 'Enter a coupon code' }
+  }
+
+  const { data: coupon, error } = await supabase
+    .from('coupons')
+    .select('*')
+    .eq('code', normalizedCode)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in applyCoupon:', error)
+    throw new Error(`Failed to load coupon: ${error.message}`)
+  }
+
+  if (!coupon || !coupon.is_active) {
+    return { ok: false, error: `${normalizedCode} is not a valid coupon code` }
+  }
+
+  const now = Date.now()
+  if (coupon.starts_at && new Date(coupon.starts_at).getTime() > now) {
+    return { ok: false, error: `${normalizedCode} is not active yet` }
+  }
+  if (coupon.ends_at && new Date(coupon.ends_at).getTime() <= now) {
+    return { ok: false, error: `${normalizedCode} has expired` }
+  }
+
+  if (coupon.customer_email) {
+    const email = context.email?.trim().toLowerCase()
+    if (!email) {
+      return { ok: false, error: `Enter your email to use ${normalizedCode}` }
+    }
+    if (email !== coupon.customer_email.toLowerCase()) {
+      return { ok: false, error: `${normalizedCode} is not valid for this account` }
+    }
+  }
+
+  if (context.subtotalCents < coupon.min_cart_cents) {
+    return {
+      ok: false,
+      error: `${normalizedCode} needs a minimum cart value of ₹${(coupon.min_cart_cents / 100).toFixed(2)}`,
+    }
+  }
+
+  if (coupon.usage_limit !== null) {
+    const { count, error: countError } = await supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('coupon_code', normalizedCode)
+      .not('status', 'in', UNREDEEMED_ORDER_STATUSES)
+
+    if (countError) {
+      throw new Error(`Failed to check coupon usage: ${countError.message}`)
+    }
+
+    if ((count || 0) >= coupon.usage_limit) {
+      return { ok: false, error: `${normalizedCode} has been fully redeemed` }
+    }
+  }
+
+  if (coupon.per_customer_limit !== null) {
+    const customerUses = await countCustomerUses(supabase, normalizedCode, context)
+    if (customerUses === null) {
+      return { ok: false, error: `Enter your email to use ${normalizedCode}` }
+    }
+    if (customerUses >= coupon.per_customer_limit) {
+      return { ok: false, error: `You have already used ${normalizedCode}` }
+    }
+  }
+
+  const discountCents = Math.min(
+    calculateCouponDiscount(coupon as Coupon, context),
+    context.subtotalCents + context.shippingCents
+  )
+
+  if (discountCents <= 0) {
+    return { ok: false, error: `${normalizedCode} does not apply to the items in your cart` }
+  }
+
+  return {
+    ok: true,
+    discountCents,
+    coupon: {
+      code: normalizedCode,
+      description: coupon.description,
+      discount_type: coupon.discount_type,
+      discount_cents: discountCents,
+    },
+  }
+}
+
+/**
+ * Count placed orders by this customer (account or email, in any case) that used the code.
+ * Returns null when the customer can't be identified.
+ */
+async function countCustomerUses(
+  supabase: SupabaseClient<any, any, any>,
+  code: string,
+  context: CouponContext
+): Promise<number | null> {
+  const counts: number[] = []
+
+  if (context.userId) {
+    const { count, error } = await supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('coupon_code', code)
+      .not('status', 'in', UNREDEEMED_ORDER_STATUSES)
+      .eq('user_id', context.userId)
+
+    if (error) throw new Error(`Failed to check coupon usage: ${error.message}`)
+    counts.push(count || 0)
+  }
+
+  const email = context.email?.trim()
+  if (email) {
+    const { count, error } = await supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('coupon_code', code)
+      .not('status', 'in', UNREDEEMED_ORDER_STATUSES)
+      .ilike('email', emailMatchPattern(email))
+
+    if (error) throw new Error(`Failed to check coupon usage: ${error.message}`)
+    counts.push(count || 0)
+  }
+
+  return counts.length > 0 ? Math.max(...counts) : null
+}
+
+const optionalCount = z.number().int().positive().nullable().optional()
+
+/**
+ * Admin payload for creating or updating a coupon (amounts in paise)
+ */
+export const couponInputSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3, 'Code must be at least 3 characters')
+      .max(50, 'Code must be at most 50 characters')
+      .regex(/^[A-Za-z0-9_-]+$/, 'Code can only contain letters, numbers, - and _')
+      .transform(normalizeCouponCode),
+    description: z.string().trim().max(500).nullable().optional(),
+    discount_type: z.enum(['percentage', 'flat', 'free_shipping', 'buy_x_get_y']),
+    discount_value: z.number().int().min(0).default(0),
+    max_discount_cents: z.number().int().min(0).nullable().optional(),
+    buy_quantity: optionalCount,
+    get_quantity: optionalCount,
+    category_ids: z.array(z.string().min(1)).default([]),
+    min_cart_cents: z.number().int().min(0).default(0),
+    usage_limit: optionalCount,
+    per_customer_limit: optionalCount,
+    starts_at: z.string().datetime({ offset: true }).nullable().optional(),
+    ends_at: z.string().datetime({ offset: true }).nullable().optional(),
+    is_active: z.boolean().default(true),
+  })
+  .superRefine((coupon, ctx) => {
+    if (coupon.discount_type === 'percentage' && (coupon.discount_value < 1 || coupon.discount_value > 100)) {
+      ctx.addIssue({ code: 'custom', path: ['discount_value'], message: 'Percentage must be between 1 and 100' })
+    }
+    if (coupon.discount_type === 'flat' && coupon.discount_value <= 0) {
+      ctx.addIssue({ code: 'custom', path: ['discount_value'], message: 'Flat discount must be greater than 0' })
+    }
+    if (coupon.discount_type === 'buy_x_get_y' && (!coupon.buy_quantity || !coupon.get_quantity)) {
+      ctx.addIssue({ code: 'custom', path: ['buy_quantity'], message: 'Buy and get quantities are required' })
+    }
+    if (coupon.starts_at && coupon.ends_at && new Date(coupon.starts_at) >= new Date(coupon.ends_at)) {
+      ctx.addIssue({ code: 'custom', path: ['ends_at'], message: 'End date must be after the start date' })
+    }
+  })
+
+export type CouponInput = z.infer<typeof couponInputSchema>
@@ -0,0 +1,37 @@
+export type CouponDiscountType = 'percentage' | 'flat' | 'free_shipping' | 'buy_x_get_y'
+
+export interface Coupon {
+  id: string
+  code: string
+  description: string | null
+  discount_type: CouponDiscountType
+  discount_value: number // percent for 'percentage', paise for 'flat'
+  max_discount_cents: number | null
+  buy_quantity: number | null
+  get_quantity: number | null
+  category_ids: string[]
+  min_cart_cents: number
+  usage_limit: number | null
+  per_customer_limit: number | null
+  starts_at: string | null
+  ends_at: string | null
+  is_active: boolean
+  customer_email: string | null // store credit: only this customer can use it
+  created_at: string
+  updated_at: string
+}
+
+/** Coupon summary returned with a quote */
+export interface AppliedCoupon {
+  code: string
+  description: string | null
+  discount_type: CouponDiscountType
+  discount_cents: number
+}
+
+export const COUPON_TYPE_LABELS: Record<CouponDiscountType, string> = {
+  percentage: 'Percentage off',
+  flat: 'Flat amount off',
+  free_shipping: 'Free shipping',
+  buy_x_get_y: 'Buy X get Y free',
+}
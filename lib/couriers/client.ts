@@ -0,0 +1,16 @@
+import type { PublicTracking } from './types'
+
+/**
+ * Public tracking details for an order number; null if there is no such order
+ */
+export async function fetchTracking(orderNumber: string): Promise<PublicTracking | null> {
+  const response = await fetch(`/api/track/${encodeURIComponent(orderNumber)}`, { cache: 'no-store' })
+  if (response.status === 404) return null
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to load tracking')
+  }
+
+  return data.tracking
+}
@@ -0,0 +1,90 @@
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib'
+import type { CourierAdapter, ShipmentRequest, TrackingEvent, TrackingResult, TrackingStatus } from './types'
+
+/**
+ * Local fake courier for development and staging. Nothing leaves the app:
+ * the booking time is encoded in the AWB and tracking is derived from it, so
+ * a shipment moves one scan forward every FAKE_COURIER_STEP_MINUTES
+ * (default 2) until it is delivered.
+ */
+
+const FAKE_AWB_PATTERN = /^FAKE([0-9A-Z]+)-[0-9A-Z]{4}$/
+
+const DELIVERY_SCANS: Array<{ status: TrackingStatus; description: string; location: string | null }> = [
+  { status: 'created', description: 'Shipment booked, awaiting pickup', location: null },
+  { status: 'picked_up', description: 'Picked up from seller', location: 'Origin hub' },
+  { status: 'in_transit', description: 'Arrived at destination hub', location: 'Destination hub' },
+  { status: 'out_for_delivery', description: 'Out for delivery', location: 'Delivery centre' },
+  { status: 'delivered', description: 'Delivered', location: 'Delivery centre' },
+]
+
+function stepMs(): number {
+  const minutes = Number(process.env.FAKE_COURIER_STEP_MINUTES)
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : 2) * 60 * 1000
+}
+
+export const fakeCourier: CourierAdapter = {
+  id: 'fake',
+  name: 'Fake Courier',
+
+  async createShipment() {
+    const bookedAt = Date.now().toString(36).toUpperCase()
+    const suffix = Math.random().toString(36).slice(2, 6).toUpperCase().padEnd(4, '0')
+    return { awb: `FAKE${bookedAt}-${suffix}` }
+  },
+
+  async getLabel(awb: string, shipment: ShipmentRequest) {
+    const pdf = await PDFDocument.create()
+    pdf.setTitle(`Shipping label ${awb}`)
+    const font = await pdf.embedFont(StandardFonts.Helvetica)
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+    // 4x6 inch thermal label
+    const page = pdf.addPage([288, 432])
+    let y = 400
+    const line = (text: string, size = 10, useBold = false) => {
+      page.drawText(text.replace(/[^\x20-\x7E]/g, '?'), { x: 18, y, size, font: useBold ? bold : font, color: rgb(0, 0, 0) })
+      y -= size + 6
+    }
+
+    line('FAKE COURIER - NOT A REAL SHIPMENT', 9, true)
+    y -= 6
+    line(awb, 20, true)
+    line(`Order ${shipment.order_number}`, 10)
+    y -= 10
+    line('DELIVER TO', 8, true)
+    line(shipment.recipient.name, 12, true)
+    line(shipment.recipient.address.slice(0, 48), 10)
+    line(`${shipment.recipient.city}, ${shipment.recipient.state} ${shipment.recipient.pincode}`, 10)
+    line(`Phone: ${shipment.recipient.phone}`, 10)
+    y -= 10
+    line(
+      shipment.cod_amount_cents > 0 ? `COD - COLLECT Rs. ${(shipment.cod_amount_cents / 100).toFixed(2)}` : 'PREPAID',
+      14,
+      true
+    )
+    y -= 6
+    for (const item of shipment.items.slice(0, 8)) {
+      line(`${item.quantity} x ${item.title}`.slice(0, 52), 8)
+    }
+
+    return pdf.save()
+  },
+
+  async getTracking(awb: string): Promise<TrackingResult> {
+    const match = awb.match(FAKE_AWB_PATTERN)
+    const bookedAt = match ? parseInt(match[1], 36) : NaN
+    if (!Number.isFinite(bookedAt)) {
+      throw new Error(`Unknown fake AWB ${awb}`)
+    }
+
+    const reached = Math.min(Math.floor((Date.now() - bookedAt) / stepMs()), DELIVERY_SCANS.length - 1)
+
+    const events: TrackingEvent[] = DELIVERY_SCANS.slice(0, reached + 1).map((scan, index) => ({
+      ...scan,
+      timestamp: new Date(bookedAt + index * stepMs()).toISOString(),
+    }))
+
+    return { status: events[events.length - 1].status, events }
+  },
+}
@@ -0,0 +1,403 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { recordAuditEvent } from '@/lib/audit/server'
+import { hasShipment } from '@/lib/orders/lifecycle'
+import { transitionOrder } from '@/lib/orders/server'
+import { fakeCourier } from './fake'
+import { getTrackingUrl } from './tracking-links'
+import type {
+  CourierAdapter,
+  PublicTracking,
+  ShipmentRequest,
+  TrackingStatus,
+  TrackingSyncResult,
+  TrackingSyncSummary,
+} from './types'
+
+/**
+ * Courier integration: booking shipments, fetching labels and polling
+ * tracking through a pluggable CourierAdapter.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - The active courier is COURIER_PROVIDER (an id in COURIER_ADAPTERS).
+ *   Outside production it defaults to the local fake courier; in production
+ *   booking is off until a provider is configured.
+ * - Booking stores the AWB as the order's tracking number but leaves the
+ *   status alone. Tracking sync moves the order to shipped once the courier
+ *   has the parcel and to delivered on delivery, always through
+ *   transitionOrder (lib/orders/server.ts).
+ */
+
+export const COURIER_ADAPTERS: Record<string, CourierAdapter> = {
+  [fakeCourier.id]: fakeCourier,
+}
+
+export const MAX_TRACKING_SYNC_BATCH = 100
+
+/** Orders waiting on, or out with, a courier */
+const TRACKED_ORDER_STATUSES = ['confirmed', 'processing', 'shipped']
+
+/** Scans that mean the courier has the parcel */
+const IN_CARRIER_STATUSES: TrackingStatus[] = ['picked_up', 'in_transit', 'out_for_delivery', 'delivered', 'returned']
+
+const SHIPMENT_ORDER_COLUMNS =
+  'id, order_number, status, email, phone, address_json, items_json, total_cents, payment_method, payment_status, tracking_number, shipping_provider, courier_id, tracking_status'
+
+interface ShipmentOrderRow {
+  id: string
+  order_number: string
+  status: string
+  email: string | null
+  phone: string | null
+  address_json: any
+  items_json: Array<{ title: string; quantity: number }> | null
+  total_cents: number
+  payment_method: string | null
+  payment_status: string
+  tracking_number: string | null
+  shipping_provider: string | null
+  courier_id: string | null
+  tracking_status: TrackingStatus | null
+}
+
+/**
+ * The courier adapter for an id, or the configured default. Null when no
+ * courier is set up.
+ */
+export function getCourierAdapter(id?: string | null): CourierAdapter | null {
+  const courierId = id || process.env.COURIER_PROVIDER || (process.env.NODE_ENV !== 'production' ? fakeCourier.id : null)
+  return courierId ? COURIER_ADAPTERS[courierId] ?? null : null
+}
+
+async function loadShipmentOrder(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<ShipmentOrderRow | null> {
+  const { data, error } = await supabase.from('orders').select(SHIPMENT_ORDER_COLUMNS).eq('id', orderId).maybeSingle()
+
+  if (error) {
+    console.error('Error in loadShipmentOrder:', error)
+    throw new Error(`Failed to load order: ${error.message}`)
+  }
+
+  return data as ShipmentOrderRow | null
+}
+
+function toShipmentRequest(order: ShipmentOrderRow): ShipmentRequest {
+  const address = order.address_json || {}
+  const collectOnDelivery = order.payment_method === 'cod' && order.payment_status !== 'paid'
+
+  return {
+    order_id: order.id,
+    order_number: order.order_number,
+    recipient: {
+      name: address.fullName || '',
+      phone: address.phone || order.phone || '',
+      email: order.email,
+      address: [address.flat, address.street, address.landmark ? `Near ${address.landmark}` : null]
+        .filter(Boolean)
+        .join(', '),
+      city: address.city || '',
+      state: address.state || '',
+      pincode: address.pincode || '',
+    },
+    items: (order.items_json || []).map((item) => ({ title: item.title, quantity: item.quantity })),
+    cod_amount_cents: collectOnDelivery ? order.total_cents : 0,
+    declared_value_cents: order.total_cents,
+  }
+}
+
+/**
+ * Book a pickup for a confirmed or processing order and store its AWB.
+ * An order is only booked once; the booking is recorded in the audit log.
+ */
+export async function createOrderShipment(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string,
+  courierId: string | null,
+  actorId: string
+): Promise<{ ok: true; order: any } | { ok: false; error: string; status: number }> {
+  const order = await loadShipmentOrder(supabase, orderId)
+  if (!order) {
+    return { ok: false, error: 'Order not found', status: 404 }
+  }
+
+  if (order.status !== 'confirmed' && order.status !== 'processing') {
+    return { ok: false, error: 'Only confirmed or processing orders can be booked with a courier', status: 409 }
+  }
+
+  if (hasShipment(order)) {
+    return { ok: false, error: 'This order already has a shipment', status: 409 }
+  }
+
+  const courier = getCourierAdapter(courierId)
+  if (!courier) {
+    return {
+      ok: false,
+      error: courierId ? `Unknown courier "${courierId}"` : 'No courier is configured. Set COURIER_PROVIDER.',
+      status: 400,
+    }
+  }
+
+  let awb: string
+  try {
+    ;({ awb } = await courier.createShipment(toShipmentRequest(order)))
+  } catch (error: any) {
+    console.error('[Couriers] Booking failed:', order.order_number, error)
+    return { ok: false, error: `${courier.name} could not book the shipment: ${error?.message || 'Unknown error'}`, status: 502 }
+  }
+
+  const now = new Date().toISOString()
+  const { data: updatedOrder, error } = await supabase
+    .from('orders')
+    .update({
+      courier_id: courier.id,
+      tracking_number: awb,
+      shipping_provider: courier.name,
+      tracking_status: 'created',
+      tracking_events: [],
+      tracking_checked_at: null,
+      updated_at: now,
+    })
+    .eq('id', order.id)
+    .is('courier_id', null)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in createOrderShipment:', error)
+    throw new Error(`Failed to save shipment: ${error.message}`)
+  }
+
+  if (!updatedOrder) {
+    return { ok: false, error: 'This order already has a shipment', status: 409 }
+  }
+
+  await recordAuditEvent(supabase, {
+    actorId,
+    action: 'update',
+    entityType: 'order',
+    entityId: order.id,
+    entityLabel: order.order_number,
+    before: { courier_id: null, tracking_number: null, shipping_provider: order.shipping_provider },
+    after: { courier_id: courier.id, tracking_number: awb, shipping_provider: courier.name },
+  })
+
+  return { ok: true, order: updatedOrder }
+}
+
+/**
+ * Shipping label PDF for a booked order
+ */
+export async function getOrderShipmentLabel(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<{ ok: true; pdf: Uint8Array; order_number: string } | { ok: false; error: string; status: number }> {
+  const order = await loadShipmentOrder(supabase, orderId)
+  if (!order) {
+    return { ok: false, error: 'Order not found', status: 404 }
+  }
+
+  const courier = order.courier_id ? COURIER_ADAPTERS[order.courier_id] : null
+  if (!courier || !order.tracking_number) {
+    return { ok: false, error: 'This order was not booked through a courier integration', status: 404 }
+  }
+
+  try {
+    const pdf = await courier.getLabel(order.tracking_number, toShipmentRequest(order))
+    return { ok: true, pdf, order_number: order.order_number }
+  } catch (error: any) {
+    console.error('[Couriers] Label failed:', order.order_number, error)
+    return { ok: false, error: `${courier.name} could not provide the label: ${error?.message || 'Unknown error'}`, status: 502 }
+  }
+}
+
+/**
+ * Tracking details for the public /track page, looked up by order number.
+ * Only what a courier's own tracking page would show: no names, contact
+ * details, items or status notes.
+ */
+export async function getPublicTracking(
+  supabase: SupabaseClient<any, any, any>,
+  orderNumber: string
+): Promise<PublicTracking | null> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select(
+      'order_number, status, status_history, created_at, address_json, tracking_number, shipping_provider, tracking_status, tracking_events, tracking_checked_at'
+    )
+    .eq('order_number', orderNumber)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in getPublicTracking:', error)
+    throw new Error(`Failed to load order: ${error.message}`)
+  }
+
+  // Drafts that were never paid for are not orders yet
+  if (!order || order.status === 'pending') {
+    return null
+  }
+
+  const timeline = (Array.isArray(order.status_history) ? order.status_history : [])
+    .filter((entry: any) => entry?.status && entry?.timestamp)
+    .map((entry: any) => ({ status: String(entry.status), timestamp: String(entry.timestamp) }))
+    // Notes are dropped, so repeated entries (refunds, admin notes) would only repeat the status
+    .filter((entry: { status: string }, index: number, entries: Array<{ status: string }>) =>
+      index === 0 || entries[index - 1].status !== entry.status
+    )
+
+  return {
+    order_number: order.order_number,
+    status: order.status,
+    placed_at: order.created_at,
+    timeline,
+    shipment: order.tracking_number
+      ? {
+          provider: order.shipping_provider,
+          tracking_number: order.tracking_number,
+          tracking_url: getTrackingUrl(order.shipping_provider, order.tracking_number),
+          status: order.tracking_status,
+          events: Array.isArray(order.tracking_events) ? order.tracking_events : [],
+          checked_at: order.tracking_checked_at,
+        }
+      : null,
+    destination: { city: order.address_json?.city || null, state: order.address_json?.state || null },
+  }
+}
+
+/**
+ * Poll one order's courier and apply what the scans say
+ */
+async function syncOrderTracking(
+  supabase: SupabaseClient<any, any, any>,
+  order: ShipmentOrderRow
+): Promise<TrackingSyncResult> {
+  const result = (action: TrackingSyncResult['action'], note: string, trackingStatus: TrackingStatus | null) => ({
+    order_id: order.id,
+    order_number: order.order_number,
+    tracking_status: trackingStatus,
+    action,
+    note,
+  })
+
+  const courier = order.courier_id ? COURIER_ADAPTERS[order.courier_id] : null
+  if (!courier || !order.tracking_number) {
+    return result('error', `Unknown courier "${order.courier_id}"`, order.tracking_status)
+  }
+
+  const tracking = await courier.getTracking(order.tracking_number)
+  const latest = tracking.events[tracking.events.length - 1]
+
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      tracking_status: tracking.status,
+      tracking_events: tracking.events,
+      tracking_checked_at: new Date().toISOString(),
+    })
+    .eq('id', order.id)
+
+  if (error) {
+    console.error('Error in syncOrderTracking:', error)
+    throw new Error(`Failed to save tracking: ${error.message}`)
+  }
+
+  let status = order.status
+
+  if (status !== 'shipped' && IN_CARRIER_STATUSES.includes(tracking.status)) {
+    const shipped = await transitionOrder(supabase, order.id, {
+      to: 'shipped',
+      note: `Picked up by ${courier.name} (AWB ${order.tracking_number})`,
+    })
+    if (!shipped.ok) {
+      return result('error', shipped.error, tracking.status)
+    }
+    status = 'shipped'
+  }
+
+  if (tracking.status === 'delivered') {
+    const delivered = await transitionOrder(supabase, order.id, {
+      to: 'delivered',
+      note: `Delivered by ${courier.name}${latest?.location ? ` (${latest.location})` : ''}`,
+    })
+    return delivered.ok
+      ? result('delivered', 'Marked delivered from courier tracking', tracking.status)
+      : result('error', delivered.error, tracking.status)
+  }
+
+  if (tracking.status === 'returned') {
+    const isUnpaidCod = order.payment_method === 'cod' && order.payment_status !== 'paid'
+    const returned = await transitionOrder(supabase, order.id, {
+      to: 'returned',
+      rto: isUnpaidCod,
+      note: `Returned to seller by ${courier.name}${latest?.description ? `: ${latest.description}` : ''}`,
+    })
+    return returned.ok
+      ? result('returned', 'Marked returned from courier tracking', tracking.status)
+      : result('error', returned.error, tracking.status)
+  }
+
+  if (status !== order.status) {
+    return result('shipped', 'Marked shipped from courier tracking', tracking.status)
+  }
+
+  return result('unchanged', latest?.description || 'No new scans', tracking.status)
+}
+
+/**
+ * Poll tracking for every open order booked through a courier integration
+ */
+export async function syncShipmentTracking(
+  supabase: SupabaseClient<any, any, any>,
+  options: { limit?: number } = {}
+): Promise<TrackingSyncSummary> {
+  const limit = Math.min(Math.max(options.limit || MAX_TRACKING_SYNC_BATCH, 1), MAX_TRACKING_SYNC_BATCH)
+
+  // Least recently checked first, so a large backlog is worked through over runs
+  const { data, error } = await supabase
+    .from('orders')
+    .select(SHIPMENT_ORDER_COLUMNS)
+    .not('courier_id', 'is', null)
+    .in('status', TRACKED_ORDER_STATUSES)
+    .order('tracking_checked_at', { ascending: true, nullsFirst: true })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error in syncShipmentTracking:', error)
+    throw new Error(`Failed to load shipments: ${error.message}`)
+  }
+
+  const summary: TrackingSyncSummary = {
+    checked: 0,
+    shipped: 0,
+    delivered: 0,
+    returned: 0,
+    unchanged: 0,
+    errors: 0,
+    results: [],
+  }
+
+  for (const order of (data || []) as ShipmentOrderRow[]) {
+    let outcome: TrackingSyncResult
+    try {
+      outcome = await syncOrderTracking(supabase, order)
+    } catch (error: any) {
+      console.error('[Couriers] Tracking sync failed:', order.order_number, error)
+      outcome = {
+        order_id: order.id,
+        order_number: order.order_number,
+        tracking_status: order.tracking_status,
+        action: 'error',
+        note: error?.message || 'Unknown error',
+      }
+    }
+
+    summary.checked += 1
+    if (outcome.action === 'error') summary.errors += 1
+    else summary[outcome.action] += 1
+    summary.results.push(outcome)
+  }
+
+  return summary
+}
@@ -0,0 +1,31 @@
+/**
+ * Carrier tracking page links. Safe to import from client components.
+ * shipping_provider is free text typed by admins (or an adapter's name), so
+ * carriers are matched on a normalised name.
+ */
+
+const TRACKING_URL_TEMPLATES: Array<{ match: string[]; url: string }> = [
+  { match: ['delhivery'], url: 'https://www.delhivery.com/track/package/{awb}' },
+  { match: ['bluedart'], url: 'https://www.bluedart.com/trackdartresultthirdparty?trackFor=0&trackNo={awb}' },
+  { match: ['dtdc'], url: 'https://www.dtdc.in/trace.asp?strCnno={awb}' },
+  { match: ['ekart', 'flipkart'], url: 'https://ekartlogistics.com/shipmenttrack/{awb}' },
+  { match: ['xpressbees'], url: 'https://www.xpressbees.com/shipment/tracking?awbNo={awb}' },
+  { match: ['ecomexpress', 'ecom'], url: 'https://ecomexpress.in/tracking/?awb_field={awb}' },
+  { match: ['shadowfax'], url: 'https://tracker.shadowfax.in/#/track/{awb}' },
+  { match: ['shiprocket'], url: 'https://shiprocket.co/tracking/{awb}' },
+  { match: ['indiapost', 'speedpost'], url: 'https://www.indiapost.gov.in/_layouts/15/dop.portal.tracking/trackconsignment.aspx?consignment={awb}' },
+]
+
+/**
+ * The carrier's public tracking page for a shipment, or null for carriers
+ * without a known link (including the local fake courier)
+ */
+export function getTrackingUrl(provider: string | null | undefined, trackingNumber: string | null | undefined): string | null {
+  const awb = trackingNumber?.trim()
+  if (!provider || !awb) return null
+
+  const normalised = provider.toLowerCase().replace(/[^a-z]/g, '')
+  const template = TRACKING_URL_TEMPLATES.find(({ match }) => match.some((name) => normalised.includes(name)))
+
+  return template ? template.url.replace('{awb}', encodeURIComponent(awb)) : null
+}
@@ -0,0 +1,113 @@
+/**
+ * Courier integration types. Safe to import from client components; the
+ * adapters and the order side (booking, tracking sync) live in
+ * lib/couriers/server.ts.
+ */
+
+/** Normalised courier scan status, whatever the carrier calls it */
+export type TrackingStatus =
+  | 'created'
+  | 'picked_up'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'returned'
+  | 'exception'
+
+export const TRACKING_STATUS_LABELS: Record<TrackingStatus, string> = {
+  created: 'Shipment booked',
+  picked_up: 'Picked up',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  returned: 'Returned to seller',
+  exception: 'Delivery exception',
+}
+
+/** One courier scan */
+export interface TrackingEvent {
+  status: TrackingStatus
+  description: string
+  location: string | null
+  timestamp: string
+}
+
+export interface TrackingResult {
+  status: TrackingStatus
+  events: TrackingEvent[]
+}
+
+/** What a courier needs to book a pickup for an order */
+export interface ShipmentRequest {
+  order_id: string
+  order_number: string
+  recipient: {
+    name: string
+    phone: string
+    email: string | null
+    address: string
+    city: string
+    state: string
+    pincode: string
+  }
+  items: Array<{ title: string; quantity: number }>
+  /** Amount to collect at the door; 0 for prepaid orders */
+  cod_amount_cents: number
+  declared_value_cents: number
+}
+
+export interface CreatedShipment {
+  /** Air waybill number, stored as the order's tracking number */
+  awb: string
+}
+
+/**
+ * A courier integration. Adding a carrier means implementing this and
+ * registering it in COURIER_ADAPTERS (lib/couriers/server.ts).
+ */
+export interface CourierAdapter {
+  /** Stored on orders.courier_id */
+  id: string
+  /** Shown to customers and used to build tracking links */
+  name: string
+  createShipment(shipment: ShipmentRequest): Promise<CreatedShipment>
+  /** Shipping label PDF; carriers that look labels up by AWB can ignore the shipment */
+  getLabel(awb: string, shipment: ShipmentRequest): Promise<Uint8Array>
+  getTracking(awb: string): Promise<TrackingResult>
+}
+
+/** Public view of an order for /track/[orderNumber]; no personal details */
+export interface PublicTracking {
+  order_number: string
+  status: string
+  placed_at: string
+  timeline: Array<{ status: string; timestamp: string }>
+  shipment: {
+    provider: string | null
+    tracking_number: string
+    tracking_url: string | null
+    status: TrackingStatus | null
+    events: TrackingEvent[]
+    checked_at: string | null
+  } | null
+  destination: { city: string | null; state: string | null }
+}
+
+/** Outcome of polling one order's shipment */
+export interface TrackingSyncResult {
+  order_id: string
+  order_number: string
+  tracking_status: TrackingStatus | null
+  action: 'shipped' | 'delivered' | 'returned' | 'unchanged' | 'error'
+  note: string
+}
+
+export interface TrackingSyncSummary {
+  checked: number
+  shipped: number
+  delivered: number
+  returned: number
+  unchanged: number
+  errors: number
+  results: TrackingSyncResult[]
+}
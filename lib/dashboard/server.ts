@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ADMIN_VISIBLE_ORDERS_FILTER } from '@/lib/orders/list'
+import {
+  LOW_STOCK_THRESHOLD,
+  type DashboardPeriod,
+  type DashboardRecentOrder,
+  type DashboardSales,
+  type DashboardStats,
+} from './types'
+
+/**
+ * Admin dashboard figures.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - Every figure is aggregated in Postgres by the dashboard_* functions in
+ *   supabase_dashboard.sql; only the small result sets come back here.
+ * - Days start at midnight India time.
+ */
+
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000
+
+const PERIOD_DAYS: Record<DashboardPeriod, number> = { today: 1, '7d': 7, '30d': 30 }
+
+const RECENT_ORDERS_LIMIT = 10
+const TOP_LIMIT = 5
+
+/**
+ * Start of the India-time day `days - 1` days before today, as ISO
+ */
+function periodStart(days: number, now = new Date()): string {
+  const today = new Date(now.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10)
+  const start = new Date(`${today}T00:00:00+05:30`)
+  start.setUTCDate(start.getUTCDate() - (days - 1))
+  return start.toISOString()
+}
+
+async function rpcRows<T = any>(
+  supabase: SupabaseClient<any, any, any>,
+  fn: string,
+  args: Record<string, unknown>
+): Promise<T[]> {
+  const { data, error } = await supabase.rpc(fn, args)
+  if (error) {
+    console.error(`Error in ${fn}:`, error)
+    throw new Error(`Failed to load dashboard (${fn}): ${error.message}`)
+  }
+  return (data as T[]) || []
+}
+
+/**
+ * Load every dashboard figure in parallel
+ */
+export async function getDashboardStats(supabase: SupabaseClient<any, any, any>): Promise<DashboardStats> {
+  const now = new Date()
+  const since30 = periodStart(PERIOD_DAYS['30d'], now)
+  const periods = Object.keys(PERIOD_DAYS) as DashboardPeriod[]
+
+  const [salesRows, statusRows, paymentRows, topByUnits, topByRevenue, topCategories, lowStock, recentOrders] =
+    await Promise.all([
+      Promise.all(
+        periods.map((period) =>
+          rpcRows(supabase, 'dashboard_sales_since', { p_since: periodStart(PERIOD_DAYS[period], now) })
+        )
+      ),
+      rpcRows(supabase, 'dashboard_orders_by_status', { p_since: since30 }),
+      rpcRows(supabase, 'dashboard_payment_attempts', { p_since: since30 }),
+      rpcRows(supabase, 'dashboard_top_products', { p_since: since30, p_order_by: 'units', p_limit: TOP_LIMIT }),
+      rpcRows(supabase, 'dashboard_top_products', { p_since: since30, p_order_by: 'revenue', p_limit: TOP_LIMIT }),
+      rpcRows(supabase, 'dashboard_top_categories', { p_since: since30, p_limit: TOP_LIMIT }),
+      rpcRows(supabase, 'dashboard_low_stock', { p_threshold: LOW_STOCK_THRESHOLD, p_limit: 20 }),
+      getRecentOrders(supabase),
+    ])
+
+  const sales: DashboardSales[] = periods.map((period, index) => {
+    const row = salesRows[index][0] || {}
+    return {
+      period,
+      orders: Number(row.order_count) || 0,
+      revenue_cents: Number(row.revenue_cents) || 0,
+      aov_cents: Number(row.aov_cents) || 0,
+    }
+  })
+
+  const attempts = Number(paymentRows[0]?.attempts) || 0
+  const failed = Number(paymentRows[0]?.failed) || 0
+
+  const toProduct = (row: any) => ({
+    product_id: row.product_id,
+    title: row.title || 'Unknown product',
+    units: Number(row.units) || 0,
+    revenue_cents: Number(row.revenue_cents) || 0,
+  })
+
+  return {
+    sales,
+    orders_by_status: statusRows
+      .map((row) => ({ status: row.status, orders: Number(row.order_count) || 0 }))
+      .sort((a, b) => b.orders - a.orders),
+    payments: { attempts, failed, failure_rate: attempts > 0 ? failed / attempts : 0 },
+    top_products_by_units: topByUnits.map(toProduct),
+    top_products_by_revenue: topByRevenue.map(toProduct),
+    top_categories: topCategories.map((row) => ({
+      category_id: row.category_id,
+      name: row.name,
+      units: Number(row.units) || 0,
+      revenue_cents: Number(row.revenue_cents) || 0,
+    })),
+    low_stock: lowStock.map((row) => ({ ...row, quantity: Number(row.quantity) || 0 })),
+    recent_orders: recentOrders,
+    generated_at: now.toISOString(),
+  }
+}
+
+/**
+ * Newest orders for the live feed
+ */
+async function getRecentOrders(supabase: SupabaseClient<any, any, any>): Promise<DashboardRecentOrder[]> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('id, order_number, address_json, total_cents, status, payment_status, payment_method, created_at')
+    .or(ADMIN_VISIBLE_ORDERS_FILTER)
+    .order('created_at', { ascending: false })
+    .limit(RECENT_ORDERS_LIMIT)
+
+  if (error) {
+    console.error('Error in getRecentOrders:', error)
+    throw new Error(`Failed to fetch recent orders: ${error.message}`)
+  }
+
+  return (data || []).map(({ address_json, ...order }: any) => ({
+    ...order,
+    customer_name: address_json?.fullName || null,
+  }))
+}
@@ -0,0 +1,72 @@
+/**
+ * Admin dashboard figures, as returned by GET /api/admin/dashboard.
+ * Amounts are in paise (cents), like the orders table.
+ */
+
+export type DashboardPeriod = 'today' | '7d' | '30d'
+
+export const DASHBOARD_PERIOD_LABELS: Record<DashboardPeriod, string> = {
+  today: 'Today',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+}
+
+/** Sizes at or below this quantity are listed as low stock */
+export const LOW_STOCK_THRESHOLD = 3
+
+export interface DashboardSales {
+  period: DashboardPeriod
+  /** Accepted orders (paid or verified COD, not cancelled) */
+  orders: number
+  /** Order totals less refunds */
+  revenue_cents: number
+  aov_cents: number
+}
+
+export interface DashboardTopProduct {
+  product_id: string
+  title: string
+  units: number
+  revenue_cents: number
+}
+
+export interface DashboardTopCategory {
+  category_id: string | null
+  name: string
+  units: number
+  revenue_cents: number
+}
+
+export interface DashboardLowStockItem {
+  product_id: string
+  title: string
+  color: string
+  size: string
+  quantity: number
+}
+
+export interface DashboardRecentOrder {
+  id: string
+  order_number: string
+  customer_name: string | null
+  total_cents: number
+  status: string
+  payment_status: string
+  payment_method: string | null
+  created_at: string
+}
+
+export interface DashboardStats {
+  sales: DashboardSales[]
+  /** Last 30 days, same orders as the admin orders list */
+  orders_by_status: Array<{ status: string; orders: number }>
+  /** Online payments in the last 30 days */
+  payments: { attempts: number; failed: number; failure_rate: number }
+  /** Last 30 days */
+  top_products_by_units: DashboardTopProduct[]
+  top_products_by_revenue: DashboardTopProduct[]
+  top_categories: DashboardTopCategory[]
+  low_stock: DashboardLowStockItem[]
+  recent_orders: DashboardRecentOrder[]
+  generated_at: string
+}
@@ -0,0 +1,374 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isSameColor, parseVariantLabel } from '@/lib/utils/stock'
+
+/**
+ * Server-side inventory helpers.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers; it expects a service role client.
+ */
+
+/** How long a draft order holds its items while the shopper pays */
+export const STOCK_RESERVATION_TTL_MINUTES = 15
+
+interface OrderStockItem {
+  id: string
+  title?: string
+  quantity: number
+  variant?: string | null
+}
+
+export interface StockReservationResult {
+  reserved: boolean
+  expiresAt: string
+  unavailable: Array<{ productId: string; title?: string; color: string; size: string }>
+}
+
+export interface StockDeductionResult {
+  deducted: boolean
+  reason?: 'already-deducted' | 'order-not-found'
+  lines: Array<{ productId: string; color: string | null; size: string | null; remaining: number | null }>
+  /** Lines that had fewer pieces in stock than the order took */
+  short: Array<{ productId: string; title?: string; color: string; size: string; missing: number }>
+}
+
+export interface StockRestockResult {
+  restocked: boolean
+  lines: StockDeductionResult['lines']
+}
+
+/** One short line as written in the order's review note */
+function describeShortLine(line: StockDeductionResult['short'][number]): string {
+  return `${line.title || line.productId} (${line.color}, ${line.size}): ${line.missing} short`
+}
+
+/**
+ * Resolve an order line to the product variant and size it draws stock from
+ */
+async function resolveOrderLine(
+  supabase: SupabaseClient<any, any, any>,
+  item: OrderStockItem
+): Promise<{ variantId: string; color: string; size: string; quantity: number } | null> {
+  const { color, size } = parseVariantLabel(item.variant)
+  if (!item.id || !color || !size) return null
+
+  const { data: variants, error: variantsError } = await supabase
+    .from('product_variants')
+    .select('id, color')
+    .eq('product_id', item.id)
+
+  if (variantsError) {
+    console.error('[Inventory] Failed to load variants for product:', item.id, variantsError)
+    return null
+  }
+
+  const variant = (variants || []).find((v: { id: string; color: string }) => isSameColor(v.color, color))
+  if (!variant) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn('[Inventory] No variant matches order line:', { productId: item.id, color, size })
+    }
+    return null
+  }
+
+  return {
+    variantId: variant.id,
+    color,
+    size,
+    quantity: Math.max(1, Math.floor(Number(item.quantity) || 1)),
+  }
+}
+
+/**
+ * Hold the items of a draft order while the shopper pays.
+ *
+ * All-or-nothing: if any line is short of stock, everything reserved for
+ * the order so far is released again and the short lines are returned.
+ */
+export async function reserveOrderStock(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string,
+  items: OrderStockItem[]
+): Promise<StockReservationResult> {
+  const expiresAt = new Date(Date.now() + STOCK_RESERVATION_TTL_MINUTES * 60 * 1000).toISOString()
+
+  // Return abandoned holds to stock before checking availability
+  const { error: sweepError } = await supabase.rpc('release_stock_reservations')
+  if (sweepError) {
+    console.error('[Inventory] Failed to release expired reservations:', sweepError)
+  }
+
+  const unavailable: StockReservationResult['unavailable'] = []
+
+  for (const item of Array.isArray(items) ? items : []) {
+    const line = await resolveOrderLine(supabase, item)
+    if (!line) continue
+
+    const { data: reserved, error: reserveError } = await supabase.rpc('reserve_variant_stock', {
+      p_order_id: orderId,
+      p_variant_id: line.variantId,
+      p_size: line.size,
+      p_quantity: line.quantity,
+      p_expires_at: expiresAt,
+    })
+
+    if (reserveError) {
+      // Don't leave the earlier lines held for an order that won't go ahead
+      await releaseOrderStock(supabase, orderId).catch((releaseError) => {
+        console.error('[Inventory] Failed to release stock after a reservation error:', releaseError)
+      })
+      throw new Error(`Failed to reserve stock: ${reserveError.message}`)
+    }
+
+    if (!reserved) {
+      unavailable.push({ productId: item.id, title: item.title, color: line.color, size: line.size })
+    }
+  }
+
+  if (unavailable.length > 0) {
+    await releaseOrderStock(supabase, orderId)
+    return { reserved: false, expiresAt, unavailable }
+  }
+
+  return { reserved: true, expiresAt, unavailable }
+}
+
+/**
+ * Return the held items of an unpaid order to stock.
+ * Returns how many reservations were released.
+ */
+export async function releaseOrderStock(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<number> {
+  const { data: released, error } = await supabase.rpc('release_stock_reservations', { p_order_id: orderId })
+
+  if (error) {
+    throw new Error(`Failed to release stock reservations: ${error.message}`)
+  }
+
+  if (process.env.NODE_ENV !== 'production' && released) {
+    console.log('[Inventory] Released stock reservations for order:', { orderId, released })
+  }
+
+  return released || 0
+}
+
+/**
+ * Deduct the items of a paid order from product_variants.stock.
+ *
+ * Safe to call from both the verify route and the webhook: the order is
+ * claimed by stamping stock_deducted_at, so only the first caller deducts.
+ * Lines still held by a checkout reservation are committed rather than
+ * deducted a second time. Stock never goes below zero; lines that were
+ * short are returned and the order is flagged for review in its admin notes
+ * and status history.
+ */
+export async function deductOrderStock(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<StockDeductionResult> {
+  // Claim the order; a second caller gets no row back
+  const { data: claimed, error: claimError } = await supabase
+    .from('orders')
+    .update({ stock_deducted_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .is('stock_deducted_at', null)
+    .select('id, items_json, status, status_history, admin_notes')
+    .maybeSingle()
+
+  if (claimError) {
+    throw new Error(`Failed to claim order for stock deduction: ${claimError.message}`)
+  }
+
+  if (!claimed) {
+    const { data: existing } = await supabase
+      .from('orders')
+      .select('id')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    return {
+      deducted: false,
+      reason: existing ? 'already-deducted' : 'order-not-found',
+      lines: [],
+      short: [],
+    }
+  }
+
+  // Lines held by a reservation were already taken out of stock at checkout
+  const { error: commitError } = await supabase.rpc('commit_stock_reservations', { p_order_id: orderId })
+  if (commitError) {
+    console.error('[Inventory] Failed to commit stock reservations:', orderId, commitError)
+  }
+
+  const { data: committed } = await supabase
+    .from('stock_reservations')
+    .select('variant_id, size')
+    .eq('order_id', orderId)
+    .eq('status', 'committed')
+
+  const reservedKeys = new Set(
+    (committed || []).map((r: { variant_id: string; size: string }) => `${r.variant_id}:${r.size}`)
+  )
+
+  const items: OrderStockItem[] = Array.isArray(claimed.items_json) ? claimed.items_json : []
+  const lines: StockDeductionResult['lines'] = []
+  const short: StockDeductionResult['short'] = []
+
+  for (const item of items) {
+    const line = await resolveOrderLine(supabase, item)
+    if (!line) continue
+
+    const { variantId, color, size, quantity } = line
+    if (reservedKeys.has(`${variantId}:${size}`)) {
+      lines.push({ productId: item.id, color, size, remaining: null })
+      continue
+    }
+
+    const { data: remaining, error: decrementError } = await supabase.rpc('decrement_variant_stock', {
+      p_variant_id: variantId,
+      p_size: size,
+      p_quantity: quantity,
+    })
+
+    if (decrementError) {
+      console.error('[Inventory] Failed to decrement stock:', { variantId, size }, decrementError)
+      continue
+    }
+
+    if (typeof remaining === 'number' && remaining < 0) {
+      short.push({ productId: item.id, title: item.title, color, size, missing: -remaining })
+    }
+
+    lines.push({ productId: item.id, color, size, remaining: remaining == null ? null : Math.max(remaining, 0) })
+  }
+
+  if (short.length > 0) {
+    await flagShortStock(supabase, claimed, short)
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.log('[Inventory] Deducted stock for order:', { orderId, lines, short })
+  }
+
+  return { deducted: true, lines, short }
+}
+
+/**
+ * Note on a paid order that some of its pieces weren't in stock, so an
+ * admin restocks, swaps or refunds them before it ships
+ */
+async function flagShortStock(
+  supabase: SupabaseClient<any, any, any>,
+  order: { id: string; status: string; status_history: any[] | null; admin_notes: string | null },
+  short: StockDeductionResult['short']
+) {
+  const note = `Needs review: not enough stock for ${short.map(describeShortLine).join('; ')}`
+  const now = new Date().toISOString()
+
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      admin_notes: `${order.admin_notes ? `${order.admin_notes}\n` : ''}${note}`,
+      status_history: [
+        ...(Array.isArray(order.status_history) ? order.status_history : []),
+        { status: order.status, timestamp: now, note },
+      ],
+      updated_at: now,
+    })
+    .eq('id', order.id)
+
+  if (error) {
+    console.error('[Inventory] Failed to flag order short of stock:', order.id, error)
+  }
+}
+
+/**
+ * Put the items of a cancelled order back into product_variants.stock.
+ *
+ * Only orders whose stock was deducted are restocked, and only once: the
+ * order is claimed by stamping stock_restocked_at.
+ */
+export async function restockOrderStock(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<StockRestockResult> {
+  const { data: claimed, error: claimError } = await supabase
+    .from('orders')
+    .update({ stock_restocked_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .not('stock_deducted_at', 'is', null)
+    .is('stock_restocked_at', null)
+    .select('id, items_json')
+    .maybeSingle()
+
+  if (claimError) {
+    throw new Error(`Failed to claim order for restocking: ${claimError.message}`)
+  }
+
+  if (!claimed) {
+    return { restocked: false, lines: [] }
+  }
+
+  const items: OrderStockItem[] = Array.isArray(claimed.items_json) ? claimed.items_json : []
+  const lines: StockRestockResult['lines'] = []
+
+  for (const item of items) {
+    const line = await resolveOrderLine(supabase, item)
+    if (!line) continue
+
+    const { variantId, color, size, quantity } = line
+    const { data: remaining, error: incrementError } = await supabase.rpc('increment_variant_stock', {
+      p_variant_id: variantId,
+      p_size: size,
+      p_quantity: quantity,
+    })
+
+    if (incrementError) {
+      console.error('[Inventory] Failed to restock:', { variantId, size }, incrementError)
+      continue
+    }
+
+    lines.push({ productId: item.id, color, size, remaining: remaining ?? null })
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    console.log('[Inventory] Restocked order:', { orderId, lines })
+  }
+
+  return { restocked: true, lines }
+}
+
+/**
+ * Put returned pieces back into product_variants.stock.
+ *
+ * Unlike restockOrderStock this doesn't claim anything; callers must make
+ * sure each return is only restocked once.
+ */
+export async function restockReturnedItems(
+  supabase: SupabaseClient<any, any, any>,
+  items: OrderStockItem[]
+): Promise<StockRestockResult['lines']> {
+  const lines: StockRestockResult['lines'] = []
+
+  for (const item of items) {
+    const line = await resolveOrderLine(supabase, item)
+    if (!line) continue
+
+    const { variantId, color, size, quantity } = line
+    const { data: remaining, error: incrementError } = await supabase.rpc('increment_variant_stock', {
+      p_variant_id: variantId,
+      p_size: size,
+      p_quantity: quantity,
+    })
+
+    if (incrementError) {
+      console.error('[Inventory] Failed to restock returned item:', { variantId, size }, incrementError)
+      continue
+    }
+
+    lines.push({ productId: item.id, color, size, remaining: remaining ?? null })
+  }
+
+  return lines
+}
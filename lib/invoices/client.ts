@@ -0,0 +1,31 @@
+import { supabase } from '@/lib/supabase/client'
+
+/**
+ * Download the GST invoice PDF for a paid order.
+ * Works for the customer who placed the order and for admins.
+ */
+export async function downloadInvoice(orderId: string): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession()
+  const accessToken = session?.access_token
+
+  const response = await fetch(`/api/orders/${orderId}/invoice`, {
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || 'Failed to download invoice')
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || ''
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `invoice-${orderId}.pdf`
+
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
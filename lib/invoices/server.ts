@@ -0,0 +1,325 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import { pdfSafe, wrapText } from '@/lib/utils/pdf'
+import { calculateOrderTax, DEFAULT_GST_RULE, getSellerDetails, loadGstRules } from '@/lib/tax/server'
+import type { SellerDetails, TaxBreakdown, TaxLine } from '@/lib/tax/types'
+
+/**
+ * GST tax invoices for paid orders.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - Invoice numbers come from assign_invoice_number() (supabase_gst.sql),
+ *   which is idempotent, so it is safe to call on every payment event.
+ */
+
+export interface InvoiceOrder {
+  id: string
+  order_number: string
+  email: string
+  phone: string | null
+  address_json: any
+  items_json: Array<{ id: string; title: string; price: number; quantity: number; variant?: string | null }>
+  shipping_cents: number
+  cod_fee_cents?: number | null
+  discount_cents: number
+  total_cents: number
+  payment_status: string
+  payment_method: string | null
+  payment_date: string | null
+  created_at: string
+  invoice_number: string | null
+  invoiced_at: string | null
+  tax_breakdown: TaxBreakdown | null
+}
+
+/**
+ * Give a paid order its sequential invoice number (returns the existing one
+ * if already assigned, null if the order isn't paid)
+ */
+export async function assignInvoiceNumber(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('assign_invoice_number', { p_order_id: orderId })
+
+  if (error) {
+    console.error('Error in assignInvoiceNumber:', error)
+    throw new Error(`Failed to assign invoice number: ${error.message}`)
+  }
+
+  return (data as string | null) || null
+}
+
+/**
+ * Tax split for orders placed before tax_breakdown was stored,
+ * worked out from the current product rates
+ */
+export async function rebuildTaxBreakdown(
+  supabase: SupabaseClient<any, any, any>,
+  order: InvoiceOrder
+): Promise<TaxBreakdown> {
+  const productIds = Array.from(new Set(order.items_json.map((item) => item.id)))
+
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id, category_id, subcategory_id, hsn_code, gst_rate')
+    .in('id', productIds)
+
+  if (error) {
+    console.error('Error in rebuildTaxBreakdown:', error)
+    throw new Error(`Failed to load products for invoice: ${error.message}`)
+  }
+
+  const rules = await loadGstRules(supabase, products || [])
+
+  return calculateOrderTax({
+    lines: order.items_json.map((item) => ({
+      description: item.variant ? `${item.title} (${item.variant})` : item.title,
+      quantity: item.quantity,
+      gross_cents: Math.round(item.price * 100) * item.quantity,
+      rule: rules.get(item.id) || DEFAULT_GST_RULE,
+    })),
+    shippingCents: order.shipping_cents,
+    codFeeCents: order.cod_fee_cents || 0,
+    discountCents: order.discount_cents,
+    sellerState: getSellerDetails().state,
+    destinationState: order.address_json?.state,
+  })
+}
+
+const PAGE_WIDTH = 595.28 // A4
+const PAGE_HEIGHT = 841.89
+const MARGIN = 40
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1)
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4)
+const RULE_COLOR = rgb(0.8, 0.8, 0.8)
+
+const formatAmount = (cents: number) =>
+  (cents / 100).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+const formatDate = (iso: string | null) =>
+  iso
+    ? new Date(iso).toLocaleDateString('en-IN', {
+        day: '2-digit',
+        month: 'short',
+        year: 'numeric',
+        timeZone: 'Asia/Kolkata',
+      })
+    : '-'
+
+interface Column {
+  label: string
+  width: number
+  align: 'left' | 'right'
+  value: (line: TaxLine, index: number) => string
+}
+
+/**
+ * Render a GST tax invoice as a PDF
+ */
+export async function renderInvoicePdf(
+  order: InvoiceOrder,
+  tax: TaxBreakdown,
+  seller: SellerDetails
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`Tax Invoice ${order.invoice_number || order.order_number}`)
+  pdf.setAuthor(seller.legal_name)
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const text = (
+    value: string,
+    x: number,
+    options: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb>; align?: 'left' | 'right'; width?: number } = {}
+  ) => {
+    const size = options.size ?? 9
+    const useFont = options.font ?? font
+    const safe = pdfSafe(value)
+    const drawX =
+      options.align === 'right' && options.width !== undefined
+        ? x + options.width - useFont.widthOfTextAtSize(safe, size)
+        : x
+    page.drawText(safe, { x: drawX, y, size, font: useFont, color: options.color ?? TEXT_COLOR })
+  }
+
+  const rule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    })
+  }
+
+  // Header: seller on the left, invoice details on the right
+  text('TAX INVOICE', MARGIN, { size: 16, font: bold })
+  text('Original for Recipient', PAGE_WIDTH - MARGIN - 150, { size: 8, color: MUTED_COLOR, align: 'right', width: 150 })
+  y -= 24
+
+  const headerTop = y
+  text(seller.legal_name, MARGIN, { size: 11, font: bold })
+  y -= 14
+  for (const line of seller.address ? wrapText(seller.address, font, 9, 260) : []) {
+    text(line, MARGIN)
+    y -= 12
+  }
+  if (seller.state) {
+    text(`State: ${seller.state}`, MARGIN)
+    y -= 12
+  }
+  text(`GSTIN: ${seller.gstin || 'Not registered'}`, MARGIN, { font: bold })
+  y -= 12
+  const sellerBottom = y
+
+  y = headerTop
+  const detailsX = PAGE_WIDTH - MARGIN - 220
+  const details: Array<[string, string]> = [
+    ['Invoice No.', order.invoice_number || '-'],
+    ['Invoice Date', formatDate(order.invoiced_at || order.payment_date || order.created_at)],
+    ['Order No.', order.order_number],
+    ['Order Date', formatDate(order.created_at)],
+    ['Place of Supply', tax.place_of_supply || '-'],
+    ['Payment', order.payment_method === 'razorpay' ? 'Prepaid (Razorpay)' : order.payment_method || '-'],
+  ]
+  for (const [label, value] of details) {
+    text(label, detailsX, { color: MUTED_COLOR })
+    text(value, detailsX + 80, { font: bold })
+    y -= 12
+  }
+
+  y = Math.min(y, sellerBottom) - 8
+  rule()
+  y -= 16
+
+  // Customer
+  const address = order.address_json || {}
+  text('Bill To / Ship To', MARGIN, { font: bold, size: 10 })
+  y -= 14
+  const addressLines = [
+    address.fullName,
+    [address.flat, address.street].filter(Boolean).join(', '),
+    address.landmark ? `Near ${address.landmark}` : null,
+    [address.city, address.state, address.pincode].filter(Boolean).join(', '),
+    [address.phone || order.phone, order.email].filter(Boolean).join(' | '),
+  ].filter((line): line is string => !!line && line.trim() !== '')
+  for (const line of addressLines.flatMap((l) => wrapText(l, font, 9, PAGE_WIDTH - 2 * MARGIN))) {
+    text(line, MARGIN)
+    y -= 12
+  }
+  y -= 6
+  rule()
+  y -= 14
+
+  // Line items
+  const isIntraState = tax.supply_type === 'intra_state'
+  const taxColumns: Column[] = isIntraState
+    ? [
+        { label: 'CGST', width: 52, align: 'right', value: (l) => formatAmount(l.cgst_cents) },
+        { label: 'SGST', width: 52, align: 'right', value: (l) => formatAmount(l.sgst_cents) },
+      ]
+    : [{ label: 'IGST', width: 104, align: 'right', value: (l) => formatAmount(l.igst_cents) }]
+
+  const columns: Column[] = [
+    { label: '#', width: 18, align: 'left', value: (_l, i) => String(i + 1) },
+    { label: 'Description', width: 0, align: 'left', value: (l) => l.description },
+    { label: 'HSN/SAC', width: 48, align: 'left', value: (l) => l.hsn_code || '-' },
+    { label: 'Qty', width: 26, align: 'right', value: (l) => String(l.quantity) },
+    { label: 'GST %', width: 34, align: 'right', value: (l) => `${l.gst_rate}%` },
+    { label: 'Taxable', width: 62, align: 'right', value: (l) => formatAmount(l.taxable_cents) },
+    ...taxColumns,
+    { label: 'Amount', width: 62, align: 'right', value: (l) => formatAmount(l.gross_cents) },
+  ]
+  const fixedWidth = columns.reduce((sum, column) => sum + column.width, 0) + (columns.length - 1) * 6
+  columns[1].width = PAGE_WIDTH - 2 * MARGIN - fixedWidth
+
+  const drawHeaderRow = () => {
+    let x = MARGIN
+    for (const column of columns) {
+      text(column.label, x, { font: bold, size: 8, align: column.align, width: column.width })
+      x += column.width + 6
+    }
+    y -= 6
+    rule()
+    y -= 12
+  }
+
+  drawHeaderRow()
+
+  const rows = [...tax.lines, tax.shipping, tax.cod_fee].filter((line): line is TaxLine => !!line)
+  rows.forEach((line, index) => {
+    const descriptionLines = wrapText(line.description, font, 8, columns[1].width)
+    const rowHeight = descriptionLines.length * 10 + 4
+
+    if (y - rowHeight < MARGIN + 140) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+      drawHeaderRow()
+    }
+
+    let x = MARGIN
+    for (const column of columns) {
+      if (column.label === 'Description') {
+        const rowTop = y
+        for (const descriptionLine of descriptionLines) {
+          text(descriptionLine, x, { size: 8 })
+          y -= 10
+        }
+        y = rowTop
+      } else {
+        text(column.value(line, index), x, { size: 8, align: column.align, width: column.width })
+      }
+      x += column.width + 6
+    }
+    y -= rowHeight
+  })
+
+  rule()
+  y -= 16
+
+  // Totals
+  const taxableTotal = rows.reduce((sum, line) => sum + line.taxable_cents, 0)
+  const totals: Array<[string, number]> = [
+    ['Taxable Value', taxableTotal],
+    ...(isIntraState
+      ? ([
+          ['CGST', tax.cgst_cents],
+          ['SGST', tax.sgst_cents],
+        ] as Array<[string, number]>)
+      : ([['IGST', tax.igst_cents]] as Array<[string, number]>)),
+  ]
+  const totalsX = PAGE_WIDTH - MARGIN - 200
+  for (const [label, cents] of totals) {
+    text(label, totalsX, { color: MUTED_COLOR })
+    text(`Rs. ${formatAmount(cents)}`, totalsX + 80, { align: 'right', width: 120 })
+    y -= 13
+  }
+  y -= 2
+  text('Invoice Total', totalsX, { font: bold, size: 10 })
+  text(`Rs. ${formatAmount(order.total_cents)}`, totalsX + 80, { font: bold, size: 10, align: 'right', width: 120 })
+  y -= 16
+
+  if (order.discount_cents > 0) {
+    text(`Includes a discount of Rs. ${formatAmount(order.discount_cents)}, spread across the lines above.`, MARGIN, {
+      size: 8,
+      color: MUTED_COLOR,
+    })
+    y -= 11
+  }
+  text('Prices are inclusive of GST. Tax is not payable on reverse charge basis.', MARGIN, {
+    size: 8,
+    color: MUTED_COLOR,
+  })
+  y -= 11
+  text('This is a computer-generated invoice and does not require a signature.', MARGIN, {
+    size: 8,
+    color: MUTED_COLOR,
+  })
+
+  return pdf.save()
+}
@@ -0,0 +1,171 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { parseCsv } from '@/lib/utils/csv'
+import { adminOrderUpdateSchema, updateAdminOrder, type AdminOrderUpdateOptions } from './server'
+import { MAX_BULK_ORDERS, type BulkOrderResult } from './types'
+
+/**
+ * Bulk order actions and courier tracking imports for the admin orders page.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - Every order goes through updateAdminOrder (lib/orders/server.ts), the
+ *   same update as PUT /api/admin/orders/[id], one order at a time. A
+ *   failure is recorded for that order and the rest carry on.
+ */
+
+export const MAX_TRACKING_IMPORT_BYTES = 1024 * 1024
+
+const bulkOrderUpdateSchema = adminOrderUpdateSchema
+  .extend({
+    order_id: z.string().uuid().optional(),
+    order_number: z.string().trim().min(1).max(50).optional(),
+  })
+  .refine((update) => !!update.order_id || !!update.order_number, 'Each update needs an order_id or order_number')
+
+export const bulkOrderRequestSchema = z.object({
+  updates: z
+    .array(bulkOrderUpdateSchema)
+    .min(1, 'Select at least one order')
+    .max(MAX_BULK_ORDERS, `Update at most ${MAX_BULK_ORDERS} orders at a time`),
+})
+
+export type BulkOrderUpdate = z.infer<typeof bulkOrderUpdateSchema>
+
+/**
+ * Apply updates order by order and report each outcome
+ */
+export async function runBulkOrderUpdates(
+  supabase: SupabaseClient<any, any, any>,
+  updates: BulkOrderUpdate[],
+  actorId: string | null,
+  options: AdminOrderUpdateOptions = {}
+): Promise<BulkOrderResult[]> {
+  // Imports name orders by number; look the ids up in one go
+  const numbers = Array.from(
+    new Set(updates.filter((update) => !update.order_id && update.order_number).map((update) => update.order_number!))
+  )
+  const idsByNumber = new Map<string, string>()
+  const numbersById = new Map<string, string>()
+
+  const ids = updates.map((update) => update.order_id).filter((id): id is string => !!id)
+  if (numbers.length > 0 || ids.length > 0) {
+    const lookups = [
+      numbers.length > 0 ? supabase.from('orders').select('id, order_number').in('order_number', numbers) : null,
+      ids.length > 0 ? supabase.from('orders').select('id, order_number').in('id', ids) : null,
+    ]
+    for (const lookup of lookups) {
+      if (!lookup) continue
+      const { data, error } = await lookup
+      if (error) {
+        console.error('Error in runBulkOrderUpdates:', error)
+        throw new Error(`Failed to load orders: ${error.message}`)
+      }
+      for (const row of data || []) {
+        idsByNumber.set(row.order_number, row.id)
+        numbersById.set(row.id, row.order_number)
+      }
+    }
+  }
+
+  const results: BulkOrderResult[] = []
+  const seen = new Set<string>()
+
+  for (const { order_id, order_number, ...update } of updates) {
+    const orderId = order_id || (order_number ? idsByNumber.get(order_number) : undefined) || null
+    const orderNumber = (orderId ? numbersById.get(orderId) : null) || order_number || null
+
+    if (!orderId || !numbersById.has(orderId)) {
+      results.push({ order_id: orderId, order_number: orderNumber, ok: false, error: 'Order not found' })
+      continue
+    }
+
+    if (seen.has(orderId)) {
+      results.push({ order_id: orderId, order_number: orderNumber, ok: false, error: 'Listed more than once; only the first row was applied' })
+      continue
+    }
+    seen.add(orderId)
+
+    try {
+      const result = await updateAdminOrder(supabase, orderId, update, actorId, options)
+      results.push(
+        result.ok
+          ? { order_id: orderId, order_number: orderNumber, ok: true, order: result.order }
+          : { order_id: orderId, order_number: orderNumber, ok: false, error: result.error }
+      )
+    } catch (error: any) {
+      console.error('[Bulk Orders] Update failed:', orderNumber, error)
+      results.push({ order_id: orderId, order_number: orderNumber, ok: false, error: error?.message || 'Unknown error' })
+    }
+  }
+
+  return results
+}
+
+const ORDER_NUMBER_HEADERS = ['order_number', 'order number', 'order no', 'order id', 'order_id', 'reference', 'reference number', 'ref no', 'client order id']
+const TRACKING_HEADERS = ['tracking_number', 'tracking number', 'tracking id', 'awb', 'awb number', 'awb no', 'awb_number', 'waybill', 'waybill number']
+const COURIER_HEADERS = ['shipping_provider', 'courier', 'courier name', 'carrier', 'courier partner', 'logistics partner']
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+function findColumn(headers: string[], candidates: string[]): number {
+  const normalised = candidates.map(normaliseHeader)
+  return headers.findIndex((header) => normalised.includes(normaliseHeader(header)))
+}
+
+/**
+ * Read a courier's manifest CSV into tracking updates matched by order
+ * number. Needs an order number and a tracking/AWB column; a courier column
+ * is used when present, otherwise defaultCourier.
+ */
+export function parseTrackingCsv(
+  text: string,
+  options: { defaultCourier?: string | null; markShipped?: boolean } = {}
+): { ok: true; updates: BulkOrderUpdate[]; skipped: number } | { ok: false; error: string } {
+  const [headers, ...rows] = parseCsv(text)
+  if (!headers || rows.length === 0) {
+    return { ok: false, error: 'The file has no rows' }
+  }
+
+  const orderColumn = findColumn(headers, ORDER_NUMBER_HEADERS)
+  const trackingColumn = findColumn(headers, TRACKING_HEADERS)
+  const courierColumn = findColumn(headers, COURIER_HEADERS)
+
+  if (orderColumn === -1 || trackingColumn === -1) {
+    return {
+      ok: false,
+      error: 'The file needs an order number column (e.g. "Order Number") and a tracking column (e.g. "AWB" or "Tracking Number")',
+    }
+  }
+
+  if (rows.length > MAX_BULK_ORDERS) {
+    return { ok: false, error: `Import at most ${MAX_BULK_ORDERS} rows at a time` }
+  }
+
+  let skipped = 0
+  const updates: BulkOrderUpdate[] = []
+
+  for (const row of rows) {
+    const orderNumber = row[orderColumn]?.replace(/^#/, '').toUpperCase()
+    const trackingNumber = row[trackingColumn]
+    if (!orderNumber || !trackingNumber) {
+      skipped += 1
+      continue
+    }
+
+    const courier = (courierColumn !== -1 ? row[courierColumn] : '') || options.defaultCourier || undefined
+    updates.push({
+      order_number: orderNumber,
+      tracking_number: trackingNumber,
+      shipping_provider: courier,
+      status: options.markShipped ? 'shipped' : undefined,
+      note: options.markShipped ? 'Tracking imported from courier file' : undefined,
+    })
+  }
+
+  if (updates.length === 0) {
+    return { ok: false, error: 'No row has both an order number and a tracking number' }
+  }
+
+  return { ok: true, updates, skipped }
+}
@@ -0,0 +1,134 @@
+import { supabase } from '@/lib/supabase/client'
+import { adminFetch } from '@/lib/auth/adminFetch'
+import type { BulkOrderResult } from './types'
+
+/**
+ * Cancel one of the signed-in customer's orders before it is dispatched.
+ * Returns the updated order.
+ */
+export async function cancelOrder(orderId: string, reason: string, details?: string): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession()
+  const accessToken = session?.access_token
+
+  const response = await fetch(`/api/orders/${orderId}/cancel`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify({ reason, details: details || undefined }),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to cancel order')
+  }
+
+  return data.order
+}
+
+/**
+ * The signed-in customer's orders, newest first
+ */
+export async function fetchMyOrders(): Promise<any[]> {
+  const { data: { session } } = await supabase.auth.getSession()
+  const accessToken = session?.access_token
+
+  const response = await fetch('/api/orders', {
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    cache: 'no-store',
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to fetch orders')
+  }
+
+  return data.orders || []
+}
+
+/**
+ * Guest lookup, step 1: text a code to the mobile number on the order.
+ * Returns the message to show; it doesn't say whether the details matched.
+ */
+export async function requestOrderLookupCode(orderNumber: string, email: string): Promise<string> {
+  const response = await fetch('/api/orders/lookup', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order_number: orderNumber, email }),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || 'Failed to send the code')
+  }
+
+  return data.message
+}
+
+/**
+ * Guest lookup, step 2: check the code and get the order
+ */
+export async function verifyOrderLookup(orderNumber: string, email: string, code: string): Promise<any> {
+  const response = await fetch('/api/orders/lookup/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order_number: orderNumber, email, code }),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to verify the code')
+  }
+
+  return data.order
+}
+
+export interface BulkOrderResponse {
+  results: BulkOrderResult[]
+  succeeded: number
+  failed: number
+  skipped?: number
+}
+
+/**
+ * Admin: apply updates (the fields of PUT /api/admin/orders/[id]) to many
+ * orders. Resolves with every order's outcome, including failures.
+ */
+export async function bulkUpdateOrders(
+  updates: Array<Record<string, unknown> & { order_id?: string; order_number?: string }>
+): Promise<BulkOrderResponse> {
+  const response = await adminFetch('/api/admin/orders/bulk', {
+    method: 'POST',
+    body: JSON.stringify({ updates }),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to update orders')
+  }
+
+  return data
+}
+
+/**
+ * Admin: import tracking numbers from a courier's CSV, matched by order number
+ */
+export async function importTrackingCsv(
+  file: File,
+  options: { courier?: string; markShipped?: boolean } = {}
+): Promise<BulkOrderResponse> {
+  const formData = new FormData()
+  formData.append('file', file)
+  if (options.courier) formData.append('courier', options.courier)
+  formData.append('mark_shipped', String(!!options.markShipped))
+
+  const response = await adminFetch('/api/admin/orders/tracking-import', { method: 'POST', body: formData })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to import tracking numbers')
+  }
+
+  return data
+}
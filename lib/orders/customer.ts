@@ -0,0 +1,130 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { sendPhoneOtp, verifyPhoneOtp, type OtpResult } from '@/lib/otp/server'
+import { normalizeIndianMobile } from '@/lib/utils/phone'
+
+/**
+ * Orders as customers see them: a signed-in customer's order history, and
+ * the guest lookup by order number + email.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers; callers pass the service-role client.
+ * - Never take a user id or email from the request to pick orders; the
+ *   history comes from the verified session only.
+ * - Guest lookups are confirmed with an OTP texted to the mobile number on the
+ *   order (lib/otp/server.ts), so knowing someone's order number and email is
+ *   not enough to read their address.
+ * - Shoppers only get CUSTOMER_ORDER_COLUMNS; staff notes (admin_notes) and
+ *   other internal columns never leave the server.
+ */
+
+// What a customer may see of their order
+const CUSTOMER_ORDER_COLUMNS =
+  'id, order_number, email, phone, address_json, items_json, subtotal_cents, shipping_cents, cod_fee_cents, tax_cents, discount_cents, total_cents, refunded_cents, coupon_code, payment_method, payment_status, payment_id, payment_date, status, status_history, tracking_number, shipping_provider, courier_id, tracking_status, invoice_number, shipped_at, delivered_at, created_at, updated_at'
+
+export const guestLookupSchema = z.object({
+  order_number: z.string().trim().min(1, 'Enter your order number').max(50).transform((value) => value.toUpperCase()),
+  email: z.string().trim().email('Enter the email you ordered with').max(255),
+})
+
+export const guestLookupVerifySchema = guestLookupSchema.extend({
+  code: z.string().trim().min(1, 'Enter the 6 digit code'),
+})
+
+export type GuestLookupInput = z.infer<typeof guestLookupSchema>
+
+/**
+ * Whether an order belongs to the signed-in customer: it is on their account,
+ * or it is a guest order (no account) placed with their email once that email
+ * is confirmed. The same rule as getCustomerOrders; use it wherever a
+ * customer acts on one order.
+ */
+export function isCustomerOrder(order: { user_id: string | null; email: string | null }, user: User): boolean {
+  if (order.user_id) {
+    return order.user_id === user.id
+  }
+
+  return !!user.email && !!user.email_confirmed_at && order.email?.toLowerCase() === user.email.toLowerCase()
+}
+
+/**
+ * Every order the signed-in customer placed, newest first. Guest orders
+ * placed with the same email before they signed up are included once the
+ * email is confirmed.
+ */
+export async function getCustomerOrders(supabase: SupabaseClient<any, any, any>, user: User): Promise<any[]> {
+  let query = supabase.from('orders').select(CUSTOMER_ORDER_COLUMNS)
+
+  query = user.email && user.email_confirmed_at
+    ? query.or(`user_id.eq.${user.id},and(user_id.is.null,email.eq."${user.email.replace(/"/g, '')}")`)
+    : query.eq('user_id', user.id)
+
+  const { data, error } = await query.order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error in getCustomerOrders:', error)
+    throw new Error(`Failed to fetch orders: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * The order with this number, if it was placed with this email
+ */
+async function findGuestOrder(supabase: SupabaseClient<any, any, any>, input: GuestLookupInput): Promise<any | null> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select(CUSTOMER_ORDER_COLUMNS)
+    .eq('order_number', input.order_number)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in findGuestOrder:', error)
+    throw new Error(`Failed to look up order: ${error.message}`)
+  }
+
+  return order && order.email?.trim().toLowerCase() === input.email.toLowerCase() ? order : null
+}
+
+/**
+ * Text a lookup code to the mobile number on the order. Reports success when
+ * the order doesn't match too, so the response doesn't reveal which order
+ * number / email pairs exist.
+ */
+export async function sendGuestLookupCode(
+  supabase: SupabaseClient<any, any, any>,
+  input: GuestLookupInput
+): Promise<OtpResult> {
+  const order = await findGuestOrder(supabase, input)
+  const phone = normalizeIndianMobile(order?.phone)
+
+  if (!phone) {
+    return { ok: true }
+  }
+
+  return sendPhoneOtp(supabase, phone, 'Could not send the code right now. Please try again in a few minutes.')
+}
+
+// Every failure reads the same, so a wrong order number / email can't be
+// told apart from a right one without a live code
+const GUEST_LOOKUP_FAILED = 'That code is incorrect or has expired. Check it, or request a new one.'
+
+/**
+ * Check the lookup code and return the order it unlocks
+ */
+export async function verifyGuestLookup(
+  supabase: SupabaseClient<any, any, any>,
+  input: GuestLookupInput,
+  code: string
+): Promise<{ ok: true; order: any } | { ok: false; error: string }> {
+  const order = await findGuestOrder(supabase, input)
+  const phone = normalizeIndianMobile(order?.phone)
+
+  if (!phone) {
+    return { ok: false, error: GUEST_LOOKUP_FAILED }
+  }
+
+  const result = await verifyPhoneOtp(supabase, phone, code)
+  return result.ok ? { ok: true, order } : { ok: false, error: GUEST_LOOKUP_FAILED }
+}
@@ -0,0 +1,86 @@
+/**
+ * Order status lifecycle: the statuses an order can be in and which moves
+ * between them are allowed. Safe to import from client components; the
+ * server-side transition (requirements and side effects) lives in
+ * lib/orders/server.ts.
+ */
+
+export const ORDER_STATUSES = [
+  'pending',
+  'confirmed',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'returned',
+] as const
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number]
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  returned: 'Returned',
+}
+
+/** Allowed next statuses; cancelled and returned are final */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'shipped', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered', 'returned'],
+  delivered: ['returned'],
+  cancelled: [],
+  returned: [],
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * Statuses an order can move to next (none for unknown statuses)
+ */
+export function getNextStatuses(from: string): OrderStatus[] {
+  return isOrderStatus(from) ? ORDER_TRANSITIONS[from] : []
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return isOrderStatus(to) && getNextStatuses(from).includes(to)
+}
+
+/** Statuses a customer can still cancel from (before the parcel is dispatched) */
+export const CUSTOMER_CANCELLABLE_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'processing']
+
+/**
+ * Whether the order has been booked with a courier (an AWB or tracking number)
+ */
+export function hasShipment(order: { courier_id?: string | null; tracking_number?: string | null }): boolean {
+  return !!(order.courier_id || order.tracking_number)
+}
+
+/**
+ * Customers can cancel until the order is dispatched or booked with a
+ * courier; after that only staff can, since the booking has to be cancelled
+ * with the courier too
+ */
+export function canCustomerCancel(order: {
+  status: string
+  courier_id?: string | null
+  tracking_number?: string | null
+}): boolean {
+  return isOrderStatus(order.status) && CUSTOMER_CANCELLABLE_STATUSES.includes(order.status) && !hasShipment(order)
+}
+
+export const CANCELLATION_REASONS: Record<string, string> = {
+  ordered_by_mistake: 'Ordered by mistake',
+  wrong_size: 'Wrong size or colour',
+  wrong_address: 'Wrong delivery address',
+  found_cheaper: 'Found a better price',
+  delivery_too_slow: 'Delivery takes too long',
+  other: 'Other',
+}
@@ -0,0 +1,284 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { csvCell } from '@/lib/utils/csv'
+import { ORDER_STATUSES } from './lifecycle'
+import {
+  DEFAULT_ORDER_PAGE_SIZE,
+  MAX_BULK_ORDERS,
+  MAX_ORDER_PAGE_SIZE,
+  ORDER_PAYMENT_METHOD_LABELS,
+  ORDER_PAYMENT_STATUS_LABELS,
+  ORDER_SORTS,
+  type AdminOrderFilters,
+  type AdminOrderPage,
+  type OrderSort,
+} from './types'
+
+/**
+ * Admin order list: server-side search, filters, keyset pagination and CSV
+ * export over the orders admins work with.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - Admins only see orders that are paid (including since refunded),
+ *   confirmed, or Cash on Delivery; unpaid Razorpay drafts stay hidden.
+ * - Cursors are opaque: the sort value and id of the last row, so pages
+ *   stay stable while new orders come in.
+ */
+
+export const MAX_ORDER_EXPORT_ROWS = 10000
+
+/** Supabase returns at most 1000 rows per request */
+const EXPORT_BATCH_SIZE = 1000
+
+/** PostgREST `or` filter for the orders admins see (also used by the dashboard) */
+export const ADMIN_VISIBLE_ORDERS_FILTER =
+  'payment_status.in.(paid,partially_refunded,refunded),status.eq.confirmed,payment_method.eq.cod'
+
+const SORT_COLUMNS: Record<OrderSort, { column: 'created_at' | 'total_cents'; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  total_desc: { column: 'total_cents', ascending: false },
+  total_asc: { column: 'total_cents', ascending: true },
+}
+
+type OrdersQuery = ReturnType<ReturnType<SupabaseClient<any, any, any>['from']>['select']>
+
+interface OrderCursor {
+  value: string | number
+  id: string
+}
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must look like YYYY-MM-DD')
+
+export const adminOrderFiltersSchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  status: z.enum(ORDER_STATUSES).optional(),
+  payment_status: z.enum(Object.keys(ORDER_PAYMENT_STATUS_LABELS) as [string, ...string[]]).optional(),
+  payment_method: z.enum(Object.keys(ORDER_PAYMENT_METHOD_LABELS) as [string, ...string[]]).optional(),
+  date_from: dateSchema.optional(),
+  date_to: dateSchema.optional(),
+  sort: z.enum(ORDER_SORTS).optional(),
+  /** Comma-separated order ids, to export a selection */
+  ids: z
+    .string()
+    .transform((value) => value.split(',').map((id) => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string().uuid('Invalid order id')).max(MAX_BULK_ORDERS, `Select at most ${MAX_BULK_ORDERS} orders`))
+    .optional(),
+})
+
+export const adminOrderListSchema = adminOrderFiltersSchema.extend({
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_ORDER_PAGE_SIZE).optional(),
+})
+
+/**
+ * Query params as an object for the schemas; empty values are dropped
+ */
+export function searchParamsToObject(searchParams: URLSearchParams): Record<string, string> {
+  return Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value.trim() !== ''))
+}
+
+function encodeCursor(cursor: OrderCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(cursor: string): OrderCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (typeof parsed?.id !== 'string' || (typeof parsed.value !== 'string' && typeof parsed.value !== 'number')) {
+      return null
+    }
+    return parsed
+  } catch {
+    return null
+  }
+}
+
+/** PostgREST filter values are quoted so commas, dots and colons survive */
+const quote = (value: string | number) => `"${String(value).replace(/(["\\])/g, '\\$1')}"`
+
+/**
+ * Apply the admin visibility rule, search and filters to an orders query
+ */
+function applyOrderFilters(query: OrdersQuery, filters: AdminOrderFilters): OrdersQuery {
+  let filtered = query.or(ADMIN_VISIBLE_ORDERS_FILTER)
+
+  // Wildcards and PostgREST syntax characters are not searchable
+  const q = filters.q?.replace(/[%_*,()"\\]/g, ' ').trim()
+  if (q) {
+    const pattern = quote(`%${q}%`)
+    filtered = filtered.or(
+      [
+        `order_number.ilike.${pattern}`,
+        `email.ilike.${pattern}`,
+        `phone.ilike.${pattern}`,
+        `address_json->>phone.ilike.${pattern}`,
+        `address_json->>fullName.ilike.${pattern}`,
+        `payment_id.ilike.${pattern}`,
+      ].join(',')
+    )
+  }
+
+  if (filters.ids?.length) filtered = filtered.in('id', filters.ids)
+  if (filters.status) filtered = filtered.eq('status', filters.status)
+  if (filters.payment_status) filtered = filtered.eq('payment_status', filters.payment_status)
+  if (filters.payment_method) filtered = filtered.eq('payment_method', filters.payment_method)
+
+  // Dates are whole days in India time
+  if (filters.date_from) filtered = filtered.gte('created_at', `${filters.date_from}T00:00:00+05:30`)
+  if (filters.date_to) filtered = filtered.lte('created_at', `${filters.date_to}T23:59:59.999+05:30`)
+
+  return filtered
+}
+
+/**
+ * Rows after the cursor, in sort order
+ */
+function applyCursor(query: OrdersQuery, sort: OrderSort, cursor: OrderCursor): OrdersQuery {
+  const { column, ascending } = SORT_COLUMNS[sort]
+  const op = ascending ? 'gt' : 'lt'
+  return query.or(
+    `${column}.${op}.${quote(cursor.value)},and(${column}.eq.${quote(cursor.value)},id.${op}.${quote(cursor.id)})`
+  )
+}
+
+/**
+ * One page of the admin order list
+ */
+export async function listAdminOrders(
+  supabase: SupabaseClient<any, any, any>,
+  params: z.infer<typeof adminOrderListSchema>
+): Promise<{ ok: true; page: AdminOrderPage } | { ok: false; error: string; status: number }> {
+  const sort = params.sort || 'newest'
+  const limit = params.limit || DEFAULT_ORDER_PAGE_SIZE
+  const { column, ascending } = SORT_COLUMNS[sort]
+
+  const cursor = params.cursor ? decodeCursor(params.cursor) : null
+  if (params.cursor && !cursor) {
+    return { ok: false, error: 'Invalid page cursor', status: 400 }
+  }
+
+  // The total only means something for the first page
+  let query = applyOrderFilters(
+    supabase.from('orders').select('*', cursor ? undefined : { count: 'exact' }),
+    params
+  )
+  if (cursor) {
+    query = applyCursor(query, sort, cursor)
+  }
+
+  const { data, error, count } = await query
+    .order(column, { ascending })
+    .order('id', { ascending })
+    .limit(limit + 1)
+
+  if (error) {
+    console.error('Error in listAdminOrders:', error)
+    throw new Error(`Failed to fetch orders: ${error.message}`)
+  }
+
+  const rows: any[] = data || []
+  const orders = rows.slice(0, limit)
+  const last = orders[orders.length - 1]
+
+  return {
+    ok: true,
+    page: {
+      orders,
+      next_cursor: rows.length > limit && last ? encodeCursor({ value: last[column], id: last.id }) : null,
+      total: cursor ? null : count ?? null,
+    },
+  }
+}
+
+const rupees = (cents: number | null | undefined) => (cents ? cents / 100 : 0)
+
+const formatExportDate = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', hour12: false }) : ''
+
+const CSV_COLUMNS: Array<{ header: string; value: (order: any) => string | number | null | undefined }> = [
+  { header: 'Order Number', value: (order) => order.order_number },
+  { header: 'Placed At (IST)', value: (order) => formatExportDate(order.created_at) },
+  { header: 'Status', value: (order) => order.status },
+  { header: 'Payment Status', value: (order) => order.payment_status },
+  { header: 'Payment Method', value: (order) => order.payment_method || 'razorpay' },
+  { header: 'Payment ID', value: (order) => order.payment_id },
+  { header: 'Customer Name', value: (order) => order.address_json?.fullName },
+  { header: 'Email', value: (order) => order.email },
+  { header: 'Phone', value: (order) => order.address_json?.phone || order.phone },
+  { header: 'City', value: (order) => order.address_json?.city },
+  { header: 'State', value: (order) => order.address_json?.state },
+  { header: 'Pincode', value: (order) => order.address_json?.pincode },
+  {
+    header: 'Items',
+    value: (order) =>
+      (order.items_json || [])
+        .map((item: any) => `${item.quantity}x ${item.title}${item.variant ? ` (${item.variant})` : ''}`)
+        .join('; '),
+  },
+  {
+    header: 'Units',
+    value: (order) => (order.items_json || []).reduce((sum: number, item: any) => sum + (item.quantity || 0), 0),
+  },
+  { header: 'Subtotal (INR)', value: (order) => rupees(order.subtotal_cents) },
+  { header: 'Shipping (INR)', value: (order) => rupees(order.shipping_cents) },
+  { header: 'COD Fee (INR)', value: (order) => rupees(order.cod_fee_cents) },
+  { header: 'Discount (INR)', value: (order) => rupees(order.discount_cents) },
+  { header: 'Total (INR)', value: (order) => rupees(order.total_cents) },
+  { header: 'Refunded (INR)', value: (order) => rupees(order.refunded_cents) },
+  { header: 'Tracking Number', value: (order) => order.tracking_number },
+  { header: 'Courier', value: (order) => order.shipping_provider },
+  { header: 'Invoice Number', value: (order) => order.invoice_number },
+]
+
+/**
+ * Every order matching the filters as CSV (up to MAX_ORDER_EXPORT_ROWS).
+ * Starts with a byte order mark so Excel reads it as UTF-8.
+ */
+export async function exportAdminOrdersCsv(
+  supabase: SupabaseClient<any, any, any>,
+  filters: AdminOrderFilters
+): Promise<{ csv: string; rows: number; truncated: boolean }> {
+  const sort = filters.sort || 'newest'
+  const { column, ascending } = SORT_COLUMNS[sort]
+  const lines = [CSV_COLUMNS.map((col) => csvCell(col.header)).join(',')]
+
+  let cursor: OrderCursor | null = null
+  let rows = 0
+  let truncated = false
+
+  while (rows < MAX_ORDER_EXPORT_ROWS) {
+    let query = applyOrderFilters(supabase.from('orders').select('*'), filters)
+    if (cursor) {
+      query = applyCursor(query, sort, cursor)
+    }
+
+    const { data, error } = await query
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .limit(EXPORT_BATCH_SIZE)
+
+    if (error) {
+      console.error('Error in exportAdminOrdersCsv:', error)
+      throw new Error(`Failed to export orders: ${error.message}`)
+    }
+
+    const batch: any[] = data || []
+    for (const order of batch.slice(0, MAX_ORDER_EXPORT_ROWS - rows)) {
+      lines.push(CSV_COLUMNS.map((col) => csvCell(col.value(order))).join(','))
+    }
+    rows += Math.min(batch.length, MAX_ORDER_EXPORT_ROWS - rows)
+
+    if (batch.length < EXPORT_BATCH_SIZE) break
+    if (rows >= MAX_ORDER_EXPORT_ROWS) {
+      truncated = true
+      break
+    }
+
+    const last = batch[batch.length - 1]
+    cursor = { value: last[column], id: last.id }
+  }
+
+  return { csv: `\uFEFF${lines.join('\r\n')}\r\n`, rows, truncated }
+}
@@ -0,0 +1,34 @@
+import { maskMobile } from '@/lib/utils/phone'
+
+/**
+ * Hide a customer's contact details and street address from staff without
+ * the view_customer_pii permission (lib/auth/permissions.ts). The first
+ * name, city and state stay so orders can still be told apart. Fields the
+ * order doesn't carry are left out.
+ */
+export function redactOrderPii<T extends Record<string, any>>(order: T): T {
+  const redacted: Record<string, any> = { ...order }
+
+  if (typeof order.email === 'string') {
+    const [local, domain] = order.email.split('@')
+    redacted.email = domain ? `${local.slice(0, 1)}***@${domain}` : '***'
+  }
+
+  if (order.phone) {
+    redacted.phone = maskMobile(String(order.phone).replace(/\D/g, ''))
+  }
+
+  if (order.address_json) {
+    redacted.address_json = {
+      fullName: firstName(order.address_json.fullName),
+      city: order.address_json.city || null,
+      state: order.address_json.state || null,
+    }
+  }
+
+  return redacted as T
+}
+
+export function firstName(fullName: unknown): string | null {
+  return typeof fullName === 'string' ? fullName.trim().split(/\s+/)[0] || null : null
+}
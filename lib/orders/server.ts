@@ -0,0 +1,501 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { diffFields, recordAuditEvent } from '@/lib/audit/server'
+import { deductOrderStock, releaseOrderStock, restockOrderStock } from '@/lib/inventory/server'
+import { assignInvoiceNumber } from '@/lib/invoices/server'
+import { createOrderRefund, type RefundResult } from '@/lib/refunds/server'
+import {
+  CANCELLATION_REASONS,
+  ORDER_STATUS_LABELS,
+  canTransition,
+  getNextStatuses,
+  isOrderStatus,
+  type OrderStatus,
+} from './lifecycle'
+
+/**
+ * Server-side order status changes.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - Every status change (admin, customer, webhook, verify, reconciliation) goes through
+ *   transitionOrder so the rules in lib/orders/lifecycle.ts always apply;
+ *   a failed payment on a pending order goes through recordPaymentFailure.
+ * - The update only lands if the order still has the status it was read
+ *   with; a concurrent change makes the transition fail with 409.
+ *
+ * Per transition:
+ * - confirmed: the order must be paid (or Cash on Delivery); stock is
+ *   deducted and a paid order gets its invoice number
+ * - shipped: needs a tracking number; stamps shipped_at
+ * - delivered: stamps delivered_at; Cash on Delivery orders become paid
+ * - cancelled: stamps cancelled_at, then refunds what is left of a Razorpay
+ *   payment (undoing the cancellation if the refund fails) and gives
+ *   reserved or deducted stock back
+ * - returned: stamps returned_at; with rto the refused COD parcel is recorded
+ */
+
+export interface TransitionInput {
+  to: OrderStatus
+  note?: string
+  trackingNumber?: string | null
+  shippingProvider?: string | null
+  /** returned only: a Cash on Delivery parcel refused at the door */
+  rto?: boolean
+  /** Extra columns written together with the status (e.g. payment fields) */
+  changes?: Record<string, unknown>
+  /** Admin making the change, recorded on refunds */
+  actorId?: string | null
+  /** false for staff without the issue_refunds permission: a paid order can't be cancelled (it would be refunded) */
+  canRefund?: boolean
+}
+
+export type TransitionResult = { ok: true; order: any } | { ok: false; error: string; status: number }
+
+interface LifecycleOrderRow {
+  id: string
+  order_number: string
+  status: string
+  status_history: any[] | null
+  payment_method: string | null
+  payment_status: string
+  payment_id: string | null
+  tracking_number: string | null
+  rto_at: string | null
+}
+
+const ORDER_COLUMNS =
+  'id, order_number, status, status_history, payment_method, payment_status, payment_id, tracking_number, rto_at'
+
+const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded']
+
+async function loadLifecycleOrder(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<LifecycleOrderRow | null> {
+  const { data, error } = await supabase.from('orders').select(ORDER_COLUMNS).eq('id', orderId).maybeSingle()
+
+  if (error) {
+    console.error('Error in transitionOrder:', error)
+    throw new Error(`Failed to load order: ${error.message}`)
+  }
+
+  return data as LifecycleOrderRow | null
+}
+
+/**
+ * Explain why an order can't move to a status
+ */
+function describeInvalidTransition(from: string, to: OrderStatus): string {
+  if (from === to) {
+    return `Order is already ${ORDER_STATUS_LABELS[to].toLowerCase()}`
+  }
+
+  const next = getNextStatuses(from)
+  if (next.length === 0) {
+    return `A ${from} order can't change status`
+  }
+
+  return `Can't move an order from ${from} to ${to}. It can move to: ${next.join(', ')}`
+}
+
+/**
+ * Customer payload for cancelling their own order
+ */
+export const customerCancelSchema = z.object({
+  reason: z.string().refine((reason) => reason in CANCELLATION_REASONS, 'Choose a reason for cancelling'),
+  details: z.string().trim().max(500).optional(),
+})
+
+export type CustomerCancelInput = z.infer<typeof customerCancelSchema>
+
+/**
+ * The status_history note for a customer cancellation
+ */
+export function describeCustomerCancellation(input: CustomerCancelInput): string {
+  return `Cancelled by customer: ${CANCELLATION_REASONS[input.reason]}${input.details ? ` (${input.details})` : ''}`
+}
+
+/**
+ * Move an order to a new status, enforcing the lifecycle and running the
+ * transition's side effects
+ */
+export async function transitionOrder(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string,
+  input: TransitionInput
+): Promise<TransitionResult> {
+  const order = await loadLifecycleOrder(supabase, orderId)
+  if (!order) {
+    return { ok: false, error: 'Order not found', status: 404 }
+  }
+
+  const from = order.status
+  const { to } = input
+
+  if (!canTransition(from, to)) {
+    return { ok: false, error: describeInvalidTransition(from, to), status: 409 }
+  }
+
+  const isCod = order.payment_method === 'cod'
+  const paymentStatus = (input.changes?.payment_status as string | undefined) ?? order.payment_status
+  const trackingNumber = (input.trackingNumber ?? order.tracking_number ?? '').trim()
+  const now = new Date().toISOString()
+  const update: Record<string, unknown> = { ...input.changes }
+
+  if (to === 'confirmed' && paymentStatus !== 'paid' && !isCod) {
+    return { ok: false, error: 'Only paid or Cash on Delivery orders can be confirmed', status: 400 }
+  }
+
+  if (to === 'shipped') {
+    if (!trackingNumber) {
+      return { ok: false, error: 'A tracking number is required to mark an order shipped', status: 400 }
+    }
+    update.tracking_number = trackingNumber
+    update.shipped_at = now
+  }
+
+  if (input.shippingProvider !== undefined) {
+    update.shipping_provider = input.shippingProvider || null
+  }
+
+  if (to === 'delivered') {
+    update.delivered_at = now
+    // Cash is collected on delivery
+    if (isCod && paymentStatus !== 'paid') {
+      update.payment_status = 'paid'
+      update.payment_date = now
+    }
+  }
+
+  if (to === 'returned') {
+    update.returned_at = now
+    if (input.rto) {
+      if (!isCod) {
+        return { ok: false, error: 'Only Cash on Delivery orders can be marked as returned to origin', status: 400 }
+      }
+      if (paymentStatus === 'paid') {
+        return { ok: false, error: 'This order was delivered and paid for', status: 409 }
+      }
+      update.rto_at = order.rto_at || now
+    }
+  }
+
+  // Cancelling a Razorpay order refunds what is left of the payment
+  const refundsOnCancel =
+    to === 'cancelled' && !isCod && !!order.payment_id && REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status)
+
+  if (to === 'cancelled') {
+    update.cancelled_at = now
+
+    if (refundsOnCancel && input.canRefund === false) {
+      return { ok: false, error: 'Cancelling this paid order refunds it, which your role is not allowed to do', status: 403 }
+    }
+  }
+
+  const note =
+    input.note ||
+    (input.rto ? 'Returned to origin: COD parcel refused' : `Status updated to ${to}`)
+
+  const { data: updatedOrder, error: updateError } = await supabase
+    .from('orders')
+    .update({
+      ...update,
+      status: to,
+      status_history: [
+        ...(Array.isArray(order.status_history) ? order.status_history : []),
+        { status: to, timestamp: now, note },
+      ],
+      updated_at: now,
+    })
+    .eq('id', order.id)
+    .eq('status', from)
+    .select('*')
+    .maybeSingle()
+
+  if (updateError) {
+    console.error('Error in transitionOrder:', updateError)
+    throw new Error(`Failed to update order status: ${updateError.message}`)
+  }
+
+  if (!updatedOrder) {
+    return { ok: false, error: 'The order changed while it was being updated. Refresh and try again.', status: 409 }
+  }
+
+  // The cancellation is claimed first, so a concurrent cancel or ship can't
+  // also act on the order; only then does the money go back. A failed
+  // refund puts the order back the way it was.
+  let transitioned = updatedOrder
+  if (refundsOnCancel) {
+    let refund: RefundResult
+    try {
+      refund = await createOrderRefund(
+        supabase,
+        order.id,
+        { reason: input.note || 'Order cancelled' },
+        input.actorId ?? null
+      )
+    } catch (error) {
+      await revertCancellation(supabase, updatedOrder, from, error instanceof Error ? error.message : 'Refund failed')
+      throw error
+    }
+
+    if (!refund.ok) {
+      await revertCancellation(supabase, updatedOrder, from, refund.error)
+      return { ok: false, error: `Order not cancelled: ${refund.error}`, status: refund.status || 400 }
+    }
+
+    // The refund appended to status_history and changed payment_status
+    const { data: refundedOrder } = await supabase.from('orders').select('*').eq('id', order.id).maybeSingle()
+    transitioned = refundedOrder || updatedOrder
+  }
+
+  await runAfterTransition(supabase, transitioned, to)
+
+  return { ok: true, order: transitioned }
+}
+
+/**
+ * Undo a claimed cancellation whose refund didn't go through
+ */
+async function revertCancellation(
+  supabase: SupabaseClient<any, any, any>,
+  cancelledOrder: any,
+  previousStatus: string,
+  reason: string
+) {
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      status: previousStatus,
+      cancelled_at: null,
+      status_history: [
+        ...(Array.isArray(cancelledOrder.status_history) ? cancelledOrder.status_history : []),
+        { status: previousStatus, timestamp: new Date().toISOString(), note: `Cancellation reverted: ${reason}` },
+      ],
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', cancelledOrder.id)
+    .eq('status', 'cancelled')
+
+  if (error) {
+    console.error('[Order Lifecycle] Failed to revert cancellation after a failed refund:', cancelledOrder.id, error)
+  }
+}
+
+const SETTLED_PAYMENT_STATUSES = ['paid', 'refunded', 'partially_refunded']
+
+/**
+ * Record a failed payment attempt on an order still waiting for payment.
+ * The order stays pending so the customer can retry; its reserved stock is
+ * released. Paid or refunded orders and orders that moved on are left alone.
+ */
+export async function recordPaymentFailure(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string,
+  note: string
+): Promise<TransitionResult> {
+  const order = await loadLifecycleOrder(supabase, orderId)
+  if (!order) {
+    return { ok: false, error: 'Order not found', status: 404 }
+  }
+
+  if (SETTLED_PAYMENT_STATUSES.includes(order.payment_status)) {
+    return { ok: false, error: `Order is already ${order.payment_status.replace('_', ' ')}`, status: 409 }
+  }
+
+  if (order.status !== 'pending') {
+    return { ok: false, error: `A ${order.status} order is not waiting for payment`, status: 409 }
+  }
+
+  const now = new Date().toISOString()
+  const { data: updatedOrder, error: updateError } = await supabase
+    .from('orders')
+    .update({
+      payment_status: 'failed',
+      status_history: [
+        ...(Array.isArray(order.status_history) ? order.status_history : []),
+        { status: order.status, timestamp: now, note },
+      ],
+      updated_at: now,
+    })
+    .eq('id', order.id)
+    .eq('status', order.status)
+    .eq('payment_status', order.payment_status)
+    .select('*')
+    .maybeSingle()
+
+  if (updateError) {
+    console.error('Error in recordPaymentFailure:', updateError)
+    throw new Error(`Failed to record payment failure: ${updateError.message}`)
+  }
+
+  if (!updatedOrder) {
+    return { ok: false, error: 'The order changed while it was being updated. Refresh and try again.', status: 409 }
+  }
+
+  // Give the held items back; a later successful retry deducts them again
+  try {
+    await releaseOrderStock(supabase, updatedOrder.id)
+  } catch (releaseError) {
+    console.error('[Order Lifecycle] Failed to release stock for order:', updatedOrder.id, releaseError)
+  }
+
+  return { ok: true, order: updatedOrder }
+}
+
+/**
+ * Admin edit of an order (PUT /api/admin/orders/[id] and the bulk actions):
+ * a status change through the lifecycle plus tracking, courier and notes
+ */
+export const adminOrderUpdateSchema = z.object({
+  status: z.string().trim().toLowerCase().nullable().optional(),
+  tracking_number: z.string().trim().max(100).nullable().optional(),
+  shipping_provider: z.string().trim().max(100).nullable().optional(),
+  admin_notes: z.string().max(5000).nullable().optional(),
+  /** Added as a dated line below the existing admin notes */
+  append_admin_note: z.string().trim().min(1).max(1000).optional(),
+  /** A shipped COD parcel refused at the door; implies status returned */
+  rto: z.boolean().optional(),
+  /** Saved in status_history with the status change */
+  note: z.string().optional(),
+})
+
+export type AdminOrderUpdate = z.infer<typeof adminOrderUpdateSchema>
+
+/** Order fields an admin edit can change, compared for the audit log */
+const AUDITED_ORDER_FIELDS = ['status', 'payment_status', 'tracking_number', 'shipping_provider', 'admin_notes'] as const
+
+export interface AdminOrderUpdateOptions {
+  /** Whether the admin holds issue_refunds (cancelling a paid order refunds it) */
+  canRefund?: boolean
+}
+
+export async function updateAdminOrder(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string,
+  input: AdminOrderUpdate,
+  actorId: string | null,
+  options: AdminOrderUpdateOptions = {}
+): Promise<TransitionResult> {
+  const status = input.rto === true ? 'returned' : input.status || null
+
+  if (status !== null && !isOrderStatus(status)) {
+    return { ok: false, error: `Unknown order status "${status}"`, status: 400 }
+  }
+
+  const { data: currentOrder, error: fetchError } = await supabase
+    .from('orders')
+    .select('status, payment_status, tracking_number, shipping_provider, admin_notes')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (fetchError) {
+    console.error('Error in updateAdminOrder:', fetchError)
+    throw new Error(`Failed to fetch order: ${fetchError.message}`)
+  }
+
+  if (!currentOrder) {
+    return { ok: false, error: 'Order not found', status: 404 }
+  }
+
+  // Status changes go through the order lifecycle (allowed moves, required fields, side effects)
+  if (status && status !== currentOrder.status) {
+    const transition = await transitionOrder(supabase, orderId, {
+      to: status,
+      note: input.note?.trim() || undefined,
+      trackingNumber: input.tracking_number,
+      shippingProvider: input.shipping_provider,
+      rto: input.rto === true,
+      actorId,
+      canRefund: options.canRefund,
+    })
+
+    if (!transition.ok) {
+      return transition
+    }
+  }
+
+  const updateData: Record<string, unknown> = {}
+
+  if (input.tracking_number !== undefined) {
+    updateData.tracking_number = input.tracking_number || null
+  }
+
+  if (input.shipping_provider !== undefined) {
+    updateData.shipping_provider = input.shipping_provider || null
+  }
+
+  if (input.admin_notes !== undefined) {
+    updateData.admin_notes = input.admin_notes || null
+  }
+
+  if (input.append_admin_note) {
+    const existing = input.admin_notes !== undefined ? input.admin_notes : currentOrder.admin_notes
+    const stamp = new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', dateStyle: 'medium', timeStyle: 'short' })
+    updateData.admin_notes = `${existing ? `${existing}\n` : ''}[${stamp}] ${input.append_admin_note}`
+  }
+
+  if (Object.keys(updateData).length > 0) {
+    updateData.updated_at = new Date().toISOString()
+
+    const { error: updateError } = await supabase.from('orders').update(updateData).eq('id', orderId)
+
+    if (updateError) {
+      console.error('Error in updateAdminOrder:', updateError)
+      throw new Error(`Failed to update order: ${updateError.message}`)
+    }
+  }
+
+  const { data: updatedOrder, error: reloadError } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (reloadError || !updatedOrder) {
+    console.error('Error in updateAdminOrder:', reloadError)
+    throw new Error(`Failed to fetch updated order: ${reloadError?.message || 'Updated order not found'}`)
+  }
+
+  const diff = diffFields(currentOrder, updatedOrder, AUDITED_ORDER_FIELDS)
+  if (diff) {
+    await recordAuditEvent(supabase, {
+      actorId,
+      action: 'update',
+      entityType: 'order',
+      entityId: orderId,
+      entityLabel: updatedOrder.order_number,
+      ...diff,
+    })
+  }
+
+  return { ok: true, order: updatedOrder }
+}
+
+/**
+ * Stock and invoice side effects; failures are logged, the status change stands
+ */
+async function runAfterTransition(supabase: SupabaseClient<any, any, any>, order: any, to: OrderStatus) {
+  try {
+    if (to === 'confirmed') {
+      await deductOrderStock(supabase, order.id)
+    }
+
+    if (to === 'cancelled') {
+      await releaseOrderStock(supabase, order.id)
+      await restockOrderStock(supabase, order.id)
+    }
+  } catch (error) {
+    console.error(`[Order Lifecycle] Stock update failed after ${to}:`, order.id, error)
+  }
+
+  // Exchange orders replace sizes from an invoiced order and get no invoice of their own
+  if ((to === 'confirmed' || to === 'delivered') && order.payment_status === 'paid' && order.payment_method !== 'exchange') {
+    try {
+      await assignInvoiceNumber(supabase, order.id)
+    } catch (error) {
+      console.error('[Order Lifecycle] Failed to assign invoice number for order:', order.id, error)
+    }
+  }
+}
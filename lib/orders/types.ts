@@ -0,0 +1,81 @@
+/**
+ * Admin order list: search, filters, sorting and pagination. Safe to import
+ * from client components; the query lives in lib/orders/list.ts.
+ */
+
+export const ORDER_SORTS = ['newest', 'oldest', 'total_desc', 'total_asc'] as const
+
+export type OrderSort = (typeof ORDER_SORTS)[number]
+
+export const ORDER_SORT_LABELS: Record<OrderSort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  total_desc: 'Highest total',
+  total_asc: 'Lowest total',
+}
+
+export const ORDER_PAYMENT_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded',
+}
+
+export const ORDER_PAYMENT_METHOD_LABELS: Record<string, string> = {
+  razorpay: 'Online (Razorpay)',
+  cod: 'Cash on Delivery',
+  exchange: 'Exchange',
+}
+
+export const DEFAULT_ORDER_PAGE_SIZE = 25
+export const MAX_ORDER_PAGE_SIZE = 100
+
+/** Orders per bulk action or tracking import */
+export const MAX_BULK_ORDERS = 200
+
+export interface AdminOrderFilters {
+  /** Order number, email, phone, customer name or payment id */
+  q?: string
+  status?: string
+  payment_status?: string
+  payment_method?: string
+  /** Inclusive dates (YYYY-MM-DD, India time) */
+  date_from?: string
+  date_to?: string
+  sort?: OrderSort
+  /** Only these orders (exporting a selection) */
+  ids?: string[]
+}
+
+export interface AdminOrderPage<T = any> {
+  orders: T[]
+  /** Pass back as `cursor` for the next page; null on the last page */
+  next_cursor: string | null
+  /** Matching orders across all pages; only counted for the first page */
+  total: number | null
+}
+
+/** Outcome of a bulk action or tracking import row for one order */
+export interface BulkOrderResult {
+  order_id: string | null
+  order_number: string | null
+  ok: boolean
+  error?: string
+  order?: any
+}
+
+/**
+ * Query string for /api/admin/orders and its export, without empty values
+ */
+export function buildOrderFilterQuery(
+  filters: AdminOrderFilters,
+  extra: Record<string, string | number | null | undefined> = {}
+): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries({ ...filters, ...extra })) {
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      params.set(key, String(value).trim())
+    }
+  }
+  return params.toString()
+}
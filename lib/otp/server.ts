@@ -0,0 +1,156 @@
+import crypto from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Phone OTPs for checkout (used to confirm COD orders).
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers; phone_otps is service-role only.
+ * - Codes are stored as HMACs keyed with OTP_SECRET (falls back to the
+ *   service role key), never in plain text.
+ * - SMS goes through MSG91. Without MSG91_AUTH_KEY the code is logged to the
+ *   console in development and sending fails in production.
+ */
+
+export const OTP_TTL_MINUTES = 10
+export const OTP_MAX_ATTEMPTS = 5
+const OTP_SEND_LIMIT = 3
+const OTP_SEND_WINDOW_MINUTES = 15
+
+export type OtpResult = { ok: true } | { ok: false; error: string }
+
+function hashOtp(phone: string, code: string): string {
+  const secret = process.env.OTP_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY || 'add2cart-otp'
+  return crypto.createHmac('sha256', secret).update(`${phone}:${code}`).digest('hex')
+}
+
+/**
+ * Deliver the code by SMS via MSG91's OTP API
+ */
+async function deliverOtpSms(phone: string, code: string): Promise<boolean> {
+  const authKey = process.env.MSG91_AUTH_KEY
+  const templateId = process.env.MSG91_OTP_TEMPLATE_ID
+
+  if (!authKey || !templateId) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.log(`[OTP] MSG91 is not configured; OTP for ${phone} is ${code}`)
+      return true
+    }
+    console.error('[OTP] MSG91_AUTH_KEY / MSG91_OTP_TEMPLATE_ID are not set')
+    return false
+  }
+
+  const params = new URLSearchParams({ template_id: templateId, mobile: `91${phone}`, otp: code })
+  const response = await fetch(`https://control.msg91.com/api/v5/otp?${params.toString()}`, {
+    method: 'POST',
+    headers: { authkey: authKey, 'Content-Type': 'application/json' },
+  })
+
+  const data = await response.json().catch(() => null)
+  if (!response.ok || data?.type === 'error') {
+    console.error('[OTP] MSG91 rejected the OTP request:', { status: response.status, data })
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Generate and text a new code to a 10 digit mobile number.
+ * undeliveredError is shown when the SMS can't be sent; the default suits
+ * Cash on Delivery checkout.
+ */
+export async function sendPhoneOtp(
+  supabase: SupabaseClient<any, any, any>,
+  phone: string,
+  undeliveredError = 'Could not send the OTP right now. Please try again or pay online.'
+): Promise<OtpResult> {
+  const windowStart = new Date(Date.now() - OTP_SEND_WINDOW_MINUTES * 60 * 1000).toISOString()
+
+  const { count, error: countError } = await supabase
+    .from('phone_otps')
+    .select('id', { count: 'exact', head: true })
+    .eq('phone', phone)
+    .gte('created_at', windowStart)
+
+  if (countError) {
+    console.error('Error in sendPhoneOtp:', countError)
+    throw new Error(`Failed to check OTP requests: ${countError.message}`)
+  }
+
+  if ((count || 0) >= OTP_SEND_LIMIT) {
+    return { ok: false, error: `Too many OTP requests. Please try again in ${OTP_SEND_WINDOW_MINUTES} minutes.` }
+  }
+
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0')
+
+  const { error } = await supabase.from('phone_otps').insert({
+    phone,
+    code_hash: hashOtp(phone, code),
+    expires_at: new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000).toISOString(),
+  })
+
+  if (error) {
+    console.error('Error in sendPhoneOtp:', error)
+    throw new Error(`Failed to store OTP: ${error.message}`)
+  }
+
+  const delivered = await deliverOtpSms(phone, code)
+  if (!delivered) {
+    return { ok: false, error: undeliveredError }
+  }
+
+  return { ok: true }
+}
+
+/**
+ * Check a code against the latest unexpired OTP for the number.
+ * Each wrong guess counts towards OTP_MAX_ATTEMPTS; a matched code can't be reused.
+ */
+export async function verifyPhoneOtp(
+  supabase: SupabaseClient<any, any, any>,
+  phone: string,
+  code: string
+): Promise<OtpResult> {
+  if (!/^\d{6}$/.test(code.trim())) {
+    return { ok: false, error: 'Enter the 6 digit OTP sent to your phone' }
+  }
+
+  const { data: otp, error } = await supabase
+    .from('phone_otps')
+    .select('id, code_hash, attempts, expires_at')
+    .eq('phone', phone)
+    .is('verified_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in verifyPhoneOtp:', error)
+    throw new Error(`Failed to load OTP: ${error.message}`)
+  }
+
+  if (!otp) {
+    return { ok: false, error: 'Your OTP has expired. Please request a new one.' }
+  }
+
+  if (otp.attempts >= OTP_MAX_ATTEMPTS) {
+    return { ok: false, error: 'Too many incorrect attempts. Please request a new OTP.' }
+  }
+
+  const expected = Buffer.from(otp.code_hash, 'hex')
+  const actual = Buffer.from(hashOtp(phone, code.trim()), 'hex')
+  const matches = expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+
+  const { error: updateError } = await supabase
+    .from('phone_otps')
+    .update(matches ? { verified_at: new Date().toISOString() } : { attempts: otp.attempts + 1 })
+    .eq('id', otp.id)
+
+  if (updateError) {
+    throw new Error(`Failed to update OTP: ${updateError.message}`)
+  }
+
+  return matches ? { ok: true } : { ok: false, error: 'Incorrect OTP. Please check the code and try again.' }
+}
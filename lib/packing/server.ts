@@ -0,0 +1,364 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import { z } from 'zod'
+import { transitionOrder } from '@/lib/orders/server'
+import type { SellerDetails } from '@/lib/tax/types'
+import { pdfSafe, wrapText } from '@/lib/utils/pdf'
+import { MAX_PACKING_BATCH } from './types'
+
+/**
+ * Packing slips and address labels for a batch of orders, printed from the
+ * admin orders page.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - One A4 page per order: the packing slip on top (items without prices,
+ *   customer notes) and a cut-out address label from address_json at the
+ *   bottom. Long orders continue on extra pages.
+ * - Moving the batch to processing goes through transitionOrder, one order
+ *   at a time; an order that fails keeps its status and is reported.
+ */
+
+export const packingSlipRequestSchema = z.object({
+  order_ids: z
+    .array(z.string().uuid())
+    .min(1, 'Select at least one order')
+    .max(MAX_PACKING_BATCH, `Print at most ${MAX_PACKING_BATCH} orders at a time`),
+  mark_processing: z.boolean().optional().default(false),
+})
+
+export interface PackingOrder {
+  id: string
+  order_number: string
+  status: string
+  email: string | null
+  phone: string | null
+  address_json: any
+  items_json: Array<{ title: string; quantity: number; variant?: string | null }> | null
+  total_cents: number
+  payment_method: string | null
+  payment_status: string
+  customer_notes: string | null
+  tracking_number: string | null
+  shipping_provider: string | null
+  created_at: string
+}
+
+const PAGE_WIDTH = 595.28 // A4
+const PAGE_HEIGHT = 841.89
+const MARGIN = 40
+const LABEL_HEIGHT = 220
+/** The slip stops above the cut line on an order's first page */
+const CUT_LINE_Y = MARGIN + LABEL_HEIGHT + 20
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1)
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4)
+const RULE_COLOR = rgb(0.8, 0.8, 0.8)
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'Asia/Kolkata',
+  })
+
+const formatAmount = (cents: number) =>
+  (cents / 100).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+/**
+ * Load the selected orders, in the order they were selected
+ */
+export async function loadPackingOrders(
+  supabase: SupabaseClient<any, any, any>,
+  orderIds: string[]
+): Promise<PackingOrder[]> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(
+      'id, order_number, status, email, phone, address_json, items_json, total_cents, payment_method, payment_status, customer_notes, tracking_number, shipping_provider, created_at'
+    )
+    .in('id', orderIds)
+
+  if (error) {
+    console.error('Error in loadPackingOrders:', error)
+    throw new Error(`Failed to load orders: ${error.message}`)
+  }
+
+  const byId = new Map((data || []).map((order: PackingOrder) => [order.id, order]))
+  return orderIds.map((id) => byId.get(id)).filter((order): order is PackingOrder => !!order)
+}
+
+/**
+ * Move the confirmed orders of a packed batch to processing
+ */
+export async function markOrdersProcessing(
+  supabase: SupabaseClient<any, any, any>,
+  orders: PackingOrder[],
+  actorId: string | null
+): Promise<{ updated: string[]; failed: Array<{ order_number: string; error: string }> }> {
+  const updated: string[] = []
+  const failed: Array<{ order_number: string; error: string }> = []
+
+  for (const order of orders.filter((item) => item.status === 'confirmed')) {
+    const result = await transitionOrder(supabase, order.id, {
+      to: 'processing',
+      note: 'Packing slip printed',
+      actorId,
+    })
+    if (result.ok) {
+      updated.push(order.order_number)
+    } else {
+      failed.push({ order_number: order.order_number, error: result.error })
+    }
+  }
+
+  return { updated, failed }
+}
+
+/**
+ * Render packing slips and address labels for a batch as one PDF
+ */
+export async function renderPackingSlipsPdf(orders: PackingOrder[], seller: SellerDetails): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`Packing slips (${orders.length} orders)`)
+  pdf.setAuthor(seller.legal_name)
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  for (const order of orders) {
+    drawOrder(pdf, order, seller, font, bold)
+  }
+
+  return pdf.save()
+}
+
+function drawOrder(pdf: PDFDocument, order: PackingOrder, seller: SellerDetails, font: PDFFont, bold: PDFFont) {
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+  let bottom = CUT_LINE_Y + 10
+
+  const text = (value: string, x: number, options: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb> } = {}) => {
+    page.drawText(pdfSafe(value), {
+      x,
+      y,
+      size: options.size ?? 10,
+      font: options.font ?? font,
+      color: options.color ?? TEXT_COLOR,
+    })
+  }
+
+  const rule = () => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    })
+  }
+
+  // Later pages of a long order have no label, so the slip can use the full page
+  const ensureSpace = (height: number) => {
+    if (y - height >= bottom) return
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    y = PAGE_HEIGHT - MARGIN
+    bottom = MARGIN
+    text(`Order ${order.order_number} (continued)`, MARGIN, { size: 9, color: MUTED_COLOR })
+    y -= 20
+  }
+
+  drawLabel(page, order, seller, font, bold)
+
+  // Header
+  text('PACKING SLIP', MARGIN, { size: 16, font: bold })
+  text(seller.legal_name, PAGE_WIDTH - MARGIN - bold.widthOfTextAtSize(pdfSafe(seller.legal_name), 10), {
+    font: bold,
+  })
+  y -= 24
+
+  text(`Order: ${order.order_number}`, MARGIN, { size: 11, font: bold })
+  text(`Placed: ${formatDate(order.created_at)}`, MARGIN + 260, { size: 10 })
+  y -= 15
+  text(`Payment: ${describePayment(order)}`, MARGIN, { size: 10 })
+  if (order.tracking_number) {
+    text(`AWB: ${order.tracking_number}${order.shipping_provider ? ` (${order.shipping_provider})` : ''}`, MARGIN + 260, {
+      size: 10,
+    })
+  }
+  y -= 20
+
+  // Items: a tick box for the packer, then what goes in the parcel
+  const columns = { check: MARGIN, item: MARGIN + 24, variant: MARGIN + 330, quantity: PAGE_WIDTH - MARGIN - 40 }
+  rule()
+  y -= 14
+  text('Item', columns.item, { size: 9, font: bold, color: MUTED_COLOR })
+  text('Variant', columns.variant, { size: 9, font: bold, color: MUTED_COLOR })
+  text('Qty', columns.quantity, { size: 9, font: bold, color: MUTED_COLOR })
+  y -= 8
+  rule()
+  y -= 16
+
+  const items = order.items_json || []
+  for (const item of items) {
+    const titleLines = wrapText(item.title, font, 10, columns.variant - columns.item - 10)
+    const variantLines = wrapText(item.variant || '-', font, 10, columns.quantity - columns.variant - 10)
+    const rowHeight = Math.max(titleLines.length, variantLines.length) * 13 + 6
+    ensureSpace(rowHeight)
+
+    page.drawRectangle({
+      x: columns.check,
+      y: y - 2,
+      width: 10,
+      height: 10,
+      borderColor: TEXT_COLOR,
+      borderWidth: 0.75,
+    })
+    const rowTop = y
+    titleLines.forEach((line, index) => {
+      y = rowTop - index * 13
+      text(line, columns.item)
+    })
+    variantLines.forEach((line, index) => {
+      y = rowTop - index * 13
+      text(line, columns.variant)
+    })
+    y = rowTop
+    text(String(item.quantity), columns.quantity, { font: bold })
+    y = rowTop - rowHeight
+  }
+
+  ensureSpace(24)
+  rule()
+  y -= 14
+  const pieces = items.reduce((sum, item) => sum + item.quantity, 0)
+  text(`${pieces} piece${pieces === 1 ? '' : 's'} in ${items.length} line${items.length === 1 ? '' : 's'}`, MARGIN, {
+    size: 9,
+    color: MUTED_COLOR,
+  })
+  y -= 22
+
+  if (order.customer_notes?.trim()) {
+    const noteLines = wrapText(order.customer_notes.trim(), font, 10, PAGE_WIDTH - MARGIN * 2 - 20)
+    ensureSpace(noteLines.length * 13 + 30)
+    const boxTop = y + 12
+    text('Customer notes', MARGIN + 10, { size: 9, font: bold, color: MUTED_COLOR })
+    y -= 15
+    for (const line of noteLines) {
+      text(line, MARGIN + 10)
+      y -= 13
+    }
+    page.drawRectangle({
+      x: MARGIN,
+      y: y + 4,
+      width: PAGE_WIDTH - MARGIN * 2,
+      height: boxTop - y - 4,
+      borderColor: RULE_COLOR,
+      borderWidth: 0.75,
+    })
+  }
+}
+
+/**
+ * Address label below a dashed cut line at the bottom of the page
+ */
+function drawLabel(page: PDFPage, order: PackingOrder, seller: SellerDetails, font: PDFFont, bold: PDFFont) {
+  const address = order.address_json || {}
+  const left = MARGIN + 14
+  const right = MARGIN + 330
+  let y = MARGIN + LABEL_HEIGHT - 22
+
+  const text = (value: string, x: number, options: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb> } = {}) => {
+    page.drawText(pdfSafe(value), {
+      x,
+      y,
+      size: options.size ?? 10,
+      font: options.font ?? font,
+      color: options.color ?? TEXT_COLOR,
+    })
+  }
+
+  page.drawLine({
+    start: { x: MARGIN, y: CUT_LINE_Y },
+    end: { x: PAGE_WIDTH - MARGIN, y: CUT_LINE_Y },
+    thickness: 0.75,
+    color: MUTED_COLOR,
+    dashArray: [4, 4],
+  })
+  page.drawText('cut here', { x: PAGE_WIDTH - MARGIN - 40, y: CUT_LINE_Y + 4, size: 7, font, color: MUTED_COLOR })
+
+  page.drawRectangle({
+    x: MARGIN,
+    y: MARGIN,
+    width: PAGE_WIDTH - MARGIN * 2,
+    height: LABEL_HEIGHT,
+    borderColor: TEXT_COLOR,
+    borderWidth: 1.5,
+  })
+  page.drawLine({
+    start: { x: right - 14, y: MARGIN },
+    end: { x: right - 14, y: MARGIN + LABEL_HEIGHT },
+    thickness: 0.75,
+    color: RULE_COLOR,
+  })
+
+  // Ship to
+  text('SHIP TO', left, { size: 8, font: bold, color: MUTED_COLOR })
+  y -= 20
+  text(address.fullName || '-', left, { size: 15, font: bold })
+  y -= 18
+  const streetLines = [
+    [address.flat, address.street].filter(Boolean).join(', '),
+    address.landmark ? `Near ${address.landmark}` : '',
+  ]
+    .filter(Boolean)
+    .flatMap((line) => wrapText(line, font, 12, right - left - 30))
+  for (const line of streetLines.slice(0, 5)) {
+    text(line, left, { size: 12 })
+    y -= 15
+  }
+  text([address.city, address.state].filter(Boolean).join(', '), left, { size: 12, font: bold })
+  y -= 18
+  text(`PIN ${address.pincode || '-'}`, left, { size: 16, font: bold })
+  y -= 20
+  text(`Phone: ${address.phone || order.phone || '-'}`, left, { size: 11 })
+
+  // Order, payment and sender
+  y = MARGIN + LABEL_HEIGHT - 22
+  text('ORDER', right, { size: 8, font: bold, color: MUTED_COLOR })
+  y -= 16
+  text(order.order_number, right, { size: 11, font: bold })
+  y -= 24
+  const collect = collectOnDelivery(order)
+  text(collect > 0 ? 'COD' : 'PREPAID', right, { size: 18, font: bold })
+  y -= 16
+  if (collect > 0) {
+    text(`Collect Rs. ${formatAmount(collect)}`, right, { size: 11, font: bold })
+    y -= 14
+  }
+  if (order.tracking_number) {
+    y -= 4
+    text(`AWB ${order.tracking_number}`, right, { size: 9 })
+    y -= 12
+  }
+  y -= 10
+  text('FROM', right, { size: 8, font: bold, color: MUTED_COLOR })
+  y -= 12
+  text(seller.legal_name, right, { size: 9, font: bold })
+  y -= 11
+  for (const line of seller.address ? wrapText(seller.address, font, 8, PAGE_WIDTH - MARGIN - right - 10).slice(0, 4) : []) {
+    text(line, right, { size: 8, color: MUTED_COLOR })
+    y -= 10
+  }
+}
+
+/** Amount the courier collects at the door */
+function collectOnDelivery(order: PackingOrder): number {
+  return order.payment_method === 'cod' && order.payment_status !== 'paid' ? order.total_cents : 0
+}
+
+function describePayment(order: PackingOrder): string {
+  const collect = collectOnDelivery(order)
+  if (collect > 0) return `Cash on Delivery - collect Rs. ${formatAmount(collect)}`
+  if (order.payment_method === 'exchange') return 'Exchange - nothing to collect'
+  return 'Prepaid'
+}
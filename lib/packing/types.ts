@@ -0,0 +1,9 @@
+/**
+ * Packing slip batch limits. Safe to import from client components; the
+ * PDF and the status changes live in lib/packing/server.ts.
+ */
+
+export const MAX_PACKING_BATCH = 100
+
+/** Orders that can be packed (shipped ones for a reprint) */
+export const PACKABLE_STATUSES = ['confirmed', 'processing', 'shipped']
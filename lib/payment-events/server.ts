@@ -0,0 +1,234 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { NextResponse } from 'next/server'
+import { dispatchWebhookEvent } from '@/lib/razorpay/webhook-handlers'
+import type { PaymentEvent, PaymentEventStatus } from './types'
+
+/**
+ * Durable log of Razorpay webhooks (payment_events).
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - Events are stored before they are handled and keyed by Razorpay's event
+ *   id, so a duplicate delivery is skipped unless the first attempt failed
+ *   or stalled.
+ * - An event stuck in "processing" for STALE_PROCESSING_MINUTES is treated
+ *   as crashed and may be picked up again.
+ */
+
+export const STALE_PROCESSING_MINUTES = 5
+
+const EVENT_COLUMNS =
+  'id, event_id, event_type, payload, status, attempts, error, order_id, razorpay_payment_id, razorpay_order_id, received_at, processed_at, updated_at'
+
+/**
+ * True if an event is being handled right now (and hasn't stalled)
+ */
+export function isProcessingActive(event: Pick<PaymentEvent, 'status' | 'updated_at'>): boolean {
+  if (event.status !== 'processing') return false
+  const updatedAt = new Date(event.updated_at).getTime()
+  return Date.now() - updatedAt < STALE_PROCESSING_MINUTES * 60 * 1000
+}
+
+/**
+ * Store a verified webhook. Returns duplicate: true when the same event was
+ * already handled (or is being handled); otherwise the returned event has
+ * been claimed for processing.
+ */
+export async function recordPaymentEvent(
+  supabase: SupabaseClient<any, any, any>,
+  input: { eventId: string; eventType: string; payload: any }
+): Promise<{ event: PaymentEvent; duplicate: boolean }> {
+  const payment = input.payload?.payload?.payment?.entity
+  const refund = input.payload?.payload?.refund?.entity
+
+  const { data, error } = await supabase
+    .from('payment_events')
+    .insert({
+      event_id: input.eventId,
+      event_type: input.eventType,
+      payload: input.payload,
+      status: 'processing',
+      razorpay_payment_id: payment?.id || refund?.payment_id || null,
+      razorpay_order_id: payment?.order_id || null,
+    })
+    .select(EVENT_COLUMNS)
+    .single()
+
+  if (!error) {
+    return { event: data as PaymentEvent, duplicate: false }
+  }
+
+  if (error.code !== '23505') {
+    console.error('Error in recordPaymentEvent:', error)
+    throw new Error(`Failed to record payment event: ${error.message}`)
+  }
+
+  const existing = await getPaymentEventByEventId(supabase, input.eventId)
+  if (!existing) {
+    throw new Error(`Failed to load payment event ${input.eventId}`)
+  }
+
+  if (existing.status === 'processed' || existing.status === 'ignored' || isProcessingActive(existing)) {
+    return { event: existing, duplicate: true }
+  }
+
+  // The earlier delivery failed or crashed mid-way: try again
+  const claimed = await claimPaymentEvent(supabase, existing)
+  return claimed ? { event: claimed, duplicate: false } : { event: existing, duplicate: true }
+}
+
+/**
+ * Mark an event as processing again and count the attempt. Returns null if
+ * another request claimed it first.
+ */
+export async function claimPaymentEvent(
+  supabase: SupabaseClient<any, any, any>,
+  event: PaymentEvent
+): Promise<PaymentEvent | null> {
+  const { data, error } = await supabase
+    .from('payment_events')
+    .update({
+      status: 'processing',
+      attempts: event.attempts + 1,
+      error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', event.id)
+    .eq('status', event.status)
+    .eq('attempts', event.attempts)
+    .select(EVENT_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in claimPaymentEvent:', error)
+    throw new Error(`Failed to claim payment event: ${error.message}`)
+  }
+
+  return (data as PaymentEvent) || null
+}
+
+/**
+ * Run the handler for a claimed event and save the outcome. Returns the
+ * handler's response so the webhook route can pass it on to Razorpay.
+ */
+export async function processPaymentEvent(
+  supabase: SupabaseClient<any, any, any>,
+  event: PaymentEvent
+): Promise<NextResponse> {
+  let response: NextResponse
+  try {
+    response = await dispatchWebhookEvent(supabase, event.event_type, event.payload?.payload || {})
+  } catch (error) {
+    console.error('[Payment Events] Handler threw for event:', event.event_id, error)
+    response = NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+
+  const body = await response
+    .clone()
+    .json()
+    .catch(() => ({}))
+
+  let status: PaymentEventStatus
+  let errorMessage: string | null = null
+
+  if (response.status >= 400) {
+    status = 'failed'
+    errorMessage = [body.error, body.message].filter(Boolean).join(': ') || `HTTP ${response.status}`
+  } else if (body.order_id) {
+    status = 'processed'
+  } else {
+    // Nothing to update (unhandled event type, or no matching order)
+    status = 'ignored'
+    errorMessage = body.message || null
+  }
+
+  const { error: updateError } = await supabase
+    .from('payment_events')
+    .update({
+      status,
+      error: errorMessage,
+      order_id: body.order_id || event.order_id || null,
+      processed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', event.id)
+
+  if (updateError) {
+    // The order itself was handled; a later duplicate will simply run again
+    console.error('[Payment Events] Failed to save outcome for event:', event.event_id, updateError)
+  }
+
+  return response
+}
+
+/**
+ * Load an event by Razorpay's event id
+ */
+export async function getPaymentEventByEventId(
+  supabase: SupabaseClient<any, any, any>,
+  eventId: string
+): Promise<PaymentEvent | null> {
+  const { data, error } = await supabase
+    .from('payment_events')
+    .select(EVENT_COLUMNS)
+    .eq('event_id', eventId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in getPaymentEventByEventId:', error)
+    throw new Error(`Failed to load payment event: ${error.message}`)
+  }
+
+  return (data as PaymentEvent) || null
+}
+
+/**
+ * Load an event by its row id
+ */
+export async function getPaymentEvent(
+  supabase: SupabaseClient<any, any, any>,
+  id: string
+): Promise<PaymentEvent | null> {
+  const { data, error } = await supabase
+    .from('payment_events')
+    .select(EVENT_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in getPaymentEvent:', error)
+    throw new Error(`Failed to load payment event: ${error.message}`)
+  }
+
+  return (data as PaymentEvent) || null
+}
+
+/**
+ * Most recent events first, optionally filtered by status
+ */
+export async function listPaymentEvents(
+  supabase: SupabaseClient<any, any, any>,
+  options: { status?: PaymentEventStatus; limit?: number } = {}
+): Promise<PaymentEvent[]> {
+  let query = supabase
+    .from('payment_events')
+    .select(EVENT_COLUMNS)
+    .order('received_at', { ascending: false })
+    .limit(options.limit || 100)
+
+  if (options.status) {
+    query = query.eq('status', options.status)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error in listPaymentEvents:', error)
+    throw new Error(`Failed to load payment events: ${error.message}`)
+  }
+
+  return (data || []) as PaymentEvent[]
+}
@@ -0,0 +1,18 @@
+export type PaymentEventStatus = 'processing' | 'processed' | 'ignored' | 'failed'
+
+/** A verified Razorpay webhook, stored in payment_events */
+export interface PaymentEvent {
+  id: string
+  event_id: string // X-Razorpay-Event-Id
+  event_type: string
+  payload: any
+  status: PaymentEventStatus
+  attempts: number
+  error: string | null
+  order_id: string | null
+  razorpay_payment_id: string | null
+  razorpay_order_id: string | null
+  received_at: string
+  processed_at: string | null
+  updated_at: string
+}
@@ -0,0 +1,253 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isSameColor, parseVariantLabel } from '@/lib/utils/stock'
+import { applyCoupon, type CouponLine } from '@/lib/coupons/server'
+import type { AppliedCoupon } from '@/lib/coupons/types'
+import { DEFAULT_PRODUCT_WEIGHT_GRAMS, quoteShipping } from '@/lib/shipping/server'
+import type { ShippingDestination, ShippingQuote } from '@/lib/shipping/types'
+import { calculateOrderTax, getSellerDetails, loadGstRules, type TaxLineInput } from '@/lib/tax/server'
+import type { TaxBreakdown } from '@/lib/tax/types'
+
+/**
+ * Server-side order pricing.
+ *
+ * IMPORTANT:
+ * - Cart prices live in localStorage and must never be trusted.
+ * - The quote built here is the only source of the Razorpay amount and
+ *   of the totals stored on an order.
+ */
+
+const MAX_QUOTE_LINES = 50
+const MAX_LINE_QUANTITY = 20
+
+export interface QuoteLineInput {
+  id: string
+  quantity?: number
+  qty?: number
+  variant?: string | null
+}
+
+/** An order line priced from the database, in the shape stored in orders.items_json */
+export interface QuotedItem {
+  id: string
+  title: string
+  price: number // rupees, matches the cart item shape
+  quantity: number
+  image: string
+  variant: string | null
+}
+
+export interface OrderQuote {
+  items: QuotedItem[]
+  subtotal_cents: number
+  shipping_cents: number
+  cod_fee_cents: number
+  tax_cents: number // GST included in total_cents, not added on top
+  discount_cents: number
+  total_cents: number
+  currency: 'INR'
+  coupon: AppliedCoupon | null
+  shipping: ShippingQuote
+  tax: TaxBreakdown
+}
+
+export interface QuoteOptions {
+  couponCode?: string | null
+  destination?: ShippingDestination | null
+  email?: string | null
+  userId?: string | null
+  codFeeCents?: number // set when pricing a Cash on Delivery order
+}
+
+export type QuoteResult =
+  | { ok: true; quote: OrderQuote }
+  | { ok: false; error: string; reason?: 'coupon' }
+
+interface QuoteProductRow {
+  id: string
+  title: string
+  price_cents: number
+  category_id: string
+  subcategory_id: string | null
+  weight_grams: number | null
+  hsn_code: string | null
+  gst_rate: number | string | null
+  in_stock: boolean | null
+  is_active: boolean | null
+  product_images: Array<{ image_url: string; is_primary: boolean; display_order: number }> | null
+  product_variants: Array<{ color: string; sizes: string[]; image_urls: string[] | null }> | null
+}
+
+/**
+ * Price a cart from products.price_cents and the product variants.
+ *
+ * Returns ok: false with a shopper-facing message when a line can't be
+ * sold (unknown product, inactive, out of stock, unknown colour/size) or
+ * when the coupon can't be used (reason: 'coupon').
+ * Throws only when the database can't be read.
+ */
+export async function buildOrderQuote(
+  supabase: SupabaseClient<any, any, any>,
+  lines: QuoteLineInput[],
+  options: QuoteOptions = {}
+): Promise<QuoteResult> {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    return { ok: false, error: 'Your cart is empty' }
+  }
+
+  if (lines.length > MAX_QUOTE_LINES) {
+    return { ok: false, error: `A single order can contain at most ${MAX_QUOTE_LINES} different items` }
+  }
+
+  if (lines.some((line) => !line || typeof line.id !== 'string' || line.id.trim() === '')) {
+    return { ok: false, error: 'Invalid cart item' }
+  }
+
+  const productIds = Array.from(new Set(lines.map((line) => line.id)))
+
+  const { data: products, error } = await supabase
+    .from('products')
+    .select(
+      `
+      id,
+      title,
+      price_cents,
+      category_id,
+      subcategory_id,
+      weight_grams,
+      hsn_code,
+      gst_rate,
+      in_stock,
+      is_active,
+      product_images(image_url, is_primary, display_order),
+      product_variants(color, sizes, image_urls)
+    `
+    )
+    .in('id', productIds)
+
+  if (error) {
+    console.error('Error in buildOrderQuote:', error)
+    throw new Error(`Failed to price order: ${error.message}`)
+  }
+
+  const productsById = new Map<string, QuoteProductRow>(
+    ((products || []) as QuoteProductRow[]).map((product) => [product.id, product])
+  )
+
+  const gstRules = await loadGstRules(supabase, (products || []) as QuoteProductRow[])
+
+  const items: QuotedItem[] = []
+  const taxLines: TaxLineInput[] = []
+  const couponLines: CouponLine[] = []
+  let weightGrams = 0
+
+  for (const line of lines) {
+    const product = productsById.get(line.id)
+    if (!product || product.is_active === false) {
+      return { ok: false, error: 'An item in your cart is no longer available' }
+    }
+
+    if (product.in_stock === false) {
+      return { ok: false, error: `${product.title} is out of stock` }
+    }
+
+    const quantity = Number(line.quantity ?? line.qty)
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+      return { ok: false, error: `Invalid quantity for ${product.title}` }
+    }
+
+    const variants = product.product_variants || []
+    let variantImage: string | undefined
+
+    if (variants.length > 0) {
+      const { color, size } = parseVariantLabel(line.variant)
+      const variant = color ? variants.find((v) => isSameColor(v.color, color)) : undefined
+
+      if (!variant || !size || !variant.sizes.includes(size)) {
+        return { ok: false, error: `Please choose a valid colour and size for ${product.title}` }
+      }
+
+      variantImage = variant.image_urls?.[0]
+    }
+
+    const primaryImage = [...(product.product_images || [])].sort((a, b) => {
+      if (a.is_primary !== b.is_primary) return a.is_primary ? -1 : 1
+      return a.display_order - b.display_order
+    })[0]?.image_url
+
+    items.push({
+      id: product.id,
+      title: product.title,
+      price: product.price_cents / 100,
+      quantity,
+      image: variantImage || primaryImage || '',
+      variant: line.variant || null,
+    })
+    taxLines.push({
+      description: line.variant ? `${product.title} (${line.variant})` : product.title,
+      quantity,
+      gross_cents: product.price_cents * quantity,
+      rule: gstRules.get(product.id)!,
+    })
+    weightGrams += (product.weight_grams || DEFAULT_PRODUCT_WEIGHT_GRAMS) * quantity
+    couponLines.push({
+      priceCents: product.price_cents,
+      quantity,
+      categoryIds: [product.category_id, product.subcategory_id].filter((id): id is string => !!id),
+    })
+  }
+
+  const subtotalCents = items.reduce((sum, item) => sum + Math.round(item.price * 100) * item.quantity, 0)
+
+  // Free-shipping thresholds compare against the cart value before discounts
+  const shipping = await quoteShipping(supabase, options.destination, weightGrams, subtotalCents)
+  const shippingCents = shipping.shipping_cents
+
+  let discountCents = 0
+  let coupon: AppliedCoupon | null = null
+
+  if (options.couponCode) {
+    const couponResult = await applyCoupon(supabase, options.couponCode, {
+      lines: couponLines,
+      subtotalCents,
+      shippingCents,
+      email: options.email,
+      userId: options.userId,
+    })
+
+    if (!couponResult.ok) {
+      return { ok: false, error: couponResult.error, reason: 'coupon' }
+    }
+
+    discountCents = couponResult.discountCents
+    coupon = couponResult.coupon
+  }
+
+  const codFeeCents = Math.max(options.codFeeCents || 0, 0)
+
+  // Catalogue prices are inclusive of GST; split it out for the invoice
+  const tax = calculateOrderTax({
+    lines: taxLines,
+    shippingCents,
+    codFeeCents,
+    discountCents,
+    sellerState: getSellerDetails().state,
+    destinationState: options.destination?.state,
+  })
+
+  return {
+    ok: true,
+    quote: {
+      items,
+      subtotal_cents: subtotalCents,
+      shipping_cents: shippingCents,
+      cod_fee_cents: codFeeCents,
+      tax_cents: tax.total_tax_cents,
+      discount_cents: discountCents,
+      total_cents: subtotalCents + shippingCents + codFeeCents - discountCents,
+      currency: 'INR',
+      coupon,
+      shipping,
+      tax,
+    },
+  }
+}
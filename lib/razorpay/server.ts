@@ -63,3 +63,13 @@ export function getRazorpayClient(): Razorpay {
 }
 
 
+
+const RAZORPAY_ORDER_ID_PATTERN = /Razorpay Order ID: (order_[A-Za-z0-9]+)/
+
+/**
+ * The Razorpay order a draft order was created for. Drafts keep it in
+ * admin_notes ("Razorpay Order ID: order_...", see /api/orders/draft).
+ */
+export function getDraftRazorpayOrderId(adminNotes: string | null | undefined): string | null {
+  return adminNotes?.match(RAZORPAY_ORDER_ID_PATTERN)?.[1] || null
+}
@@ -0,0 +1,442 @@
+import { NextResponse } from 'next/server'
+import { deductOrderStock } from '@/lib/inventory/server'
+import { assignInvoiceNumber } from '@/lib/invoices/server'
+import { recordPaymentFailure, transitionOrder } from '@/lib/orders/server'
+import { applyRefundEvent } from '@/lib/refunds/server'
+
+/**
+ * Razorpay webhook event handlers, shared by the webhook route and the
+ * admin replay route (/api/admin/payment-events/[id]/replay).
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - Every handler must be safe to run more than once for the same event;
+ *   replays and duplicate deliveries rely on it.
+ * - Successful responses include order_id when an order was updated.
+ *   Responses without one are logged as ignored (see lib/payment-events).
+ */
+
+/**
+ * Run the handler for a verified webhook event
+ * Events handled:
+ * - payment.captured: Payment successful, update order to paid/confirmed
+ * - payment.failed: Payment failed, update order to failed
+ * - refund.created / refund.processed / refund.failed: Track refund progress
+ *   and the order's refunded amount (lib/refunds/server.ts)
+ */
+export async function dispatchWebhookEvent(supabase: any, event: string, eventPayload: any) {
+  if (event === 'payment.captured') {
+    return await handlePaymentCaptured(supabase, eventPayload)
+  } else if (event === 'payment.failed') {
+    return await handlePaymentFailed(supabase, eventPayload)
+  } else if (event === 'refund.created' || event === 'refund.processed' || event === 'refund.failed') {
+    return await handleRefundEvent(supabase, event, eventPayload)
+  }
+
+  // Acknowledge other events but don't process them
+  if (process.env.NODE_ENV !== 'production') {
+    console.log('[Razorpay Webhook] Unhandled event:', event)
+  }
+  return NextResponse.json({ received: true, message: 'Event not handled' })
+}
+
+/**
+ * Handle payment.captured event
+ * Updates order to paid/confirmed status
+ */
+async function handlePaymentCaptured(supabase: any, eventPayload: any) {
+  try {
+    const payment = eventPayload.payment?.entity
+    if (!payment) {
+      console.error('[Razorpay Webhook] Missing payment entity in payload')
+      return NextResponse.json(
+        { error: 'Missing payment entity' },
+        { status: 400 }
+      )
+    }
+
+    const paymentId = payment.id
+    const orderId = payment.order_id
+
+    if (!paymentId) {
+      console.error('[Razorpay Webhook] Missing payment_id')
+      return NextResponse.json(
+        { error: 'Missing payment_id' },
+        { status: 400 }
+      )
+    }
+
+    // Find order by payment_id first (most reliable for captured payments)
+    let orders: any[] | null = null
+    let findError: any = null
+
+    if (paymentId) {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, order_number, payment_status, status, status_history')
+        .eq('payment_id', paymentId)
+        .limit(1)
+
+      orders = data
+      findError = error
+    }
+
+    // If not found by payment_id and we have order_id, search by admin_notes
+    // This handles cases where payment_id might not be set yet
+    if ((!orders || orders.length === 0) && orderId) {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, order_number, payment_status, status, status_history')
+        .ilike('admin_notes', `%Razorpay Order ID: ${orderId}%`)
+        .limit(1)
+
+      orders = data
+      findError = error
+    }
+
+    if (findError) {
+      console.error('[Razorpay Webhook] Error finding order:', findError)
+      return NextResponse.json(
+        { error: 'Database error' },
+        { status: 500 }
+      )
+    }
+
+    if (!orders || orders.length === 0) {
+      console.warn('[Razorpay Webhook] Order not found for payment:', {
+        payment_id: paymentId,
+        razorpay_order_id: orderId,
+      })
+      // Return success to acknowledge webhook (idempotent - order might not exist yet)
+      return NextResponse.json({ received: true, message: 'Order not found' })
+    }
+
+    const order = orders[0]
+
+    // A late duplicate must not mark a refunded order as paid again
+    if (order.payment_status === 'refunded' || order.payment_status === 'partially_refunded') {
+      return NextResponse.json({
+        received: true,
+        message: 'Order already refunded',
+        order_id: order.id,
+      })
+    }
+
+    // Idempotency check: If order is already paid, acknowledge and return
+    if (order.payment_status === 'paid') {
+      if (process.env.NODE_ENV !== 'production') {
+        console.log('[Razorpay Webhook] Order already paid (idempotent):', order.id)
+      }
+      // Stock deduction is idempotent; retry in case the verify route failed to deduct.
+      // A paid order still pending is underpaid and waiting for an admin's review.
+      if (order.status !== 'cancelled' && order.status !== 'pending') {
+        await deductStockSafely(supabase, order.id)
+        await assignInvoiceNumberSafely(supabase, order.id)
+      }
+      return NextResponse.json({ 
+        received: true, 
+        message: 'Order already paid',
+        order_id: order.id 
+      })
+    }
+
+    // Confirming also deducts stock and numbers the invoice (lib/orders/server.ts)
+    const paymentDate = new Date().toISOString()
+    const transition = await transitionOrder(supabase, order.id, {
+      to: 'confirmed',
+      note: `Payment captured via Razorpay webhook (Payment ID: ${paymentId})`,
+      changes: {
+        payment_status: 'paid',
+        payment_id: paymentId,
+        payment_date: paymentDate,
+      },
+    })
+
+    if (!transition.ok) {
+      return await recordPaymentWithoutConfirming(supabase, order.id, paymentId, paymentDate, transition.error)
+    }
+
+    const updatedOrder = transition.order
+
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('[Razorpay Webhook] Order confirmed successfully:', {
+        order_id: updatedOrder.id,
+        order_number: updatedOrder.order_number,
+        payment_id: paymentId,
+      })
+    }
+
+    return NextResponse.json({
+      received: true,
+      order_id: updatedOrder.id,
+      order_number: updatedOrder.order_number,
+    })
+  } catch (error: any) {
+    console.error('[Razorpay Webhook] Error handling payment.captured:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Handle payment.failed event
+ * Marks a pending order's payment as failed
+ */
+async function handlePaymentFailed(supabase: any, eventPayload: any) {
+  try {
+    const payment = eventPayload.payment?.entity
+    if (!payment) {
+      console.error('[Razorpay Webhook] Missing payment entity in payload')
+      return NextResponse.json(
+        { error: 'Missing payment entity' },
+        { status: 400 }
+      )
+    }
+
+    const paymentId = payment.id
+    const orderId = payment.order_id
+    const errorDescription = payment.error_description || payment.error_reason || 'Payment failed'
+
+    if (!paymentId) {
+      console.error('[Razorpay Webhook] Missing payment_id')
+      return NextResponse.json(
+        { error: 'Missing payment_id' },
+        { status: 400 }
+      )
+    }
+
+    // Find order by payment_id first (most reliable for failed payments)
+    let orders: any[] | null = null
+    let findError: any = null
+
+    if (paymentId) {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, order_number, payment_status, status, status_history')
+        .eq('payment_id', paymentId)
+        .limit(1)
+
+      orders = data
+      findError = error
+    }
+
+    // If not found by payment_id and we have order_id, search by admin_notes
+    // This handles cases where payment_id might not be set yet
+    if ((!orders || orders.length === 0) && orderId) {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, order_number, payment_status, status, status_history')
+        .ilike('admin_notes', `%Razorpay Order ID: ${orderId}%`)
+        .limit(1)
+
+      orders = data
+      findError = error
+    }
+
+    if (findError) {
+      console.error('[Razorpay Webhook] Error finding order:', findError)
+      return NextResponse.json(
+        { error: 'Database error' },
+        { status: 500 }
+      )
+    }
+
+    if (!orders || orders.length === 0) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn('[Razorpay Webhook] Order not found for payment:', {
+          payment_id: paymentId,
+          razorpay_order_id: orderId,
+        })
+      }
+      // Return success to acknowledge webhook (idempotent - order might not exist yet)
+      return NextResponse.json({ received: true, message: 'Order not found' })
+    }
+
+    const order = orders[0]
+
+    // Idempotency check: If order is already marked as failed, acknowledge and return
+    if (order.payment_status === 'failed') {
+      if (process.env.NODE_ENV !== 'production') {
+        console.log('[Razorpay Webhook] Order already marked as failed (idempotent):', order.id)
+      }
+      return NextResponse.json({ 
+        received: true, 
+        message: 'Order already marked as failed',
+        order_id: order.id 
+      })
+    }
+
+    // A paid or refunded order keeps its payment, whatever its status (the
+    // failure was an earlier attempt); only a pending order is updated
+    const result = await recordPaymentFailure(
+      supabase,
+      order.id,
+      `Payment failed via Razorpay webhook: ${errorDescription} (Payment ID: ${paymentId})`
+    )
+
+    if (!result.ok) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn('[Razorpay Webhook] Ignoring failure event:', order.id, result.error)
+      }
+      return NextResponse.json({
+        received: true,
+        message: `Ignoring failure: ${result.error}`,
+      })
+    }
+
+    const updatedOrder = result.order
+
+    if (process.env.NODE_ENV !== 'production') {
+      console.log('[Razorpay Webhook] Order marked as failed:', {
+        order_id: updatedOrder.id,
+        order_number: updatedOrder.order_number,
+        payment_id: paymentId,
+        error: errorDescription,
+      })
+    }
+
+    return NextResponse.json({
+      received: true,
+      order_id: updatedOrder.id,
+      order_number: updatedOrder.order_number,
+    })
+  } catch (error: any) {
+    console.error('[Razorpay Webhook] Error handling payment.failed:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Handle refund.created / refund.processed / refund.failed events
+ * Updates the refund record and the order's refund status
+ */
+async function handleRefundEvent(supabase: any, event: string, eventPayload: any) {
+  try {
+    const refund = eventPayload.refund?.entity
+    if (!refund?.id || !refund.payment_id) {
+      console.error('[Razorpay Webhook] Missing refund entity in payload')
+      return NextResponse.json(
+        { error: 'Missing refund entity' },
+        { status: 400 }
+      )
+    }
+
+    const result = await applyRefundEvent(supabase, event, refund)
+
+    if (!result.handled) {
+      console.warn('[Razorpay Webhook] Order not found for refund:', {
+        refund_id: refund.id,
+        payment_id: refund.payment_id,
+      })
+      return NextResponse.json({ received: true, message: 'Order not found' })
+    }
+
+    return NextResponse.json({ received: true, order_id: result.order_id })
+  } catch (error: any) {
+    console.error(`[Razorpay Webhook] Error handling ${event}:`, error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * A payment was captured for an order that can no longer be confirmed (e.g.
+ * the draft was cancelled or expired first). Keep the payment on the order
+ * so an admin can refund or reinstate it.
+ */
+async function recordPaymentWithoutConfirming(
+  supabase: any,
+  orderId: string,
+  paymentId: string,
+  paymentDate: string,
+  reason: string
+) {
+  const { data: order, error: findError } = await supabase
+    .from('orders')
+    .select('id, order_number, status, payment_status, status_history')
+    .eq('id', orderId)
+    .single()
+
+  if (findError) {
+    console.error('[Razorpay Webhook] Error finding order:', findError)
+    return NextResponse.json(
+      { error: 'Database error' },
+      { status: 500 }
+    )
+  }
+
+  // The verify route confirmed it in the meantime
+  if (order.payment_status === 'paid') {
+    return NextResponse.json({ received: true, message: 'Order already paid', order_id: order.id })
+  }
+
+  console.warn('[Razorpay Webhook] Payment captured for an order that cannot be confirmed:', {
+    order_id: order.id,
+    status: order.status,
+    payment_id: paymentId,
+    reason,
+  })
+
+  const statusHistory = Array.isArray(order.status_history) ? [...order.status_history] : []
+  statusHistory.push({
+    status: order.status,
+    timestamp: new Date().toISOString(),
+    note: `Payment captured via Razorpay webhook for a ${order.status} order; refund or reinstate it (Payment ID: ${paymentId})`,
+  })
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({
+      payment_status: 'paid',
+      payment_id: paymentId,
+      payment_date: paymentDate,
+      status_history: statusHistory,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id)
+    .eq('payment_status', order.payment_status)
+
+  if (updateError) {
+    console.error('[Razorpay Webhook] Error updating order:', updateError)
+    return NextResponse.json(
+      { error: 'Failed to update order', message: updateError.message },
+      { status: 500 }
+    )
+  }
+
+  return NextResponse.json({
+    received: true,
+    message: `Payment recorded on ${order.status} order`,
+    order_id: order.id,
+    order_number: order.order_number,
+  })
+}
+
+/**
+ * Deduct stock for a confirmed order without failing the webhook
+ */
+async function deductStockSafely(supabase: any, orderId: string) {
+  try {
+    await deductOrderStock(supabase, orderId)
+  } catch (error) {
+    console.error('[Razorpay Webhook] Failed to deduct stock for order:', orderId, error)
+  }
+}
+
+/**
+ * Number the GST invoice for a paid order without failing the webhook
+ */
+async function assignInvoiceNumberSafely(supabase: any, orderId: string) {
+  try {
+    await assignInvoiceNumber(supabase, orderId)
+  } catch (error) {
+    console.error('[Razorpay Webhook] Failed to assign invoice number for order:', orderId, error)
+  }
+}
@@ -0,0 +1,307 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { transitionOrder } from '@/lib/orders/server'
+import { getDraftRazorpayOrderId, getRazorpayClient } from '@/lib/razorpay/server'
+import type { ReconcileAction, ReconcileResult, ReconcileSummary } from './types'
+
+/**
+ * Reconciliation of Razorpay draft orders that never left "pending".
+ *
+ * A draft stays pending when the browser closes between payment and
+ * /api/razorpay/verify and the webhook is missed too. This asks Razorpay
+ * what happened to each old draft's order and settles it:
+ * - a captured payment: the draft is marked paid/confirmed
+ * - only failed payments: payment_status 'failed', order cancelled
+ * - no payment at all: payment_status 'expired', order cancelled
+ * Drafts with an authorized (not yet captured) or in-flight payment are left
+ * for the next run.
+ *
+ * Drafts the browser already marked failed or cancelled are checked too for
+ * SETTLED_DRAFT_WINDOW_HOURS, since the shopper can still pay for the same
+ * Razorpay order (e.g. retrying in the modal). A payment captured for a
+ * cancelled draft is recorded on it for an admin to refund or reinstate,
+ * unless verify already booked that payment as another order. Pending
+ * drafts are checked first; cancelled ones fill what is left of the batch.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - Drafts are settled through transitionOrder (lib/orders/server.ts), which
+ *   only applies while the draft is still pending, so a webhook or verify
+ *   call that lands at the same time always wins.
+ */
+
+export const DEFAULT_RECONCILE_AGE_MINUTES = 60
+export const MAX_RECONCILE_BATCH = 100
+const SETTLED_DRAFT_WINDOW_HOURS = 120
+
+interface DraftOrderRow {
+  id: string
+  order_number: string
+  status: string
+  payment_status: string
+  status_history: any[] | null
+  admin_notes: string | null
+  created_at: string
+}
+
+interface Decision {
+  action: ReconcileAction
+  note: string
+  paymentId?: string
+}
+
+/**
+ * Decide what a draft's Razorpay payments say about it
+ */
+function decide(
+  razorpayOrderId: string,
+  payments: Array<{ id: string; status: string; error_description?: string | null }>
+): Decision {
+  const captured = payments.find((payment) => payment.status === 'captured')
+  if (captured) {
+    return {
+      action: 'paid',
+      paymentId: captured.id,
+      note: `Payment found by reconciliation (Payment ID: ${captured.id})`,
+    }
+  }
+
+  const inFlight = payments.find((payment) => payment.status === 'authorized' || payment.status === 'created')
+  if (inFlight) {
+    return { action: 'unchanged', note: `Payment ${inFlight.id} is ${inFlight.status}, not captured yet` }
+  }
+
+  const failed = payments.filter((payment) => payment.status === 'failed')
+  if (failed.length > 0) {
+    const last = failed[failed.length - 1]
+    return {
+      action: 'failed',
+      note: `Payment failed (found by reconciliation): ${last.error_description || 'Payment failed'} (Payment ID: ${last.id})`,
+    }
+  }
+
+  return {
+    action: 'expired',
+    note: `Draft expired: no payment was made for Razorpay Order ${razorpayOrderId}`,
+  }
+}
+
+/**
+ * The order number of another order that already holds this payment (verify
+ * books a new order when the shopper pays for a draft that was cancelled)
+ */
+async function findOtherOrderWithPayment(
+  supabase: SupabaseClient<any, any, any>,
+  paymentId: string,
+  orderId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('order_number')
+    .eq('payment_id', paymentId)
+    .neq('id', orderId)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in findOtherOrderWithPayment:', error)
+    throw new Error(`Failed to look up payment: ${error.message}`)
+  }
+
+  return data?.order_number ?? null
+}
+
+/**
+ * Apply a decision to a draft through the order lifecycle. Returns false if
+ * the draft was no longer pending (something else settled it first).
+ */
+async function applyDecision(
+  supabase: SupabaseClient<any, any, any>,
+  order: DraftOrderRow,
+  decision: Decision
+): Promise<boolean> {
+  // Confirming deducts stock and numbers the invoice; cancelling releases the reservation
+  const transition =
+    decision.action === 'paid'
+      ? await transitionOrder(supabase, order.id, {
+          to: 'confirmed',
+          note: decision.note,
+          changes: { payment_status: 'paid', payment_id: decision.paymentId, payment_date: new Date().toISOString() },
+        })
+      : await transitionOrder(supabase, order.id, {
+          to: 'cancelled',
+          note: decision.note,
+          changes: { payment_status: decision.action === 'failed' ? 'failed' : 'expired' },
+        })
+
+  if (!transition.ok && transition.status !== 409) {
+    throw new Error(transition.error)
+  }
+
+  return transition.ok
+}
+
+/**
+ * Record a payment captured for a draft that was already cancelled. The
+ * order stays cancelled; the note asks an admin to refund or reinstate it.
+ * Returns false if the draft changed in the meantime.
+ */
+async function recordLatePayment(
+  supabase: SupabaseClient<any, any, any>,
+  order: DraftOrderRow,
+  decision: Decision
+): Promise<boolean> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('orders')
+    .update({
+      payment_status: 'paid',
+      payment_id: decision.paymentId,
+      payment_date: now,
+      status_history: [
+        ...(Array.isArray(order.status_history) ? order.status_history : []),
+        { status: order.status, timestamp: now, note: decision.note },
+      ],
+      updated_at: now,
+    })
+    .eq('id', order.id)
+    .eq('status', 'cancelled')
+    .eq('payment_status', order.payment_status)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in recordLatePayment:', error)
+    throw new Error(`Failed to record payment: ${error.message}`)
+  }
+
+  return !!data
+}
+
+/**
+ * Settle Razorpay drafts that have been pending for longer than
+ * olderThanMinutes. With dryRun nothing is written; the results say what
+ * would change.
+ */
+export async function reconcileStuckDrafts(
+  supabase: SupabaseClient<any, any, any>,
+  options: { olderThanMinutes?: number; limit?: number; dryRun?: boolean } = {}
+): Promise<ReconcileSummary> {
+  const olderThanMinutes = options.olderThanMinutes ?? DEFAULT_RECONCILE_AGE_MINUTES
+  const limit = Math.min(options.limit ?? MAX_RECONCILE_BATCH, MAX_RECONCILE_BATCH)
+  const dryRun = options.dryRun ?? false
+  const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000).toISOString()
+  const settledSince = new Date(Date.now() - SETTLED_DRAFT_WINDOW_HOURS * 60 * 60 * 1000).toISOString()
+
+  const draftColumns = 'id, order_number, status, payment_status, status_history, admin_notes, created_at'
+
+  // Unpaid drafts still pending, oldest first
+  const { data: pendingDrafts, error } = await supabase
+    .from('orders')
+    .select(draftColumns)
+    .eq('payment_method', 'razorpay')
+    .eq('status', 'pending')
+    .in('payment_status', ['pending', 'failed'])
+    .lt('created_at', cutoff)
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error in reconcileStuckDrafts:', error)
+    throw new Error(`Failed to load draft orders: ${error.message}`)
+  }
+
+  // Then recently failed or cancelled drafts Razorpay may still have taken a
+  // payment for, newest first, in whatever room the pending ones left
+  let cancelledDrafts: DraftOrderRow[] = []
+  const room = limit - (pendingDrafts || []).length
+
+  if (room > 0) {
+    const { data, error: cancelledError } = await supabase
+      .from('orders')
+      .select(draftColumns)
+      .eq('payment_method', 'razorpay')
+      .eq('status', 'cancelled')
+      .in('payment_status', ['failed', 'cancelled', 'expired'])
+      .gt('created_at', settledSince)
+      .lt('created_at', cutoff)
+      .order('created_at', { ascending: false })
+      .limit(room)
+
+    if (cancelledError) {
+      console.error('Error in reconcileStuckDrafts:', cancelledError)
+      throw new Error(`Failed to load cancelled draft orders: ${cancelledError.message}`)
+    }
+
+    cancelledDrafts = (data || []) as DraftOrderRow[]
+  }
+
+  const drafts = [...((pendingDrafts || []) as DraftOrderRow[]), ...cancelledDrafts]
+
+  const results: ReconcileResult[] = []
+
+  for (const order of drafts) {
+    const razorpayOrderId = getDraftRazorpayOrderId(order.admin_notes)
+
+    try {
+      let decision: Decision = razorpayOrderId
+        ? decide(razorpayOrderId, (await getRazorpayClient().orders.fetchPayments(razorpayOrderId)).items || [])
+        : { action: 'expired', note: 'Draft expired: no Razorpay order on record' }
+
+      const isSettled = order.status === 'cancelled'
+      const bookedAs =
+        decision.action === 'paid' && decision.paymentId
+          ? await findOtherOrderWithPayment(supabase, decision.paymentId, order.id)
+          : null
+
+      if (bookedAs) {
+        // The payment already pays for another order; this draft never will
+        decision = isSettled
+          ? { action: 'unchanged', note: `Payment ${decision.paymentId} was booked as order ${bookedAs}` }
+          : { action: 'expired', note: `Draft closed: its payment ${decision.paymentId} was booked as order ${bookedAs}` }
+      } else if (isSettled && decision.action !== 'paid') {
+        // A cancelled draft only needs attention if a payment turned up
+        decision = { action: 'unchanged', note: `Already cancelled: ${decision.note}` }
+      }
+
+      let { action, note } = decision
+      if (isSettled && action === 'paid') {
+        note = `${note} for a cancelled order; refund or reinstate it`
+      }
+      if (!dryRun && action !== 'unchanged') {
+        const applied = isSettled
+          ? await recordLatePayment(supabase, order, { ...decision, note })
+          : await applyDecision(supabase, order, decision)
+        if (!applied) {
+          action = 'unchanged'
+          note = 'Settled by another request while reconciling'
+        }
+      }
+
+      results.push({ order_id: order.id, order_number: order.order_number, razorpay_order_id: razorpayOrderId, action, note })
+    } catch (reconcileError: any) {
+      console.error('[Reconcile] Failed to reconcile order:', order.id, reconcileError)
+      results.push({
+        order_id: order.id,
+        order_number: order.order_number,
+        razorpay_order_id: razorpayOrderId,
+        action: 'error',
+        note:
+          reconcileError?.error?.description ||
+          (reconcileError instanceof Error ? reconcileError.message : 'Unknown error'),
+      })
+    }
+  }
+
+  const count = (action: ReconcileAction) => results.filter((result) => result.action === action).length
+
+  return {
+    dry_run: dryRun,
+    checked: results.length,
+    paid: count('paid'),
+    failed: count('failed'),
+    expired: count('expired'),
+    unchanged: count('unchanged'),
+    errors: count('error'),
+    results,
+  }
+}
@@ -0,0 +1,21 @@
+export type ReconcileAction = 'paid' | 'failed' | 'expired' | 'unchanged' | 'error'
+
+/** What happened to one stuck draft order */
+export interface ReconcileResult {
+  order_id: string
+  order_number: string
+  razorpay_order_id: string | null
+  action: ReconcileAction
+  note: string
+}
+
+export interface ReconcileSummary {
+  dry_run: boolean
+  checked: number
+  paid: number
+  failed: number
+  expired: number
+  unchanged: number
+  errors: number
+  results: ReconcileResult[]
+}
@@ -0,0 +1,427 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { recordAuditEvent } from '@/lib/audit/server'
+import { getRazorpayClient } from '@/lib/razorpay/server'
+import type { TaxBreakdown } from '@/lib/tax/types'
+import type { OrderRefund, RefundableSummary, RefundItem, RefundStatus } from './types'
+
+/**
+ * Razorpay refunds for paid orders.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers.
+ * - orders.refunded_cents and payment_status are recalculated from
+ *   order_refunds after every change; never update them by hand.
+ * - Refunds made from the Razorpay dashboard are recorded too, when their
+ *   webhook arrives.
+ */
+
+const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded']
+
+interface RefundOrderRow {
+  id: string
+  order_number: string
+  status: string
+  total_cents: number
+  payment_id: string | null
+  payment_method: string | null
+  payment_status: string
+  items_json: Array<{ id: string; title: string; price: number; quantity: number; variant?: string | null }>
+  tax_breakdown: TaxBreakdown | null
+  status_history: any[] | null
+}
+
+const ORDER_COLUMNS =
+  'id, order_number, status, total_cents, payment_id, payment_method, payment_status, items_json, tax_breakdown, status_history'
+
+const formatRupees = (cents: number) =>
+  `₹${(cents / 100).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+/**
+ * Work out what is left to refund. Line amounts come from the stored tax
+ * breakdown, which already has the coupon discount spread across the lines.
+ */
+export function getRefundableSummary(order: RefundOrderRow, refunds: OrderRefund[]): RefundableSummary {
+  const activeRefunds = refunds.filter((refund) => refund.status !== 'failed')
+  const refundedCents = activeRefunds.reduce((sum, refund) => sum + refund.amount_cents, 0)
+
+  const lines = (order.items_json || []).map((item, index) => {
+    const lineGross = order.tax_breakdown?.lines[index]?.gross_cents ?? Math.round(item.price * 100) * item.quantity
+    const refundedQuantity = activeRefunds.reduce(
+      (sum, refund) => sum + (refund.items || []).filter((line) => line.index === index).reduce((q, line) => q + line.quantity, 0),
+      0
+    )
+
+    return {
+      index,
+      title: item.title,
+      variant: item.variant || null,
+      quantity: item.quantity,
+      refunded_quantity: refundedQuantity,
+      unit_refund_cents: item.quantity > 0 ? Math.floor(lineGross / item.quantity) : 0,
+    }
+  })
+
+  return {
+    total_cents: order.total_cents,
+    refunded_cents: refundedCents,
+    refundable_cents: Math.max(order.total_cents - refundedCents, 0),
+    lines,
+  }
+}
+
+/**
+ * Load an order's refunds, oldest first
+ */
+export async function loadOrderRefunds(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<OrderRefund[]> {
+  const { data, error } = await supabase
+    .from('order_refunds')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error in loadOrderRefunds:', error)
+    throw new Error(`Failed to load refunds: ${error.message}`)
+  }
+
+  return (data || []) as OrderRefund[]
+}
+
+/**
+ * Refunds on an order plus what can still be refunded (null if the order doesn't exist)
+ */
+export async function getOrderRefundOverview(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<{ refunds: OrderRefund[]; summary: RefundableSummary } | null> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in getOrderRefundOverview:', error)
+    throw new Error(`Failed to load order: ${error.message}`)
+  }
+
+  if (!order) return null
+
+  const refunds = await loadOrderRefunds(supabase, orderId)
+  return { refunds, summary: getRefundableSummary(order, refunds) }
+}
+
+/**
+ * Recalculate orders.refunded_cents / payment_status from order_refunds
+ * and record what happened in status_history
+ */
+async function syncOrderRefunds(supabase: SupabaseClient<any, any, any>, order: RefundOrderRow, note: string) {
+  const refunds = await loadOrderRefunds(supabase, order.id)
+  const refundedCents = refunds
+    .filter((refund) => refund.status !== 'failed')
+    .reduce((sum, refund) => sum + refund.amount_cents, 0)
+
+  const paymentStatus =
+    refundedCents <= 0 ? 'paid' : refundedCents >= order.total_cents ? 'refunded' : 'partially_refunded'
+
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      refunded_cents: refundedCents,
+      payment_status: paymentStatus,
+      status_history: [
+        ...(Array.isArray(order.status_history) ? order.status_history : []),
+        { status: order.status, timestamp: new Date().toISOString(), note },
+      ],
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id)
+
+  if (error) {
+    console.error('Error in syncOrderRefunds:', error)
+    throw new Error(`Failed to update order refund totals: ${error.message}`)
+  }
+}
+
+/**
+ * Admin payload for a refund. Send items to refund specific pieces, amount_cents
+ * for a partial amount, or neither to refund everything that is left.
+ */
+export const refundRequestSchema = z.object({
+  amount_cents: z.number().int().positive().optional(),
+  items: z
+    .array(z.object({ index: z.number().int().min(0), quantity: z.number().int().positive() }))
+    .optional(),
+  reason: z.string().trim().max(500).optional(),
+})
+
+export type RefundRequest = z.infer<typeof refundRequestSchema>
+
+export type RefundResult = { ok: true; refund: OrderRefund } | { ok: false; error: string; status?: number }
+
+/**
+ * Refund a paid Razorpay order (fully, partially or per item)
+ */
+export async function createOrderRefund(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string,
+  request: RefundRequest,
+  adminUserId: string | null
+): Promise<RefundResult> {
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (orderError) {
+    console.error('Error in createOrderRefund:', orderError)
+    throw new Error(`Failed to load order: ${orderError.message}`)
+  }
+
+  if (!order) {
+    return { ok: false, error: 'Order not found', status: 404 }
+  }
+
+  if (order.payment_method === 'cod' || !order.payment_id) {
+    return { ok: false, error: 'Only orders paid through Razorpay can be refunded here' }
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+    return { ok: false, error: `Orders with payment ${order.payment_status} can't be refunded` }
+  }
+
+  const summary = getRefundableSummary(order, await loadOrderRefunds(supabase, order.id))
+
+  let amountCents: number
+  let items: RefundItem[] = []
+
+  if (request.items && request.items.length > 0) {
+    for (const requested of request.items) {
+      const line = summary.lines[requested.index]
+      if (!line) {
+        return { ok: false, error: 'Unknown order line' }
+      }
+      if (requested.quantity > line.quantity - line.refunded_quantity) {
+        return { ok: false, error: `Only ${line.quantity - line.refunded_quantity} of ${line.title} can still be refunded` }
+      }
+
+      items.push({
+        index: line.index,
+        id: order.items_json[line.index].id,
+        title: line.title,
+        variant: line.variant,
+        quantity: requested.quantity,
+        amount_cents: line.unit_refund_cents * requested.quantity,
+      })
+    }
+    amountCents = items.reduce((sum, item) => sum + item.amount_cents, 0)
+  } else {
+    amountCents = request.amount_cents ?? summary.refundable_cents
+  }
+
+  if (amountCents <= 0 || summary.refundable_cents <= 0) {
+    return { ok: false, error: 'Nothing left to refund on this order' }
+  }
+
+  if (amountCents > summary.refundable_cents) {
+    return { ok: false, error: `At most ${formatRupees(summary.refundable_cents)} can still be refunded` }
+  }
+
+  // Record the refund first so a webhook racing the API response can find it
+  const { data: refundRow, error: insertError } = await supabase
+    .from('order_refunds')
+    .insert({
+      order_id: order.id,
+      razorpay_payment_id: order.payment_id,
+      amount_cents: amountCents,
+      status: 'pending',
+      reason: request.reason || null,
+      items,
+      created_by: adminUserId,
+    })
+    .select('*')
+    .single()
+
+  if (insertError || !refundRow) {
+    console.error('Error in createOrderRefund:', insertError)
+    throw new Error(`Failed to record refund: ${insertError?.message || 'Unknown error'}`)
+  }
+
+  let razorpayRefund: { id: string; status?: string }
+  try {
+    razorpayRefund = await getRazorpayClient().payments.refund(order.payment_id, {
+      amount: amountCents,
+      speed: 'normal',
+      receipt: `${order.order_number}-R${refundRow.id.slice(0, 8)}`,
+      notes: { order_id: order.id, refund_request_id: refundRow.id },
+    })
+  } catch (error: any) {
+    // Razorpay rejected the refund (or never answered): nothing was refunded
+    const message = error?.error?.description || (error instanceof Error ? error.message : 'Refund failed')
+    console.error('[Refunds] Razorpay refund failed:', { order_id: order.id, refund_id: refundRow.id, error })
+
+    await supabase
+      .from('order_refunds')
+      .update({ status: 'failed', failure_reason: message })
+      .eq('id', refundRow.id)
+      .is('razorpay_refund_id', null)
+
+    return { ok: false, error: `Razorpay refused the refund: ${message}`, status: 502 }
+  }
+
+  // The webhook may already have moved the refund on; only ever step forward
+  const { data: updatedRefund, error: updateError } = await supabase
+    .from('order_refunds')
+    .update({
+      razorpay_refund_id: razorpayRefund.id,
+      ...(razorpayRefund.status === 'processed' ? { status: 'processed', processed_at: new Date().toISOString() } : {}),
+    })
+    .eq('id', refundRow.id)
+    .select('*')
+    .single()
+
+  if (updateError) {
+    console.error('Error in createOrderRefund:', updateError)
+    throw new Error(`Failed to save Razorpay refund ${razorpayRefund.id}: ${updateError.message}`)
+  }
+
+  await syncOrderRefunds(
+    supabase,
+    order,
+    `Refund of ${formatRupees(amountCents)} initiated (Razorpay Refund ID: ${razorpayRefund.id})` +
+      (request.reason ? `: ${request.reason}` : '')
+  )
+
+  await recordAuditEvent(supabase, {
+    actorId: adminUserId,
+    action: 'refund',
+    entityType: 'order',
+    entityId: order.id,
+    entityLabel: order.order_number,
+    before: { payment_status: order.payment_status },
+    after: {
+      refund_id: updatedRefund.id,
+      razorpay_refund_id: razorpayRefund.id,
+      amount_cents: amountCents,
+      reason: request.reason || null,
+      items,
+    },
+  })
+
+  return { ok: true, refund: updatedRefund as OrderRefund }
+}
+
+/**
+ * Apply a refund.created / refund.processed / refund.failed webhook.
+ * Refunds started outside the admin screen (Razorpay dashboard) are added here.
+ */
+export async function applyRefundEvent(
+  supabase: SupabaseClient<any, any, any>,
+  event: string,
+  entity: { id: string; payment_id: string; amount: number; status?: string; notes?: Record<string, any> | any[] }
+): Promise<{ handled: boolean; order_id?: string }> {
+  const nextStatus: RefundStatus =
+    event === 'refund.processed' ? 'processed' : event === 'refund.failed' ? 'failed' : 'pending'
+  const notes = Array.isArray(entity.notes) ? {} : entity.notes || {}
+
+  let { data: refund, error } = await supabase
+    .from('order_refunds')
+    .select('*')
+    .eq('razorpay_refund_id', entity.id)
+    .maybeSingle()
+
+  if (!refund && !error && notes.refund_request_id) {
+    ;({ data: refund, error } = await supabase
+      .from('order_refunds')
+      .select('*')
+      .eq('id', notes.refund_request_id)
+      .maybeSingle())
+  }
+
+  if (error) {
+    console.error('Error in applyRefundEvent:', error)
+    throw new Error(`Failed to load refund: ${error.message}`)
+  }
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select(ORDER_COLUMNS)
+    .eq(refund ? 'id' : 'payment_id', refund ? refund.order_id : entity.payment_id)
+    .maybeSingle()
+
+  if (orderError) {
+    throw new Error(`Failed to load order for refund: ${orderError.message}`)
+  }
+
+  if (!order) {
+    return { handled: false }
+  }
+
+  if (!refund) {
+    const { error: insertError } = await supabase.from('order_refunds').insert({
+      order_id: order.id,
+      razorpay_payment_id: entity.payment_id,
+      razorpay_refund_id: entity.id,
+      amount_cents: entity.amount,
+      status: nextStatus,
+      reason: 'Refunded from the Razorpay dashboard',
+      processed_at: nextStatus === 'processed' ? new Date().toISOString() : null,
+    })
+
+    // A concurrent delivery of the same event inserted it first
+    if (insertError?.code === '23505') {
+      return applyRefundEvent(supabase, event, entity)
+    }
+    if (insertError) {
+      throw new Error(`Failed to record refund: ${insertError.message}`)
+    }
+
+    await syncOrderRefunds(
+      supabase,
+      order,
+      `Refund of ${formatRupees(entity.amount)} ${nextStatus === 'pending' ? 'created' : nextStatus} from the Razorpay dashboard (Razorpay Refund ID: ${entity.id})`
+    )
+    return { handled: true, order_id: order.id }
+  }
+
+  // Processed and failed are final; a late refund.created must not reopen them
+  const isFinal = refund.status === 'processed' || refund.status === 'failed'
+  const statusChanged = !isFinal && nextStatus !== refund.status
+  const isNew = !refund.razorpay_refund_id
+
+  if (!statusChanged && !isNew) {
+    return { handled: true, order_id: order.id }
+  }
+
+  const { error: updateError } = await supabase
+    .from('order_refunds')
+    .update({
+      razorpay_refund_id: entity.id,
+      status: isFinal ? refund.status : nextStatus,
+      processed_at: nextStatus === 'processed' && !isFinal ? new Date().toISOString() : refund.processed_at,
+      failure_reason: nextStatus === 'failed' && !isFinal ? 'Razorpay reported the refund as failed' : refund.failure_reason,
+    })
+    .eq('id', refund.id)
+
+  if (updateError) {
+    throw new Error(`Failed to update refund: ${updateError.message}`)
+  }
+
+  if (statusChanged) {
+    const amount = formatRupees(refund.amount_cents)
+    const note =
+      nextStatus === 'processed'
+        ? `Refund of ${amount} processed (Razorpay Refund ID: ${entity.id})`
+        : nextStatus === 'failed'
+          ? `Refund of ${amount} failed (Razorpay Refund ID: ${entity.id})`
+          : `Refund of ${amount} created (Razorpay Refund ID: ${entity.id})`
+    await syncOrderRefunds(supabase, order, note)
+  }
+
+  return { handled: true, order_id: order.id }
+}
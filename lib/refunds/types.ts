@@ -0,0 +1,42 @@
+export type RefundStatus = 'pending' | 'processed' | 'failed'
+
+/** An order line included in a refund, stored in order_refunds.items */
+export interface RefundItem {
+  index: number // position in orders.items_json
+  id: string
+  title: string
+  variant: string | null
+  quantity: number
+  amount_cents: number
+}
+
+export interface OrderRefund {
+  id: string
+  order_id: string
+  razorpay_payment_id: string
+  razorpay_refund_id: string | null
+  amount_cents: number
+  status: RefundStatus
+  reason: string | null
+  items: RefundItem[]
+  failure_reason: string | null
+  created_by: string | null
+  processed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** What is still refundable on an order, per line and in total */
+export interface RefundableSummary {
+  total_cents: number
+  refunded_cents: number
+  refundable_cents: number
+  lines: Array<{
+    index: number
+    title: string
+    variant: string | null
+    quantity: number
+    refunded_quantity: number
+    unit_refund_cents: number // what the customer actually paid per piece, after discounts
+  }>
+}
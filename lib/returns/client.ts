@@ -0,0 +1,55 @@
+import { supabase } from '@/lib/supabase/client'
+import type { ReturnEligibility, ReturnRequest, ReturnType } from './types'
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
+
+/**
+ * Load the signed-in customer's return requests for an order and what can
+ * still be returned
+ */
+export async function fetchOrderReturns(
+  orderId: string
+): Promise<{ eligibility: ReturnEligibility; requests: ReturnRequest[] }> {
+  const response = await fetch(`/api/orders/${orderId}/returns`, { headers: await authHeaders() })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to load returns')
+  }
+
+  return data
+}
+
+/**
+ * Submit a return or exchange request with its photos
+ */
+export async function submitReturnRequest(
+  orderId: string,
+  payload: {
+    type: ReturnType
+    reason: string
+    note?: string
+    items: Array<{ index: number; quantity: number; exchange_size?: string }>
+  },
+  photos: File[]
+): Promise<ReturnRequest> {
+  const formData = new FormData()
+  formData.append('payload', JSON.stringify(payload))
+  photos.forEach((photo) => formData.append('photos', photo))
+
+  const response = await fetch(`/api/orders/${orderId}/returns`, {
+    method: 'POST',
+    headers: await authHeaders(),
+    body: formData,
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to submit your request')
+  }
+
+  return data.request
+}
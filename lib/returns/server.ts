@@ -0,0 +1,999 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { randomBytes } from 'crypto'
+import { z } from 'zod'
+import { diffFields, recordAuditEvent } from '@/lib/audit/server'
+import { deductOrderStock, restockReturnedItems } from '@/lib/inventory/server'
+import { transitionOrder } from '@/lib/orders/server'
+import { createOrderRefund, getOrderRefundOverview } from '@/lib/refunds/server'
+import { isSameColor, isSizeInStock, parseVariantLabel } from '@/lib/utils/stock'
+import {
+  RETURN_REASONS,
+  RETURN_RESOLUTION_LABELS,
+  type AdminReturnRequest,
+  type ReturnEligibility,
+  type ReturnItem,
+  type ReturnRequest,
+  type ReturnResolution,
+  type ReturnSettings,
+  type ReturnStatus,
+} from './types'
+
+/**
+ * Server-side returns and size exchanges.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers; it expects a service role client.
+ * - Customers can only request what getReturnEligibility allows: delivered
+ *   orders, inside the window, and pieces not already in an open or
+ *   completed request; create_return_request checks the quantities again
+ *   under a lock on the order.
+ * - Every step is guarded by the request's current status, so two admins
+ *   can't receive (restock) or complete (refund) the same request twice.
+ * - The order moves to returned once every piece has come back for a
+ *   refund or store credit; exchanged pieces don't count.
+ * - Admin actions (and the store credit coupons they issue) are recorded in
+ *   the audit log.
+ */
+
+export const RETURN_PHOTOS_BUCKET = 'return-photos'
+export const MAX_RETURN_PHOTOS = 5
+export const MAX_RETURN_PHOTO_BYTES = 5 * 1024 * 1024
+
+const RETURN_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+/** Reasons that need at least one photo */
+const PHOTO_REQUIRED_REASONS = ['damaged', 'wrong_item']
+
+const DISABLED_SETTINGS: ReturnSettings = {
+  is_enabled: false,
+  window_days: 7,
+  allow_exchanges: true,
+}
+
+/** Allowed next statuses for a request; rejected and completed are final */
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['pickup_scheduled', 'received', 'rejected'],
+  pickup_scheduled: ['received'],
+  received: ['completed'],
+  rejected: [],
+  completed: [],
+}
+
+export interface ReturnOrderRow {
+  id: string
+  order_number: string
+  user_id: string | null
+  email: string
+  phone: string | null
+  address_json: any
+  items_json: Array<{ id: string; title: string; price: number; quantity: number; image?: string; variant?: string | null }>
+  status: string
+  status_history: any[] | null
+  payment_method: string | null
+  payment_status: string
+  delivered_at: string | null
+}
+
+const ORDER_COLUMNS =
+  'id, order_number, user_id, email, phone, address_json, items_json, status, status_history, payment_method, payment_status, delivered_at'
+
+const formatRupees = (cents: number) =>
+  `₹${(cents / 100).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+/**
+ * Load the single return_settings row (returns are off if the row is missing)
+ */
+export async function getReturnSettings(supabase: SupabaseClient<any, any, any>): Promise<ReturnSettings> {
+  const { data, error } = await supabase
+    .from('return_settings')
+    .select('is_enabled, window_days, allow_exchanges, updated_at')
+    .eq('id', true)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in getReturnSettings:', error)
+    throw new Error(`Failed to load return settings: ${error.message}`)
+  }
+
+  return data || DISABLED_SETTINGS
+}
+
+/**
+ * Admin payload for updating return settings
+ */
+export const returnSettingsInputSchema = z.object({
+  is_enabled: z.boolean(),
+  window_days: z.number().int().min(1, 'The return window must be at least 1 day').max(90, 'The return window can be at most 90 days'),
+  allow_exchanges: z.boolean().default(true),
+})
+
+export type ReturnSettingsInput = z.infer<typeof returnSettingsInputSchema>
+
+/**
+ * Load an order with the columns returns need (null if it doesn't exist)
+ */
+export async function getReturnOrder(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<ReturnOrderRow | null> {
+  const { data, error } = await supabase.from('orders').select(ORDER_COLUMNS).eq('id', orderId).maybeSingle()
+
+  if (error) {
+    console.error('Error in getReturnOrder:', error)
+    throw new Error(`Failed to load order: ${error.message}`)
+  }
+
+  return data as ReturnOrderRow | null
+}
+
+/**
+ * An order's return requests, newest first
+ */
+export async function listOrderReturnRequests(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string
+): Promise<ReturnRequest[]> {
+  const { data, error } = await supabase
+    .from('return_requests')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error in listOrderReturnRequests:', error)
+    throw new Error(`Failed to load return requests: ${error.message}`)
+  }
+
+  return (data || []) as ReturnRequest[]
+}
+
+/**
+ * When the order was delivered; orders delivered before delivered_at was
+ * stamped fall back to their status history
+ */
+function getDeliveredAt(order: ReturnOrderRow): string | null {
+  if (order.delivered_at) return order.delivered_at
+
+  const delivered = (Array.isArray(order.status_history) ? order.status_history : [])
+    .filter((entry) => entry?.status === 'delivered' && entry.timestamp)
+    .pop()
+
+  return delivered?.timestamp || null
+}
+
+/**
+ * In-stock sizes of the same colour a line can be exchanged for
+ */
+async function getExchangeSizes(
+  supabase: SupabaseClient<any, any, any>,
+  item: ReturnOrderRow['items_json'][number]
+): Promise<string[]> {
+  const { color, size } = parseVariantLabel(item.variant)
+  if (!item.id || !color || !size) return []
+
+  const { data: variants, error } = await supabase
+    .from('product_variants')
+    .select('color, sizes, stock')
+    .eq('product_id', item.id)
+
+  if (error) {
+    console.error('[Returns] Failed to load variants for product:', item.id, error)
+    return []
+  }
+
+  const variant = (variants || []).find((v: { color: string }) => isSameColor(v.color, color))
+  if (!variant) return []
+
+  return (variant.sizes || []).filter((option: string) => option !== size && isSizeInStock(variant, option))
+}
+
+/**
+ * Work out what a customer can still return or exchange on an order
+ */
+export async function getReturnEligibility(
+  supabase: SupabaseClient<any, any, any>,
+  order: ReturnOrderRow,
+  settings: ReturnSettings,
+  requests: ReturnRequest[]
+): Promise<ReturnEligibility> {
+  const notEligible = (reason: string, deadline: string | null = null): ReturnEligibility => ({
+    eligible: false,
+    reason,
+    deadline,
+    allow_exchanges: settings.allow_exchanges,
+    lines: [],
+  })
+
+  if (!settings.is_enabled) {
+    return notEligible('Returns are not available right now')
+  }
+
+  if (order.status !== 'delivered') {
+    return notEligible('Returns can be requested once your order has been delivered')
+  }
+
+  const deliveredAt = getDeliveredAt(order)
+  const deadline = deliveredAt
+    ? new Date(new Date(deliveredAt).getTime() + settings.window_days * 24 * 60 * 60 * 1000).toISOString()
+    : null
+
+  if (!deadline || new Date(deadline).getTime() < Date.now()) {
+    return notEligible(`Returns can be requested within ${settings.window_days} days of delivery`, deadline)
+  }
+
+  const activeRequests = requests.filter((request) => request.status !== 'rejected')
+
+  const lines = await Promise.all(
+    (order.items_json || []).map(async (item, index) => {
+      const requestedQuantity = activeRequests.reduce(
+        (sum, request) => sum + (request.items || []).filter((line) => line.index === index).reduce((q, line) => q + line.quantity, 0),
+        0
+      )
+      const returnableQuantity = Math.max(item.quantity - requestedQuantity, 0)
+
+      return {
+        index,
+        title: item.title,
+        variant: item.variant || null,
+        quantity: item.quantity,
+        returnable_quantity: returnableQuantity,
+        exchange_sizes: settings.allow_exchanges && returnableQuantity > 0 ? await getExchangeSizes(supabase, item) : [],
+      }
+    })
+  )
+
+  if (lines.every((line) => line.returnable_quantity === 0)) {
+    return { ...notEligible('Every item on this order already has a return request', deadline), lines }
+  }
+
+  return { eligible: true, reason: null, deadline, allow_exchanges: settings.allow_exchanges, lines }
+}
+
+/**
+ * Customer payload for a return or exchange request (sent as the "payload"
+ * field of a multipart form, next to the photos)
+ */
+export const returnRequestInputSchema = z.object({
+  type: z.enum(['return', 'exchange']),
+  reason: z.string().refine((reason) => reason in RETURN_REASONS, 'Choose a reason'),
+  note: z.string().trim().max(1000).optional(),
+  items: z
+    .array(
+      z.object({
+        index: z.number().int().min(0),
+        quantity: z.number().int().positive(),
+        exchange_size: z.string().trim().min(1).optional(),
+      })
+    )
+    .min(1, 'Choose at least one item'),
+})
+
+export type ReturnRequestInput = z.infer<typeof returnRequestInputSchema>
+
+export type ReturnRequestResult = { ok: true; request: ReturnRequest } | { ok: false; error: string; status?: number }
+
+/**
+ * Check photos before anything is uploaded
+ */
+function validateReturnPhotos(photos: File[]): string | null {
+  if (photos.length > MAX_RETURN_PHOTOS) {
+    return `You can upload up to ${MAX_RETURN_PHOTOS} photos`
+  }
+  for (const photo of photos) {
+    if (!RETURN_PHOTO_TYPES.includes(photo.type)) {
+      return 'Photos must be JPEG, PNG or WebP images'
+    }
+    if (photo.size > MAX_RETURN_PHOTO_BYTES) {
+      return `Each photo must be smaller than ${MAX_RETURN_PHOTO_BYTES / (1024 * 1024)} MB`
+    }
+  }
+  return null
+}
+
+/**
+ * Upload photos to the private bucket and return their object paths
+ */
+async function uploadReturnPhotos(
+  supabase: SupabaseClient<any, any, any>,
+  orderId: string,
+  photos: File[]
+): Promise<string[]> {
+  const paths: string[] = []
+
+  for (const photo of photos) {
+    const extension = photo.type === 'image/png' ? 'png' : photo.type === 'image/webp' ? 'webp' : 'jpg'
+    const path = `${orderId}/${Date.now()}-${randomBytes(4).toString('hex')}.${extension}`
+
+    const { error } = await supabase.storage
+      .from(RETURN_PHOTOS_BUCKET)
+      .upload(path, Buffer.from(await photo.arrayBuffer()), { contentType: photo.type, upsert: false })
+
+    if (error) {
+      console.error('Error in uploadReturnPhotos:', error)
+      throw new Error(`Failed to upload photo: ${error.message}`)
+    }
+
+    paths.push(path)
+  }
+
+  return paths
+}
+
+/**
+ * Add a note to the order's status history without changing its status
+ */
+async function appendOrderNote(supabase: SupabaseClient<any, any, any>, orderId: string, note: string) {
+  const { data: order } = await supabase.from('orders').select('status, status_history').eq('id', orderId).maybeSingle()
+  if (!order) return
+
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      status_history: [
+        ...(Array.isArray(order.status_history) ? order.status_history : []),
+        { status: order.status, timestamp: new Date().toISOString(), note },
+      ],
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', orderId)
+
+  if (error) {
+    console.error('[Returns] Failed to add order note:', orderId, error)
+  }
+}
+
+/**
+ * Open a return or exchange request for a customer's delivered order
+ */
+export async function createReturnRequest(
+  supabase: SupabaseClient<any, any, any>,
+  order: ReturnOrderRow,
+  input: ReturnRequestInput,
+  photos: File[],
+  userId: string | null
+): Promise<ReturnRequestResult> {
+  const settings = await getReturnSettings(supabase)
+  const eligibility = await getReturnEligibility(
+    supabase,
+    order,
+    settings,
+    await listOrderReturnRequests(supabase, order.id)
+  )
+
+  if (!eligibility.eligible) {
+    return { ok: false, error: eligibility.reason || 'This order can no longer be returned', status: 409 }
+  }
+
+  if (input.type === 'exchange' && !settings.allow_exchanges) {
+    return { ok: false, error: 'Size exchanges are not available right now. Request a return instead.' }
+  }
+
+  const items: ReturnItem[] = []
+  for (const requested of input.items) {
+    const line = eligibility.lines[requested.index]
+    if (!line) {
+      return { ok: false, error: 'Unknown order item' }
+    }
+    if (items.some((item) => item.index === requested.index)) {
+      return { ok: false, error: `${line.title} was selected twice` }
+    }
+    if (requested.quantity > line.returnable_quantity) {
+      return { ok: false, error: `Only ${line.returnable_quantity} of ${line.title} can be returned` }
+    }
+
+    let exchangeSize: string | null = null
+    if (input.type === 'exchange') {
+      if (!requested.exchange_size || !line.exchange_sizes.includes(requested.exchange_size)) {
+        return { ok: false, error: `Choose an available size to exchange ${line.title} for` }
+      }
+      exchangeSize = requested.exchange_size
+    }
+
+    items.push({
+      index: line.index,
+      id: order.items_json[line.index].id,
+      title: line.title,
+      variant: line.variant,
+      quantity: requested.quantity,
+      exchange_size: exchangeSize,
+    })
+  }
+
+  if (PHOTO_REQUIRED_REASONS.includes(input.reason) && photos.length === 0) {
+    return { ok: false, error: 'Please add a photo showing the problem' }
+  }
+
+  const photoError = validateReturnPhotos(photos)
+  if (photoError) {
+    return { ok: false, error: photoError }
+  }
+
+  const photoPaths = await uploadReturnPhotos(supabase, order.id, photos)
+
+  const removePhotos = async () => {
+    if (photoPaths.length > 0) {
+      await supabase.storage.from(RETURN_PHOTOS_BUCKET).remove(photoPaths)
+    }
+  }
+
+  // Checks the quantities again under a lock on the order, so two requests
+  // sent at once can't return the same pieces twice
+  const { data: requestId, error } = await supabase.rpc('create_return_request', {
+    p_order_id: order.id,
+    p_user_id: userId,
+    p_email: order.email,
+    p_type: input.type,
+    p_items: items,
+    p_reason: input.reason,
+    p_note: input.note || null,
+    p_photo_paths: photoPaths,
+  })
+
+  if (error) {
+    console.error('Error in createReturnRequest:', error)
+    await removePhotos()
+    throw new Error(`Failed to save return request: ${error.message}`)
+  }
+
+  if (!requestId) {
+    await removePhotos()
+    return {
+      ok: false,
+      error: 'Some of these items already have a return request. Refresh the page and try again.',
+      status: 409,
+    }
+  }
+
+  const { data: request, error: loadError } = await supabase
+    .from('return_requests')
+    .select('*')
+    .eq('id', requestId)
+    .single()
+
+  if (loadError || !request) {
+    console.error('Error in createReturnRequest:', loadError)
+    throw new Error(`Failed to load return request: ${loadError?.message || 'Unknown error'}`)
+  }
+
+  await appendOrderNote(
+    supabase,
+    order.id,
+    `${input.type === 'exchange' ? 'Exchange' : 'Return'} requested: ${items
+      .map((item) => `${item.quantity}x ${item.title}`)
+      .join(', ')} (${RETURN_REASONS[input.reason]})`
+  )
+
+  return { ok: true, request: request as ReturnRequest }
+}
+
+/**
+ * Return requests for the admin queue, newest first, with signed photo URLs
+ */
+export async function listReturnRequests(
+  supabase: SupabaseClient<any, any, any>,
+  { status, limit }: { status?: ReturnStatus | null; limit: number }
+): Promise<AdminReturnRequest[]> {
+  let query = supabase.from('return_requests').select('*').order('created_at', { ascending: false }).limit(limit)
+
+  if (status) {
+    query = query.eq('status', status)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error in listReturnRequests:', error)
+    throw new Error(`Failed to load return requests: ${error.message}`)
+  }
+
+  const requests = (data || []) as ReturnRequest[]
+  if (requests.length === 0) return []
+
+  const { data: orders, error: ordersError } = await supabase
+    .from('orders')
+    .select('id, order_number, payment_method, payment_status, address_json, phone')
+    .in('id', Array.from(new Set(requests.map((request) => request.order_id))))
+
+  if (ordersError) {
+    console.error('Error in listReturnRequests:', ordersError)
+    throw new Error(`Failed to load orders: ${ordersError.message}`)
+  }
+
+  const paths = requests.flatMap((request) => request.photo_paths || [])
+  const signedUrls = new Map<string, string>()
+  if (paths.length > 0) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from(RETURN_PHOTOS_BUCKET)
+      .createSignedUrls(paths, 60 * 60)
+
+    if (signError) {
+      console.error('[Returns] Failed to sign photo URLs:', signError)
+    }
+    for (const entry of signed || []) {
+      if (entry.path && entry.signedUrl) signedUrls.set(entry.path, entry.signedUrl)
+    }
+  }
+
+  return requests.map((request) => {
+    const order = (orders || []).find((o: { id: string }) => o.id === request.order_id)
+    return {
+      ...request,
+      photo_urls: (request.photo_paths || []).map((path) => signedUrls.get(path)).filter((url): url is string => !!url),
+      order: order
+        ? {
+            order_number: order.order_number,
+            payment_method: order.payment_method,
+            payment_status: order.payment_status,
+            address_json: order.address_json,
+            phone: order.phone,
+          }
+        : null,
+    }
+  })
+}
+
+/**
+ * Admin actions on a request
+ */
+export const returnActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('approve'), admin_note: z.string().trim().max(1000).optional() }),
+  z.object({ action: z.literal('reject'), admin_note: z.string().trim().min(1, 'Add a note for the customer').max(1000) }),
+  z.object({
+    action: z.literal('schedule_pickup'),
+    pickup_courier: z.string().trim().min(1, 'Courier is required').max(100),
+    pickup_tracking_number: z.string().trim().min(1, 'Pickup tracking number is required').max(100),
+  }),
+  z.object({ action: z.literal('mark_received'), admin_note: z.string().trim().max(1000).optional() }),
+  z.object({
+    action: z.literal('complete'),
+    resolution: z.enum(['refund', 'store_credit', 'exchange']),
+    admin_note: z.string().trim().max(1000).optional(),
+  }),
+])
+
+export type ReturnAction = z.infer<typeof returnActionSchema>
+
+// Fields the audit log records when an admin moves a request on
+const AUDITED_RETURN_FIELDS = [
+  'status',
+  'admin_note',
+  'pickup_courier',
+  'pickup_tracking_number',
+  'resolution',
+  'refund_id',
+  'credit_coupon_code',
+  'exchange_order_id',
+] as const
+
+async function recordReturnChange(
+  supabase: SupabaseClient<any, any, any>,
+  before: ReturnRequest,
+  after: ReturnRequest,
+  adminUserId: string
+) {
+  const diff = diffFields(before, after, AUDITED_RETURN_FIELDS)
+  if (!diff) return
+
+  const { data: order } = await supabase.from('orders').select('order_number').eq('id', after.order_id).maybeSingle()
+
+  await recordAuditEvent(supabase, {
+    actorId: adminUserId,
+    action: 'update',
+    entityType: 'return_request',
+    entityId: after.id,
+    entityLabel: order?.order_number ?? null,
+    ...diff,
+  })
+}
+
+const ACTION_STATUS: Record<ReturnAction['action'], ReturnStatus> = {
+  approve: 'approved',
+  reject: 'rejected',
+  schedule_pickup: 'pickup_scheduled',
+  mark_received: 'received',
+  complete: 'completed',
+}
+
+/**
+ * Move a request on, running the step's side effects (restock on receipt,
+ * refund / store credit / exchange order on completion)
+ */
+export async function updateReturnRequest(
+  supabase: SupabaseClient<any, any, any>,
+  requestId: string,
+  action: ReturnAction,
+  adminUserId: string
+): Promise<ReturnRequestResult> {
+  const { data: current, error: loadError } = await supabase
+    .from('return_requests')
+    .select('*')
+    .eq('id', requestId)
+    .maybeSingle()
+
+  if (loadError) {
+    console.error('Error in updateReturnRequest:', loadError)
+    throw new Error(`Failed to load return request: ${loadError.message}`)
+  }
+
+  if (!current) {
+    return { ok: false, error: 'Return request not found', status: 404 }
+  }
+
+  const request = current as ReturnRequest
+  const to = ACTION_STATUS[action.action]
+
+  if (!RETURN_TRANSITIONS[request.status].includes(to)) {
+    return { ok: false, error: `A ${request.status.replace(/_/g, ' ')} request can't be ${to.replace(/_/g, ' ')}`, status: 409 }
+  }
+
+  if (action.action === 'complete') {
+    return completeReturnRequest(supabase, request, action.resolution, action.admin_note, adminUserId)
+  }
+
+  const now = new Date().toISOString()
+  const update: Record<string, unknown> = { status: to }
+
+  if ('admin_note' in action && action.admin_note) {
+    update.admin_note = action.admin_note
+  }
+  if (action.action === 'schedule_pickup') {
+    update.pickup_courier = action.pickup_courier
+    update.pickup_tracking_number = action.pickup_tracking_number
+    update.pickup_scheduled_at = now
+  }
+  if (action.action === 'mark_received') {
+    update.received_at = now
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('return_requests')
+    .update(update)
+    .eq('id', request.id)
+    .eq('status', request.status)
+    .select('*')
+    .maybeSingle()
+
+  if (updateError) {
+    console.error('Error in updateReturnRequest:', updateError)
+    throw new Error(`Failed to update return request: ${updateError.message}`)
+  }
+
+  if (!updated) {
+    return { ok: false, error: 'The request changed while it was being updated. Refresh and try again.', status: 409 }
+  }
+
+  await recordReturnChange(supabase, request, updated as ReturnRequest, adminUserId)
+
+  // Returned pieces are sellable again once they are back in the warehouse
+  if (action.action === 'mark_received') {
+    try {
+      await restockReturnedItems(supabase, request.items)
+    } catch (error) {
+      console.error('[Returns] Failed to restock returned items:', request.id, error)
+    }
+  }
+
+  const label = request.type === 'exchange' ? 'Exchange' : 'Return'
+  const orderNotes: Partial<Record<ReturnAction['action'], string>> = {
+    approve: `${label} request approved`,
+    reject: `${label} request rejected: ${update.admin_note}`,
+    schedule_pickup: `${label} pickup scheduled with ${update.pickup_courier} (${update.pickup_tracking_number})`,
+    mark_received: `${label} parcel received`,
+  }
+  if (orderNotes[action.action]) {
+    await appendOrderNote(supabase, request.order_id, orderNotes[action.action]!)
+  }
+
+  return { ok: true, request: updated as ReturnRequest }
+}
+
+type ResolutionOutcome = { ok: true; update: Record<string, unknown>; note: string } | { ok: false; error: string; status?: number }
+
+/**
+ * Close a received request with a refund, store credit or exchange order.
+ * The request is claimed by setting its resolution first; if the
+ * resolution fails the claim is released so it can be retried.
+ */
+async function completeReturnRequest(
+  supabase: SupabaseClient<any, any, any>,
+  request: ReturnRequest,
+  resolution: ReturnResolution,
+  adminNote: string | undefined,
+  adminUserId: string
+): Promise<ReturnRequestResult> {
+  if (resolution === 'exchange' && request.type !== 'exchange') {
+    return { ok: false, error: 'Only exchange requests can be completed with an exchange order' }
+  }
+
+  const order = await getReturnOrder(supabase, request.order_id)
+  if (!order) {
+    return { ok: false, error: 'Order not found', status: 404 }
+  }
+
+  if (resolution === 'refund' && (order.payment_method === 'cod' || order.payment_method === 'exchange')) {
+    return { ok: false, error: 'Only orders paid online can be refunded. Issue store credit instead.' }
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('return_requests')
+    .update({ resolution, resolved_by: adminUserId, resolved_at: new Date().toISOString() })
+    .eq('id', request.id)
+    .eq('status', 'received')
+    .is('resolution', null)
+    .select('id')
+    .maybeSingle()
+
+  if (claimError) {
+    console.error('Error in completeReturnRequest:', claimError)
+    throw new Error(`Failed to claim return request: ${claimError.message}`)
+  }
+
+  if (!claimed) {
+    return { ok: false, error: 'This request is already being completed. Refresh and try again.', status: 409 }
+  }
+
+  const releaseClaim = () =>
+    supabase.from('return_requests').update({ resolution: null, resolved_by: null, resolved_at: null }).eq('id', request.id)
+
+  let outcome: ResolutionOutcome
+  try {
+    outcome =
+      resolution === 'refund'
+        ? await refundReturn(supabase, order, request, adminUserId)
+        : resolution === 'store_credit'
+          ? await issueStoreCredit(supabase, order, request, adminUserId)
+          : await createExchangeOrder(supabase, order, request)
+  } catch (error) {
+    await releaseClaim()
+    throw error
+  }
+
+  if (!outcome.ok) {
+    await releaseClaim()
+    return { ok: false, error: outcome.error, status: outcome.status }
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('return_requests')
+    .update({ ...outcome.update, status: 'completed', ...(adminNote ? { admin_note: adminNote } : {}) })
+    .eq('id', request.id)
+    .select('*')
+    .single()
+
+  if (updateError) {
+    console.error('Error in completeReturnRequest:', updateError)
+    throw new Error(`Failed to complete return request: ${updateError.message}`)
+  }
+
+  await recordReturnChange(supabase, request, updated as ReturnRequest, adminUserId)
+  await appendOrderNote(supabase, order.id, outcome.note)
+  await closeFullyReturnedOrder(supabase, order)
+
+  return { ok: true, request: updated as ReturnRequest }
+}
+
+async function refundReturn(
+  supabase: SupabaseClient<any, any, any>,
+  order: ReturnOrderRow,
+  request: ReturnRequest,
+  adminUserId: string
+): Promise<ResolutionOutcome> {
+  const refund = await createOrderRefund(
+    supabase,
+    order.id,
+    {
+      items: request.items.map((item) => ({ index: item.index, quantity: item.quantity })),
+      reason: `Return: ${RETURN_REASONS[request.reason] || request.reason}`,
+    },
+    adminUserId
+  )
+
+  if (!refund.ok) {
+    return { ok: false, error: refund.error, status: refund.status }
+  }
+
+  // createOrderRefund already noted the refund on the order
+  return {
+    ok: true,
+    update: { refund_id: refund.refund.id },
+    note: `Return completed: ${RETURN_RESOLUTION_LABELS.refund.toLowerCase()} of ${formatRupees(refund.refund.amount_cents)}`,
+  }
+}
+
+/**
+ * Store credit is a single-use flat coupon that only this customer can redeem,
+ * worth what they paid for the returned pieces. Pieces already refunded, or
+ * already credited on another request, are left out.
+ */
+async function issueStoreCredit(
+  supabase: SupabaseClient<any, any, any>,
+  order: ReturnOrderRow,
+  request: ReturnRequest,
+  adminUserId: string
+): Promise<ResolutionOutcome> {
+  const overview = await getOrderRefundOverview(supabase, order.id)
+  if (!overview) {
+    return { ok: false, error: 'Order not found', status: 404 }
+  }
+
+  // Includes requests still being completed, so two credits can't overlap
+  const otherCredits = (await listOrderReturnRequests(supabase, order.id)).filter(
+    (other) => other.id !== request.id && other.resolution === 'store_credit'
+  )
+
+  const amountCents = request.items.reduce((sum, item) => {
+    const line = overview.summary.lines[item.index]
+    if (!line) return sum
+
+    const creditedQuantity = otherCredits.reduce(
+      (q, other) => q + other.items.filter((o) => o.index === item.index).reduce((n, o) => n + o.quantity, 0),
+      0
+    )
+    const creditable = Math.min(item.quantity, Math.max(line.quantity - line.refunded_quantity - creditedQuantity, 0))
+
+    return sum + line.unit_refund_cents * creditable
+  }, 0)
+
+  if (amountCents <= 0) {
+    return { ok: false, error: 'These items were not paid for or have already been refunded, so there is no credit to issue' }
+  }
+
+  const code = `CREDIT-${randomBytes(4).toString('hex').toUpperCase()}`
+
+  const { data: coupon, error } = await supabase
+    .from('coupons')
+    .insert({
+      code,
+      description: `Store credit for returned items from order ${order.order_number}`,
+      discount_type: 'flat',
+      discount_value: amountCents,
+      usage_limit: 1,
+      per_customer_limit: 1,
+      customer_email: order.email.trim().toLowerCase(),
+      is_active: true,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    console.error('Error in issueStoreCredit:', error)
+    throw new Error(`Failed to create store credit: ${error.message}`)
+  }
+
+  await recordAuditEvent(supabase, {
+    actorId: adminUserId,
+    action: 'create',
+    entityType: 'coupon',
+    entityId: coupon.id,
+    entityLabel: code,
+    after: coupon,
+  })
+
+  return {
+    ok: true,
+    update: { credit_coupon_code: code },
+    note: `Return completed: store credit of ${formatRupees(amountCents)} issued as coupon ${code}`,
+  }
+}
+
+/**
+ * Ship the new sizes as a free, already-paid order to the same address
+ */
+async function createExchangeOrder(
+  supabase: SupabaseClient<any, any, any>,
+  order: ReturnOrderRow,
+  request: ReturnRequest
+): Promise<ResolutionOutcome> {
+  const items = []
+
+  for (const item of request.items) {
+    const line = order.items_json[item.index]
+    const { color } = parseVariantLabel(line?.variant)
+    if (!line || !color || !item.exchange_size) {
+      return { ok: false, error: `${item.title} has no size to exchange for` }
+    }
+
+    const available = await getExchangeSizes(supabase, line)
+    if (!available.includes(item.exchange_size)) {
+      return { ok: false, error: `Size ${item.exchange_size} of ${item.title} is out of stock. Refund or issue store credit instead.` }
+    }
+
+    items.push({
+      ...line,
+      price: 0,
+      quantity: item.quantity,
+      variant: `Color: ${color} | Size: ${item.exchange_size}`,
+    })
+  }
+
+  const now = new Date().toISOString()
+  let exchangeOrder: { id: string; order_number: string } | null = null
+  let insertError: any = null
+  const maxRetries = 5
+
+  for (let retryCount = 0; !exchangeOrder && retryCount < maxRetries; retryCount++) {
+    const { data: generatedOrderNumber, error: orderNumberError } = await supabase.rpc('generate_order_number')
+
+    let orderNumber: string
+    if (orderNumberError || !generatedOrderNumber) {
+      const dateStr = now.split('T')[0].replace(/-/g, '')
+      const randomSuffix = Math.floor(Math.random() * 10000).toString().padStart(4, '0')
+      orderNumber = `ORD-${dateStr}-${String(Date.now()).slice(-6)}-${randomSuffix}`
+    } else {
+      orderNumber = generatedOrderNumber
+    }
+
+    const { data, error } = await supabase
+      .from('orders')
+      .insert({
+        order_number: orderNumber,
+        user_id: order.user_id,
+        email: order.email,
+        phone: order.phone,
+        address_json: order.address_json,
+        items_json: items,
+        subtotal_cents: 0,
+        shipping_cents: 0,
+        tax_cents: 0,
+        discount_cents: 0,
+        total_cents: 0,
+        payment_method: 'exchange',
+        payment_status: 'paid',
+        payment_date: now,
+        status: 'confirmed',
+        admin_notes: `Exchange for order ${order.order_number} (return request ${request.id})`,
+        status_history: [
+          { status: 'confirmed', timestamp: now, note: `Size exchange for order #${order.order_number}` },
+        ],
+      })
+      .select('id, order_number')
+      .single()
+
+    insertError = error
+    if (error?.code === '23505') continue
+    exchangeOrder = data
+    break
+  }
+
+  if (!exchangeOrder) {
+    console.error('Error in createExchangeOrder:', insertError)
+    throw new Error(`Failed to create exchange order: ${insertError?.message || 'Unknown error'}`)
+  }
+
+  try {
+    await deductOrderStock(supabase, exchangeOrder.id)
+  } catch (error) {
+    console.error('[Returns] Failed to deduct stock for exchange order:', exchangeOrder.id, error)
+  }
+
+  return {
+    ok: true,
+    update: { exchange_order_id: exchangeOrder.id },
+    note: `Exchange completed: new sizes ship as order #${exchangeOrder.order_number}`,
+  }
+}
+
+/**
+ * Mark the order returned once every piece came back for a refund or credit
+ */
+async function closeFullyReturnedOrder(supabase: SupabaseClient<any, any, any>, order: ReturnOrderRow) {
+  if (order.status !== 'delivered') return
+
+  const requests = await listOrderReturnRequests(supabase, order.id)
+  const returnedQuantity = requests
+    .filter((request) => request.status === 'completed' && request.resolution !== 'exchange')
+    .reduce((sum, request) => sum + request.items.reduce((q, item) => q + item.quantity, 0), 0)
+  const orderedQuantity = (order.items_json || []).reduce((sum, item) => sum + item.quantity, 0)
+
+  if (orderedQuantity === 0 || returnedQuantity < orderedQuantity) return
+
+  const transition = await transitionOrder(supabase, order.id, {
+    to: 'returned',
+    note: 'All items returned',
+  })
+
+  if (!transition.ok) {
+    console.error('[Returns] Failed to mark order returned:', order.id, transition.error)
+  }
+}
@@ -0,0 +1,101 @@
+export type ReturnType = 'return' | 'exchange'
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'pickup_scheduled' | 'received' | 'completed'
+
+export type ReturnResolution = 'refund' | 'store_credit' | 'exchange'
+
+export interface ReturnSettings {
+  is_enabled: boolean
+  window_days: number
+  allow_exchanges: boolean
+  updated_at?: string
+}
+
+/** An order line included in a request, stored in return_requests.items */
+export interface ReturnItem {
+  index: number // position in orders.items_json
+  id: string
+  title: string
+  variant: string | null
+  quantity: number
+  exchange_size: string | null // exchanges only
+}
+
+export interface ReturnRequest {
+  id: string
+  order_id: string
+  user_id: string | null
+  email: string
+  type: ReturnType
+  status: ReturnStatus
+  items: ReturnItem[]
+  reason: string
+  note: string | null
+  photo_paths: string[]
+  admin_note: string | null
+  pickup_courier: string | null
+  pickup_tracking_number: string | null
+  pickup_scheduled_at: string | null
+  received_at: string | null
+  resolution: ReturnResolution | null
+  refund_id: string | null
+  credit_coupon_code: string | null
+  exchange_order_id: string | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** Request plus the order summary and signed photo URLs, for the admin queue */
+export interface AdminReturnRequest extends ReturnRequest {
+  photo_urls: string[]
+  order: {
+    order_number: string
+    payment_method: string | null
+    payment_status: string
+    address_json: any
+    phone: string | null
+  } | null
+}
+
+/** What a customer can still return on an order */
+export interface ReturnEligibility {
+  eligible: boolean
+  reason: string | null // shopper-facing, set when not eligible
+  deadline: string | null
+  allow_exchanges: boolean
+  lines: Array<{
+    index: number
+    title: string
+    variant: string | null
+    quantity: number
+    returnable_quantity: number
+    exchange_sizes: string[] // in-stock sizes of the same colour
+  }>
+}
+
+export const RETURN_REASONS: Record<string, string> = {
+  size_too_small: 'Size too small',
+  size_too_large: 'Size too large',
+  damaged: 'Damaged or defective',
+  wrong_item: 'Wrong item received',
+  not_as_described: 'Not as described',
+  changed_mind: 'Changed my mind',
+  other: 'Other',
+}
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  pickup_scheduled: 'Pickup scheduled',
+  received: 'Received',
+  completed: 'Completed',
+}
+
+export const RETURN_RESOLUTION_LABELS: Record<ReturnResolution, string> = {
+  refund: 'Refund',
+  store_credit: 'Store credit',
+  exchange: 'Exchange order',
+}
@@ -0,0 +1,128 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import type { ShippingDestination, ShippingQuote, ShippingZone, WeightSlab } from './types'
+
+/**
+ * Server-side shipping rates.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers / lib/pricing/server.ts.
+ * - Without a destination the rate can't be known yet, so it is quoted as 0
+ *   with no zone; create-order and the draft route always pass the address.
+ */
+
+/** Weight used for products that have no products.weight_grams set */
+export const DEFAULT_PRODUCT_WEIGHT_GRAMS = 500
+
+/**
+ * Pick the zone for a destination: the highest-priority active zone whose
+ * PIN prefixes or states match, falling back to the default zone.
+ */
+export function pickShippingZone(zones: ShippingZone[], destination: ShippingDestination): ShippingZone | null {
+  const pincode = destination.pincode?.trim() || ''
+  const state = destination.state?.trim().toLowerCase() || ''
+  const activeZones = zones.filter((zone) => zone.is_active)
+
+  const matches = activeZones
+    .filter(
+      (zone) =>
+        (pincode && zone.pincode_prefixes.some((prefix) => prefix && pincode.startsWith(prefix))) ||
+        (state && zone.states.some((zoneState) => zoneState.toLowerCase() === state))
+    )
+    .sort((a, b) => b.priority - a.priority)
+
+  return matches[0] || activeZones.find((zone) => zone.is_default) || null
+}
+
+/**
+ * Rate for a parcel weight: the first slab the weight fits in, or the
+ * heaviest slab when the parcel is heavier than all of them
+ */
+export function rateForWeight(slabs: WeightSlab[], weightGrams: number): number {
+  if (!Array.isArray(slabs) || slabs.length === 0) return 0
+
+  const sorted = [...slabs].sort((a, b) => {
+    if (a.max_grams === null) return 1
+    if (b.max_grams === null) return -1
+    return a.max_grams - b.max_grams
+  })
+
+  const slab = sorted.find((s) => s.max_grams === null || weightGrams <= s.max_grams) || sorted[sorted.length - 1]
+  return slab.rate_cents
+}
+
+/**
+ * Price shipping for a cart weight and destination.
+ * subtotalCents is the pre-discount cart value used for free-shipping thresholds.
+ */
+export async function quoteShipping(
+  supabase: SupabaseClient<any, any, any>,
+  destination: ShippingDestination | null | undefined,
+  weightGrams: number,
+  subtotalCents: number
+): Promise<ShippingQuote> {
+  const pending: ShippingQuote = {
+    zone_id: null,
+    zone_name: null,
+    weight_grams: weightGrams,
+    shipping_cents: 0,
+    free_shipping_applied: false,
+  }
+
+  if (!destination || (!destination.pincode?.trim() && !destination.state?.trim())) {
+    return pending
+  }
+
+  const { data: zones, error } = await supabase
+    .from('shipping_zones')
+    .select('*')
+    .eq('is_active', true)
+
+  if (error) {
+    console.error('Error in quoteShipping:', error)
+    throw new Error(`Failed to load shipping zones: ${error.message}`)
+  }
+
+  const zone = pickShippingZone((zones || []) as ShippingZone[], destination)
+
+  // No zones configured: keep the old free-shipping behaviour
+  if (!zone) {
+    return { ...pending, free_shipping_applied: true }
+  }
+
+  const isFree =
+    zone.free_shipping_threshold_cents !== null && subtotalCents >= zone.free_shipping_threshold_cents
+
+  return {
+    zone_id: zone.id,
+    zone_name: zone.name,
+    weight_grams: weightGrams,
+    shipping_cents: isFree ? 0 : rateForWeight(zone.weight_slabs, weightGrams),
+    free_shipping_applied: isFree,
+  }
+}
+
+/**
+ * Admin payload for creating or updating a shipping zone (amounts in paise)
+ */
+export const shippingZoneInputSchema = z.object({
+  name: z.string().trim().min(1, 'Zone name is required').max(255),
+  pincode_prefixes: z
+    .array(z.string().trim().regex(/^\d{1,6}$/, 'PIN prefixes must be 1-6 digits'))
+    .default([]),
+  states: z.array(z.string().trim().min(1)).default([]),
+  is_default: z.boolean().default(false),
+  weight_slabs: z
+    .array(
+      z.object({
+        max_grams: z.number().int().positive().nullable(),
+        rate_cents: z.number().int().min(0),
+      })
+    )
+    .min(1, 'Add at least one weight slab'),
+  free_shipping_threshold_cents: z.number().int().min(0).nullable().default(null),
+  priority: z.number().int().default(0),
+  is_active: z.boolean().default(true),
+})
+
+export type ShippingZoneInput = z.infer<typeof shippingZoneInputSchema>
@@ -0,0 +1,33 @@
+export interface WeightSlab {
+  max_grams: number | null // null means "anything heavier"
+  rate_cents: number
+}
+
+export interface ShippingZone {
+  id: string
+  name: string
+  pincode_prefixes: string[]
+  states: string[]
+  is_default: boolean
+  weight_slabs: WeightSlab[]
+  free_shipping_threshold_cents: number | null
+  priority: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/** Where an order ships to, as far as pricing is concerned */
+export interface ShippingDestination {
+  pincode?: string | null
+  state?: string | null
+}
+
+/** Shipping summary returned with a quote */
+export interface ShippingQuote {
+  zone_id: string | null
+  zone_name: string | null
+  weight_grams: number
+  shipping_cents: number
+  free_shipping_applied: boolean
+}
@@ -0,0 +1,49 @@
+import { adminFetch } from '@/lib/auth/adminFetch'
+import type { StaffRole } from '@/lib/auth/permissions'
+import type { StaffMember } from './types'
+
+async function readStaffResponse(response: Response, fallbackError: string): Promise<any> {
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || fallbackError)
+  }
+
+  return data
+}
+
+/**
+ * Owner: everyone with a staff role
+ */
+export async function fetchStaff(): Promise<StaffMember[]> {
+  const data = await readStaffResponse(await adminFetch('/api/admin/staff'), 'Failed to load staff')
+  return data.staff || []
+}
+
+/**
+ * Owner: give an email address a staff role, inviting them if they have no account.
+ * Resolves with whether an invite email went out.
+ */
+export async function inviteStaffMember(email: string, role: StaffRole): Promise<{ invited: boolean }> {
+  const response = await adminFetch('/api/admin/staff', {
+    method: 'POST',
+    body: JSON.stringify({ email, role }),
+  })
+  const data = await readStaffResponse(response, 'Failed to invite staff member')
+  return { invited: !!data.invited }
+}
+
+export async function updateStaffRole(userId: string, role: StaffRole): Promise<void> {
+  const response = await adminFetch(`/api/admin/staff/${userId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ role }),
+  })
+  await readStaffResponse(response, 'Failed to change role')
+}
+
+/**
+ * Owner: take someone's staff access away (their account stays)
+ */
+export async function removeStaffMember(userId: string): Promise<void> {
+  await readStaffResponse(await adminFetch(`/api/admin/staff/${userId}`, { method: 'DELETE' }), 'Failed to remove staff member')
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { recordAuditEvent } from '@/lib/audit/server'
+import { CUSTOMER_ROLE, STAFF_ROLES } from '@/lib/auth/permissions'
+import type { StaffMember } from './types'
+
+/**
+ * Staff accounts for the owner's staff screen (/admin/staff).
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers, with the service role client:
+ *   inviting goes through Supabase's auth admin API and the staff list
+ *   reads auth.users (list_staff / find_user_id_by_email in
+ *   supabase_staff_roles.sql).
+ * - Removing someone sets their role back to 'user'; the account stays.
+ * - Every role change is recorded in the audit log against `actorId`.
+ */
+
+export const staffInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  role: z.enum(STAFF_ROLES, { message: 'Choose a role' }),
+})
+
+export const staffRoleSchema = staffInviteSchema.pick({ role: true })
+
+export type StaffInvite = z.infer<typeof staffInviteSchema>
+
+export async function listStaff(supabase: SupabaseClient<any, any, any>): Promise<StaffMember[]> {
+  const { data, error } = await supabase.rpc('list_staff')
+
+  if (error) {
+    console.error('Error in listStaff:', error)
+    throw new Error(`Failed to load staff: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Give an account a staff role. Someone without an account gets a Supabase
+ * invite email; the link brings them to `redirectTo` once they set a password.
+ */
+export async function inviteStaff(
+  supabase: SupabaseClient<any, any, any>,
+  input: StaffInvite,
+  redirectTo: string,
+  actorId: string
+): Promise<{ userId: string; invited: boolean }> {
+  const { data: existingId, error: lookupError } = await supabase.rpc('find_user_id_by_email', {
+    p_email: input.email,
+  })
+
+  if (lookupError) {
+    console.error('Error in inviteStaff:', lookupError)
+    throw new Error(`Failed to look up account: ${lookupError.message}`)
+  }
+
+  let userId = existingId as string | null
+  if (!userId) {
+    const { data, error } = await supabase.auth.admin.inviteUserByEmail(input.email, { redirectTo })
+    if (error || !data.user) {
+      console.error('Error in inviteStaff:', error)
+      throw new Error(`Failed to send invite: ${error?.message || 'no user returned'}`)
+    }
+    userId = data.user.id
+  }
+
+  await setStaffRole(supabase, userId, input.role, actorId)
+
+  return { userId, invited: !existingId }
+}
+
+/**
+ * Change someone's role; CUSTOMER_ROLE takes their staff access away
+ */
+export async function setStaffRole(
+  supabase: SupabaseClient<any, any, any>,
+  userId: string,
+  role: string,
+  actorId: string
+): Promise<void> {
+  const { data: current, error: loadError } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (loadError) {
+    console.error('Error in setStaffRole:', loadError)
+    throw new Error(`Failed to load role: ${loadError.message}`)
+  }
+
+  const { error } = await supabase
+    .from('user_roles')
+    .upsert({ user_id: userId, role, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+
+  if (error) {
+    console.error('Error in setStaffRole:', error)
+    throw new Error(`Failed to update role: ${error.message}`)
+  }
+
+  const previousRole = current?.role ?? null
+  if (previousRole === role) return
+
+  // Only for the entry's label; the role has already changed
+  const { data: account } = await supabase.auth.admin.getUserById(userId)
+
+  await recordAuditEvent(supabase, {
+    actorId,
+    action: 'update',
+    entityType: 'staff',
+    entityId: userId,
+    entityLabel: account?.user?.email ?? null,
+    before: { role: previousRole },
+    after: { role },
+  })
+}
+
+export async function removeStaff(
+  supabase: SupabaseClient<any, any, any>,
+  userId: string,
+  actorId: string
+): Promise<void> {
+  await setStaffRole(supabase, userId, CUSTOMER_ROLE, actorId)
+}
@@ -0,0 +1,9 @@
+import type { StaffRole } from '@/lib/auth/permissions'
+
+export interface StaffMember {
+  user_id: string
+  email: string
+  role: StaffRole
+  invited_at: string
+  last_sign_in_at: string | null
+}
@@ -0,0 +1,21 @@
+import { adminFetch } from '@/lib/auth/adminFetch'
+import type { StoreSettings } from './types'
+
+/**
+ * Admin: save some or all store settings. Returns the saved settings.
+ */
+export async function saveStoreSettings(
+  input: Partial<Omit<StoreSettings, 'updated_at'>>
+): Promise<StoreSettings> {
+  const response = await adminFetch('/api/admin/store-settings', {
+    method: 'PUT',
+    body: JSON.stringify(input),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || 'Failed to save store settings')
+  }
+
+  return data.settings
+}
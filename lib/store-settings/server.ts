@@ -0,0 +1,74 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { unstable_cache } from 'next/cache'
+import { z } from 'zod'
+import { createServerSupabaseClient } from '@/lib/supabase/server'
+import { DEFAULT_STORE_SETTINGS, HEX_COLOR_PATTERN, type StoreSettings } from './types'
+
+/**
+ * Server-side store settings.
+ *
+ * IMPORTANT:
+ * - Only import this from server code (route handlers and the root layout).
+ * - The layout reads a cached copy; PUT /api/admin/store-settings
+ *   revalidates STORE_SETTINGS_CACHE_TAG so changes show on the next request.
+ */
+
+export const STORE_SETTINGS_CACHE_TAG = 'store-settings'
+
+const STORE_SETTINGS_COLUMNS =
+  'store_name, contact_email, contact_phone, primary_color, about_text_1, about_text_2, updated_at'
+
+/**
+ * Load the single store_settings row (defaults if the row is missing)
+ */
+export async function getStoreSettings(supabase: SupabaseClient<any, any, any>): Promise<StoreSettings> {
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select(STORE_SETTINGS_COLUMNS)
+    .eq('id', true)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error in getStoreSettings:', error)
+    throw new Error(`Failed to load store settings: ${error.message}`)
+  }
+
+  return data || DEFAULT_STORE_SETTINGS
+}
+
+/**
+ * Settings for rendering pages. Never throws: the storefront falls back to
+ * the defaults rather than failing to render.
+ */
+export const getCachedStoreSettings = unstable_cache(
+  async (): Promise<StoreSettings> => {
+    try {
+      return await getStoreSettings(createServerSupabaseClient())
+    } catch (error) {
+      console.error('[Store Settings] Falling back to defaults:', error)
+      return DEFAULT_STORE_SETTINGS
+    }
+  },
+  [STORE_SETTINGS_CACHE_TAG],
+  { tags: [STORE_SETTINGS_CACHE_TAG], revalidate: 300 }
+)
+
+/**
+ * Admin payload for updating store settings. Every field is optional so the
+ * storefront's inline editors can save just the part they show.
+ */
+export const storeSettingsInputSchema = z
+  .object({
+    store_name: z.string().trim().min(1, 'Store name is required').max(100),
+    contact_email: z.string().trim().email('Enter a valid contact email').max(200),
+    contact_phone: z
+      .string()
+      .trim()
+      .regex(/^\+?[0-9][0-9\s-]{6,19}$/, 'Enter a valid contact phone number'),
+    primary_color: z.string().trim().regex(HEX_COLOR_PATTERN, 'Primary colour must look like #1a2b3c'),
+    about_text_1: z.string().trim().max(2000),
+    about_text_2: z.string().trim().max(2000),
+  })
+  .partial()
+
+export type StoreSettingsInput = z.infer<typeof storeSettingsInputSchema>
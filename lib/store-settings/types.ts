@@ -0,0 +1,32 @@
+/** Storefront settings from the single store_settings row */
+export interface StoreSettings {
+  store_name: string
+  contact_email: string
+  contact_phone: string
+  primary_color: string // #rrggbb
+  about_text_1: string
+  about_text_2: string
+  updated_at?: string
+}
+
+/** Used until store_settings exists or when it cannot be read */
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  store_name: 'Add2Cart',
+  contact_email: 'add2cart.ind@gmail.com',
+  contact_phone: '+91 96916 66180',
+  primary_color: '#000000',
+  about_text_1:
+    'At Add2Cart, we redefine affordable fashion with a curated mix of thrifted and new apparel. Our goal is to make sustainable style accessible to everyone—offering premium quality, trending streetwear, and timeless classics at honest prices.',
+  about_text_2: "We believe every piece has a story—and we're here to help you wear yours with confidence.",
+}
+
+export const HEX_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/
+
+/**
+ * "#1a2b3c" -> "26 43 60", the form the --color-primary variable takes so
+ * Tailwind opacity modifiers (e.g. ring-primary/30) keep working
+ */
+export function hexToRgbChannels(hex: string): string {
+  const color = HEX_COLOR_PATTERN.test(hex) ? hex : DEFAULT_STORE_SETTINGS.primary_color
+  return [1, 3, 5].map((start) => parseInt(color.slice(start, start + 2), 16)).join(' ')
+}
@@ -2,38 +2,66 @@
 
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
+import { useAuthStore } from '@/lib/store/auth'
+import { clearSavedCart, saveCartLine } from '@/lib/cart/client'
 
 export interface CartItem {
   id: string
+  // product_variants.id and the chosen size; unset for products without variants
+  variantId?: string
+  size?: string
   title: string
   price: number
   image: string
   qty: number
+  // Display label ("Color: Black | Size: M"), also what checkout prices from
   variant?: string
 }
 
+/**
+ * What identifies a cart line: product, variant and size
+ */
+export type CartLineKey = Pick<CartItem, 'id' | 'variantId' | 'size' | 'variant'>
+
 interface CartState {
   items: CartItem[]
+  // The account these items were last synced with; null for a guest cart
+  ownerId: string | null
   addItem: (item: Omit<CartItem, 'qty'>) => void
-  removeItem: (id: string, variant?: string) => void
-  updateQuantity: (id: string, qty: number, variant?: string) => void
+  removeItem: (line: CartLineKey) => void
+  updateQuantity: (line: CartLineKey, qty: number) => void
   clearCart: () => void
+  setItems: (items: CartItem[], ownerId: string | null) => void
+  syncPrices: (prices: Array<{ id: string; variant?: string | null; price: number }>) => void
   getTotalItems: () => number
   getTotalPrice: () => number
 }
 
+/**
+ * Whether two lines are the same product, variant and size. Lines saved in the
+ * browser before they carried a variant id are matched by their label.
+ */
+export function isSameCartLine(a: CartLineKey, b: CartLineKey): boolean {
+  if (a.id !== b.id) return false
+  if (a.variantId && b.variantId) return a.variantId === b.variantId && a.size === b.size
+  return a.variant === b.variant
+}
+
+// Signed-in customers' carts are also saved on the server (lib/cart/server.ts);
+// guests' carts stay in this browser only
+const isSignedIn = () => !!useAuthStore.getState().user
+
 export const useCartStore = create<CartState>()(
   persist(
     (set, get) => ({
       items: [],
+      ownerId: null,
       addItem: (item) => {
-        const existingItem = get().items.find(
-          (i) => i.id === item.id && i.variant === item.variant
-        )
+        const existingItem = get().items.find((i) => isSameCartLine(i, item))
         if (existingItem) {
           set({
             items: get().items.map((i) =>
-              i.id === item.id && i.variant === item.variant
+              isSameCartLine(i, item)
                 ? { ...i, qty: i.qty + 1 }
                 : i
             ),
@@ -43,24 +71,41 @@ export const useCartStore = create<CartState>()(
             items: [...get().items, { ...item, qty: 1 }],
           })
         }
+        if (isSignedIn()) saveCartLine(item, (existingItem?.qty || 0) + 1)
       },
-      removeItem: (id: string, variant?: string) =>
+      removeItem: (line) => {
         set({
-          items: get().items.filter(
-            (item) => !(item.id === id && item.variant === variant)
-          ),
-        }),
-      updateQuantity: (id: string, qty: number, variant?: string) =>
+          items: get().items.filter((item) => !isSameCartLine(item, line)),
+        })
+        if (isSignedIn()) saveCartLine(line, 0)
+      },
+      updateQuantity: (line, qty) => {
         set({
           items: get().items
             .map((item) =>
-              item.id === id && item.variant === variant
+              isSameCartLine(item, line)
                 ? { ...item, qty: Math.max(0, qty) }
                 : item
             )
             .filter((item) => item.qty > 0),
+        })
+        if (isSignedIn()) saveCartLine(line, Math.max(0, qty))
+      },
+      clearCart: () => {
+        set({ items: [] })
+        if (isSignedIn()) clearSavedCart()
+      },
+      // Replace the cart without saving it (the saved cart at sign-in, or empty at sign-out)
+      setItems: (items, ownerId) => set({ items, ownerId }),
+      syncPrices: (prices) =>
+        set({
+          items: get().items.map((item) => {
+            const match = prices.find(
+              (p) => p.id === item.id && (p.variant || undefined) === item.variant
+            )
+            return match ? { ...item, price: match.price } : item
+          }),
         }),
-      clearCart: () => set({ items: [] }),
       getTotalItems: () => get().items.reduce((sum, item) => sum + item.qty, 0),
       getTotalPrice: () =>
         get().items.reduce((sum, item) => sum + item.price * item.qty, 0),
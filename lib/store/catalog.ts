@@ -9,6 +9,8 @@ export type ColorVariant = {
   color: string
   sizes: string[]
   images: string[]
+  // Quantity on hand per size; sizes missing from the map are untracked
+  stock?: Record<string, number>
 }
 
 export type Product = {
@@ -19,6 +21,11 @@ export type Product = {
   subcategory?: string
   inStock: boolean
   image: string
+  // Shipping weight; checkout assumes 500 g when missing
+  weightGrams?: number | null
+  // GST overrides; null uses the category rate
+  hsnCode?: string | null
+  gstRate?: number | null
   description?: string
   tags?: string[]
   variants?: ColorVariant[]
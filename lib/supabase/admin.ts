@@ -1,6 +1,9 @@
 import { supabase } from './client'
 import { uploadProductImage } from './storage'
 
+// Writes here run with the signed-in staff member's session; RLS checks their
+// permissions and triggers in supabase_audit_log.sql record each change
+
 export interface CreateProductInput {
   title: string
   slug: string
@@ -23,13 +26,19 @@ export interface UpdateProductInput {
   category_id?: string
   subcategory_id?: string
   in_stock?: boolean
+  is_active?: boolean
   sku?: string
+  tags?: string[]
+  weight_grams?: number | null
+  hsn_code?: string | null
+  gst_rate?: number | null
 }
 
 export interface VariantInput {
   color: string
   sizes: string[]
   images: File[]
+  stock?: Record<string, number> // Quantity per size; omitted sizes are untracked
 }
 
 export interface AddImagesResult {
@@ -176,6 +185,7 @@ export async function createProduct(input: CreateProductInput): Promise<string>
             color: variant.color,
             sizes: variant.sizes,
             image_urls: variantImageUrls,
+            stock: variant.stock || {},
             display_order: variantIndex,
           })
 
@@ -394,6 +404,7 @@ export async function createProductVariant(
         color: variant.color,
         sizes: variant.sizes,
         image_urls: variantImageUrls,
+        stock: variant.stock || {},
         display_order: 0,
       })
       .select('id')
@@ -486,6 +497,33 @@ export async function updateVariantSizes(
   }
 }
 
+/**
+ * Update per-size stock quantities for a variant
+ */
+export async function updateVariantStock(
+  variantId: string,
+  stock: Record<string, number>
+): Promise<void> {
+  try {
+    const sanitized: Record<string, number> = {}
+    Object.entries(stock).forEach(([size, quantity]) => {
+      sanitized[size] = Math.max(0, Math.floor(Number(quantity) || 0))
+    })
+
+    const { error } = await supabase
+      .from('product_variants')
+      .update({ stock: sanitized })
+      .eq('id', variantId)
+
+    if (error) {
+      throw new Error(`Failed to update variant stock: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error in updateVariantStock:', error)
+    throw error
+  }
+}
+
 /**
  * Update product description
  */
@@ -493,6 +531,24 @@ export async function updateProductDescription(productId: string, description: s
   await updateProduct(productId, { description })
 }
 
+/**
+ * Update shipping weight (null falls back to the default weight at checkout)
+ */
+export async function updateProductWeight(productId: string, weightGrams: number | null): Promise<void> {
+  await updateProduct(productId, { weight_grams: weightGrams })
+}
+
+/**
+ * Update HSN code and GST rate overrides (null falls back to the category)
+ */
+export async function updateProductGst(
+  productId: string,
+  hsnCode: string | null,
+  gstRate: number | null
+): Promise<void> {
+  await updateProduct(productId, { hsn_code: hsnCode, gst_rate: gstRate })
+}
+
 /**
  * Update stock status
  */
@@ -500,6 +556,29 @@ export async function updateProductStock(productId: string, inStock: boolean): P
   await updateProduct(productId, { in_stock: inStock })
 }
 
+/**
+ * Map an update to products columns, leaving out fields that were not given
+ */
+function toProductUpdateData(input: UpdateProductInput): Record<string, any> {
+  const updateData: Record<string, any> = {}
+
+  if (input.title !== undefined) updateData.title = input.title
+  if (input.slug !== undefined) updateData.slug = input.slug
+  if (input.description !== undefined) updateData.description = input.description || null
+  if (input.price_cents !== undefined) updateData.price_cents = input.price_cents
+  if (input.category_id !== undefined) updateData.category_id = input.category_id
+  if (input.subcategory_id !== undefined) updateData.subcategory_id = input.subcategory_id || null
+  if (input.in_stock !== undefined) updateData.in_stock = input.in_stock
+  if (input.is_active !== undefined) updateData.is_active = input.is_active
+  if (input.sku !== undefined) updateData.sku = input.sku || null
+  if (input.tags !== undefined) updateData.tags = input.tags.length > 0 ? input.tags : null
+  if (input.weight_grams !== undefined) updateData.weight_grams = input.weight_grams
+  if (input.hsn_code !== undefined) updateData.hsn_code = input.hsn_code
+  if (input.gst_rate !== undefined) updateData.gst_rate = input.gst_rate
+
+  return updateData
+}
+
 /**
  * Update a product in Supabase
  */
@@ -508,20 +587,9 @@ export async function updateProduct(
   input: UpdateProductInput
 ): Promise<void> {
   try {
-    const updateData: Record<string, any> = {}
-    
-    if (input.title !== undefined) updateData.title = input.title
-    if (input.slug !== undefined) updateData.slug = input.slug
-    if (input.description !== undefined) updateData.description = input.description || null
-    if (input.price_cents !== undefined) updateData.price_cents = input.price_cents
-    if (input.category_id !== undefined) updateData.category_id = input.category_id
-    if (input.subcategory_id !== undefined) updateData.subcategory_id = input.subcategory_id || null
-    if (input.in_stock !== undefined) updateData.in_stock = input.in_stock
-    if (input.sku !== undefined) updateData.sku = input.sku || null
-
     const { error } = await supabase
       .from('products')
-      .update(updateData)
+      .update(toProductUpdateData(input))
       .eq('id', productId)
 
     if (error) {
@@ -593,6 +661,176 @@ export async function deleteProduct(productId: string): Promise<void> {
   }
 }
 
+export interface AdminProductFilters {
+  /** Title, SKU or slug */
+  q?: string
+  category_id?: string
+  subcategory_id?: string
+  stock?: 'in_stock' | 'out_of_stock'
+  active?: 'active' | 'inactive'
+}
+
+export interface AdminProductVariant {
+  id: string
+  color: string
+  sizes: string[]
+  stock: Record<string, number> | null
+  image_urls: string[] | null
+  display_order: number
+}
+
+export interface AdminProduct {
+  id: string
+  title: string
+  slug: string
+  sku: string | null
+  price_cents: number
+  category_id: string
+  subcategory_id: string | null
+  in_stock: boolean
+  is_active: boolean
+  tags: string[] | null
+  updated_at: string
+  variants: AdminProductVariant[]
+  /** Product gallery plus variant images */
+  image_count: number
+}
+
+/**
+ * Fetch products for the admin products table, including inactive ones
+ */
+export async function fetchAdminProducts(filters: AdminProductFilters = {}): Promise<AdminProduct[]> {
+  try {
+    let query = supabase
+      .from('products')
+      .select(`
+        id,
+        title,
+        slug,
+        sku,
+        price_cents,
+        category_id,
+        subcategory_id,
+        in_stock,
+        is_active,
+        tags,
+        updated_at,
+        product_images(image_url),
+        product_variants(id, color, sizes, stock, image_urls, display_order)
+      `)
+      .order('updated_at', { ascending: false })
+
+    // Wildcards and PostgREST syntax characters are not searchable
+    const q = filters.q?.replace(/[%_*,()"\\]/g, ' ').trim()
+    if (q) {
+      query = query.or(`title.ilike.%${q}%,sku.ilike.%${q}%,slug.ilike.%${q}%`)
+    }
+    if (filters.category_id) query = query.eq('category_id', filters.category_id)
+    if (filters.subcategory_id) query = query.eq('subcategory_id', filters.subcategory_id)
+    if (filters.stock) query = query.eq('in_stock', filters.stock === 'in_stock')
+    if (filters.active) query = query.eq('is_active', filters.active === 'active')
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch products: ${error.message}`)
+    }
+
+    return (data || []).map(({ product_images, product_variants, ...product }: any) => {
+      const variants: AdminProductVariant[] = [...(product_variants || [])].sort(
+        (a, b) => (a.display_order || 0) - (b.display_order || 0)
+      )
+      const imageUrls = new Set<string>((product_images || []).map((image: { image_url: string }) => image.image_url))
+      variants.forEach((variant) => (variant.image_urls || []).forEach((url) => imageUrls.add(url)))
+
+      return { ...product, variants, image_count: imageUrls.size }
+    })
+  } catch (error) {
+    console.error('Error in fetchAdminProducts:', error)
+    throw error
+  }
+}
+
+/**
+ * Apply the same update to several products (activate, deactivate, move category)
+ */
+export async function bulkUpdateProducts(productIds: string[], input: UpdateProductInput): Promise<void> {
+  if (productIds.length === 0) return
+
+  try {
+    const { error } = await supabase
+      .from('products')
+      .update(toProductUpdateData(input))
+      .in('id', productIds)
+
+    if (error) {
+      throw new Error(`Failed to update products: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error in bulkUpdateProducts:', error)
+    throw error
+  }
+}
+
+/**
+ * Add and/or remove tags on several products, keeping their other tags.
+ * Tags match case-insensitively.
+ */
+export async function updateProductsTags(
+  productIds: string[],
+  changes: { add?: string[]; remove?: string[] }
+): Promise<void> {
+  if (productIds.length === 0) return
+
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, tags')
+      .in('id', productIds)
+
+    if (error) {
+      throw new Error(`Failed to load product tags: ${error.message}`)
+    }
+
+    const remove = new Set((changes.remove || []).map((tag) => tag.toLowerCase()))
+
+    for (const product of data || []) {
+      const current: string[] = product.tags || []
+      const next = current.filter((tag) => !remove.has(tag.toLowerCase()))
+      for (const tag of changes.add || []) {
+        if (!next.some((existing) => existing.toLowerCase() === tag.toLowerCase())) next.push(tag)
+      }
+
+      if (next.length === current.length && next.every((tag, index) => tag === current[index])) continue
+      await updateProduct(product.id, { tags: next })
+    }
+  } catch (error) {
+    console.error('Error in updateProductsTags:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete several products one by one; failures are reported, not thrown
+ */
+export async function deleteProducts(
+  productIds: string[]
+): Promise<{ deleted: string[]; failed: Array<{ id: string; error: string }> }> {
+  const deleted: string[] = []
+  const failed: Array<{ id: string; error: string }> = []
+
+  for (const productId of productIds) {
+    try {
+      await deleteProduct(productId)
+      deleted.push(productId)
+    } catch (error) {
+      failed.push({ id: productId, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
+  return { deleted, failed }
+}
+
 /**
  * Get category ID by slug
  */
@@ -108,3 +108,63 @@ export async function updateCategoryImage(categoryId: string, imageUrl: string):
     throw error
   }
 }
+
+export interface CategoryGstSettings {
+  hsn_code: string | null
+  gst_rate: number | null // percent; null inherits the parent category or the apparel default
+  gst_slab_threshold_cents: number | null
+  gst_rate_above_threshold: number | null
+}
+
+export type CategoryWithGst = Category & CategoryGstSettings
+
+/**
+ * Fetch all categories with their GST settings (admin)
+ */
+export async function fetchCategoriesWithGst(): Promise<CategoryWithGst[]> {
+  try {
+    const { data, error } = await supabase
+      .from('categories')
+      .select(
+        'id, name, slug, parent_id, description, image_url, display_order, is_active, created_at, updated_at, hsn_code, gst_rate, gst_slab_threshold_cents, gst_rate_above_threshold'
+      )
+      .order('display_order', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch categories: ${error.message}`)
+    }
+
+    // NUMERIC columns come back as strings
+    return ((data || []) as any[]).map((category) => ({
+      ...category,
+      gst_rate: category.gst_rate === null ? null : Number(category.gst_rate),
+      gst_rate_above_threshold:
+        category.gst_rate_above_threshold === null ? null : Number(category.gst_rate_above_threshold),
+    }))
+  } catch (error) {
+    console.error('Error in fetchCategoriesWithGst:', error)
+    throw error
+  }
+}
+
+/**
+ * Update a category's HSN code and GST rate rules
+ */
+export async function updateCategoryGst(categoryId: string, settings: CategoryGstSettings): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('categories')
+      .update({
+        ...settings,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', categoryId)
+
+    if (error) {
+      throw new Error(`Failed to update category GST: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error in updateCategoryGst:', error)
+    throw error
+  }
+}
@@ -15,6 +15,9 @@ export interface SupabaseProduct {
   subcategory_id: string | null
   in_stock: boolean
   is_active: boolean
+  weight_grams: number | null
+  hsn_code: string | null
+  gst_rate: number | string | null
   tags: string[] | null
   created_at: string
   updated_at: string
@@ -36,6 +39,7 @@ export interface SupabaseProduct {
     color: string
     sizes: string[]
     image_urls: string[]
+    stock: Record<string, number> | null
     display_order: number
   }>
 }
@@ -171,13 +175,16 @@ export async function fetchProductsFromSupabase(
         subcategory_id,
         in_stock,
         is_active,
+        weight_grams,
+        hsn_code,
+        gst_rate,
         tags,
         created_at,
         updated_at,
         categories!products_category_id_fkey(slug),
         subcategories:categories!products_subcategory_id_fkey(slug),
         product_images(id, image_url, alt_text, is_primary, display_order),
-        product_variants(id, color, sizes, image_urls, display_order)
+        product_variants(id, color, sizes, image_urls, stock, display_order)
       `)
       .eq('is_active', true)
       .order('created_at', { ascending: false })
@@ -216,6 +223,7 @@ export async function fetchProductsFromSupabase(
           color: variant.color,
           sizes: variant.sizes || [],
           images: variant.image_urls || [],
+          stock: variant.stock || {},
         }))
 
       return {
@@ -225,6 +233,9 @@ export async function fetchProductsFromSupabase(
         category: product.categories?.[0]?.slug || '',
         subcategory: product.subcategories?.[0]?.slug || undefined,
         inStock: product.in_stock,
+        weightGrams: product.weight_grams,
+        hsnCode: product.hsn_code,
+        gstRate: product.gst_rate === null ? null : Number(product.gst_rate),
         image: imageUrl,
         description: product.description || undefined,
         tags: product.tags || undefined,
@@ -282,13 +293,16 @@ export async function fetchProductsByCategoryPattern(pattern: string): Promise<P
         subcategory_id,
         in_stock,
         is_active,
+        weight_grams,
+        hsn_code,
+        gst_rate,
         tags,
         created_at,
         updated_at,
         categories!products_category_id_fkey(slug),
         subcategories:categories!products_subcategory_id_fkey(slug),
         product_images(id, image_url, alt_text, is_primary, display_order),
-        product_variants(id, color, sizes, image_urls, display_order)
+        product_variants(id, color, sizes, image_urls, stock, display_order)
       `)
       .in('subcategory_id', subcategoryIds)
       .eq('is_active', true)
@@ -314,6 +328,7 @@ export async function fetchProductsByCategoryPattern(pattern: string): Promise<P
           color: variant.color,
           sizes: variant.sizes || [],
           images: variant.image_urls || [],
+          stock: variant.stock || {},
         }))
 
       return {
@@ -323,6 +338,9 @@ export async function fetchProductsByCategoryPattern(pattern: string): Promise<P
         category: product.categories?.[0]?.slug || '',
         subcategory: product.subcategories?.[0]?.slug || undefined,
         inStock: product.in_stock,
+        weightGrams: product.weight_grams,
+        hsnCode: product.hsn_code,
+        gstRate: product.gst_rate === null ? null : Number(product.gst_rate),
         image: imageUrl,
         description: product.description || undefined,
         tags: product.tags || undefined,
@@ -355,13 +373,16 @@ export async function fetchProductById(id: string): Promise<{ product: Product;
         subcategory_id,
         in_stock,
         is_active,
+        weight_grams,
+        hsn_code,
+        gst_rate,
         tags,
         created_at,
         updated_at,
         categories!products_category_id_fkey(slug),
         subcategories:categories!products_subcategory_id_fkey(slug),
         product_images(id, image_url, alt_text, is_primary, display_order),
-        product_variants(id, color, sizes, image_urls, display_order)
+        product_variants(id, color, sizes, image_urls, stock, display_order)
       `)
       .eq('id', id)
       .single()
@@ -386,6 +407,7 @@ export async function fetchProductById(id: string): Promise<{ product: Product;
         color: variant.color,
         sizes: variant.sizes || [],
         images: variant.image_urls || [],
+        stock: variant.stock || {},
       }))
 
     return {
@@ -396,6 +418,9 @@ export async function fetchProductById(id: string): Promise<{ product: Product;
         category: product.categories?.[0]?.slug || '',
         subcategory: product.subcategories?.[0]?.slug || undefined,
         inStock: product.in_stock,
+        weightGrams: product.weight_grams,
+        hsnCode: product.hsn_code,
+        gstRate: product.gst_rate === null ? null : Number(product.gst_rate),
         image: imageUrl,
         description: product.description || undefined,
         tags: product.tags || undefined,
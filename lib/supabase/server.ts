@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest } from 'next/server'
+import { ACCESS_TOKEN_COOKIE } from '@/lib/auth/sessionCookie'
 
 /**
  * Server-side Supabase client with service role key only.
@@ -59,8 +60,9 @@ export function createServerSupabaseClient() {
 
 /**
  * Server-side Supabase client with authentication support
- * Creates a client with anon key and extracts access token from request headers
- * Use this when you need to authenticate users in API routes
+ * Creates a client with anon key and extracts the access token from the
+ * Authorization header or the session cookie
+ * Use this when you need to authenticate users in API routes and middleware
  */
 export function createServerSupabaseClientWithAuth(request: NextRequest) {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -74,11 +76,12 @@ export function createServerSupabaseClientWithAuth(request: NextRequest) {
     throw new Error('Missing env.NEXT_PUBLIC_SUPABASE_ANON_KEY')
   }
 
-  // Extract access token from Authorization header
+  // Extract access token from Authorization header, falling back to the
+  // session cookie for page requests (middleware)
   const authHeader = request.headers.get('Authorization')
-  const accessToken = authHeader?.startsWith('Bearer ') 
-    ? authHeader.substring(7) 
-    : null
+  const accessToken = authHeader?.startsWith('Bearer ')
+    ? authHeader.substring(7)
+    : request.cookies.get(ACCESS_TOKEN_COOKIE)?.value || null
 
   // Create client with anon key (for user authentication, respects RLS)
   const client = createClient(supabaseUrl, supabaseAnonKey, {
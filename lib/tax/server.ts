@@ -0,0 +1,244 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { GstRule, SellerDetails, TaxBreakdown, TaxLine } from './types'
+
+/**
+ * Server-side GST calculation.
+ *
+ * IMPORTANT:
+ * - Only import this from route handlers / lib/pricing/server.ts.
+ * - Catalogue prices include GST, so tax is carved out of what the
+ *   customer pays; it never changes the order total.
+ * - Seller details come from GST_SELLER_* environment variables.
+ */
+
+/**
+ * Apparel rule used when neither the product nor its categories set a rate:
+ * 5% up to ₹2,500 per piece, 18% above
+ */
+export const DEFAULT_GST_RULE: GstRule = {
+  hsn_code: null,
+  gst_rate: 5,
+  gst_slab_threshold_cents: 250000,
+  gst_rate_above_threshold: 18,
+}
+
+/** SAC for courier services, used for the shipping line on invoices */
+export const SHIPPING_SAC_CODE = '9968'
+
+interface CategoryGstRow {
+  id: string
+  hsn_code: string | null
+  gst_rate: number | string | null
+  gst_slab_threshold_cents: number | null
+  gst_rate_above_threshold: number | string | null
+}
+
+export interface ProductGstSource {
+  id: string
+  category_id: string
+  subcategory_id: string | null
+  hsn_code: string | null
+  gst_rate: number | string | null
+}
+
+export interface TaxLineInput {
+  description: string
+  quantity: number
+  gross_cents: number // line total before discount
+  rule: GstRule
+}
+
+// NUMERIC columns come back from PostgREST as strings
+const toRate = (value: number | string | null | undefined): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value)
+
+/**
+ * Seller details for invoices and the intra/inter-state decision
+ */
+export function getSellerDetails(): SellerDetails {
+  return {
+    legal_name: process.env.GST_SELLER_NAME?.trim() || 'Add2Cart',
+    gstin: process.env.GST_SELLER_GSTIN?.trim() || null,
+    address: process.env.GST_SELLER_ADDRESS?.trim() || null,
+    state: process.env.GST_SELLER_STATE?.trim() || null,
+  }
+}
+
+/**
+ * Resolve the GST rule for each product: a product rate is a flat override,
+ * otherwise the subcategory, then the category, then DEFAULT_GST_RULE.
+ * HSN codes fall back the same way, field by field.
+ */
+export async function loadGstRules(
+  supabase: SupabaseClient<any, any, any>,
+  products: ProductGstSource[]
+): Promise<Map<string, GstRule>> {
+  const categoryIds = Array.from(
+    new Set(products.flatMap((p) => [p.category_id, p.subcategory_id]).filter((id): id is string => !!id))
+  )
+
+  const categoriesById = new Map<string, CategoryGstRow>()
+
+  if (categoryIds.length > 0) {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('id, hsn_code, gst_rate, gst_slab_threshold_cents, gst_rate_above_threshold')
+      .in('id', categoryIds)
+
+    if (error) {
+      console.error('Error in loadGstRules:', error)
+      throw new Error(`Failed to load GST rates: ${error.message}`)
+    }
+
+    for (const category of (data || []) as CategoryGstRow[]) {
+      categoriesById.set(category.id, category)
+    }
+  }
+
+  const rules = new Map<string, GstRule>()
+
+  for (const product of products) {
+    const categories = [product.subcategory_id, product.category_id]
+      .map((id) => (id ? categoriesById.get(id) : undefined))
+      .filter((c): c is CategoryGstRow => !!c)
+
+    const hsnCode =
+      product.hsn_code?.trim() || categories.find((c) => c.hsn_code?.trim())?.hsn_code?.trim() || null
+    const productRate = toRate(product.gst_rate)
+
+    if (productRate !== null) {
+      rules.set(product.id, {
+        hsn_code: hsnCode,
+        gst_rate: productRate,
+        gst_slab_threshold_cents: null,
+        gst_rate_above_threshold: null,
+      })
+      continue
+    }
+
+    const ratedCategory = categories.find((c) => toRate(c.gst_rate) !== null)
+    rules.set(
+      product.id,
+      ratedCategory
+        ? {
+            hsn_code: hsnCode,
+            gst_rate: toRate(ratedCategory.gst_rate) as number,
+            gst_slab_threshold_cents: ratedCategory.gst_slab_threshold_cents,
+            gst_rate_above_threshold: toRate(ratedCategory.gst_rate_above_threshold),
+          }
+        : { ...DEFAULT_GST_RULE, hsn_code: hsnCode }
+    )
+  }
+
+  return rules
+}
+
+/**
+ * Rate for one piece sold at unitGrossCents (GST inclusive).
+ * Slabs compare the taxable value at the lower rate against the threshold.
+ */
+export function gstRateForPiece(rule: GstRule, unitGrossCents: number): number {
+  if (rule.gst_slab_threshold_cents === null || rule.gst_rate_above_threshold === null) {
+    return rule.gst_rate
+  }
+
+  const taxableAtLowerRate = (unitGrossCents * 100) / (100 + rule.gst_rate)
+  return taxableAtLowerRate <= rule.gst_slab_threshold_cents ? rule.gst_rate : rule.gst_rate_above_threshold
+}
+
+/**
+ * Split GST out of an order.
+ * The discount is spread over the items and shipping in proportion to their
+ * value, so every invoice line shows the amount actually charged.
+ * Shipping is taxed at the highest item rate (composite supply).
+ */
+export function calculateOrderTax(params: {
+  lines: TaxLineInput[]
+  shippingCents: number
+  codFeeCents?: number
+  discountCents: number
+  sellerState: string | null
+  destinationState: string | null | undefined
+}): TaxBreakdown {
+  const { lines, shippingCents, discountCents, sellerState } = params
+  const placeOfSupply = params.destinationState?.trim() || null
+
+  // Without a seller state, or before the address is known, treat the sale as inter-state
+  const supplyType =
+    sellerState && placeOfSupply && sellerState.toLowerCase() === placeOfSupply.toLowerCase()
+      ? 'intra_state'
+      : 'inter_state'
+
+  const codFeeCents = params.codFeeCents || 0
+  const grossParts = [...lines.map((line) => line.gross_cents), shippingCents, codFeeCents]
+  const grossTotal = grossParts.reduce((sum, cents) => sum + cents, 0)
+  const discount = Math.min(Math.max(discountCents, 0), grossTotal)
+
+  // Allocate the discount; the last non-zero part takes the rounding remainder
+  const lastIndex = grossParts.reduce((last, cents, index) => (cents > 0 ? index : last), -1)
+  let allocated = 0
+  const netParts = grossParts.map((cents, index) => {
+    if (grossTotal === 0 || cents === 0) return cents
+    const share = index === lastIndex ? discount - allocated : Math.floor((discount * cents) / grossTotal)
+    allocated += share
+    return cents - share
+  })
+
+  const buildLine = (
+    description: string,
+    hsnCode: string | null,
+    quantity: number,
+    rate: number,
+    netCents: number
+  ): TaxLine => {
+    const taxableCents = Math.round((netCents * 100) / (100 + rate))
+    const taxCents = netCents - taxableCents
+    const cgstCents = supplyType === 'intra_state' ? Math.floor(taxCents / 2) : 0
+    const sgstCents = supplyType === 'intra_state' ? taxCents - cgstCents : 0
+
+    return {
+      description,
+      hsn_code: hsnCode,
+      quantity,
+      gst_rate: rate,
+      gross_cents: netCents,
+      taxable_cents: taxableCents,
+      cgst_cents: cgstCents,
+      sgst_cents: sgstCents,
+      igst_cents: supplyType === 'inter_state' ? taxCents : 0,
+    }
+  }
+
+  const taxLines = lines.map((line, index) => {
+    const netCents = netParts[index]
+    const rate = gstRateForPiece(line.rule, line.quantity > 0 ? netCents / line.quantity : netCents)
+    return buildLine(line.description, line.rule.hsn_code, line.quantity, rate, netCents)
+  })
+
+  // Shipping and the COD fee are ancillary to the goods and follow the highest item rate
+  const ancillaryRate = taxLines.reduce((max, line) => Math.max(max, line.gst_rate), 0)
+  const shippingNet = netParts[lines.length]
+  const codFeeNet = netParts[lines.length + 1]
+  const shippingLine =
+    shippingNet > 0 ? buildLine('Shipping charges', SHIPPING_SAC_CODE, 1, ancillaryRate, shippingNet) : null
+  const codFeeLine =
+    codFeeNet > 0 ? buildLine('Cash on delivery fee', SHIPPING_SAC_CODE, 1, ancillaryRate, codFeeNet) : null
+
+  const allLines = [...taxLines, shippingLine, codFeeLine].filter((line): line is TaxLine => !!line)
+  const cgstCents = allLines.reduce((sum, line) => sum + line.cgst_cents, 0)
+  const sgstCents = allLines.reduce((sum, line) => sum + line.sgst_cents, 0)
+  const igstCents = allLines.reduce((sum, line) => sum + line.igst_cents, 0)
+
+  return {
+    supply_type: supplyType,
+    seller_state: sellerState,
+    place_of_supply: placeOfSupply,
+    lines: taxLines,
+    shipping: shippingLine,
+    cod_fee: codFeeLine,
+    cgst_cents: cgstCents,
+    sgst_cents: sgstCents,
+    igst_cents: igstCents,
+    total_tax_cents: cgstCents + sgstCents + igstCents,
+  }
+}
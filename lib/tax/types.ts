@@ -0,0 +1,44 @@
+export type GstSupplyType = 'intra_state' | 'inter_state'
+
+/** GST settings for a product, resolved from the product and its categories */
+export interface GstRule {
+  hsn_code: string | null
+  gst_rate: number // percent
+  gst_slab_threshold_cents: number | null // per-piece taxable value; above it gst_rate_above_threshold applies
+  gst_rate_above_threshold: number | null
+}
+
+/** One invoice line; amounts in paise, gross_cents is what the customer paid (GST inclusive) */
+export interface TaxLine {
+  description: string
+  hsn_code: string | null
+  quantity: number
+  gst_rate: number
+  gross_cents: number
+  taxable_cents: number
+  cgst_cents: number
+  sgst_cents: number
+  igst_cents: number
+}
+
+/** GST split for an order, stored in orders.tax_breakdown */
+export interface TaxBreakdown {
+  supply_type: GstSupplyType
+  seller_state: string | null
+  place_of_supply: string | null
+  lines: TaxLine[] // same order as items_json
+  shipping: TaxLine | null
+  cod_fee?: TaxLine | null // COD handling fee; absent on orders priced before COD existed
+  cgst_cents: number
+  sgst_cents: number
+  igst_cents: number
+  total_tax_cents: number
+}
+
+/** Seller details printed on invoices */
+export interface SellerDetails {
+  legal_name: string
+  gstin: string | null
+  address: string | null
+  state: string | null
+}
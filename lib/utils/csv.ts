@@ -0,0 +1,63 @@
+/**
+ * One CSV cell. Numbers are written as-is; text is quoted when needed and
+ * guarded against spreadsheet formula injection.
+ */
+export const csvCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'number') return String(value)
+  // Spreadsheet apps run cells starting with these as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF) into
+ * rows of trimmed cells. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const input = text.replace(/^\uFEFF/, '')
+
+  const endRow = () => {
+    row.push(cell.trim())
+    if (row.some((value) => value !== '')) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow()
+
+  return rows
+}
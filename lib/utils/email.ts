@@ -0,0 +1,15 @@
+/**
+ * Normalize an email address for storing and comparing: trimmed and lowercased.
+ * Returns an empty string for a missing email.
+ */
+export function normalizeEmail(email: string | null | undefined): string {
+  return (email || '').trim().toLowerCase()
+}
+
+/**
+ * An ilike pattern matching exactly this email, whatever its case
+ * (orders placed before emails were normalized may be mixed case)
+ */
+export function emailMatchPattern(email: string): string {
+  return normalizeEmail(email).replace(/[\\%_]/g, (char) => `\\${char}`)
+}
@@ -0,0 +1,37 @@
+import type { PDFFont } from 'pdf-lib'
+
+// Standard PDF fonts only cover Latin-1; anything else (₹, Devanagari) is replaced
+export const pdfSafe = (text: unknown) =>
+  String(text ?? '')
+    .replace(/₹/g, 'Rs.')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+
+/**
+ * Break text into lines that fit maxWidth
+ */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const words = pdfSafe(text).split(/\s+/).filter(Boolean)
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate
+      continue
+    }
+    if (current) lines.push(current)
+    // A single word wider than the column is cut to fit
+    let remaining = word
+    while (font.widthOfTextAtSize(remaining, size) > maxWidth && remaining.length > 1) {
+      let cut = remaining.length - 1
+      while (cut > 1 && font.widthOfTextAtSize(remaining.slice(0, cut), size) > maxWidth) cut--
+      lines.push(remaining.slice(0, cut))
+      remaining = remaining.slice(cut)
+    }
+    current = remaining
+  }
+
+  if (current) lines.push(current)
+  return lines.length > 0 ? lines : ['']
+}
@@ -0,0 +1,17 @@
+/**
+ * Normalize an Indian mobile number to its 10 digits.
+ * Accepts "+91 98765 43210", "09876543210" etc. Returns null if it isn't a valid mobile.
+ */
+export function normalizeIndianMobile(phone: string | null | undefined): string | null {
+  let digits = (phone || '').replace(/\D/g, '')
+  if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2)
+  if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1)
+  return /^[6-9]\d{9}$/.test(digits) ? digits : null
+}
+
+/**
+ * Mask a mobile number for display, e.g. 98XXXXXX10
+ */
+export function maskMobile(phone: string): string {
+  return phone.length >= 4 ? `${phone.slice(0, 2)}${'X'.repeat(phone.length - 4)}${phone.slice(-2)}` : phone
+}
@@ -0,0 +1,65 @@
+import type { ColorVariant } from '@/lib/store/catalog'
+
+/**
+ * Per-size stock helpers shared by the storefront and the server routes.
+ * A size that is missing from a variant's stock map is untracked and is
+ * always considered available.
+ */
+
+/**
+ * Get the quantity on hand for a size, or null when the size is untracked
+ */
+export function getSizeStock(variant: Pick<ColorVariant, 'stock'> | undefined, size: string): number | null {
+  const quantity = variant?.stock?.[size]
+  if (quantity === undefined || quantity === null) return null
+  return Math.max(0, Math.floor(Number(quantity) || 0))
+}
+
+/**
+ * Whether a size can currently be added to the cart
+ */
+export function isSizeInStock(variant: Pick<ColorVariant, 'stock'> | undefined, size: string): boolean {
+  const quantity = getSizeStock(variant, size)
+  return quantity === null || quantity > 0
+}
+
+/**
+ * Whether any size of a variant can currently be added to the cart
+ */
+export function isVariantInStock(variant: Pick<ColorVariant, 'sizes' | 'stock'>): boolean {
+  return variant.sizes.some((size) => isSizeInStock(variant, size))
+}
+
+/**
+ * The cart variant label for a colour and size (e.g. "Color: Navy Blue | Size: M"),
+ * shown in the cart and read back by parseVariantLabel at checkout
+ */
+export function formatVariantLabel(color: string, size: string): string {
+  const colorName = color.replace(/[-_]/g, ' ').replace(/\b\w/g, (char) => char.toUpperCase())
+  return `Color: ${colorName} | Size: ${size}`
+}
+
+/**
+ * Parse the cart variant label built on the product page
+ * (e.g. "Color: Black | Size: M") back into its colour and size.
+ */
+export function parseVariantLabel(label?: string | null): { color: string | null; size: string | null } {
+  if (!label) return { color: null, size: null }
+
+  const colorMatch = label.match(/Colou?r:\s*([^|]+)/i)
+  const sizeMatch = label.match(/Size:\s*([^|]+)/i)
+
+  return {
+    color: colorMatch ? colorMatch[1].trim() : null,
+    size: sizeMatch ? sizeMatch[1].trim() : null,
+  }
+}
+
+/**
+ * Compare colour names the way the product page displays them
+ * ("navy-blue" and "Navy Blue" refer to the same variant)
+ */
+export function isSameColor(a: string, b: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/[-_\s]+/g, ' ').trim()
+  return normalize(a) === normalize(b)
+}
@@ -1,23 +1,22 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { getRequestUser, getUserRole } from '@/lib/auth/server'
+import { isStaffRole } from '@/lib/auth/permissions'
 
-export function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
 
   // Protect admin routes (except login)
   if (pathname.startsWith('/admin') && pathname !== '/admin/login') {
-    // Check for auth token/session
-    // In a real app, you'd check for a valid session cookie or JWT
-    // For now, we'll allow access but you should implement proper auth checking
-    
-    // Example: Check for session cookie
-    // const session = request.cookies.get('admin_session')
-    // if (!session) {
-    //   return NextResponse.redirect(new URL('/admin/login', request.url))
-    // }
-    
-    // For demo purposes, we'll let it through
-    // In production, implement proper session checking here
+    // Session comes from the access token cookie kept in sync by AuthProvider
+    const user = await getRequestUser(request).catch(() => null)
+    const role = user ? await getUserRole(request, user.id).catch(() => null) : null
+
+    if (!isStaffRole(role)) {
+      const loginUrl = new URL('/admin/login', request.url)
+      loginUrl.searchParams.set('next', `${pathname}${search}`)
+      return NextResponse.redirect(loginUrl)
+    }
   }
 
   return NextResponse.next()
@@ -26,4 +25,3 @@ export function middleware(request: NextRequest) {
 export const config = {
   matcher: '/admin/:path*',
 }
-
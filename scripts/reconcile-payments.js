@@ -0,0 +1,46 @@
+/**
+ * Settle Razorpay draft orders stuck in "pending" (calls /api/cron/reconcile-payments)
+ * Run with: node scripts/reconcile-payments.js [--dry-run] [--url=https://yourdomain.com]
+ *
+ * Needs CRON_SECRET in .env.local (the same value the app uses).
+ */
+
+require('dotenv').config({ path: '.env.local' })
+
+const args = process.argv.slice(2)
+const dryRun = args.includes('--dry-run')
+const urlArg = args.find((arg) => arg.startsWith('--url='))
+const baseUrl = (urlArg ? urlArg.slice('--url='.length) : process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/$/, '')
+const cronSecret = process.env.CRON_SECRET
+
+if (!cronSecret) {
+  console.log('\n❌ CRON_SECRET is not set. Add it to your .env.local file.\n')
+  process.exit(1)
+}
+
+async function main() {
+  const response = await fetch(`${baseUrl}/api/cron/reconcile-payments${dryRun ? '?dry_run=true' : ''}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    console.log(`\n❌ Reconciliation failed (HTTP ${response.status}):`, data.error || data, '\n')
+    process.exit(1)
+  }
+
+  console.log(`\n=== Payment Reconciliation${data.dry_run ? ' (dry run)' : ''} ===\n`)
+  for (const result of data.results) {
+    console.log(`${result.order_number}: ${result.action} - ${result.note}`)
+  }
+  console.log(
+    `\nChecked ${data.checked}: ${data.paid} paid, ${data.failed} failed, ${data.expired} expired, ` +
+      `${data.unchanged} unchanged, ${data.errors} errors\n`
+  )
+}
+
+main().catch((error) => {
+  console.log('\n❌ Could not reach the app:', error.message, '\n')
+  process.exit(1)
+})
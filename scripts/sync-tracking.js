@@ -0,0 +1,45 @@
+/**
+ * Poll courier tracking for booked orders (calls /api/cron/sync-tracking)
+ * Run with: node scripts/sync-tracking.js [--url=https://yourdomain.com]
+ *
+ * Needs CRON_SECRET in .env.local (the same value the app uses).
+ */
+
+require('dotenv').config({ path: '.env.local' })
+
+const args = process.argv.slice(2)
+const urlArg = args.find((arg) => arg.startsWith('--url='))
+const baseUrl = (urlArg ? urlArg.slice('--url='.length) : process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/$/, '')
+const cronSecret = process.env.CRON_SECRET
+
+if (!cronSecret) {
+  console.log('\n❌ CRON_SECRET is not set. Add it to your .env.local file.\n')
+  process.exit(1)
+}
+
+async function main() {
+  const response = await fetch(`${baseUrl}/api/cron/sync-tracking`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    console.log(`\n❌ Tracking sync failed (HTTP ${response.status}):`, data.error || data, '\n')
+    process.exit(1)
+  }
+
+  console.log('\n=== Shipment Tracking Sync ===\n')
+  for (const result of data.results) {
+    console.log(`${result.order_number}: ${result.action} (${result.tracking_status || 'no scans'}) - ${result.note}`)
+  }
+  console.log(
+    `\nChecked ${data.checked}: ${data.shipped} shipped, ${data.delivered} delivered, ${data.returned} returned, ` +
+      `${data.unchanged} unchanged, ${data.errors} errors\n`
+  )
+}
+
+main().catch((error) => {
+  console.log('\n❌ Could not reach the app:', error.message, '\n')
+  process.exit(1)
+})
@@ -16,7 +16,6 @@ DROP POLICY IF EXISTS "Admins can view all orders" ON orders;
 -- Create a new policy that allows:
 -- 1. Admins/staff to view ALL orders
 -- 2. Authenticated users to view their own orders (by email or user_id)
--- 3. Public to view orders (for order confirmation pages - UUIDs provide security)
 CREATE POLICY "Admins can view all orders"
 ON orders
 FOR SELECT
@@ -37,13 +36,8 @@ USING (
     (orders.user_id IS NOT NULL AND orders.user_id = auth.uid())
 );
 
--- Keep public SELECT policy for order confirmation pages
--- (Order IDs are UUIDs which are hard to guess, providing basic security)
-CREATE POLICY "Public can view orders"
-ON orders
-FOR SELECT
-TO public
-USING (true);
+-- No public SELECT policy: orders are read through server routes with the
+-- service role (see supabase_orders_access.sql)
 
 -- Ensure UPDATE policy allows admins/staff to update orders
 DROP POLICY IF EXISTS "Only admin/staff can update orders" ON orders;
@@ -0,0 +1,187 @@
+-- ============================================
+-- AUDIT LOG OF ADMIN CHANGES
+-- ============================================
+-- One row per admin change: who made it, what changed (before/after of the
+-- changed fields) and when. Browsable at /admin/audit-log.
+--
+-- - Products, variants, images and categories are edited from the browser
+--   with the staff member's session, so triggers record those here using
+--   auth.uid(). Changes made by the store itself (checkout stock updates,
+--   service role jobs) are not staff changes and are skipped.
+-- - Order updates, refunds, shipment bookings, return requests, coupons,
+--   staff roles and category image uploads run on the server with the
+--   service role; lib/audit/server.ts records them with the admin's id.
+--   Store settings changes are not recorded.
+-- - Rows can't be updated or deleted, not even with the service role.
+--
+-- Run this in Supabase SQL Editor after supabase_staff_roles.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- auth.users id; NULL when the change wasn't made by a signed-in admin.
+    -- No foreign key: deleting an account must not rewrite its entries.
+    actor_id UUID,
+    -- Kept as written so entries stay readable after the account is gone
+    actor_email TEXT,
+    -- create, update, delete, refund
+    action VARCHAR(20) NOT NULL,
+    -- product, product_variant, product_image, category, order,
+    -- return_request, coupon, staff
+    entity_type VARCHAR(30) NOT NULL,
+    entity_id TEXT NOT NULL,
+    -- Product title, category name, order number... at the time of the change
+    entity_label TEXT,
+    -- Changed fields only for updates; the whole row for creates and deletes
+    before JSONB,
+    after JSONB,
+    -- clock_timestamp, not NOW(): rows written in one transaction (a product
+    -- and its cascaded variants) stay in order for the viewer's paging
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id, created_at DESC);
+
+-- Written by triggers and the service role; the owner can read
+-- (view_audit_log is an owner permission, see lib/auth/permissions.ts)
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can view the audit log" ON audit_log;
+CREATE POLICY "Owners can view the audit log"
+    ON audit_log FOR SELECT
+    USING (has_permission(auth.uid(), 'view_audit_log'));
+
+-- 1. Append-only: refuse updates, deletes and truncation
+CREATE OR REPLACE FUNCTION prevent_audit_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+    BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_audit_log_change();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+CREATE TRIGGER audit_log_no_truncate
+    BEFORE TRUNCATE ON audit_log
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION prevent_audit_log_change();
+
+-- 2. Fill in the actor's email
+CREATE OR REPLACE FUNCTION set_audit_actor_email()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.actor_id IS NOT NULL AND NEW.actor_email IS NULL THEN
+        SELECT email INTO NEW.actor_email FROM auth.users WHERE id = NEW.actor_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_log_actor_email ON audit_log;
+CREATE TRIGGER audit_log_actor_email
+    BEFORE INSERT ON audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION set_audit_actor_email();
+
+-- 3. Catalogue changes made by staff
+CREATE OR REPLACE FUNCTION record_catalog_audit()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_actor UUID := auth.uid();
+    v_old JSONB;
+    v_new JSONB;
+    v_row JSONB;
+    v_before JSONB;
+    v_after JSONB;
+    v_entity_type TEXT;
+    v_label TEXT;
+BEGIN
+    IF v_actor IS NULL OR NOT is_admin_or_staff(v_actor) THEN
+        RETURN NULL;
+    END IF;
+
+    v_old := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) - 'created_at' - 'updated_at' END;
+    v_new := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) - 'created_at' - 'updated_at' END;
+    v_row := COALESCE(v_new, v_old);
+
+    IF TG_OP = 'UPDATE' THEN
+        SELECT jsonb_object_agg(key, v_old -> key), jsonb_object_agg(key, v_new -> key)
+        INTO v_before, v_after
+        FROM jsonb_object_keys(v_new) AS key
+        WHERE v_old -> key IS DISTINCT FROM v_new -> key;
+
+        IF v_after IS NULL THEN
+            RETURN NULL;
+        END IF;
+    ELSE
+        v_before := v_old;
+        v_after := v_new;
+    END IF;
+
+    v_entity_type := CASE TG_TABLE_NAME
+        WHEN 'products' THEN 'product'
+        WHEN 'product_variants' THEN 'product_variant'
+        WHEN 'product_images' THEN 'product_image'
+        WHEN 'categories' THEN 'category'
+    END;
+
+    v_label := CASE TG_TABLE_NAME
+        WHEN 'products' THEN v_row ->> 'title'
+        WHEN 'categories' THEN v_row ->> 'name'
+        ELSE (SELECT title FROM products WHERE id = (v_row ->> 'product_id')::UUID)
+            || CASE WHEN TG_TABLE_NAME = 'product_variants' THEN ' · ' || (v_row ->> 'color') ELSE '' END
+    END;
+
+    INSERT INTO audit_log (actor_id, action, entity_type, entity_id, entity_label, before, after)
+    VALUES (
+        v_actor,
+        CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+        v_entity_type,
+        v_row ->> 'id',
+        v_label,
+        v_before,
+        v_after
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS audit_products ON products;
+CREATE TRIGGER audit_products
+    AFTER INSERT OR UPDATE OR DELETE ON products
+    FOR EACH ROW
+    EXECUTE FUNCTION record_catalog_audit();
+
+DROP TRIGGER IF EXISTS audit_product_variants ON product_variants;
+CREATE TRIGGER audit_product_variants
+    AFTER INSERT OR UPDATE OR DELETE ON product_variants
+    FOR EACH ROW
+    EXECUTE FUNCTION record_catalog_audit();
+
+DROP TRIGGER IF EXISTS audit_product_images ON product_images;
+CREATE TRIGGER audit_product_images
+    AFTER INSERT OR UPDATE OR DELETE ON product_images
+    FOR EACH ROW
+    EXECUTE FUNCTION record_catalog_audit();
+
+DROP TRIGGER IF EXISTS audit_categories ON categories;
+CREATE TRIGGER audit_categories
+    AFTER INSERT OR UPDATE OR DELETE ON categories
+    FOR EACH ROW
+    EXECUTE FUNCTION record_catalog_audit();
+
+COMMENT ON TABLE audit_log IS 'Append-only record of admin changes to the catalogue, orders and refunds';
+
+-- Verify the new table
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'audit_log'
+ORDER BY ordinal_position;
@@ -0,0 +1,78 @@
+-- ============================================
+-- SAVED CARTS
+-- ============================================
+-- Signed-in customers' carts, so the same cart shows up on every device.
+-- Guests keep their cart in the browser only (useCartStore, 'cart-storage').
+--
+-- - The browser cart is merged into the saved one on sign-in (AuthProvider)
+--   and every add, quantity change and removal is saved through /api/cart.
+-- - Lines point at the product and variant rows, so a deleted product or
+--   colour drops out of every cart instead of failing at checkout.
+-- - Prices and titles are not stored: they are read from the catalogue each
+--   time the cart is loaded.
+--
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+-- One cart per customer
+CREATE TABLE IF NOT EXISTS carts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS cart_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cart_id UUID NOT NULL REFERENCES carts(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    -- NULL for products without colour variants
+    variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE,
+    -- One of the variant's sizes; NULL for products without variants
+    size VARCHAR(20),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- One line per product, colour and size (Postgres 15+ for NULLS NOT DISTINCT)
+    CONSTRAINT cart_items_line_unique UNIQUE NULLS NOT DISTINCT (cart_id, product_id, variant_id, size)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cart_items_cart_id ON cart_items(cart_id);
+
+DROP TRIGGER IF EXISTS update_carts_updated_at ON carts;
+CREATE TRIGGER update_carts_updated_at
+    BEFORE UPDATE ON carts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_cart_items_updated_at ON cart_items;
+CREATE TRIGGER update_cart_items_updated_at
+    BEFORE UPDATE ON cart_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- /api/cart uses the service role after checking the session; these
+-- policies keep customers to their own cart if they query it directly
+ALTER TABLE carts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cart_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own cart" ON carts;
+CREATE POLICY "Users can manage their own cart"
+    ON carts FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage their own cart items" ON cart_items;
+CREATE POLICY "Users can manage their own cart items"
+    ON cart_items FOR ALL
+    USING (EXISTS (SELECT 1 FROM carts WHERE carts.id = cart_items.cart_id AND carts.user_id = auth.uid()))
+    WITH CHECK (EXISTS (SELECT 1 FROM carts WHERE carts.id = cart_items.cart_id AND carts.user_id = auth.uid()));
+
+COMMENT ON TABLE carts IS 'Signed-in customers'' saved carts, one per user';
+COMMENT ON TABLE cart_items IS 'Cart lines by product, colour variant and size';
+
+-- Verify the new tables
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('carts', 'cart_items')
+ORDER BY table_name, ordinal_position;
@@ -0,0 +1,73 @@
+-- ============================================
+-- CASH ON DELIVERY
+-- ============================================
+-- COD orders skip Razorpay: the customer confirms their phone with an OTP
+-- and the order is created as confirmed with payment pending until delivery.
+-- Limits are edited from /admin/cod and enforced in lib/cod/server.ts.
+-- OTP SMS goes through MSG91 (MSG91_AUTH_KEY, MSG91_OTP_TEMPLATE_ID in .env.local);
+-- OTP_SECRET (optional) keys the stored code hashes.
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+-- Single-row settings table
+CREATE TABLE IF NOT EXISTS cod_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    is_enabled BOOLEAN NOT NULL DEFAULT false,
+    fee_cents INTEGER NOT NULL DEFAULT 0 CHECK (fee_cents >= 0),
+    -- Orders above this total (including the COD fee) must be paid online; NULL means no limit
+    max_order_cents INTEGER CHECK (max_order_cents IS NULL OR max_order_cents > 0),
+    -- Exact PIN codes or prefixes where couriers don't collect cash
+    blocked_pincodes TEXT[] NOT NULL DEFAULT '{}',
+    -- Block customers (by phone or email) with this many refused COD parcels
+    block_rto_customers BOOLEAN NOT NULL DEFAULT true,
+    max_rto_count INTEGER NOT NULL DEFAULT 1 CHECK (max_rto_count >= 1),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO cod_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_cod_settings_updated_at ON cod_settings;
+CREATE TRIGGER update_cod_settings_updated_at
+    BEFORE UPDATE ON cod_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE cod_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage COD settings" ON cod_settings;
+CREATE POLICY "Admins can manage COD settings"
+    ON cod_settings FOR ALL
+    USING (is_admin(auth.uid()))
+    WITH CHECK (is_admin(auth.uid()));
+
+-- ============================================
+-- Order columns
+-- ============================================
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cod_fee_cents INTEGER DEFAULT 0 CHECK (cod_fee_cents >= 0);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS phone_verified_at TIMESTAMP WITH TIME ZONE;
+-- Set when a COD parcel is refused at the door and returned to origin (RTO)
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS rto_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_orders_phone ON orders(phone);
+CREATE INDEX IF NOT EXISTS idx_orders_rto_at ON orders(rto_at) WHERE rto_at IS NOT NULL;
+
+-- ============================================
+-- Phone OTPs (server routes only; codes are stored hashed)
+-- ============================================
+CREATE TABLE IF NOT EXISTS phone_otps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    phone VARCHAR(15) NOT NULL,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phone_otps_phone_created_at ON phone_otps(phone, created_at DESC);
+
+ALTER TABLE phone_otps ENABLE ROW LEVEL SECURITY;
+
+-- Verify the settings row
+SELECT is_enabled, fee_cents, max_order_cents, blocked_pincodes, block_rto_customers, max_rto_count
+FROM cod_settings;
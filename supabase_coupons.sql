@@ -0,0 +1,72 @@
+-- ============================================
+-- COUPONS
+-- ============================================
+-- Promo codes applied at checkout. The discount is always computed on
+-- the server (lib/coupons/server.ts) and recorded on the order.
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS coupons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(50) UNIQUE NOT NULL CHECK (code = UPPER(code)),
+    description TEXT,
+    discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'flat', 'free_shipping', 'buy_x_get_y')),
+    -- percentage: 1-100, flat: amount in paise, unused for free_shipping / buy_x_get_y
+    discount_value INTEGER NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+    -- Cap for percentage discounts (paise); NULL means no cap
+    max_discount_cents INTEGER CHECK (max_discount_cents IS NULL OR max_discount_cents >= 0),
+    -- buy_x_get_y: buy this many eligible units...
+    buy_quantity INTEGER CHECK (buy_quantity IS NULL OR buy_quantity > 0),
+    -- ...and get this many of the cheapest ones free
+    get_quantity INTEGER CHECK (get_quantity IS NULL OR get_quantity > 0),
+    -- Limit the coupon to products in these categories/subcategories (empty = whole catalogue)
+    category_ids UUID[] NOT NULL DEFAULT '{}',
+    min_cart_cents INTEGER NOT NULL DEFAULT 0 CHECK (min_cart_cents >= 0),
+    -- NULL means unlimited
+    usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0),
+    per_customer_limit INTEGER CHECK (per_customer_limit IS NULL OR per_customer_limit > 0),
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT coupons_percentage_range CHECK (discount_type <> 'percentage' OR discount_value BETWEEN 1 AND 100),
+    CONSTRAINT coupons_buy_x_get_y_quantities CHECK (
+        discount_type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL)
+    ),
+    CONSTRAINT coupons_validity_window CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_code ON coupons(code);
+CREATE INDEX IF NOT EXISTS idx_coupons_is_active ON coupons(is_active);
+
+DROP TRIGGER IF EXISTS update_coupons_updated_at ON coupons;
+CREATE TRIGGER update_coupons_updated_at
+    BEFORE UPDATE ON coupons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Code applied to an order; usage limits count paid orders with the code
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS coupon_code VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_orders_coupon_code ON orders(coupon_code) WHERE coupon_code IS NOT NULL;
+
+COMMENT ON TABLE coupons IS 'Promo codes: percentage, flat, free shipping and buy-X-get-Y';
+COMMENT ON COLUMN orders.coupon_code IS 'Coupon applied at checkout; the discount is stored in discount_cents';
+
+-- ============================================
+-- RLS: coupons are managed by admins and read by server routes only
+-- ============================================
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage coupons" ON coupons;
+CREATE POLICY "Admins can manage coupons"
+    ON coupons FOR ALL
+    USING (is_admin(auth.uid()))
+    WITH CHECK (is_admin(auth.uid()));
+
+-- Verify the table
+SELECT code, discount_type, discount_value, is_active, starts_at, ends_at
+FROM coupons
+ORDER BY created_at DESC;
@@ -0,0 +1,189 @@
+-- ============================================
+-- ADMIN DASHBOARD AGGREGATES
+-- ============================================
+-- Sales, order and stock figures for /admin, computed in the database so
+-- the dashboard never pulls whole orders (or their items_json) into the
+-- app. Called from lib/dashboard/server.ts with the service role key.
+-- Run this in Supabase SQL Editor after supabase_inventory.sql,
+-- supabase_refunds.sql and supabase_order_lifecycle.sql
+-- ============================================
+
+-- A sale is an order the store has accepted: paid online or a verified COD
+-- order (status moved past pending), and not cancelled since.
+-- Net revenue is the order total less anything refunded.
+
+-- ============================================
+-- Revenue, order count and AOV since a point in time
+-- ============================================
+CREATE OR REPLACE FUNCTION dashboard_sales_since(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+    order_count BIGINT,
+    revenue_cents BIGINT,
+    aov_cents BIGINT
+) AS $$
+    SELECT
+        COUNT(*) AS order_count,
+        COALESCE(SUM(o.total_cents - COALESCE(o.refunded_cents, 0)), 0)::BIGINT AS revenue_cents,
+        COALESCE(ROUND(AVG(o.total_cents - COALESCE(o.refunded_cents, 0))), 0)::BIGINT AS aov_cents
+    FROM orders o
+    WHERE o.created_at >= p_since
+    AND o.status NOT IN ('pending', 'cancelled');
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- Orders by status
+-- ============================================
+-- Same orders as the admin orders list: paid, confirmed or COD. Abandoned
+-- online checkouts (pending, never paid) are left out.
+CREATE OR REPLACE FUNCTION dashboard_orders_by_status(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+    status TEXT,
+    order_count BIGINT
+) AS $$
+    SELECT o.status::TEXT, COUNT(*) AS order_count
+    FROM orders o
+    WHERE o.created_at >= p_since
+    AND (
+        o.payment_status IN ('paid', 'partially_refunded', 'refunded')
+        OR o.status = 'confirmed'
+        OR o.payment_method = 'cod'
+    )
+    GROUP BY o.status;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- Online payment attempts and failures
+-- ============================================
+-- An attempt is a Razorpay order the shopper paid or failed to pay;
+-- checkouts abandoned before paying are not attempts.
+CREATE OR REPLACE FUNCTION dashboard_payment_attempts(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+    attempts BIGINT,
+    failed BIGINT
+) AS $$
+    SELECT
+        COUNT(*) AS attempts,
+        COUNT(*) FILTER (WHERE o.payment_status = 'failed') AS failed
+    FROM orders o
+    WHERE o.created_at >= p_since
+    AND o.payment_method = 'razorpay'
+    AND o.payment_status IN ('paid', 'partially_refunded', 'refunded', 'failed');
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- Best-selling products from the order lines
+-- ============================================
+-- p_order_by: 'units' or 'revenue'. Line revenue is price x quantity as
+-- charged (items_json prices are in rupees).
+CREATE OR REPLACE FUNCTION dashboard_top_products(
+    p_since TIMESTAMP WITH TIME ZONE,
+    p_order_by TEXT DEFAULT 'units',
+    p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    product_id TEXT,
+    title TEXT,
+    units BIGINT,
+    revenue_cents BIGINT
+) AS $$
+    SELECT
+        line.product_id,
+        COALESCE(MAX(p.title), MAX(line.title)) AS title,
+        SUM(line.quantity)::BIGINT AS units,
+        SUM(line.gross_cents)::BIGINT AS revenue_cents
+    FROM (
+        SELECT
+            item ->> 'id' AS product_id,
+            item ->> 'title' AS title,
+            COALESCE((item ->> 'quantity')::INTEGER, 1) AS quantity,
+            ROUND(COALESCE((item ->> 'price')::NUMERIC, 0) * 100) * COALESCE((item ->> 'quantity')::INTEGER, 1) AS gross_cents
+        FROM orders o, jsonb_array_elements(o.items_json) AS item
+        WHERE o.created_at >= p_since
+        AND o.status NOT IN ('pending', 'cancelled')
+        AND jsonb_typeof(o.items_json) = 'array'
+    ) line
+    LEFT JOIN products p ON p.id::TEXT = line.product_id
+    WHERE line.product_id IS NOT NULL
+    GROUP BY line.product_id
+    ORDER BY
+        CASE WHEN p_order_by = 'revenue' THEN SUM(line.gross_cents) ELSE SUM(line.quantity) END DESC,
+        line.product_id
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- Best-selling categories from the order lines
+-- ============================================
+-- Lines are credited to the product's top-level category. Products that
+-- have since been deleted are grouped as "Uncategorised".
+CREATE OR REPLACE FUNCTION dashboard_top_categories(
+    p_since TIMESTAMP WITH TIME ZONE,
+    p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    category_id UUID,
+    name TEXT,
+    units BIGINT,
+    revenue_cents BIGINT
+) AS $$
+    SELECT
+        c.id AS category_id,
+        COALESCE(c.name::TEXT, 'Uncategorised') AS name,
+        SUM(line.quantity)::BIGINT AS units,
+        SUM(line.gross_cents)::BIGINT AS revenue_cents
+    FROM (
+        SELECT
+            item ->> 'id' AS product_id,
+            COALESCE((item ->> 'quantity')::INTEGER, 1) AS quantity,
+            ROUND(COALESCE((item ->> 'price')::NUMERIC, 0) * 100) * COALESCE((item ->> 'quantity')::INTEGER, 1) AS gross_cents
+        FROM orders o, jsonb_array_elements(o.items_json) AS item
+        WHERE o.created_at >= p_since
+        AND o.status NOT IN ('pending', 'cancelled')
+        AND jsonb_typeof(o.items_json) = 'array'
+    ) line
+    LEFT JOIN products p ON p.id::TEXT = line.product_id
+    LEFT JOIN categories c ON c.id = p.category_id
+    GROUP BY c.id, c.name
+    ORDER BY SUM(line.gross_cents) DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- Low stock
+-- ============================================
+-- Tracked sizes of active products at or below the threshold, emptiest
+-- first. Untracked sizes (missing from product_variants.stock) never show.
+CREATE OR REPLACE FUNCTION dashboard_low_stock(
+    p_threshold INTEGER DEFAULT 3,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    product_id UUID,
+    title TEXT,
+    color TEXT,
+    size TEXT,
+    quantity INTEGER
+) AS $$
+    SELECT
+        p.id AS product_id,
+        p.title::TEXT,
+        pv.color::TEXT,
+        s.key AS size,
+        COALESCE((s.value #>> '{}')::INTEGER, 0) AS quantity
+    FROM product_variants pv
+    JOIN products p ON p.id = pv.product_id
+    CROSS JOIN LATERAL jsonb_each(pv.stock) AS s
+    WHERE p.is_active = true
+    AND s.key = ANY (pv.sizes)
+    AND COALESCE((s.value #>> '{}')::INTEGER, 0) <= p_threshold
+    ORDER BY quantity ASC, p.title, pv.color, s.key
+    LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+-- Only the server (service role) reads the dashboard
+REVOKE EXECUTE ON FUNCTION dashboard_sales_since(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION dashboard_orders_by_status(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION dashboard_payment_attempts(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION dashboard_top_products(TIMESTAMP WITH TIME ZONE, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION dashboard_top_categories(TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION dashboard_low_stock(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,119 @@
+-- ============================================
+-- GST RATES AND TAX INVOICES
+-- ============================================
+-- GST is worked out on the server (lib/tax/server.ts) from HSN codes and
+-- rates set on categories or products. Catalogue prices include GST, so the
+-- tax is carved out of the amount paid rather than added on top.
+-- Paid orders get a sequential invoice number per financial year.
+-- Seller details on invoices come from .env.local: GST_SELLER_NAME,
+-- GST_SELLER_GSTIN, GST_SELLER_ADDRESS and GST_SELLER_STATE (the state
+-- decides CGST/SGST vs IGST, spelled as in lib/utils/indianStates.ts).
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+-- Category rules. Clothing is usually taxed on a price slab:
+-- gst_rate up to gst_slab_threshold_cents per piece, gst_rate_above_threshold above it
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS hsn_code VARCHAR(8);
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5,2) CHECK (gst_rate IS NULL OR (gst_rate >= 0 AND gst_rate <= 28));
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS gst_slab_threshold_cents INTEGER CHECK (gst_slab_threshold_cents IS NULL OR gst_slab_threshold_cents > 0);
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS gst_rate_above_threshold NUMERIC(5,2) CHECK (gst_rate_above_threshold IS NULL OR (gst_rate_above_threshold >= 0 AND gst_rate_above_threshold <= 28));
+
+-- Product overrides (a product gst_rate is a flat rate, no slab)
+ALTER TABLE products ADD COLUMN IF NOT EXISTS hsn_code VARCHAR(8);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5,2) CHECK (gst_rate IS NULL OR (gst_rate >= 0 AND gst_rate <= 28));
+
+COMMENT ON COLUMN categories.gst_rate IS 'GST % for products in this category; NULL inherits the parent category or the 5%/18% apparel default';
+COMMENT ON COLUMN products.gst_rate IS 'Flat GST % override for this product; NULL uses the category rule';
+
+-- Per-order tax split, stored when the order is priced
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_breakdown JSONB;
+/*
+Example tax_breakdown:
+{
+    "supply_type": "intra_state",
+    "seller_state": "Karnataka",
+    "place_of_supply": "Karnataka",
+    "lines": [
+        {"description": "Oversized Tee", "hsn_code": "6109", "quantity": 2, "gst_rate": 5,
+         "gross_cents": 199800, "taxable_cents": 190286, "cgst_cents": 4757, "sgst_cents": 4757, "igst_cents": 0}
+    ],
+    "shipping": null,
+    "cgst_cents": 4757,
+    "sgst_cents": 4757,
+    "igst_cents": 0,
+    "total_tax_cents": 9514
+}
+*/
+
+-- ============================================
+-- Invoice numbers: INV/<FY>/<000001>, e.g. INV/2627/000042 for FY 2026-27
+-- ============================================
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS invoice_number VARCHAR(16) UNIQUE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS invoiced_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+    financial_year VARCHAR(4) PRIMARY KEY, -- '2627' for April 2026 - March 2027
+    last_number INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only server routes (service role) touch the counters
+ALTER TABLE invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Give a paid order its invoice number. Idempotent: returns the existing
+-- number if the order already has one, NULL if the order isn't paid.
+-- The counter row is locked by the upsert, so numbers never repeat or skip.
+CREATE OR REPLACE FUNCTION assign_invoice_number(p_order_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_invoice_number TEXT;
+    v_now TIMESTAMP := NOW() AT TIME ZONE 'Asia/Kolkata';
+    v_start_year INTEGER;
+    v_financial_year TEXT;
+    v_next INTEGER;
+BEGIN
+    SELECT invoice_number INTO v_invoice_number
+    FROM orders
+    WHERE id = p_order_id
+      AND payment_status = 'paid'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_invoice_number IS NOT NULL THEN
+        RETURN v_invoice_number;
+    END IF;
+
+    -- Indian financial year runs April to March
+    v_start_year := EXTRACT(YEAR FROM v_now)::INTEGER - CASE WHEN EXTRACT(MONTH FROM v_now) < 4 THEN 1 ELSE 0 END;
+    v_financial_year := LPAD((v_start_year % 100)::TEXT, 2, '0') || LPAD(((v_start_year + 1) % 100)::TEXT, 2, '0');
+
+    INSERT INTO invoice_sequences (financial_year, last_number)
+    VALUES (v_financial_year, 1)
+    ON CONFLICT (financial_year)
+    DO UPDATE SET last_number = invoice_sequences.last_number + 1, updated_at = NOW()
+    RETURNING last_number INTO v_next;
+
+    v_invoice_number := 'INV/' || v_financial_year || '/' || LPAD(v_next::TEXT, 6, '0');
+
+    UPDATE orders
+    SET invoice_number = v_invoice_number,
+        invoiced_at = NOW()
+    WHERE id = p_order_id;
+
+    RETURN v_invoice_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the server (service role) numbers invoices
+REVOKE EXECUTE ON FUNCTION assign_invoice_number(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Verify the new columns
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'categories' AND column_name IN ('hsn_code', 'gst_rate', 'gst_slab_threshold_cents', 'gst_rate_above_threshold'))
+   OR (table_name = 'products' AND column_name IN ('hsn_code', 'gst_rate'))
+   OR (table_name = 'orders' AND column_name IN ('tax_breakdown', 'invoice_number', 'invoiced_at'))
+ORDER BY table_name, column_name;
@@ -0,0 +1,113 @@
+-- ============================================
+-- PER-SIZE INVENTORY
+-- ============================================
+-- Adds per-colour/per-size stock quantities to product_variants and
+-- the helpers used to decrement them when a paid order is confirmed.
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+-- Stock per size for each colour variant, e.g. {"S": 4, "M": 0, "L": 2}
+-- Sizes missing from the map are treated as untracked (always available)
+ALTER TABLE product_variants
+    ADD COLUMN IF NOT EXISTS stock JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Set once the items of a paid order have been deducted from stock.
+-- Guards against the verify route and the webhook both decrementing.
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS stock_deducted_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN product_variants.stock IS 'Quantity on hand per size (size -> integer). Sizes not present are untracked.';
+COMMENT ON COLUMN orders.stock_deducted_at IS 'When the order items were deducted from product_variants.stock. NULL means not yet deducted.';
+
+-- ============================================
+-- Recompute products.in_stock from variant stock
+-- ============================================
+-- A product is in stock while at least one of its variants has a size
+-- that is either untracked or has a positive quantity.
+CREATE OR REPLACE FUNCTION refresh_product_in_stock(p_product_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    -- Products without variants keep their manually managed in_stock flag
+    IF NOT EXISTS (SELECT 1 FROM product_variants WHERE product_id = p_product_id) THEN
+        RETURN;
+    END IF;
+
+    UPDATE products
+    SET in_stock = EXISTS (
+        SELECT 1
+        FROM product_variants pv, UNNEST(pv.sizes) AS size
+        WHERE pv.product_id = p_product_id
+        AND (
+            NOT (pv.stock ? size)
+            OR COALESCE((pv.stock ->> size)::INTEGER, 0) > 0
+        )
+    )
+    WHERE id = p_product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- Decrement stock for one variant size
+-- ============================================
+-- Untracked sizes are left alone. Quantities never go below zero.
+-- Returns what is left after taking p_quantity: negative when the size was
+-- short by that many pieces (stock itself stops at zero), or NULL when the
+-- size is untracked.
+CREATE OR REPLACE FUNCTION decrement_variant_stock(
+    p_variant_id UUID,
+    p_size TEXT,
+    p_quantity INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+    available INTEGER;
+BEGIN
+    SELECT COALESCE((stock ->> p_size)::INTEGER, 0) INTO available
+    FROM product_variants
+    WHERE id = p_variant_id
+    AND stock ? p_size
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE product_variants
+    SET stock = jsonb_set(stock, ARRAY[p_size], to_jsonb(GREATEST(available - p_quantity, 0)))
+    WHERE id = p_variant_id;
+
+    -- products.in_stock is refreshed by the sync_product_in_stock trigger below
+    RETURN available - p_quantity;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep products.in_stock in sync when admins edit variant stock
+CREATE OR REPLACE FUNCTION sync_product_in_stock_from_variant()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM refresh_product_in_stock(OLD.product_id);
+        RETURN OLD;
+    END IF;
+
+    PERFORM refresh_product_in_stock(NEW.product_id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_product_in_stock ON product_variants;
+CREATE TRIGGER sync_product_in_stock
+    AFTER INSERT OR UPDATE OF stock, sizes OR DELETE ON product_variants
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_product_in_stock_from_variant();
+
+-- Only the server (service role) and the trigger above change stock
+REVOKE EXECUTE ON FUNCTION refresh_product_in_stock(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION decrement_variant_stock(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_product_in_stock_from_variant() FROM PUBLIC, anon, authenticated;
+
+-- Verify the new column
+SELECT id, product_id, color, sizes, stock
+FROM product_variants
+ORDER BY product_id, display_order
+LIMIT 20;
@@ -0,0 +1,62 @@
+-- ============================================
+-- ORDER LIFECYCLE
+-- ============================================
+-- Status changes go through lib/orders/server.ts (transitionOrder), which
+-- enforces the allowed transitions in lib/orders/lifecycle.ts:
+--   pending    -> confirmed, cancelled
+--   confirmed  -> processing, shipped, cancelled
+--   processing -> shipped, cancelled
+--   shipped    -> delivered, returned
+--   delivered  -> returned
+-- cancelled and returned are final.
+-- Run this in Supabase SQL Editor after supabase_inventory.sql
+-- ============================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS returned_at TIMESTAMP WITH TIME ZONE;
+-- Set when a cancelled order's deducted stock was put back
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS stock_restocked_at TIMESTAMP WITH TIME ZONE;
+
+-- NOT VALID: existing rows aren't checked, new writes are
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+    CHECK (status IN ('pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled', 'returned'))
+    NOT VALID;
+
+-- ============================================
+-- Put stock back for one variant size
+-- ============================================
+-- Untracked sizes are left alone.
+-- Returns the new quantity, or NULL when the size is untracked.
+CREATE OR REPLACE FUNCTION increment_variant_stock(
+    p_variant_id UUID,
+    p_size TEXT,
+    p_quantity INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+    remaining INTEGER;
+BEGIN
+    UPDATE product_variants
+    SET stock = jsonb_set(
+        stock,
+        ARRAY[p_size],
+        to_jsonb(COALESCE((stock ->> p_size)::INTEGER, 0) + GREATEST(p_quantity, 0))
+    )
+    WHERE id = p_variant_id
+    AND stock ? p_size
+    RETURNING (stock ->> p_size)::INTEGER INTO remaining;
+
+    -- products.in_stock is refreshed by the sync_product_in_stock trigger
+    RETURN remaining;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the server (service role) puts stock back
+REVOKE EXECUTE ON FUNCTION increment_variant_stock(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Verify the new columns
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'orders'
+AND column_name IN ('cancelled_at', 'returned_at', 'stock_restocked_at');
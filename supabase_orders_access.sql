@@ -0,0 +1,70 @@
+-- ============================================
+-- ORDERS ACCESS
+-- ============================================
+-- Who can read orders straight from Supabase (with the public anon key or a
+-- signed-in session), and one order per Razorpay payment. The storefront reads orders through server routes
+-- (GET /api/orders, /api/orders/lookup) using the service role, so nothing
+-- needs public access:
+--   - "Public can view orders" (USING true) let anyone with the anon key
+--     list every customer's name, address and phone; it is dropped.
+--   - Customers see their own orders: the order's user_id, or for guest
+--     orders a confirmed email that matches (same rule as isCustomerOrder
+--     in lib/orders/customer.ts).
+--   - Staff keep "Admins can view all orders" (supabase_staff_roles.sql
+--     narrows it to staff with view_customer_pii; run it after this file).
+--   - Nobody inserts orders directly: "Anyone can create orders" let a
+--     browser write a paid, confirmed order with totals it chose. Checkout
+--     routes create orders with the service role after pricing them on
+--     the server (lib/pricing/server.ts).
+-- Run this in Supabase SQL Editor after supabase_rls_policies.sql and
+-- supabase_admin_orders_rls_fix.sql
+-- ============================================
+
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can view orders" ON orders;
+DROP POLICY IF EXISTS "Users can view their own orders" ON orders;
+
+DROP POLICY IF EXISTS "Customers can view their own orders" ON orders;
+CREATE POLICY "Customers can view their own orders"
+ON orders
+FOR SELECT
+TO authenticated
+USING (
+    orders.user_id = auth.uid()
+    OR (
+        orders.user_id IS NULL
+        AND EXISTS (
+            SELECT 1
+            FROM auth.users
+            WHERE auth.users.id = auth.uid()
+            AND auth.users.email_confirmed_at IS NOT NULL
+            AND lower(auth.users.email) = lower(orders.email)
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "Admins can view all orders" ON orders;
+CREATE POLICY "Admins can view all orders"
+ON orders
+FOR SELECT
+TO authenticated
+USING (is_admin_or_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Anyone can create orders" ON orders;
+
+-- ============================================
+-- One order per Razorpay payment
+-- ============================================
+-- /api/razorpay/verify returns the existing order for a payment it has
+-- already booked; this stops a replayed payment becoming a second order.
+-- If it fails on existing data, find the duplicates with:
+--   SELECT payment_id, array_agg(order_number) FROM orders
+--   WHERE payment_id IS NOT NULL GROUP BY payment_id HAVING COUNT(*) > 1;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_payment_id_unique ON orders(payment_id) WHERE payment_id IS NOT NULL;
+
+-- Verify the orders policies
+SELECT policyname, roles, cmd, qual
+FROM pg_policies
+WHERE tablename = 'orders'
+ORDER BY policyname;
@@ -0,0 +1,25 @@
+-- ============================================
+-- ORDERS REALTIME
+-- ============================================
+-- The admin orders page listens for order changes (customer cancellations,
+-- payments, refunds) through subscribeToOrdersRealtime in
+-- lib/supabase/orders.ts. Supabase only broadcasts tables that are part of
+-- the supabase_realtime publication; admins receive the changes their
+-- orders SELECT policy lets them see (supabase_admin_orders_rls_fix.sql).
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'orders'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE orders;
+    END IF;
+END $$;
+
+-- Verify orders is published
+SELECT pubname, schemaname, tablename
+FROM pg_publication_tables
+WHERE pubname = 'supabase_realtime' AND tablename = 'orders';
@@ -0,0 +1,51 @@
+-- ============================================
+-- PAYMENT EVENTS (RAZORPAY WEBHOOK LOG)
+-- ============================================
+-- Every webhook that passes signature verification is stored here before
+-- it is processed, keyed by Razorpay's event id (X-Razorpay-Event-Id), so
+-- duplicate deliveries are skipped and failures can be inspected and
+-- re-run from /admin/payment-events.
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS payment_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id VARCHAR(255) NOT NULL UNIQUE,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    -- processing: being handled now; ignored: event type we don't act on or no matching order
+    status VARCHAR(20) NOT NULL DEFAULT 'processing'
+        CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 1,
+    error TEXT,
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    razorpay_payment_id VARCHAR(255),
+    razorpay_order_id VARCHAR(255),
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_status_received_at ON payment_events(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_events_order_id ON payment_events(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment_id ON payment_events(razorpay_payment_id);
+
+DROP TRIGGER IF EXISTS update_payment_events_updated_at ON payment_events;
+CREATE TRIGGER update_payment_events_updated_at
+    BEFORE UPDATE ON payment_events
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Written by the webhook route (service role); admins can read
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view payment events" ON payment_events;
+CREATE POLICY "Admins can view payment events"
+    ON payment_events FOR SELECT
+    USING (is_admin(auth.uid()));
+
+-- Verify the new table
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'payment_events'
+ORDER BY ordinal_position;
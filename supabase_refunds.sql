@@ -0,0 +1,55 @@
+-- ============================================
+-- RAZORPAY REFUNDS
+-- ============================================
+-- Refunds are started from /admin/orders (full, partial amount or per item)
+-- and sent to Razorpay by lib/refunds/server.ts. Their progress arrives
+-- through the refund.created / refund.processed / refund.failed webhooks.
+-- Orders move to payment_status 'partially_refunded' or 'refunded'.
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS order_refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    razorpay_payment_id VARCHAR(255) NOT NULL,
+    -- NULL until Razorpay accepts the refund
+    razorpay_refund_id VARCHAR(255) UNIQUE,
+    amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processed', 'failed')),
+    reason TEXT,
+    -- Refunded lines: [{ "index": 0, "id": "...", "title": "...", "variant": "...", "quantity": 1, "amount_cents": 49900 }]
+    -- Empty for amount-only refunds
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    failure_reason TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order_id ON order_refunds(order_id);
+
+DROP TRIGGER IF EXISTS update_order_refunds_updated_at ON order_refunds;
+CREATE TRIGGER update_order_refunds_updated_at
+    BEFORE UPDATE ON order_refunds
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE order_refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage refunds" ON order_refunds;
+CREATE POLICY "Admins can manage refunds"
+    ON order_refunds FOR ALL
+    USING (is_admin(auth.uid()))
+    WITH CHECK (is_admin(auth.uid()));
+
+-- Running total of refunds that haven't failed (pending or processed)
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_cents INTEGER DEFAULT 0 CHECK (refunded_cents >= 0);
+
+COMMENT ON COLUMN orders.payment_status IS 'pending, paid, failed, cancelled, partially_refunded, refunded';
+
+-- Verify the new table
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'order_refunds'
+ORDER BY ordinal_position;
@@ -0,0 +1,161 @@
+-- ============================================
+-- RETURNS AND EXCHANGES
+-- ============================================
+-- Customers request a return or size exchange for delivered items from
+-- /order-history within the return window. Admins work the queue at
+-- /admin/returns: approve or reject, record the reverse pickup, mark the
+-- parcel received (stock goes back) and close the case with a refund,
+-- store credit (a single-use coupon for the customer) or an exchange order.
+-- All reads and writes go through server routes (lib/returns/server.ts).
+-- Run this in Supabase SQL Editor after supabase_coupons.sql and
+-- supabase_order_lifecycle.sql
+-- ============================================
+
+-- Single-row settings table
+CREATE TABLE IF NOT EXISTS return_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    is_enabled BOOLEAN NOT NULL DEFAULT false,
+    -- Days after delivery during which a request can be made
+    window_days INTEGER NOT NULL DEFAULT 7 CHECK (window_days BETWEEN 1 AND 90),
+    allow_exchanges BOOLEAN NOT NULL DEFAULT true,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO return_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_return_settings_updated_at ON return_settings;
+CREATE TRIGGER update_return_settings_updated_at
+    BEFORE UPDATE ON return_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE return_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage return settings" ON return_settings;
+CREATE POLICY "Admins can manage return settings"
+    ON return_settings FOR ALL
+    USING (is_admin(auth.uid()))
+    WITH CHECK (is_admin(auth.uid()));
+
+-- ============================================
+-- Return requests
+-- ============================================
+CREATE TABLE IF NOT EXISTS return_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    email VARCHAR(255) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('return', 'exchange')),
+    status VARCHAR(20) NOT NULL DEFAULT 'requested'
+        CHECK (status IN ('requested', 'approved', 'rejected', 'pickup_scheduled', 'received', 'completed')),
+    -- [{ index, id, title, variant, quantity, exchange_size }] (index = position in orders.items_json)
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    reason VARCHAR(50) NOT NULL,
+    note TEXT,
+    -- Object paths in the private return-photos bucket
+    photo_paths TEXT[] NOT NULL DEFAULT '{}',
+    admin_note TEXT,
+    pickup_courier VARCHAR(100),
+    pickup_tracking_number VARCHAR(100),
+    pickup_scheduled_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE,
+    resolution VARCHAR(20) CHECK (resolution IN ('refund', 'store_credit', 'exchange')),
+    refund_id UUID REFERENCES order_refunds(id) ON DELETE SET NULL,
+    credit_coupon_code VARCHAR(50),
+    exchange_order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_return_requests_order_id ON return_requests(order_id);
+CREATE INDEX IF NOT EXISTS idx_return_requests_status_created_at ON return_requests(status, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_return_requests_updated_at ON return_requests;
+CREATE TRIGGER update_return_requests_updated_at
+    BEFORE UPDATE ON return_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE return_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view return requests" ON return_requests;
+CREATE POLICY "Admins can view return requests"
+    ON return_requests FOR SELECT
+    USING (is_admin(auth.uid()));
+
+COMMENT ON TABLE return_requests IS 'Customer return and size exchange requests for delivered orders';
+
+-- Open a request unless it would take a line past what was ordered: counts
+-- the pieces already in requests that weren't rejected. The order row is
+-- locked so two submissions for the same order are checked one at a time.
+-- Returns the new request's id, or NULL when a line has too few pieces left.
+CREATE OR REPLACE FUNCTION create_return_request(
+    p_order_id UUID,
+    p_user_id UUID,
+    p_email TEXT,
+    p_type TEXT,
+    p_items JSONB,
+    p_reason TEXT,
+    p_note TEXT,
+    p_photo_paths TEXT[]
+)
+RETURNS UUID AS $$
+DECLARE
+    order_items JSONB;
+    item JSONB;
+    already_requested INTEGER;
+    request_id UUID;
+BEGIN
+    SELECT items_json INTO order_items
+    FROM orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF order_items IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    FOR item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        SELECT COALESCE(SUM((line ->> 'quantity')::INTEGER), 0) INTO already_requested
+        FROM return_requests r
+        CROSS JOIN jsonb_array_elements(r.items) AS line
+        WHERE r.order_id = p_order_id
+        AND r.status <> 'rejected'
+        AND (line ->> 'index')::INTEGER = (item ->> 'index')::INTEGER;
+
+        IF already_requested + (item ->> 'quantity')::INTEGER
+            > COALESCE((order_items -> ((item ->> 'index')::INTEGER) ->> 'quantity')::INTEGER, 0) THEN
+            RETURN NULL;
+        END IF;
+    END LOOP;
+
+    INSERT INTO return_requests (order_id, user_id, email, type, items, reason, note, photo_paths)
+    VALUES (p_order_id, p_user_id, p_email, p_type, p_items, p_reason, p_note, p_photo_paths)
+    RETURNING id INTO request_id;
+
+    RETURN request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the server (service role) opens requests
+REVOKE EXECUTE ON FUNCTION create_return_request(UUID, UUID, TEXT, TEXT, JSONB, TEXT, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Store credit: coupons that only one customer can redeem
+-- ============================================
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS customer_email VARCHAR(255);
+
+COMMENT ON COLUMN coupons.customer_email IS 'Only this customer can use the coupon (store credit issued for a return)';
+
+-- ============================================
+-- Photo storage (private; admins see signed URLs)
+-- ============================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('return-photos', 'return-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Verify the settings row and table
+SELECT is_enabled, window_days, allow_exchanges FROM return_settings;
+SELECT COUNT(*) AS return_requests FROM return_requests;
@@ -224,14 +224,9 @@ USING (is_admin(auth.uid()));
 -- 8. ORDERS POLICIES
 -- ============================================
 
--- Public INSERT: Anyone (including guests/anonymous) can create orders
--- This is essential for checkout flow where users may not be authenticated
+-- No INSERT policy: orders are created by the checkout routes with the
+-- service role, which prices them on the server (see supabase_orders_access.sql)
 DROP POLICY IF EXISTS "Anyone can create orders" ON orders;
-CREATE POLICY "Anyone can create orders"
-ON orders
-FOR INSERT
-TO public
-WITH CHECK (true);
 
 -- Allow authenticated users to view their own orders by email
 -- This allows customers to view their order confirmation
@@ -253,16 +248,9 @@ USING (
     )
 );
 
--- Allow public/anon key to read orders (for order confirmation page)
--- NOTE: Order IDs are UUIDs which are hard to guess, providing basic security
--- For production, consider adding additional validation in your API routes
--- or requiring authentication to view order details
+-- No public read access: orders are read through server routes with the
+-- service role (see supabase_orders_access.sql)
 DROP POLICY IF EXISTS "Public can view orders" ON orders;
-CREATE POLICY "Public can view orders"
-ON orders
-FOR SELECT
-TO public
-USING (true);
 
 -- Admin/Staff only: UPDATE
 DROP POLICY IF EXISTS "Only admin/staff can update orders" ON orders;
@@ -25,8 +25,8 @@ FROM pg_policies
 WHERE tablename = 'orders'
 ORDER BY policyname;
 
--- Test if public can insert (should return true if policy works)
--- This query checks if the policy exists and allows public inserts
+-- Public inserts must be off (should return false): orders are created by
+-- server routes with the service role
 SELECT 
     EXISTS (
         SELECT 1 
@@ -0,0 +1,35 @@
+-- ============================================
+-- SHIPMENTS & COURIER TRACKING
+-- ============================================
+-- Orders booked through a courier integration (lib/couriers/server.ts)
+-- remember which adapter booked them and the latest tracking scans.
+-- The AWB itself is stored in orders.tracking_number.
+--
+-- Configuration (.env.local):
+--   COURIER_PROVIDER=fake            courier adapter id; defaults to the
+--                                    fake courier outside production
+--   FAKE_COURIER_STEP_MINUTES=2      fake courier: minutes between scans
+--   CRON_SECRET=...                  for /api/cron/sync-tracking
+--
+-- Poll tracking on a schedule (e.g. every 30 minutes) by calling
+-- /api/cron/sync-tracking with `Authorization: Bearer <CRON_SECRET>`,
+-- or run: node scripts/sync-tracking.js
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS courier_id VARCHAR(50);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tracking_status VARCHAR(30);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tracking_events JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tracking_checked_at TIMESTAMP WITH TIME ZONE;
+
+-- Tracking sync picks open courier shipments, least recently checked first
+CREATE INDEX IF NOT EXISTS idx_orders_courier_tracking
+    ON orders(tracking_checked_at NULLS FIRST)
+    WHERE courier_id IS NOT NULL AND status IN ('confirmed', 'processing', 'shipped');
+
+-- Verify the columns exist
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'orders'
+AND column_name IN ('courier_id', 'tracking_status', 'tracking_events', 'tracking_checked_at')
+ORDER BY column_name;
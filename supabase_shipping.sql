@@ -0,0 +1,84 @@
+-- ============================================
+-- SHIPPING ZONES AND WEIGHT SLABS
+-- ============================================
+-- Shipping is priced on the server (lib/shipping/server.ts) from the
+-- cart weight (products.weight_grams) and the delivery PIN code / state.
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) UNIQUE NOT NULL,
+    -- A delivery matches the zone when its PIN code starts with one of these...
+    pincode_prefixes TEXT[] NOT NULL DEFAULT '{}',
+    -- ...or when its state is one of these
+    states TEXT[] NOT NULL DEFAULT '{}',
+    -- Used when no other zone matches (exactly one zone should be the default)
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    -- Ordered weight slabs, e.g. [{"max_grams": 500, "rate_cents": 4900}, {"max_grams": null, "rate_cents": 9900}]
+    -- max_grams NULL means "anything heavier"
+    weight_slabs JSONB NOT NULL DEFAULT '[]'::jsonb,
+    -- Orders with a subtotal at or above this ship free; NULL means never free
+    free_shipping_threshold_cents INTEGER CHECK (free_shipping_threshold_cents IS NULL OR free_shipping_threshold_cents >= 0),
+    -- Higher priority zones are checked first when several match
+    priority INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shipping_zones_single_default
+    ON shipping_zones(is_default)
+    WHERE is_default;
+
+DROP TRIGGER IF EXISTS update_shipping_zones_updated_at ON shipping_zones;
+CREATE TRIGGER update_shipping_zones_updated_at
+    BEFORE UPDATE ON shipping_zones
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE shipping_zones IS 'Shipping zones matched by PIN code prefix or state, each with weight slabs';
+COMMENT ON COLUMN products.weight_grams IS 'Shipping weight in grams; products without a weight count as 500 g';
+
+-- ============================================
+-- RLS: zones are managed by admins and read by server routes only
+-- ============================================
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage shipping zones" ON shipping_zones;
+CREATE POLICY "Admins can manage shipping zones"
+    ON shipping_zones FOR ALL
+    USING (is_admin(auth.uid()))
+    WITH CHECK (is_admin(auth.uid()));
+
+-- ============================================
+-- Starter zones (edit rates from /admin/shipping)
+-- ============================================
+-- PIN prefixes: 78/79 North East, 18/19 Jammu & Kashmir and Ladakh,
+-- 744 Andaman & Nicobar, 68255 Lakshadweep
+INSERT INTO shipping_zones (name, pincode_prefixes, states, is_default, weight_slabs, free_shipping_threshold_cents, priority)
+VALUES
+    (
+        'Rest of India',
+        '{}',
+        '{}',
+        true,
+        '[{"max_grams": 500, "rate_cents": 4900}, {"max_grams": 1000, "rate_cents": 6900}, {"max_grams": 2000, "rate_cents": 9900}, {"max_grams": null, "rate_cents": 14900}]',
+        99900,
+        0
+    ),
+    (
+        'North East, J&K and Islands',
+        '{78,79,18,19,744,68255}',
+        '{Arunachal Pradesh,Assam,Manipur,Meghalaya,Mizoram,Nagaland,Sikkim,Tripura,Jammu and Kashmir,Ladakh,Andaman and Nicobar Islands,Lakshadweep}',
+        false,
+        '[{"max_grams": 500, "rate_cents": 9900}, {"max_grams": 1000, "rate_cents": 14900}, {"max_grams": 2000, "rate_cents": 19900}, {"max_grams": null, "rate_cents": 29900}]',
+        199900,
+        10
+    )
+ON CONFLICT (name) DO NOTHING;
+
+-- Verify the zones
+SELECT name, pincode_prefixes, is_default, free_shipping_threshold_cents, priority, is_active
+FROM shipping_zones
+ORDER BY priority DESC, name;
@@ -0,0 +1,213 @@
+-- ============================================
+-- STAFF ROLES AND PERMISSIONS
+-- ============================================
+-- Replaces the single 'admin' role with staff roles, each with its own
+-- permissions (see lib/auth/permissions.ts, which has_permission() mirrors):
+--   owner            everything, including settings and staff
+--   catalog_manager  edit_products, change_prices
+--   fulfilment       update_order_status, view_customer_pii
+--   support          update_order_status, issue_refunds, view_customer_pii
+-- Existing admins become owners. API routes check permissions in
+-- requireAdmin(); the policies below cover what admin pages read and write
+-- straight to Supabase (orders, the catalogue and product images).
+-- Run this in Supabase SQL Editor after supabase_rls_policies.sql,
+-- supabase_admin_orders_rls_fix.sql, supabase_orders_access.sql and
+-- supabase_storage_policies.sql
+-- ============================================
+
+-- 1. Roles
+ALTER TABLE user_roles DROP CONSTRAINT IF EXISTS user_roles_role_check;
+UPDATE user_roles SET role = 'owner' WHERE role = 'admin';
+ALTER TABLE user_roles ADD CONSTRAINT user_roles_role_check
+    CHECK (role IN ('owner', 'catalog_manager', 'fulfilment', 'support', 'user'));
+
+COMMENT ON COLUMN user_roles.role IS 'owner, catalog_manager, fulfilment, support (staff) or user (customer). Default is user.';
+
+-- 2. Permission check (keep in step with ROLE_PERMISSIONS in lib/auth/permissions.ts)
+CREATE OR REPLACE FUNCTION has_permission(user_uuid UUID, p_permission TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_role TEXT;
+BEGIN
+    SELECT role INTO v_role FROM user_roles WHERE user_id = user_uuid;
+
+    RETURN CASE v_role
+        WHEN 'owner' THEN true
+        WHEN 'catalog_manager' THEN p_permission IN ('edit_products', 'change_prices')
+        WHEN 'fulfilment' THEN p_permission IN ('update_order_status', 'view_customer_pii')
+        WHEN 'support' THEN p_permission IN ('update_order_status', 'issue_refunds', 'view_customer_pii')
+        ELSE false
+    END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Policies on settings tables use is_admin(): those stay with the owner
+CREATE OR REPLACE FUNCTION is_admin(user_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM user_roles
+        WHERE user_id = user_uuid
+        AND role = 'owner'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_admin_or_staff(user_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1
+        FROM user_roles
+        WHERE user_id = user_uuid
+        AND role IN ('owner', 'catalog_manager', 'fulfilment', 'support')
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3. Everyone can read their own role (the admin UI and API routes look it up)
+DROP POLICY IF EXISTS "Users can view their own role" ON user_roles;
+CREATE POLICY "Users can view their own role"
+ON user_roles
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- 4. Catalogue writes need edit_products
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY['categories', 'products', 'banners'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Only admin can insert %1$s" ON %1$I', v_table);
+        EXECUTE format('DROP POLICY IF EXISTS "Only admin can update %1$s" ON %1$I', v_table);
+        EXECUTE format('DROP POLICY IF EXISTS "Only admin can delete %1$s" ON %1$I', v_table);
+    END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Public can insert product images" ON product_images;
+DROP POLICY IF EXISTS "Public can update product images" ON product_images;
+DROP POLICY IF EXISTS "Public can delete product images" ON product_images;
+DROP POLICY IF EXISTS "Public can insert product variants" ON product_variants;
+DROP POLICY IF EXISTS "Public can update product variants" ON product_variants;
+DROP POLICY IF EXISTS "Public can delete product variants" ON product_variants;
+
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY['categories', 'products', 'banners', 'product_images', 'product_variants'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Catalog editors can insert %1$s" ON %1$I', v_table);
+        EXECUTE format(
+            'CREATE POLICY "Catalog editors can insert %1$s" ON %1$I FOR INSERT TO authenticated
+             WITH CHECK (has_permission(auth.uid(), ''edit_products''))',
+            v_table
+        );
+        EXECUTE format('DROP POLICY IF EXISTS "Catalog editors can update %1$s" ON %1$I', v_table);
+        EXECUTE format(
+            'CREATE POLICY "Catalog editors can update %1$s" ON %1$I FOR UPDATE TO authenticated
+             USING (has_permission(auth.uid(), ''edit_products''))
+             WITH CHECK (has_permission(auth.uid(), ''edit_products''))',
+            v_table
+        );
+        EXECUTE format('DROP POLICY IF EXISTS "Catalog editors can delete %1$s" ON %1$I', v_table);
+        EXECUTE format(
+            'CREATE POLICY "Catalog editors can delete %1$s" ON %1$I FOR DELETE TO authenticated
+             USING (has_permission(auth.uid(), ''edit_products''))',
+            v_table
+        );
+    END LOOP;
+END $$;
+
+-- Product image files (category images go through the service role API)
+DROP POLICY IF EXISTS "Public can upload product images" ON storage.objects;
+DROP POLICY IF EXISTS "Public can update product images" ON storage.objects;
+DROP POLICY IF EXISTS "Public can delete product images" ON storage.objects;
+
+DROP POLICY IF EXISTS "Catalog editors can upload product images" ON storage.objects;
+CREATE POLICY "Catalog editors can upload product images"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'product-images' AND has_permission(auth.uid(), 'edit_products'));
+
+DROP POLICY IF EXISTS "Catalog editors can update product images" ON storage.objects;
+CREATE POLICY "Catalog editors can update product images"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'product-images' AND has_permission(auth.uid(), 'edit_products'))
+WITH CHECK (bucket_id = 'product-images' AND has_permission(auth.uid(), 'edit_products'));
+
+DROP POLICY IF EXISTS "Catalog editors can delete product images" ON storage.objects;
+CREATE POLICY "Catalog editors can delete product images"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'product-images' AND has_permission(auth.uid(), 'edit_products'));
+
+-- 5. Staff reading orders need view_customer_pii (the realtime feed on
+-- /admin/orders and the dashboard goes through this policy, so catalog
+-- managers get no live orders); changing them needs update_order_status.
+-- Customers read their own orders through "Customers can view their own
+-- orders" (supabase_orders_access.sql).
+DROP POLICY IF EXISTS "Users can view their own orders" ON orders;
+DROP POLICY IF EXISTS "Admins can view all orders" ON orders;
+CREATE POLICY "Admins can view all orders"
+ON orders
+FOR SELECT
+TO authenticated
+USING (has_permission(auth.uid(), 'view_customer_pii'));
+
+DROP POLICY IF EXISTS "Only admin/staff can update orders" ON orders;
+CREATE POLICY "Only admin/staff can update orders"
+ON orders
+FOR UPDATE
+TO authenticated
+USING (has_permission(auth.uid(), 'update_order_status'))
+WITH CHECK (has_permission(auth.uid(), 'update_order_status'));
+
+-- 6. Price changes need change_prices (server code using the service role has no auth.uid())
+CREATE OR REPLACE FUNCTION guard_product_price_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.price_cents IS DISTINCT FROM OLD.price_cents
+        AND auth.uid() IS NOT NULL
+        AND NOT has_permission(auth.uid(), 'change_prices') THEN
+        RAISE EXCEPTION 'Your role is not allowed to change prices'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_product_price_change ON products;
+CREATE TRIGGER guard_product_price_change
+    BEFORE UPDATE OF price_cents ON products
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_product_price_change();
+
+-- 7. Staff screen helpers (service role only: they read auth.users)
+CREATE OR REPLACE FUNCTION list_staff()
+RETURNS TABLE (
+    user_id UUID,
+    email TEXT,
+    role TEXT,
+    invited_at TIMESTAMP WITH TIME ZONE,
+    last_sign_in_at TIMESTAMP WITH TIME ZONE
+) AS $$
+    SELECT r.user_id, u.email::TEXT, r.role, r.created_at, u.last_sign_in_at
+    FROM user_roles r
+    JOIN auth.users u ON u.id = r.user_id
+    WHERE r.role <> 'user'
+    ORDER BY r.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION find_user_id_by_email(p_email TEXT)
+RETURNS UUID AS $$
+    SELECT id FROM auth.users WHERE lower(email) = lower(trim(p_email)) LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION list_staff() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION find_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,155 @@
+-- ============================================
+-- STOCK RESERVATIONS DURING CHECKOUT
+-- ============================================
+-- Holds the items of a draft order while the shopper is paying so two
+-- people can't both pay for the last piece (one-off thrift items).
+--
+-- Reserving takes the quantity out of product_variants.stock straight
+-- away, so the storefront shows the size (and products.in_stock) as sold
+-- out while it is held. Releasing puts the quantity back; committing
+-- makes the hold permanent once payment is captured.
+--
+-- Run this in Supabase SQL Editor after supabase_inventory.sql
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    variant_id UUID NOT NULL REFERENCES product_variants(id) ON DELETE CASCADE,
+    size TEXT NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'released', 'committed')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    released_at TIMESTAMP WITH TIME ZONE,
+    committed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_order_id ON stock_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_active_expiry
+    ON stock_reservations(expires_at)
+    WHERE status = 'active';
+
+-- Reservations are only touched by server routes using the service role
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE stock_reservations IS 'Stock held for draft orders while payment is in progress';
+COMMENT ON COLUMN stock_reservations.status IS 'active (held), released (returned to stock), committed (paid)';
+
+-- ============================================
+-- Reserve one variant size for an order
+-- ============================================
+-- Returns TRUE when the quantity was reserved or the size is untracked,
+-- FALSE when there isn't enough stock left.
+CREATE OR REPLACE FUNCTION reserve_variant_stock(
+    p_order_id UUID,
+    p_variant_id UUID,
+    p_size TEXT,
+    p_quantity INTEGER,
+    p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    current_stock JSONB;
+    available INTEGER;
+BEGIN
+    -- Lock the variant row so concurrent checkouts queue up here
+    SELECT stock INTO current_stock
+    FROM product_variants
+    WHERE id = p_variant_id
+    FOR UPDATE;
+
+    IF current_stock IS NULL OR NOT (current_stock ? p_size) THEN
+        RETURN TRUE;
+    END IF;
+
+    available := COALESCE((current_stock ->> p_size)::INTEGER, 0);
+    IF available < p_quantity THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE product_variants
+    SET stock = jsonb_set(stock, ARRAY[p_size], to_jsonb(available - p_quantity))
+    WHERE id = p_variant_id;
+
+    INSERT INTO stock_reservations (order_id, variant_id, size, quantity, expires_at)
+    VALUES (p_order_id, p_variant_id, p_size, p_quantity, p_expires_at);
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- Return held quantities to stock
+-- ============================================
+-- Releases the active reservations of one order, or every expired
+-- reservation when p_order_id is NULL. Returns how many were released.
+CREATE OR REPLACE FUNCTION release_stock_reservations(p_order_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+    reservation RECORD;
+    released_count INTEGER := 0;
+BEGIN
+    FOR reservation IN
+        SELECT id, variant_id, size, quantity
+        FROM stock_reservations
+        WHERE status = 'active'
+        AND (
+            (p_order_id IS NOT NULL AND order_id = p_order_id)
+            OR (p_order_id IS NULL AND expires_at < NOW())
+        )
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        UPDATE product_variants
+        SET stock = jsonb_set(
+            stock,
+            ARRAY[reservation.size],
+            to_jsonb(COALESCE((stock ->> reservation.size)::INTEGER, 0) + reservation.quantity)
+        )
+        WHERE id = reservation.variant_id
+        AND stock ? reservation.size;
+
+        UPDATE stock_reservations
+        SET status = 'released', released_at = NOW()
+        WHERE id = reservation.id;
+
+        released_count := released_count + 1;
+    END LOOP;
+
+    RETURN released_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- Make an order's holds permanent once it is paid
+-- ============================================
+-- Returns how many reservations were committed. Reservations that already
+-- expired are not revived; the caller deducts those lines again.
+CREATE OR REPLACE FUNCTION commit_stock_reservations(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    committed_count INTEGER;
+BEGIN
+    UPDATE stock_reservations
+    SET status = 'committed', committed_at = NOW()
+    WHERE order_id = p_order_id
+    AND status = 'active';
+
+    GET DIAGNOSTICS committed_count = ROW_COUNT;
+    RETURN committed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the server (service role) holds and releases stock
+REVOKE EXECUTE ON FUNCTION reserve_variant_stock(UUID, UUID, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_stock_reservations(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION commit_stock_reservations(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Expired holds are released lazily whenever a new draft order reserves
+-- stock. With pg_cron enabled you can also sweep them every minute:
+--   SELECT cron.schedule('release-expired-stock', '* * * * *', 'SELECT release_stock_reservations()');
+
+-- Verify the table
+SELECT status, COUNT(*) AS reservations
+FROM stock_reservations
+GROUP BY status;
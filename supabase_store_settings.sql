@@ -0,0 +1,43 @@
+-- ============================================
+-- STORE SETTINGS
+-- ============================================
+-- Store name, contact details, brand colour and About text shown across
+-- the storefront. Edited from /admin/settings and read by the root layout
+-- (lib/store-settings/server.ts), so every visitor sees the same values.
+-- Run this in Supabase SQL Editor after supabase_schema.sql
+-- ============================================
+
+-- Single-row settings table
+CREATE TABLE IF NOT EXISTS store_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    store_name TEXT NOT NULL DEFAULT 'Add2Cart' CHECK (char_length(store_name) BETWEEN 1 AND 100),
+    contact_email TEXT NOT NULL DEFAULT 'add2cart.ind@gmail.com',
+    contact_phone TEXT NOT NULL DEFAULT '+91 96916 66180',
+    -- Drives the Tailwind `primary` colour through the --color-primary CSS variable
+    primary_color TEXT NOT NULL DEFAULT '#000000' CHECK (primary_color ~ '^#[0-9A-Fa-f]{6}$'),
+    about_text_1 TEXT NOT NULL DEFAULT 'At Add2Cart, we redefine affordable fashion with a curated mix of thrifted and new apparel. Our goal is to make sustainable style accessible to everyone—offering premium quality, trending streetwear, and timeless classics at honest prices.',
+    about_text_2 TEXT NOT NULL DEFAULT 'We believe every piece has a story—and we''re here to help you wear yours with confidence.',
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO store_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_store_settings_updated_at ON store_settings;
+CREATE TRIGGER update_store_settings_updated_at
+    BEFORE UPDATE ON store_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE store_settings ENABLE ROW LEVEL SECURITY;
+
+-- Everything here is shown publicly on the storefront
+DROP POLICY IF EXISTS "Anyone can read store settings" ON store_settings;
+CREATE POLICY "Anyone can read store settings"
+    ON store_settings FOR SELECT
+    USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage store settings" ON store_settings;
+CREATE POLICY "Admins can manage store settings"
+    ON store_settings FOR ALL
+    USING (is_admin(auth.uid()))
+    WITH CHECK (is_admin(auth.uid()));
@@ -9,7 +9,8 @@ module.exports = {
     extend: {
       colors: {
         base: '#E0E0E0',
-        primary: '#000000',
+        // Set from store_settings.primary_color by app/layout.tsx
+        primary: 'rgb(var(--color-primary) / <alpha-value>)',
       },
     },
   },